@@ -13,6 +13,9 @@ import Comparison from "@/pages/comparison";
 import Album from "@/pages/album";
 import BulkUpload from "@/pages/bulk-upload";
 import EmailPreferences from "@/pages/email-preferences";
+import ScoringProfiles from "@/pages/scoring-profiles";
+import Shared from "@/pages/shared";
+import Invite from "@/pages/invite";
 
 // Get Kinde configuration from environment
 const KINDE_DOMAIN = import.meta.env.VITE_KINDE_DOMAIN;
@@ -100,6 +103,20 @@ function Router() {
             <EmailPreferences />
           </ProtectedRoute>
         </Route>
+        <Route path="/scoring-profiles">
+          <ProtectedRoute>
+            <ScoringProfiles />
+          </ProtectedRoute>
+        </Route>
+        <Route path="/invite/:token">
+          <ProtectedRoute>
+            <Invite />
+          </ProtectedRoute>
+        </Route>
+        {/* Share links open without signing in */}
+        <Route path="/share/:token">
+          <Shared />
+        </Route>
         <Route component={NotFound} />
       </Switch>
     </>
@@ -9,13 +9,15 @@ import {
   Brain,
   X,
   RefreshCw,
-  Clock
+  Clock,
+  Download
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
+import { SessionExportDialog } from "@/components/SessionExportDialog";
 
 export interface AnalysisError {
   photoId: string;
@@ -25,7 +27,7 @@ export interface AnalysisError {
 }
 
 export interface BulkAnalysisProgress {
-  stage: 'uploading' | 'grouping' | 'analyzing' | 'completed' | 'error';
+  stage: 'uploading' | 'grouping' | 'analyzing' | 'completed' | 'cancelled' | 'error';
   totalPhotos: number;
   processedPhotos: number;
   currentGroup?: number;
@@ -240,6 +242,7 @@ export default function BulkAnalysisProgressComponent({
   showDetails = true
 }: BulkAnalysisProgressProps) {
   const [startTime] = useState(Date.now());
+  const [exportOpen, setExportOpen] = useState(false);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
 
   // Calculate overall progress percentage
@@ -300,19 +303,53 @@ export default function BulkAnalysisProgressComponent({
 
   if (progress.stage === 'completed') {
     return (
-      <Card className="border-green-200 bg-green-50">
+      <div className="space-y-6">
+        <Card className="border-green-200 bg-green-50">
+          <CardContent className="p-6 text-center">
+            <CheckCircle className="h-16 w-16 text-green-600 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-green-800 mb-2">
+              Analysis Complete!
+            </h3>
+            <p className="text-green-700 mb-4">
+              Successfully analyzed {progress.totalPhotos - (progress.errors?.length || 0)} photos
+            </p>
+            {progress.errors && progress.errors.length > 0 && (
+              <p className="text-sm text-yellow-700">
+                {progress.errors.length} photos had errors but were skipped
+              </p>
+            )}
+            <Button variant="outline" className="mt-4" onClick={() => setExportOpen(true)} data-testid="button-export-bulk-session">
+              <Download className="h-4 w-4 mr-2" />
+              Download ZIP
+            </Button>
+          </CardContent>
+        </Card>
+
+        <SessionExportDialog sessionId={sessionId} open={exportOpen} onOpenChange={setExportOpen} />
+
+        {progress.errors && progress.errors.length > 0 && onRetry && (
+          <ErrorDisplay errors={progress.errors} onRetry={onRetry} />
+        )}
+      </div>
+    );
+  }
+
+  if (progress.stage === 'cancelled') {
+    return (
+      <Card>
         <CardContent className="p-6 text-center">
-          <CheckCircle className="h-16 w-16 text-green-600 mx-auto mb-4" />
-          <h3 className="text-xl font-semibold text-green-800 mb-2">
-            Analysis Complete!
+          <X className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+          <h3 className="text-xl font-semibold mb-2">
+            Processing Cancelled
           </h3>
-          <p className="text-green-700 mb-4">
-            Successfully analyzed {progress.totalPhotos} photos
+          <p className="text-muted-foreground mb-4">
+            {progress.message || `${progress.processedPhotos} of ${progress.totalPhotos} photos were analyzed and kept`}
           </p>
-          {progress.errors && progress.errors.length > 0 && (
-            <p className="text-sm text-yellow-700">
-              {progress.errors.length} photos had errors but were skipped
-            </p>
+          {onRetry && (
+            <Button onClick={() => onRetry()}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Resume Analysis
+            </Button>
           )}
         </CardContent>
       </Card>
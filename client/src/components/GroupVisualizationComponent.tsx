@@ -11,24 +11,34 @@ import {
   ZoomOut,
   Grid3X3,
   List,
-  Eye
+  Eye,
+  EyeOff,
+  Star,
+  ThumbsUp
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardContent, CardFooter } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { cn } from "@/lib/utils";
+import { PhotoVoteControls, voteSummaryText, type OwnPhotoVote, type PhotoVoteInput, type PhotoVoteSummary } from "@/components/PhotoVoteControls";
+import { usePhotoVotes, type SessionVotes } from "@/hooks/usePhotoVotes";
 
 // Interfaces
 export interface Photo {
   id: string;
   fileUrl: string;
+  thumbnailUrl?: string | null;
+  previewUrl?: string | null;
   originalFilename: string;
   qualityScore?: number;
   isSelectedBest?: boolean;
   confidenceScore?: number;
   groupId?: string;
+  isExcluded?: boolean;
+  userNotes?: string | null;
 }
 
 export interface PhotoGroup {
@@ -57,33 +67,104 @@ export interface GroupVisualizationProps {
   onGroupSelect: (groupId: string) => void;
   onPhotoMove: (photoId: string, fromGroupId: string, toGroupId: string) => void;
   onGroupEdit: (groupId: string, updates: Partial<PhotoGroup>) => void;
+  onPhotoExclude?: (photoId: string, groupId: string, isExcluded: boolean) => void;
+  onPhotoNotes?: (photoId: string, groupId: string, notes: string | null) => void;
   loading?: boolean;
 }
 
+// Drag payload for moving a photo between groups
+const PHOTO_DRAG_TYPE = 'application/x-photo-move';
+
 // Photo Card Component
 function PhotoCard({ 
   photo, 
   groupId, 
-  onPhotoClick 
+  onPhotoClick,
+  onPhotoExclude,
+  votes,
+  myVote,
+  isTopVoted,
+  onVote
 }: { 
   photo: Photo; 
   groupId: string;
   onPhotoClick?: (photo: Photo) => void;
+  onPhotoExclude?: (photoId: string, groupId: string, isExcluded: boolean) => void;
+  votes?: PhotoVoteSummary;
+  myVote?: OwnPhotoVote;
+  isTopVoted?: boolean;
+  onVote?: (photoId: string, input: PhotoVoteInput) => void;
 }) {
+  const handleDragStart = (e: React.DragEvent) => {
+    e.dataTransfer.setData(PHOTO_DRAG_TYPE, JSON.stringify({ photoId: photo.id, fromGroupId: groupId }));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
   return (
-    <div className="relative group cursor-pointer transition-all duration-200">
-      <Card className="overflow-hidden hover:shadow-lg transition-shadow">
+    <div
+      className="relative group cursor-grab active:cursor-grabbing transition-all duration-200"
+      draggable
+      onDragStart={handleDragStart}
+      data-testid={`photo-card-${photo.id}`}
+    >
+      <Card className={cn("overflow-hidden hover:shadow-lg transition-shadow", photo.isExcluded && "opacity-50")}>
         <div className="aspect-square relative bg-muted">
           <img
-            src={photo.fileUrl}
+            src={photo.thumbnailUrl || photo.fileUrl}
             alt={photo.originalFilename}
             className="w-full h-full object-cover"
+            draggable={false}
             onClick={() => onPhotoClick?.(photo)}
           />
 
-          {/* Quality/Confidence Score */}
-          {(photo.qualityScore || photo.confidenceScore) && (
-            <div className="absolute top-2 right-2">
+          <div className="absolute top-2 left-2 text-white opacity-0 group-hover:opacity-100 transition-opacity">
+            <GripVertical className="h-4 w-4 drop-shadow" />
+          </div>
+
+          {/* Exclude Toggle */}
+          {onPhotoExclude && (
+            <Button
+              size="sm"
+              variant="secondary"
+              className="absolute bottom-2 left-2 h-7 w-7 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
+              title={photo.isExcluded ? "Include in best photo selection" : "Exclude from best photo selection"}
+              onClick={() => onPhotoExclude(photo.id, groupId, !photo.isExcluded)}
+              data-testid={`button-exclude-${photo.id}`}
+            >
+              {photo.isExcluded ? <Eye className="h-3 w-3" /> : <EyeOff className="h-3 w-3" />}
+            </Button>
+          )}
+
+          {photo.isExcluded && (
+            <div className="absolute top-2 left-8">
+              <Badge variant="secondary" className="text-xs">Excluded</Badge>
+            </div>
+          )}
+
+          {/* Quality/Confidence Score, with reviewers' votes beside it */}
+          <div className="absolute top-2 right-2 flex items-center gap-1">
+            {votes && (votes.likes > 0 || votes.averageRating !== null) && (
+              <Badge
+                variant="secondary"
+                className={cn("bg-black/50 text-white text-xs gap-1", isTopVoted && "bg-yellow-500/80")}
+                title={voteSummaryText(votes) ?? undefined}
+                data-testid={`badge-votes-${photo.id}`}
+              >
+                {votes.likes > 0 && (
+                  <>
+                    <ThumbsUp className="h-3 w-3" />
+                    {votes.likes}
+                  </>
+                )}
+                {votes.averageRating !== null && (
+                  <>
+                    <Star className="h-3 w-3" />
+                    {votes.averageRating.toFixed(1)}
+                  </>
+                )}
+              </Badge>
+            )}
+            {(photo.qualityScore || photo.confidenceScore) && (
               <Badge 
                 variant="secondary" 
                 className="bg-black/50 text-white font-mono text-xs"
@@ -91,8 +172,8 @@ function PhotoCard({
                 {photo.qualityScore ? `${Number(photo.qualityScore).toFixed(0)}` : 
                  photo.confidenceScore ? `${Number(photo.confidenceScore).toFixed(1)}%` : ''}
               </Badge>
-            </div>
-          )}
+            )}
+          </div>
 
           {/* Best Photo Indicator */}
           {photo.isSelectedBest && (
@@ -109,6 +190,20 @@ function PhotoCard({
           <p className="text-xs truncate font-medium" title={photo.originalFilename}>
             {photo.originalFilename}
           </p>
+          {photo.userNotes && (
+            <p className="text-xs truncate text-muted-foreground" title={photo.userNotes}>
+              {photo.userNotes}
+            </p>
+          )}
+          {onVote && (
+            <PhotoVoteControls
+              photoId={photo.id}
+              summary={votes}
+              myVote={myVote}
+              onVote={(input) => onVote(photo.id, input)}
+              className="mt-1 -ml-2"
+            />
+          )}
         </div>
       </Card>
     </div>
@@ -121,16 +216,45 @@ function Group({
   onPhotoMove, 
   onGroupEdit, 
   onPhotoClick,
-  onGroupSelect 
+  onPhotoExclude,
+  onGroupSelect,
+  votes,
+  onVote
 }: {
   group: PhotoGroup;
   onPhotoMove: (photoId: string, fromGroupId: string, toGroupId: string) => void;
   onGroupEdit: (groupId: string, updates: Partial<PhotoGroup>) => void;
   onPhotoClick?: (photo: Photo) => void;
+  onPhotoExclude?: (photoId: string, groupId: string, isExcluded: boolean) => void;
   onGroupSelect: (groupId: string) => void;
+  votes?: SessionVotes;
+  onVote?: (photoId: string, input: PhotoVoteInput) => void;
 }) {
   const [isEditing, setIsEditing] = useState(false);
   const [editName, setEditName] = useState(group.name);
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  const groupVotes = votes?.groups[group.id];
+  const groupVoteText = voteSummaryText(groupVotes);
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes(PHOTO_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setIsDragOver(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    setIsDragOver(false);
+    const data = e.dataTransfer.getData(PHOTO_DRAG_TYPE);
+    if (!data) return;
+    e.preventDefault();
+
+    const { photoId, fromGroupId } = JSON.parse(data) as { photoId: string; fromGroupId: string };
+    if (fromGroupId !== group.id) {
+      onPhotoMove(photoId, fromGroupId, group.id);
+    }
+  };
 
   const handleSaveEdit = () => {
     onGroupEdit(group.id, { name: editName });
@@ -155,7 +279,12 @@ function Group({
   };
 
   return (
-    <Card className="w-full">
+    <Card
+      className={cn("w-full transition-colors", isDragOver && "ring-2 ring-primary bg-primary/5")}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={handleDrop}
+    >
       <CardHeader className="pb-3">
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
@@ -220,6 +349,9 @@ function Group({
             <span>{group.metadata.faceCount} faces</span>
           )}
           <span className="capitalize">{group.groupType}</span>
+          {groupVoteText && (
+            <span data-testid={`text-group-votes-${group.id}`}>Votes: {groupVoteText}</span>
+          )}
         </div>
       </CardHeader>
       
@@ -230,7 +362,12 @@ function Group({
                 key={photo.id}
                 photo={photo}
                 groupId={group.id}
-                onPhotoClick={onPhotoClick}
+                onPhotoClick={(clicked) => onPhotoClick?.({ ...clicked, groupId: group.id })}
+                onPhotoExclude={onPhotoExclude}
+                votes={votes?.photos[photo.id]}
+                myVote={votes?.myVotes[photo.id]}
+                isTopVoted={groupVotes?.topPhotoId === photo.id}
+                onVote={onVote}
               />
             ))}
           </div>
@@ -247,11 +384,20 @@ export default function GroupVisualizationComponent({
   onGroupSelect,
   onPhotoMove,
   onGroupEdit,
+  onPhotoExclude,
+  onPhotoNotes,
   loading = false
 }: GroupVisualizationProps) {
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [selectedPhoto, setSelectedPhoto] = useState<Photo | null>(null);
   const [zoomLevel, setZoomLevel] = useState(1);
+  const [notesDraft, setNotesDraft] = useState('');
+  const { votes, vote } = usePhotoVotes(sessionId);
+
+  const openPhoto = (photo: Photo) => {
+    setSelectedPhoto(photo);
+    setNotesDraft(photo.userNotes || '');
+  };
 
   const organizedGroups = useMemo(() => {
     return groups.map(group => ({
@@ -352,8 +498,11 @@ export default function GroupVisualizationComponent({
               group={group}
               onPhotoMove={onPhotoMove}
               onGroupEdit={onGroupEdit}
-              onPhotoClick={setSelectedPhoto}
+              onPhotoClick={openPhoto}
+              onPhotoExclude={onPhotoExclude}
               onGroupSelect={onGroupSelect}
+              votes={votes}
+              onVote={vote}
             />
           </div>
         ))}
@@ -369,7 +518,7 @@ export default function GroupVisualizationComponent({
             <div className="space-y-4">
               <div className="flex justify-center">
                 <img
-                  src={selectedPhoto.fileUrl}
+                  src={selectedPhoto.previewUrl || selectedPhoto.fileUrl}
                   alt={selectedPhoto.originalFilename}
                   className="max-w-full max-h-96 object-contain rounded-lg"
                   style={{ transform: `scale(${zoomLevel})` }}
@@ -416,13 +565,50 @@ export default function GroupVisualizationComponent({
                     <div className="font-mono">{Number(selectedPhoto.confidenceScore).toFixed(1)}%</div>
                   </div>
                 )}
+                {voteSummaryText(votes?.photos[selectedPhoto.id]) && (
+                  <div>
+                    <span className="font-medium">Votes:</span>
+                    <div>{voteSummaryText(votes?.photos[selectedPhoto.id])}</div>
+                  </div>
+                )}
                 {selectedPhoto.isSelectedBest && (
                   <div>
                     <span className="font-medium">Status:</span>
                     <div className="text-green-600">Best Photo</div>
                   </div>
                 )}
+                {selectedPhoto.isExcluded && (
+                  <div>
+                    <span className="font-medium">Status:</span>
+                    <div className="text-muted-foreground">Excluded</div>
+                  </div>
+                )}
               </div>
+
+              {onPhotoNotes && selectedPhoto.groupId && (
+                <div className="space-y-2">
+                  <span className="text-sm font-medium">Notes</span>
+                  <Textarea
+                    value={notesDraft}
+                    onChange={(e) => setNotesDraft(e.target.value)}
+                    placeholder="Add a note for this photo..."
+                    maxLength={2000}
+                    data-testid="textarea-photo-notes"
+                  />
+                  <div className="flex justify-end">
+                    <Button
+                      size="sm"
+                      onClick={() => {
+                        onPhotoNotes(selectedPhoto.id, selectedPhoto.groupId!, notesDraft.trim() || null);
+                        setSelectedPhoto(null);
+                      }}
+                      data-testid="button-save-notes"
+                    >
+                      Save Notes
+                    </Button>
+                  </div>
+                </div>
+              )}
             </div>
           )}
         </DialogContent>
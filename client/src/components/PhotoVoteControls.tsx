@@ -0,0 +1,108 @@
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { Star, ThumbsDown, ThumbsUp } from "lucide-react";
+import type { PhotoVoteReaction } from "@shared/schema";
+
+// Matches PHOTO_RATING_MAX on the server
+const RATING_MAX = 5;
+
+// Vote totals as the server reports them for a photo or group
+export type PhotoVoteSummary = {
+  likes: number;
+  rejects: number;
+  ratingCount: number;
+  averageRating: number | null;
+  score: number;
+};
+
+export type OwnPhotoVote = {
+  reaction: PhotoVoteReaction | null;
+  rating: number | null;
+};
+
+// A change to send; null clears that part of the vote
+export type PhotoVoteInput = {
+  reaction?: PhotoVoteReaction | null;
+  rating?: number | null;
+};
+
+// e.g. "3 likes · 1 reject · ★ 4.5"
+export function voteSummaryText(summary: PhotoVoteSummary | undefined): string | null {
+  if (!summary || (summary.likes === 0 && summary.rejects === 0 && summary.ratingCount === 0)) return null;
+  return [
+    summary.likes > 0 ? `${summary.likes} ${summary.likes === 1 ? "like" : "likes"}` : null,
+    summary.rejects > 0 ? `${summary.rejects} ${summary.rejects === 1 ? "reject" : "rejects"}` : null,
+    summary.averageRating !== null ? `★ ${summary.averageRating.toFixed(1)}` : null,
+  ].filter(Boolean).join(" · ");
+}
+
+/**
+ * Like, reject and star-rate one photo. Choosing the current reaction or rating again clears it.
+ */
+export function PhotoVoteControls({
+  photoId,
+  summary,
+  myVote,
+  onVote,
+  disabled = false,
+  className,
+}: {
+  photoId: string;
+  summary?: PhotoVoteSummary;
+  myVote?: OwnPhotoVote | null;
+  onVote: (input: PhotoVoteInput) => void;
+  disabled?: boolean;
+  className?: string;
+}) {
+  const toggleReaction = (reaction: PhotoVoteReaction) =>
+    onVote({ reaction: myVote?.reaction === reaction ? null : reaction });
+
+  return (
+    <div className={cn("flex items-center gap-1", className)} data-testid={`vote-controls-${photoId}`}>
+      <Button
+        size="sm"
+        variant={myVote?.reaction === "like" ? "default" : "ghost"}
+        className="h-7 px-2 gap-1"
+        onClick={() => toggleReaction("like")}
+        disabled={disabled}
+        title="Like"
+        data-testid={`button-like-${photoId}`}
+      >
+        <ThumbsUp className="h-3 w-3" />
+        {summary && summary.likes > 0 && <span className="text-xs">{summary.likes}</span>}
+      </Button>
+      <Button
+        size="sm"
+        variant={myVote?.reaction === "reject" ? "destructive" : "ghost"}
+        className="h-7 px-2 gap-1"
+        onClick={() => toggleReaction("reject")}
+        disabled={disabled}
+        title="Reject"
+        data-testid={`button-reject-${photoId}`}
+      >
+        <ThumbsDown className="h-3 w-3" />
+        {summary && summary.rejects > 0 && <span className="text-xs">{summary.rejects}</span>}
+      </Button>
+      <div className="flex items-center ml-1">
+        {Array.from({ length: RATING_MAX }, (_, i) => i + 1).map(stars => (
+          <button
+            key={stars}
+            type="button"
+            className="p-0.5 disabled:opacity-50"
+            onClick={() => onVote({ rating: myVote?.rating === stars ? null : stars })}
+            disabled={disabled}
+            title={`${stars} ${stars === 1 ? "star" : "stars"}`}
+            data-testid={`button-rate-${photoId}-${stars}`}
+          >
+            <Star
+              className={cn(
+                "h-3 w-3",
+                myVote?.rating && stars <= myVote.rating ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground"
+              )}
+            />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@ import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator } from "@/components/ui/dropdown-menu";
-import { Settings, LogOut, User, Mail } from "lucide-react";
+import { Settings, LogOut, User, Mail, SlidersHorizontal } from "lucide-react";
 import { useLocation } from "wouter";
 
 export default function ProfileDropdown() {
@@ -77,6 +77,10 @@ export default function ProfileDropdown() {
             <Mail className="mr-2 h-4 w-4" />
             <span>Email Settings</span>
           </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleNavigate("/scoring-profiles")}>
+            <SlidersHorizontal className="mr-2 h-4 w-4" />
+            <span>Scoring Profiles</span>
+          </DropdownMenuItem>
           <DropdownMenuItem onClick={() => handleNavigate("/album")}>
             <User className="mr-2 h-4 w-4" />
             <span>My Album</span>
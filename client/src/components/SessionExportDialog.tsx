@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Download, Loader2 } from "lucide-react";
+
+// Matches the export options the server accepts
+const SCOPE_OPTIONS = [
+  { value: "best", label: "Best photo of each group" },
+  { value: "included", label: "All photos except excluded ones" },
+  { value: "all", label: "Every photo" },
+];
+
+const LAYOUT_OPTIONS = [
+  { value: "groups", label: "A folder per group" },
+  { value: "flat", label: "One folder" },
+];
+
+const MANIFEST_OPTIONS = [
+  { value: "none", label: "No manifest" },
+  { value: "csv", label: "CSV (spreadsheets)" },
+  { value: "json", label: "JSON" },
+];
+
+/**
+ * Choose what to export from a session and download it as a ZIP. A plain download can't send
+ * the bearer token, so the link carries a short-lived export ticket instead.
+ */
+export function SessionExportDialog({
+  sessionId,
+  sessionName,
+  open,
+  onOpenChange,
+}: {
+  sessionId: string;
+  sessionName?: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [scope, setScope] = useState("best");
+  const [layout, setLayout] = useState("groups");
+  const [manifest, setManifest] = useState("none");
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/sessions/${sessionId}/stream-ticket`, { stream: "export" });
+      const { ticket } = await res.json();
+      return new URLSearchParams({ scope, layout, manifest, ticket });
+    },
+    onSuccess: (params) => {
+      // The server sends it as an attachment, so the page stays where it is
+      window.location.href = `/api/sessions/${sessionId}/export?${params}`;
+      toast({ title: "Export started", description: "Your ZIP will download as it's built" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't start the export", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const selects = [
+    { id: "scope", label: "Photos", value: scope, onChange: setScope, options: SCOPE_OPTIONS },
+    { id: "layout", label: "Layout", value: layout, onChange: setLayout, options: LAYOUT_OPTIONS },
+    { id: "manifest", label: "Scores manifest", value: manifest, onChange: setManifest, options: MANIFEST_OPTIONS },
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Download {sessionName || "session"}</DialogTitle>
+          <DialogDescription>
+            Original photos under their uploaded filenames, in one ZIP.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {selects.map(select => (
+            <div key={select.id} className="space-y-2">
+              <Label>{select.label}</Label>
+              <Select value={select.value} onValueChange={select.onChange}>
+                <SelectTrigger data-testid={`select-export-${select.id}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {select.options.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+
+          <Button
+            className="w-full"
+            onClick={() => exportMutation.mutate()}
+            disabled={exportMutation.isPending}
+            data-testid="button-start-export"
+          >
+            {exportMutation.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="w-4 h-4 mr-2" />
+            )}
+            Download ZIP
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,213 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Copy, Loader2, UserPlus, X } from "lucide-react";
+import type { SessionMemberRole, SessionRole } from "@shared/schema";
+
+// A member as the server lists it; inviteUrl is only sent to the owner
+export type SessionMemberSummary = {
+  id: string;
+  email: string;
+  userId: string | null;
+  role: SessionMemberRole;
+  status: "active" | "invited";
+  acceptedAt: string | null;
+  createdAt: string;
+  inviteUrl?: string;
+};
+
+type SessionMembersResponse = {
+  role: SessionRole;
+  owner: { id: string; email: string | null; firstName: string | null; lastName: string | null };
+  members: SessionMemberSummary[];
+};
+
+const ROLE_LABELS: Record<SessionMemberRole, string> = {
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+export function SessionMembersDialog({
+  sessionId,
+  open,
+  onOpenChange,
+}: {
+  sessionId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<SessionMemberRole>("viewer");
+
+  const { data, isLoading } = useQuery<SessionMembersResponse>({
+    queryKey: ["/api/sessions", sessionId, "members"],
+    enabled: open,
+  });
+
+  const isOwner = data?.role === "owner";
+
+  const copyInvite = async (member: SessionMemberSummary) => {
+    if (!member.inviteUrl) return;
+    const url = `${window.location.origin}${member.inviteUrl}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Invite link copied", description: `Send it to ${member.email}` });
+    } catch {
+      toast({ title: "Couldn't copy the invite link", description: url, variant: "destructive" });
+    }
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/sessions/${sessionId}/members`, { email, role });
+      return await res.json() as SessionMemberSummary;
+    },
+    onSuccess: (member) => {
+      setEmail("");
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "members"] });
+      copyInvite(member);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't invite", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ memberId, role }: { memberId: string; role: SessionMemberRole }) => {
+      const res = await apiRequest("PATCH", `/api/sessions/${sessionId}/members/${memberId}`, { role });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "members"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't change the role", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (memberId: string) => {
+      const res = await apiRequest("DELETE", `/api/sessions/${sessionId}/members/${memberId}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "members"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't remove", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const ownerName = data
+    ? [data.owner.firstName, data.owner.lastName].filter(Boolean).join(" ") || data.owner.email || "Owner"
+    : "";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>People in this session</DialogTitle>
+          <DialogDescription>
+            Editors can upload, regroup and pick the best photos. Viewers can browse and vote.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isOwner && (
+            <form
+              className="flex items-end gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                inviteMutation.mutate();
+              }}
+            >
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="invite-email">Invite by email</Label>
+                <Input
+                  id="invite-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="name@example.com"
+                  data-testid="input-invite-email"
+                />
+              </div>
+              <Select value={role} onValueChange={(value) => setRole(value as SessionMemberRole)}>
+                <SelectTrigger className="w-28" data-testid="select-invite-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="editor">{ROLE_LABELS.editor}</SelectItem>
+                  <SelectItem value="viewer">{ROLE_LABELS.viewer}</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button type="submit" disabled={!email || inviteMutation.isPending} data-testid="button-invite-member">
+                {inviteMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+              </Button>
+            </form>
+          )}
+
+          {isLoading && <p className="text-sm text-muted-foreground">Loading...</p>}
+
+          {data && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 text-sm">
+                <span className="flex-1 truncate">{ownerName}</span>
+                <Badge>Owner</Badge>
+              </div>
+              {data.members.map(member => (
+                <div key={member.id} className="flex items-center gap-2 text-sm" data-testid={`session-member-${member.id}`}>
+                  <span className="flex-1 truncate">{member.email}</span>
+                  {member.status === "invited" && <Badge variant="outline">invited</Badge>}
+                  {isOwner ? (
+                    <Select
+                      value={member.role}
+                      onValueChange={(value) => roleMutation.mutate({ memberId: member.id, role: value as SessionMemberRole })}
+                    >
+                      <SelectTrigger className="w-28 h-8" data-testid={`select-member-role-${member.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="editor">{ROLE_LABELS.editor}</SelectItem>
+                        <SelectItem value="viewer">{ROLE_LABELS.viewer}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant="secondary">{ROLE_LABELS[member.role]}</Badge>
+                  )}
+                  {member.inviteUrl && (
+                    <Button size="sm" variant="ghost" onClick={() => copyInvite(member)} data-testid={`button-copy-invite-${member.id}`}>
+                      <Copy className="w-3 h-3" />
+                    </Button>
+                  )}
+                  {isOwner && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => removeMutation.mutate(member.id)}
+                      disabled={removeMutation.isPending}
+                      data-testid={`button-remove-member-${member.id}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {data.members.length === 0 && (
+                <p className="text-sm text-muted-foreground">Nobody else has been invited yet.</p>
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Copy, Eye, Link2, Loader2, Lock } from "lucide-react";
+import type { ShareTargetType } from "@shared/schema";
+
+// A link as the server lists it for its owner
+export type ShareLinkSummary = {
+  id: string;
+  targetType: ShareTargetType;
+  groupId: string | null;
+  photoId: string | null;
+  allowDownload: boolean;
+  viewCount: number;
+  lastViewedAt: string | null;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  hasPassword: boolean;
+  status: "active" | "expired" | "revoked";
+  url: string;
+};
+
+export interface ShareTarget {
+  type: ShareTargetType;
+  id?: string; // group or photo id
+  label: string;
+}
+
+// Matches SHARE_PASSWORD_MIN_LENGTH on the server
+const PASSWORD_MIN_LENGTH = 8;
+
+// Expiry choices in hours; "never" leaves the link open until revoked
+const EXPIRY_OPTIONS: Array<{ value: string; label: string; hours?: number }> = [
+  { value: "never", label: "Never" },
+  { value: "24", label: "1 day", hours: 24 },
+  { value: "168", label: "7 days", hours: 168 },
+  { value: "720", label: "30 days", hours: 720 },
+];
+
+export function absoluteShareUrl(link: { url: string }): string {
+  return `${window.location.origin}${link.url}`;
+}
+
+export function ShareLinkDialog({
+  sessionId,
+  target,
+  open,
+  onOpenChange,
+}: {
+  sessionId: string;
+  target: ShareTarget;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [password, setPassword] = useState("");
+  const [expiry, setExpiry] = useState("168");
+  const [allowDownload, setAllowDownload] = useState(false);
+
+  const { data, isLoading } = useQuery<{ links: ShareLinkSummary[] }>({
+    queryKey: ["/api/sessions", sessionId, "share-links"],
+    enabled: open,
+  });
+
+  // Only the links for what this dialog shares
+  const links = (data?.links ?? []).filter(link =>
+    link.targetType === target.type &&
+    (target.type === "session" || (target.type === "group" ? link.groupId : link.photoId) === target.id)
+  );
+
+  const copyLink = async (link: ShareLinkSummary) => {
+    try {
+      await navigator.clipboard.writeText(absoluteShareUrl(link));
+      toast({ title: "Link copied", description: "Anyone with the link can view it" });
+    } catch {
+      toast({ title: "Couldn't copy the link", description: absoluteShareUrl(link), variant: "destructive" });
+    }
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const hours = EXPIRY_OPTIONS.find(option => option.value === expiry)?.hours;
+      const res = await apiRequest("POST", `/api/sessions/${sessionId}/share-links`, {
+        targetType: target.type,
+        ...(target.type === "group" ? { groupId: target.id } : {}),
+        ...(target.type === "photo" ? { photoId: target.id } : {}),
+        ...(password ? { password } : {}),
+        ...(hours ? { expiresInHours: hours } : {}),
+        allowDownload,
+      });
+      return await res.json() as ShareLinkSummary;
+    },
+    onSuccess: (link) => {
+      setPassword("");
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "share-links"] });
+      copyLink(link);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't create the link", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (linkId: string) => {
+      const res = await apiRequest("DELETE", `/api/share-links/${linkId}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "share-links"] });
+      toast({ title: "Link revoked", description: "The link no longer opens" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't revoke the link", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share {target.label}</DialogTitle>
+          <DialogDescription>
+            People with the link can view without an account. Revoke it at any time.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="share-password">Password (optional)</Label>
+            <Input
+              id="share-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder={`Leave empty for no password, or at least ${PASSWORD_MIN_LENGTH} characters`}
+              data-testid="input-share-password"
+            />
+          </div>
+
+          <div className="flex items-center gap-4">
+            <div className="flex-1 space-y-2">
+              <Label>Expires after</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger data-testid="select-share-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2 pt-6">
+              <Switch
+                id="share-allow-download"
+                checked={allowDownload}
+                onCheckedChange={setAllowDownload}
+                data-testid="switch-share-download"
+              />
+              <Label htmlFor="share-allow-download">Allow downloads</Label>
+            </div>
+          </div>
+
+          <Button
+            className="w-full"
+            onClick={() => createMutation.mutate()}
+            disabled={createMutation.isPending || (password.length > 0 && password.length < PASSWORD_MIN_LENGTH)}
+            data-testid="button-create-share-link"
+          >
+            {createMutation.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Link2 className="w-4 h-4 mr-2" />
+            )}
+            Create and copy link
+          </Button>
+
+          {(isLoading || links.length > 0) && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Existing links</p>
+              {isLoading && <p className="text-sm text-muted-foreground">Loading...</p>}
+              {links.map(link => (
+                <div key={link.id} className="flex items-center gap-2 text-sm" data-testid={`share-link-${link.id}`}>
+                  <Badge variant={link.status === "active" ? "default" : "outline"}>{link.status}</Badge>
+                  {link.hasPassword && <Lock className="w-3 h-3 text-muted-foreground" />}
+                  <span className="flex items-center gap-1 text-muted-foreground">
+                    <Eye className="w-3 h-3" />
+                    {link.viewCount}
+                  </span>
+                  <span className="flex-1 truncate text-muted-foreground">
+                    {link.expiresAt ? `until ${new Date(link.expiresAt).toLocaleDateString()}` : "no expiry"}
+                    {link.allowDownload ? " · downloads on" : ""}
+                  </span>
+                  {link.status === "active" && (
+                    <>
+                      <Button size="sm" variant="ghost" onClick={() => copyLink(link)} data-testid={`button-copy-share-${link.id}`}>
+                        <Copy className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => revokeMutation.mutate(link.id)}
+                        disabled={revokeMutation.isPending}
+                        data-testid={`button-revoke-share-${link.id}`}
+                      >
+                        Revoke
+                      </Button>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,110 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardHeader, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Image as ImageIcon, Loader2, Mail } from "lucide-react";
+import type { PhotoSession, SessionMemberRole } from "@shared/schema";
+
+type PendingInvitation = {
+  sessionId: string;
+  sessionName: string;
+  role: SessionMemberRole;
+  invitedAt: string;
+  inviteUrl: string;
+};
+
+/**
+ * Invitations waiting for the user and sessions other people have shared with them
+ */
+export function SharedSessions() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const { data: invitationsData } = useQuery<{ invitations: PendingInvitation[] }>({
+    queryKey: ["/api/invitations"],
+  });
+
+  const { data: sharedData } = useQuery<{ data: Array<PhotoSession & { role: SessionMemberRole }> }>({
+    queryKey: ["/api/sessions", "shared"],
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (inviteUrl: string) => {
+      const token = inviteUrl.split("/").pop();
+      const res = await apiRequest("POST", `/api/invitations/${token}/accept`);
+      return await res.json() as { sessionId: string; role: SessionMemberRole };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", "shared"] });
+      toast({ title: "Invitation accepted", description: "The session is now under Shared with you" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't accept the invitation", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const invitations = invitationsData?.invitations ?? [];
+  const shared = sharedData?.data ?? [];
+
+  if (invitations.length === 0 && shared.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 sm:mb-8 space-y-4">
+      {invitations.map(invitation => (
+        <Card key={invitation.inviteUrl} className="p-4 flex items-center gap-3" data-testid={`card-invitation-${invitation.sessionId}`}>
+          <Mail className="h-5 w-5 text-muted-foreground shrink-0" />
+          <p className="flex-1 text-sm">
+            You've been invited to <span className="font-medium">{invitation.sessionName}</span> as {invitation.role === "editor" ? "an editor" : "a viewer"}
+          </p>
+          <Button
+            size="sm"
+            onClick={() => acceptMutation.mutate(invitation.inviteUrl)}
+            disabled={acceptMutation.isPending}
+            data-testid={`button-accept-invitation-${invitation.sessionId}`}
+          >
+            {acceptMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Accept
+          </Button>
+        </Card>
+      ))}
+
+      {shared.length > 0 && (
+        <div>
+          <h2 className="text-xl sm:text-2xl font-bold mb-4">Shared with you</h2>
+          <div className="grid gap-3 sm:gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
+            {shared.map(session => (
+              <Card
+                key={session.id}
+                className="cursor-pointer transition-all hover-elevate min-h-[88px]"
+                onClick={() => setLocation(`/session/${session.id}/compare`)}
+                data-testid={`card-shared-session-${session.id}`}
+              >
+                <CardHeader className="pb-2 sm:pb-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <h3 className="font-semibold truncate text-base sm:text-lg">{session.name}</h3>
+                    <Badge variant="secondary" className="shrink-0">{session.role}</Badge>
+                  </div>
+                </CardHeader>
+                <CardContent className="pb-3 sm:pb-3">
+                  <div className="flex items-center gap-3 sm:gap-4 text-sm text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <ImageIcon className="h-4 w-4" />
+                      {session.photoCount} photos
+                    </span>
+                    <span className="text-xs sm:text-sm">{new Date(session.createdAt).toLocaleDateString()}</span>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,29 +1,24 @@
 import { useState, useCallback, useEffect, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getAuthHeaders } from "@/lib/queryClient";
+import { openProgressStream } from "@/lib/progressStream";
 import { useToast } from "@/hooks/use-toast";
 
 // Types
 export interface BulkSessionOptions {
   name?: string;
   description?: string;
-  maxGroups?: number;
   similarityThreshold?: number;
   enableFaceDetection?: boolean;
   enableQualityAnalysis?: boolean;
 }
 
 export interface GroupingOptions {
-  algorithm?: 'kmeans' | 'hierarchical' | 'spectral';
-  nClusters?: number;
   similarityThreshold?: number;
-  enableTemporalGrouping?: boolean;
-  enableLocationGrouping?: boolean;
-  enableFeatureGrouping?: boolean;
 }
 
 export interface BulkAnalysisProgress {
-  stage: 'uploading' | 'grouping' | 'analyzing' | 'completed' | 'error';
+  stage: 'uploading' | 'grouping' | 'analyzing' | 'completed' | 'cancelled' | 'error';
   totalPhotos: number;
   processedPhotos: number;
   currentGroup?: number;
@@ -83,14 +78,13 @@ export interface BulkSession {
   id: string;
   name: string;
   description?: string;
-  status: 'creating' | 'uploading' | 'grouping' | 'analyzing' | 'completed' | 'error';
+  status: 'creating' | 'uploading' | 'grouping' | 'analyzing' | 'completed' | 'cancelled' | 'error';
   totalPhotos: number;
   processedPhotos: number;
   groups: PhotoGroup[];
   createdAt: string;
   updatedAt: string;
   settings: {
-    maxGroups?: number;
     similarityThreshold?: number;
     enableFaceDetection?: boolean;
     enableQualityAnalysis?: boolean;
@@ -110,13 +104,14 @@ export function useBulkSession(sessionId?: string) {
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const progressIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const eventSourceRef = useRef<EventSource | null>(null);
+  const closeStreamRef = useRef<(() => void) | null>(null);
 
   // Fetch session details
   const { data: session, isLoading: sessionLoading, error: sessionError } = useQuery<BulkSession>({
     queryKey: ['/api/bulk-sessions', sessionId],
     enabled: !!sessionId,
-    refetchInterval: (data: BulkSession | undefined) => {
+    refetchInterval: (query) => {
+      const data = query.state.data;
       // Refetch more frequently during active processing
       if (data && (data.status === 'uploading' || data.status === 'grouping' || data.status === 'analyzing')) {
         return 2000; // 2 seconds
@@ -131,45 +126,37 @@ export function useBulkSession(sessionId?: string) {
     stopProgressTracking();
 
     // Use Server-Sent Events for real-time progress
-    try {
-      const eventSource = new EventSource(`/api/bulk-sessions/${sessionId}/progress`);
-      eventSourceRef.current = eventSource;
-
-      eventSource.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          setProgress(data.progress);
-
-          // Update session data in cache
-          queryClient.setQueryData(['/api/bulk-sessions', sessionId], (old: BulkSession | undefined) => {
-            if (!old) return old;
-            return {
-              ...old,
-              ...data.session,
-              progress: data.progress
-            };
-          });
+    closeStreamRef.current = openProgressStream<{ progress: BulkAnalysisProgress; session?: Partial<BulkSession> }>({
+      url: `/api/bulk-sessions/${sessionId}/progress`,
+      sessionId,
+      stream: 'grouping',
+      onMessage: (data) => {
+        setProgress(data.progress);
+
+        // Update session data in cache
+        queryClient.setQueryData(['/api/bulk-sessions', sessionId], (old: BulkSession | undefined) => {
+          if (!old) return old;
+          return {
+            ...old,
+            ...data.session,
+            progress: data.progress
+          };
+        });
 
-          // Stop tracking when completed or error
-          if (data.progress.stage === 'completed' || data.progress.stage === 'error') {
-            stopProgressTracking();
-          }
-        } catch (error) {
-          console.error('Error parsing progress data:', error);
+        // Stop tracking once processing has finished
+        if (['completed', 'cancelled', 'error'].includes(data.progress.stage)) {
+          stopProgressTracking();
         }
-      };
-
-      eventSource.onerror = (error) => {
+      },
+      onFailure: (error) => {
         console.error('SSE error:', error);
-        // Fallback to polling if SSE fails
-        startPollingFallback(sessionId);
-      };
-
-    } catch (error) {
-      console.error('Error setting up SSE:', error);
-      // Fallback to polling
-      startPollingFallback(sessionId);
-    }
+        // Fallback to polling once the stream can't be kept open
+        closeStreamRef.current = null;
+        if (!progressIntervalRef.current) {
+          startPollingFallback(sessionId);
+        }
+      },
+    });
   }, [queryClient]);
 
   // Fallback polling mechanism
@@ -192,8 +179,8 @@ export function useBulkSession(sessionId?: string) {
             };
           });
 
-          // Stop polling when completed or error
-          if (data.progress.stage === 'completed' || data.progress.stage === 'error') {
+          // Stop polling once processing has finished
+          if (['completed', 'cancelled', 'error'].includes(data.progress.stage)) {
             stopProgressTracking();
           }
         }
@@ -205,9 +192,9 @@ export function useBulkSession(sessionId?: string) {
 
   // Stop progress tracking
   const stopProgressTracking = useCallback(() => {
-    if (eventSourceRef.current) {
-      eventSourceRef.current.close();
-      eventSourceRef.current = null;
+    if (closeStreamRef.current) {
+      closeStreamRef.current();
+      closeStreamRef.current = null;
     }
     if (progressIntervalRef.current) {
       clearInterval(progressIntervalRef.current);
@@ -224,9 +211,9 @@ export function useBulkSession(sessionId?: string) {
       const response = await apiRequest('POST', '/api/bulk-sessions', {
         name: options.name || `Bulk Session ${new Date().toLocaleString()}`,
         description: options.description,
+        // Unset values fall back to the server's grouping defaults
         settings: {
-          maxGroups: options.maxGroups || 50,
-          similarityThreshold: options.similarityThreshold || 0.7,
+          similarityThreshold: options.similarityThreshold,
           enableFaceDetection: options.enableFaceDetection ?? true,
           enableQualityAnalysis: options.enableQualityAnalysis ?? true
         }
@@ -266,13 +253,15 @@ export function useBulkSession(sessionId?: string) {
       setIsLoading(true);
       setError(null);
 
+      const authHeaders = await getAuthHeaders();
+
       const uploadPromises = files.map(async (file) => {
         const formData = new FormData();
         formData.append('file', file);
-        formData.append('sessionId', sessionId);
 
-        const response = await fetch('/api/objects/upload', {
+        const response = await fetch(`/api/bulk-sessions/${sessionId}/photos`, {
           method: 'POST',
+          headers: authHeaders,
           body: formData
         });
 
@@ -283,13 +272,22 @@ export function useBulkSession(sessionId?: string) {
         return await response.json();
       });
 
-      return await Promise.allSettled(uploadPromises);
+      const results = await Promise.allSettled(uploadPromises);
+      const failed = results.filter(r => r.status === 'rejected').length;
+
+      if (files.length > 0 && failed === files.length) {
+        throw new Error('All uploads failed');
+      }
+
+      return { uploaded: files.length - failed, failed };
     },
-    onSuccess: () => {
+    onSuccess: ({ uploaded, failed }) => {
       setIsLoading(false);
       toast({
         title: "Upload Complete",
-        description: "Files uploaded successfully",
+        description: failed > 0
+          ? `${uploaded} files uploaded, ${failed} failed`
+          : "Files uploaded successfully",
       });
       
       // Invalidate session queries to refresh data
@@ -317,12 +315,7 @@ export function useBulkSession(sessionId?: string) {
       setError(null);
 
       const response = await apiRequest('POST', `/api/bulk-sessions/${sessionId}/group`, {
-        algorithm: options?.algorithm || 'kmeans',
-        nClusters: options?.nClusters,
-        similarityThreshold: options?.similarityThreshold || 0.7,
-        enableTemporalGrouping: options?.enableTemporalGrouping ?? true,
-        enableLocationGrouping: options?.enableLocationGrouping ?? false,
-        enableFeatureGrouping: options?.enableFeatureGrouping ?? true
+        similarityThreshold: options?.similarityThreshold
       });
 
       return await response.json();
@@ -399,7 +392,7 @@ export function useBulkSession(sessionId?: string) {
       const response = await apiRequest('POST', `/api/bulk-sessions/${sessionId}/cancel`);
       return await response.json();
     },
-    onSuccess: (sessionId) => {
+    onSuccess: (_, sessionId) => {
       setIsLoading(false);
       toast({
         title: "Session Cancelled",
@@ -0,0 +1,59 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export interface MembershipUpdate {
+  isExcluded?: boolean;
+  userNotes?: string | null;
+}
+
+export function useGroupEditing(sessionId?: string) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // Group membership shows up in both the session groups and the bulk session views
+  const invalidateGroups = () => {
+    if (!sessionId) return;
+    queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'groups'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/bulk-sessions', sessionId] });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive"
+    });
+  };
+
+  // Move a photo to another group
+  const movePhotoMutation = useMutation({
+    mutationFn: async ({ photoId, fromGroupId, toGroupId }: { photoId: string; fromGroupId: string; toGroupId: string }) => {
+      const response = await apiRequest('POST', `/api/groups/${fromGroupId}/photos/${photoId}/move`, { toGroupId });
+      return await response.json();
+    },
+    onSuccess: invalidateGroups,
+    onError: showError("Move Failed"),
+  });
+
+  // Exclude a photo or annotate it
+  const updateMembershipMutation = useMutation({
+    mutationFn: async ({ photoId, groupId, update }: { photoId: string; groupId: string; update: MembershipUpdate }) => {
+      const response = await apiRequest('PATCH', `/api/groups/${groupId}/photos/${photoId}`, update);
+      return await response.json();
+    },
+    onSuccess: invalidateGroups,
+    onError: showError("Update Failed"),
+  });
+
+  return {
+    movePhoto: (photoId: string, fromGroupId: string, toGroupId: string) =>
+      movePhotoMutation.mutate({ photoId, fromGroupId, toGroupId }),
+    setExcluded: (photoId: string, groupId: string, isExcluded: boolean) =>
+      updateMembershipMutation.mutate({ photoId, groupId, update: { isExcluded } }),
+    setNotes: (photoId: string, groupId: string, userNotes: string | null) =>
+      updateMembershipMutation.mutate({ photoId, groupId, update: { userNotes } }),
+    isMoving: movePhotoMutation.isPending,
+    isUpdating: updateMembershipMutation.isPending,
+  };
+}
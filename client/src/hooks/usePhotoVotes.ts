@@ -0,0 +1,44 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { OwnPhotoVote, PhotoVoteInput, PhotoVoteSummary } from "@/components/PhotoVoteControls";
+
+export interface SessionVotes {
+  photos: Record<string, PhotoVoteSummary>;
+  groups: Record<string, PhotoVoteSummary & { topPhotoId: string | null }>;
+  myVotes: Record<string, OwnPhotoVote>;
+}
+
+// Vote totals for a session and the signed-in user's own votes
+export function usePhotoVotes(sessionId?: string) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data } = useQuery<SessionVotes>({
+    queryKey: ['/api/sessions', sessionId, 'votes'],
+    enabled: !!sessionId,
+  });
+
+  const voteMutation = useMutation({
+    mutationFn: async ({ photoId, input }: { photoId: string; input: PhotoVoteInput }) => {
+      const response = await apiRequest('PUT', `/api/photos/${photoId}/vote`, input);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'votes'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Vote Failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    },
+  });
+
+  return {
+    votes: data,
+    vote: (photoId: string, input: PhotoVoteInput) => voteMutation.mutate({ photoId, input }),
+    isVoting: voteMutation.isPending,
+  };
+}
@@ -0,0 +1,113 @@
+import { apiRequest } from "./queryClient";
+
+// Server sends a heartbeat every 15s; a stream that's quiet for longer than this is dead
+const STALE_STREAM_MS = 45 * 1000;
+const RECONNECT_DELAY_MS = 2000;
+const MAX_RECONNECTS = 5;
+
+export type ProgressStreamKind = "analysis" | "grouping";
+
+export interface ProgressStreamOptions<T> {
+  /** SSE endpoint, without a query string */
+  url: string;
+  sessionId: string;
+  stream: ProgressStreamKind;
+  onMessage: (data: T) => void;
+  /** Called once the stream can't be kept open; no more messages follow */
+  onFailure: (error: Error) => void;
+}
+
+/**
+ * Open an authenticated progress stream. EventSource can't send the bearer token, so each
+ * connection uses a fresh stream ticket, and reconnects resume from the last event received.
+ * Returns a function that closes the stream.
+ */
+export function openProgressStream<T>(options: ProgressStreamOptions<T>): () => void {
+  const { url, sessionId, stream, onMessage, onFailure } = options;
+
+  let eventSource: EventSource | null = null;
+  let lastEventId: string | null = null;
+  let staleTimer: ReturnType<typeof setTimeout> | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let reconnects = 0;
+  let closed = false;
+
+  const disconnect = () => {
+    eventSource?.close();
+    eventSource = null;
+    if (staleTimer) clearTimeout(staleTimer);
+    staleTimer = null;
+  };
+
+  const close = () => {
+    closed = true;
+    disconnect();
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+  };
+
+  const reconnect = (reason: string) => {
+    disconnect();
+    if (closed) return;
+
+    if (++reconnects > MAX_RECONNECTS) {
+      close();
+      onFailure(new Error(`Progress stream disconnected: ${reason}`));
+      return;
+    }
+
+    console.warn(`⚠️ Progress stream ${reason}, reconnecting (attempt ${reconnects})`);
+    reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+  };
+
+  const markAlive = () => {
+    if (staleTimer) clearTimeout(staleTimer);
+    staleTimer = setTimeout(() => reconnect("went quiet"), STALE_STREAM_MS);
+  };
+
+  async function connect() {
+    let ticket: string;
+    try {
+      const res = await apiRequest("POST", `/api/sessions/${sessionId}/stream-ticket`, { stream });
+      ticket = (await res.json()).ticket;
+    } catch (error) {
+      // 401/403 won't fix themselves by retrying
+      if (error instanceof Error && /^40[13]: /.test(error.message)) {
+        close();
+        onFailure(error);
+      } else {
+        reconnect("couldn't get a ticket");
+      }
+      return;
+    }
+
+    if (closed) return;
+
+    const params = new URLSearchParams({ ticket });
+    if (lastEventId) params.set("lastEventId", lastEventId);
+
+    // The ticket may have expired by the time EventSource retries on its own, so every
+    // reconnect goes through a new ticket instead
+    const source = new EventSource(`${url}?${params}`);
+    eventSource = source;
+    markAlive();
+
+    source.onmessage = (event) => {
+      reconnects = 0;
+      lastEventId = event.lastEventId || lastEventId;
+      markAlive();
+
+      try {
+        onMessage(JSON.parse(event.data));
+      } catch (error) {
+        console.error("Error parsing progress data:", error);
+      }
+    };
+    source.addEventListener("heartbeat", markAlive);
+    source.onerror = () => {
+      if (source === eventSource) reconnect("errored");
+    };
+  }
+
+  connect();
+  return close;
+}
@@ -15,7 +15,7 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
-async function getAuthHeaders(): Promise<Record<string, string>> {
+export async function getAuthHeaders(): Promise<Record<string, string>> {
   console.log("🔑 getAuthHeaders: Getting token, getter exists:", !!getAccessToken);
   
   if (!getAccessToken) {
@@ -7,7 +7,8 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
-import { Trash2, Images, LogOut, Home } from "lucide-react";
+import { Trash2, Images, LogOut, Home, Download } from "lucide-react";
+import { SessionExportDialog } from "@/components/SessionExportDialog";
 import { useState, useEffect } from "react";
 import type { PhotoSession, Photo } from "@shared/schema";
 import { useKindeAuth } from "@kinde-oss/kinde-auth-react";
@@ -64,6 +65,7 @@ export default function Album() {
   const [photoToDelete, setPhotoToDelete] = useState<string | null>(null);
   const [presignedUrls, setPresignedUrls] = useState<Record<string, string>>({});
   const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+  const [exportOpen, setExportOpen] = useState(false);
 
   // Fetch album data
   const { data: album, isLoading, error: albumError } = useQuery<AlbumItem[]>({
@@ -113,7 +115,7 @@ export default function Album() {
 
   // Fetch presigned URLs for selected session
   const { data: presignedData } = useQuery<{
-    photos: Array<{ photoId: string; presignedUrl: string | null }>;
+    photos: Array<{ photoId: string; presignedUrl: string | null; thumbnailUrl: string | null; previewUrl: string | null }>;
   }>({
     queryKey: ["/api/sessions", selectedSessionId, "photos/presigned-urls"],
     enabled: !!selectedSessionId && !!user,
@@ -124,8 +126,10 @@ export default function Album() {
     if (presignedData?.photos) {
       const urlMap: Record<string, string> = {};
       presignedData.photos.forEach((item) => {
-        if (item.presignedUrl) {
-          urlMap[item.photoId] = item.presignedUrl;
+        // Album tiles only need the thumbnail; older photos fall back to the original until backfilled
+        const url = item.thumbnailUrl || item.presignedUrl;
+        if (url) {
+          urlMap[item.photoId] = url;
         }
       });
       setPresignedUrls(urlMap);
@@ -135,7 +139,7 @@ export default function Album() {
 
   // Helper function to get image URL with presigned URL fallback
   const getImageUrl = (photo: Photo) => {
-    return presignedUrls[photo.id] || photo.fileUrl;
+    return presignedUrls[photo.id] || photo.thumbnailUrl || photo.fileUrl;
   };
 
   // Delete photo mutation
@@ -311,6 +315,20 @@ export default function Album() {
               }
             </DialogDescription>
           </DialogHeader>
+
+          {!isGroupView && (
+            <div className="flex justify-end">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setExportOpen(true)}
+                data-testid="button-export-session"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Download ZIP
+              </Button>
+            </div>
+          )}
           
           {/* Show groups if they exist and no group is selected */}
           {sessionGroups?.groups && sessionGroups.groups.length > 0 && !isGroupView && (
@@ -444,6 +462,15 @@ export default function Album() {
         </DialogContent>
       </Dialog>
 
+      {selectedSessionId && (
+        <SessionExportDialog
+          sessionId={selectedSessionId}
+          sessionName={selectedSession?.session.name}
+          open={exportOpen}
+          onOpenChange={setExportOpen}
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!photoToDelete} onOpenChange={(open) => !open && setPhotoToDelete(null)}>
         <AlertDialogContent data-testid="dialog-delete-confirm">
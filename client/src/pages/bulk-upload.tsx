@@ -304,25 +304,11 @@ export default function BulkUploadPage() {
         }
       }
       
-      // If we get here, the endpoint accepted the request
+      // If we get here, the endpoint queued a background job
       // Progress will be tracked via polling
       const result = await response.json();
       console.log("✅ Analysis/grouping started successfully", { result });
       
-      // Check if grouping failed but analysis succeeded (partial success)
-      if (result.groupingFailed && result.analysisCompleted) {
-        toast({
-          title: "Analysis Complete",
-          description: result.message || "Photos analyzed successfully. Grouping failed but you can still compare photos.",
-          variant: "default",
-        });
-        // Still navigate since analysis is what enables comparison
-        setTimeout(() => {
-          navigate(`/`);
-        }, 2000);
-        return;
-      }
-      
       toast({
         title: "Analysis Started",
         description: `Analyzing ${actualPhotoCount} photos... This may take a few minutes.`,
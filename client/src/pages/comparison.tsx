@@ -1,13 +1,18 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { useRoute, useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, CheckCircle2, AlertCircle, Eye, EyeOff, Smile, Share2 } from "lucide-react";
+import { ArrowLeft, CheckCircle2, AlertCircle, Eye, EyeOff, Smile, Share2, Focus, Layers, Loader2, Link2, Users } from "lucide-react";
 import { useState, useRef, useEffect } from "react";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ShareLinkDialog, absoluteShareUrl, type ShareLinkSummary, type ShareTarget } from "@/components/ShareLinkDialog";
+import { SessionMembersDialog } from "@/components/SessionMembersDialog";
+import { PhotoVoteControls } from "@/components/PhotoVoteControls";
+import { usePhotoVotes } from "@/hooks/usePhotoVotes";
+import type { SessionRole, BestPhotoSelection, FaceScoreBreakdown, PhotoScoreBreakdown } from "@shared/schema";
 
 type Photo = {
   id: string;
@@ -15,27 +20,85 @@ type Photo = {
   originalFilename: string;
   qualityScore: string;
   isSelectedBest: boolean;
+  isComposite?: boolean;
   analysisData: {
     faces: Array<{
       faceId: string;
+      personIndex: number;
+      descriptor?: number[];
       boundingBox: { x: number; y: number; width: number; height: number };
       attributes: {
         eyesOpen: { detected: boolean };
         smile: { detected: boolean; intensity: number };
         expression: string;
       };
+      sharpness?: number;
       qualityScore: number | null;
+      scoreBreakdown?: FaceScoreBreakdown;
     }>;
     overallQualityScore: number | null;
+    sharpness?: number;
     issues: {
       closedEyes: number;
       poorExpressions: number;
       blurryFaces: number;
     };
     recommendation: string;
+    scoringProfile?: { id: string; name: string };
+    scoreBreakdown?: PhotoScoreBreakdown;
+    selection?: BestPhotoSelection;
   };
 };
 
+const points = (value: number) => value.toFixed(1);
+
+// One sentence on the step of best-photo selection that decided this photo
+function selectionReason(selection: BestPhotoSelection): string {
+  const { tier, peopleCount, maxPeopleCount, minPeopleCount, eyesOpenCount, tieBreaker } = selection;
+  const eyesOpen = `${eyesOpenCount} of ${peopleCount} ${peopleCount === 1 ? "person" : "people"} with eyes open`;
+
+  if (selection.isBest) {
+    switch (tier) {
+      case "only-candidate":
+        return "It was the only photo to choose from";
+      case "people-count":
+        return `No other photo captured at least ${minPeopleCount} of the ${maxPeopleCount} people`;
+      case "eyes-open":
+        return `It had the most people with eyes open: ${eyesOpen}`;
+      case "tie-breaker":
+        return `It tied on open eyes (${eyesOpen}) and won on smiles and face quality with ${points(tieBreaker.total)} points`;
+      case "votes":
+        return `It tied on open eyes, smiles and face quality and reviewers voted it highest (${points(selection.voteScore ?? 0)} net votes)`;
+    }
+  }
+
+  switch (tier) {
+    case "people-count":
+      return `Captured ${peopleCount} of ${maxPeopleCount} people; at least ${minPeopleCount} were needed`;
+    case "eyes-open":
+      return `Fewer people with eyes open than the winner: ${eyesOpen}`;
+    case "votes":
+      return `Tied with the winner on the analysis but got fewer votes (${points(selection.voteScore ?? 0)} net)`;
+    default:
+      return `Tied with the winner on open eyes but scored ${points(tieBreaker.total)} points on smiles and face quality`;
+  }
+}
+
+// e.g. "eyes 40.0 + smile 30.0 + expression 12.1 + detection 14.2, ×0.95 sharpness, ×0.90 head pose"
+function faceBreakdownText(breakdown: FaceScoreBreakdown): string {
+  const parts = [
+    `eyes ${points(breakdown.eyesOpen)}`,
+    `smile ${points(breakdown.smile)}`,
+    `expression ${points(breakdown.expression)}`,
+    `detection ${points(breakdown.detection)}`,
+  ].join(" + ");
+  const factors = [
+    breakdown.sharpnessFactor < 1 ? `×${breakdown.sharpnessFactor.toFixed(2)} sharpness` : null,
+    breakdown.headPoseFactor < 1 ? `×${breakdown.headPoseFactor.toFixed(2)} head pose` : null,
+  ].filter(Boolean);
+  return [parts, ...factors].join(", ");
+}
+
 export default function Comparison() {
   const [, params] = useRoute("/session/:sessionId/compare");
   const sessionId = params?.sessionId;
@@ -44,6 +107,10 @@ export default function Comparison() {
   const { toast } = useToast();
   const [isSharing, setIsSharing] = useState(false);
   const [presignedUrls, setPresignedUrls] = useState<Record<string, string>>({});
+  const [shareTarget, setShareTarget] = useState<ShareTarget | null>(null);
+  const [membersOpen, setMembersOpen] = useState(false);
+  const { votes, vote, isVoting } = usePhotoVotes(sessionId);
+  const photoShareUrls = useRef<Record<string, string>>({});
 
   // Fetch photos - handle paginated response structure
   const { data: photosResponse, isLoading } = useQuery<{
@@ -76,6 +143,46 @@ export default function Comparison() {
     enabled: !!sessionId && !!user,
   });
 
+  // The viewer's role decides which controls are offered; the server enforces it either way
+  const { data: sessionData } = useQuery<{ role: SessionRole }>({
+    queryKey: ["/api/sessions", sessionId],
+    enabled: !!sessionId && !!user,
+  });
+  const isOwner = sessionData?.role === "owner";
+  const canEdit = isOwner || sessionData?.role === "editor";
+
+  // Whether a composite could fix closed eyes in the best photo
+  const { data: sessionAnalysis } = useQuery<{
+    bestPhotoId: string | null;
+    requiresComposite: boolean;
+  }>({
+    queryKey: ["/api/sessions", sessionId, "analysis"],
+    enabled: !!sessionId && !!user,
+  });
+
+  const createCompositeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/sessions/${sessionId}/composite`, {});
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "photos"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "photos/presigned-urls"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "analysis"] });
+      toast({
+        title: "Composite created",
+        description: "Closed eyes were replaced with open-eyed faces from other photos",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Composite failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Update presignedUrls state when data arrives
   useEffect(() => {
     if (presignedData?.photos) {
@@ -89,7 +196,16 @@ export default function Comparison() {
     }
   }, [presignedData]);
 
-  const sharePhoto = async (photoUrl: string, filename: string) => {
+  // Public link to one photo; this page needs the owner signed in, so recipients couldn't open it
+  const getPhotoShareUrl = async (photoId: string) => {
+    if (!photoShareUrls.current[photoId]) {
+      const res = await apiRequest("POST", `/api/sessions/${sessionId}/share-links`, { targetType: "photo", photoId });
+      photoShareUrls.current[photoId] = absoluteShareUrl(await res.json() as ShareLinkSummary);
+    }
+    return photoShareUrls.current[photoId];
+  };
+
+  const sharePhoto = async (photoId: string, photoUrl: string, filename: string) => {
     setIsSharing(true);
     
     try {
@@ -152,7 +268,7 @@ export default function Comparison() {
             await navigator.share({
               title: 'Best Group Photo',
               text: 'Check out this photo selected by AI!',
-              url: window.location.href,
+              url: await getPhotoShareUrl(photoId),
             });
           }
 
@@ -173,7 +289,7 @@ export default function Comparison() {
           await navigator.share({
             title: 'Best Group Photo',
             text: 'Check out this photo selected by AI!',
-            url: window.location.href,
+            url: await getPhotoShareUrl(photoId),
           });
           
           toast({
@@ -188,10 +304,10 @@ export default function Comparison() {
 
       // Fallback 2: Copy image URL to clipboard
       try {
-        await navigator.clipboard.writeText(window.location.href);
+        await navigator.clipboard.writeText(await getPhotoShareUrl(photoId));
         toast({
           title: "Link copied!",
-          description: "Photo page link copied to clipboard. Share it with your friends!",
+          description: "Share link copied to clipboard. Anyone with it can view the photo.",
         });
       } catch (clipboardError) {
         console.warn('Clipboard access failed:', clipboardError);
@@ -264,6 +380,33 @@ export default function Comparison() {
       return scoreB - scoreA;
     });
 
+  // Profile the latest analysis used (older analyses don't record one)
+  const scoringProfileName = sortedPhotos.find(photo => photo.analysisData.scoringProfile)?.analysisData.scoringProfile?.name;
+
+  // Faces analyzed with recognition descriptors share person numbers across the session;
+  // older analyses only number faces within each photo
+  const peopleIdentified = sortedPhotos.some(photo =>
+    photo.analysisData.faces.some(face => face.descriptor)
+  );
+  const faceLabel = (face: { personIndex: number }, faceIdx: number) =>
+    peopleIdentified ? `Person ${face.personIndex + 1}` : `Face ${faceIdx + 1}`;
+
+  // Per-person summary: which ranked photos each person is missing from or has closed eyes in
+  const people = peopleIdentified
+    ? Array.from(new Set(sortedPhotos.flatMap(photo => photo.analysisData.faces.map(f => f.personIndex))))
+        .sort((a, b) => a - b)
+        .map(personIndex => {
+          const closedEyesIn: number[] = [];
+          const missingFrom: number[] = [];
+          sortedPhotos.forEach((photo, rank) => {
+            const face = photo.analysisData.faces.find(f => f.personIndex === personIndex);
+            if (!face) missingFrom.push(rank + 1);
+            else if (!face.attributes.eyesOpen.detected) closedEyesIn.push(rank + 1);
+          });
+          return { personIndex, closedEyesIn, missingFrom };
+        })
+    : [];
+
   // If no photos have analysis data or faces, show helpful message
   if (sortedPhotos.length === 0 && photosArray && photosArray.length > 0) {
     return (
@@ -379,6 +522,7 @@ export default function Comparison() {
           src={imageUrl}
           alt={photo.originalFilename}
           className="w-full h-full object-contain"
+          style={{ imageOrientation: 'from-image' }} // Face coordinates are in display (EXIF-rotated) space
           data-testid={`img-photo-${photo.id}`}
         />
         
@@ -429,14 +573,14 @@ export default function Comparison() {
                     <rect
                       x={x}
                       y={labelY}
-                      width={60}
+                      width={80}
                       height={labelHeight}
                       fill={color}
                       rx="4"
                     />
                     {/* Label text */}
                     <text
-                      x={x + 30}
+                      x={x + 40}
                       y={textY}
                       fill="white"
                       fontSize="16"
@@ -444,7 +588,7 @@ export default function Comparison() {
                       textAnchor="middle"
                       dominantBaseline="middle"
                     >
-                      Face {faceIdx + 1}
+                      {faceLabel(face, faceIdx)}
                     </text>
                   </g>
                 </g>
@@ -469,11 +613,86 @@ export default function Comparison() {
           Back to Dashboard
         </Button>
 
-        <h1 className="text-3xl font-bold mb-2">Photo Comparison</h1>
+        <div className="flex items-start justify-between gap-4 mb-2">
+          <h1 className="text-3xl font-bold">Photo Comparison</h1>
+          <div className="flex items-center gap-2">
+            {sessionData && !isOwner && (
+              <Badge variant="secondary" data-testid="badge-session-role">{sessionData.role}</Badge>
+            )}
+            <Button variant="outline" onClick={() => setMembersOpen(true)} data-testid="button-session-members">
+              <Users className="w-4 h-4 mr-2" />
+              People
+            </Button>
+            {isOwner && (
+              <Button
+                variant="outline"
+                onClick={() => setShareTarget({ type: "session", label: "this session" })}
+                data-testid="button-share-session"
+              >
+                <Link2 className="w-4 h-4 mr-2" />
+                Share Album
+              </Button>
+            )}
+          </div>
+        </div>
         <p className="text-muted-foreground mb-6">
           See how each photo scored and which faces were detected
+          {scoringProfileName && (
+            <span data-testid="text-scoring-profile"> · scored with the {scoringProfileName} profile</span>
+          )}
         </p>
 
+        {/* Offer a composite when no single photo has everyone's eyes open */}
+        {canEdit && sessionAnalysis?.requiresComposite && (
+          <Card className="p-4 mb-6 flex flex-col sm:flex-row sm:items-center gap-3" data-testid="card-composite">
+            <div className="flex-1">
+              <p className="text-sm font-medium">No photo has everyone's eyes open</p>
+              <p className="text-sm text-muted-foreground">
+                Create a composite that swaps in open-eyed faces from the other photos
+              </p>
+            </div>
+            <Button
+              onClick={() => createCompositeMutation.mutate()}
+              disabled={createCompositeMutation.isPending}
+              data-testid="button-create-composite"
+            >
+              {createCompositeMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Layers className="w-4 h-4 mr-2" />
+              )}
+              {createCompositeMutation.isPending ? "Creating..." : "Create Composite"}
+            </Button>
+          </Card>
+        )}
+
+        {/* People across the burst */}
+        {people.length > 0 && (
+          <Card className="p-4 mb-6" data-testid="card-people">
+            <p className="text-sm font-medium mb-2">People</p>
+            <div className="space-y-1">
+              {people.map(({ personIndex, closedEyesIn, missingFrom }) => (
+                <div key={personIndex} className="flex flex-wrap items-center gap-2 text-sm" data-testid={`text-person-${personIndex}`}>
+                  <span className="font-medium">Person {personIndex + 1}</span>
+                  {closedEyesIn.length === 0 && missingFrom.length === 0 && (
+                    <span className="text-green-600 dark:text-green-400">eyes open in every photo</span>
+                  )}
+                  {closedEyesIn.length > 0 && (
+                    <span className="text-red-600 dark:text-red-400">
+                      eyes closed in {closedEyesIn.map(n => `#${n}`).join(", ")}
+                    </span>
+                  )}
+                  {missingFrom.length > 0 && (
+                    <span className="text-muted-foreground">
+                      not in {missingFrom.map(n => `#${n}`).join(", ")}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {sortedPhotos.map((photo, index) => {
             const score = parseFloat(photo.qualityScore);
@@ -481,6 +700,8 @@ export default function Comparison() {
               ? photo.analysisData.faces 
               : [];
             const issues = photo.analysisData?.issues;
+            const selection = photo.analysisData?.selection;
+            const breakdown = photo.analysisData?.scoreBreakdown;
 
             return (
               <Card
@@ -494,6 +715,27 @@ export default function Comparison() {
                   {/* Photo with properly aligned bounding boxes */}
                   <PhotoWithBoundingBoxes photo={photo} faces={faces} />
 
+                  {/* Rank, referenced by the people summary */}
+                  <Badge
+                    variant="secondary"
+                    className="absolute top-2 left-2 z-10"
+                    data-testid={`badge-rank-${index}`}
+                  >
+                    #{index + 1}
+                  </Badge>
+
+                  {/* Composite badge */}
+                  {photo.isComposite && (
+                    <Badge
+                      variant="secondary"
+                      className="absolute bottom-2 left-2 z-10"
+                      data-testid={`badge-composite-${index}`}
+                    >
+                      <Layers className="w-3 h-3 mr-1" />
+                      Composite
+                    </Badge>
+                  )}
+
                   {/* Winner badge */}
                   {photo.isSelectedBest && (
                     <Badge
@@ -525,6 +767,41 @@ export default function Comparison() {
                     {photo.originalFilename}
                   </p>
 
+                  {/* Why this photo won, or where it fell short */}
+                  {selection?.isBest && (
+                    <div className="rounded-md bg-primary/10 p-3 space-y-2" data-testid={`panel-why-won-${index}`}>
+                      <p className="text-sm font-medium">Why this photo won</p>
+                      <p className="text-sm text-muted-foreground">{selectionReason(selection)}</p>
+                      {breakdown && (
+                        <div className="space-y-1 text-xs">
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">Eyes open</span>
+                            <span>{points(breakdown.eyesOpen)}</span>
+                          </div>
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">Smiles</span>
+                            <span>{points(breakdown.smile)}</span>
+                          </div>
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">Face quality</span>
+                            <span>{points(breakdown.faceQuality)}</span>
+                          </div>
+                          {breakdown.sharpnessFactor < 1 && (
+                            <div className="flex justify-between">
+                              <span className="text-muted-foreground">Sharpness</span>
+                              <span>×{breakdown.sharpnessFactor.toFixed(2)}</span>
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {selection && !selection.isBest && (
+                    <p className="text-xs text-muted-foreground" data-testid={`text-selection-${index}`}>
+                      Not picked: {selectionReason(selection)}
+                    </p>
+                  )}
+
                   {/* Faces detected */}
                   <div className="flex items-center gap-2">
                     <span className="text-sm text-muted-foreground">Faces Detected:</span>
@@ -533,6 +810,16 @@ export default function Comparison() {
                     </Badge>
                   </div>
 
+                  {/* Sharpness (missing on photos analyzed before it was measured) */}
+                  {photo.analysisData?.sharpness != null && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-muted-foreground">Sharpness:</span>
+                      <Badge variant="outline" data-testid={`badge-sharpness-${index}`}>
+                        {Math.round(photo.analysisData.sharpness * 100)}%
+                      </Badge>
+                    </div>
+                  )}
+
                   {/* Issues */}
                   <div className="space-y-2">
                     {issues && issues.closedEyes > 0 && (
@@ -547,6 +834,12 @@ export default function Comparison() {
                         <span>All eyes open</span>
                       </div>
                     )}
+                    {issues && issues.blurryFaces > 0 && (
+                      <div className="flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+                        <Focus className="w-4 h-4" />
+                        <span>{issues.blurryFaces} blurry {issues.blurryFaces === 1 ? "face" : "faces"}</span>
+                      </div>
+                    )}
                     {faces.every(f => f.attributes.smile.detected) && faces.length > 0 && (
                       <div className="flex items-center gap-2 text-sm text-green-600 dark:text-green-400">
                         <Smile className="w-4 h-4" />
@@ -560,27 +853,62 @@ export default function Comparison() {
                     <div className="pt-2 border-t space-y-1">
                       <p className="text-xs font-medium text-muted-foreground">Face Quality:</p>
                       {faces.map((face, faceIdx) => (
-                        <div key={face.faceId} className="flex items-center justify-between text-xs">
-                          <span className="text-muted-foreground">Face {faceIdx + 1}</span>
-                          <span className="font-medium" data-testid={`text-face-quality-${index}-${faceIdx}`}>
-                            {face.qualityScore != null ? face.qualityScore.toFixed(1) : 'N/A'}
-                          </span>
+                        <div key={face.faceId}>
+                          <div className="flex items-center justify-between text-xs">
+                            <span className="text-muted-foreground">{faceLabel(face, faceIdx)}</span>
+                            <span className="font-medium" data-testid={`text-face-quality-${index}-${faceIdx}`}>
+                              {face.qualityScore != null ? face.qualityScore.toFixed(1) : 'N/A'}
+                              {face.sharpness != null && (
+                                <span className="ml-2 text-muted-foreground font-normal">
+                                  sharpness {Math.round(face.sharpness * 100)}%
+                                </span>
+                              )}
+                            </span>
+                          </div>
+                          {face.scoreBreakdown && (
+                            <p className="text-[11px] text-muted-foreground" data-testid={`text-face-breakdown-${index}-${faceIdx}`}>
+                              {faceBreakdownText(face.scoreBreakdown)}
+                            </p>
+                          )}
                         </div>
                       ))}
                     </div>
                   )}
 
-                  {/* Share button - available for all photos */}
-                  <Button
-                    onClick={() => sharePhoto(presignedUrls[photo.id] || photo.fileUrl, photo.originalFilename)}
-                    disabled={isSharing}
-                    variant={photo.isSelectedBest ? "default" : "outline"}
-                    className="w-full mt-3"
-                    data-testid={`button-share-${index}`}
-                  >
-                    <Share2 className="w-4 h-4 mr-2" />
-                    {isSharing ? "Sharing..." : "Share Photo"}
-                  </Button>
+                  {/* Everyone in the session can vote, viewers included */}
+                  <PhotoVoteControls
+                    photoId={photo.id}
+                    summary={votes?.photos[photo.id]}
+                    myVote={votes?.myVotes[photo.id]}
+                    onVote={(input) => vote(photo.id, input)}
+                    disabled={isVoting}
+                    className="mt-3"
+                  />
+
+                  {/* Share button - the owner can share any photo */}
+                  {isOwner && (
+                    <div className="flex gap-2 mt-3">
+                      <Button
+                        onClick={() => sharePhoto(photo.id, presignedUrls[photo.id] || photo.fileUrl, photo.originalFilename)}
+                        disabled={isSharing}
+                        variant={photo.isSelectedBest ? "default" : "outline"}
+                        className="flex-1"
+                        data-testid={`button-share-${index}`}
+                      >
+                        <Share2 className="w-4 h-4 mr-2" />
+                        {isSharing ? "Sharing..." : "Share Photo"}
+                      </Button>
+                      {/* Password, expiry and download options for this photo's link */}
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => setShareTarget({ type: "photo", id: photo.id, label: photo.originalFilename || "this photo" })}
+                        data-testid={`button-share-options-${index}`}
+                      >
+                        <Link2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
                 </div>
               </Card>
             );
@@ -609,6 +937,19 @@ export default function Comparison() {
           </div>
         </Card>
       </div>
+
+      {shareTarget && sessionId && (
+        <ShareLinkDialog
+          sessionId={sessionId}
+          target={shareTarget}
+          open={!!shareTarget}
+          onOpenChange={(open) => !open && setShareTarget(null)}
+        />
+      )}
+
+      {sessionId && (
+        <SessionMembersDialog sessionId={sessionId} open={membersOpen} onOpenChange={setMembersOpen} />
+      )}
     </div>
   );
 }
@@ -1,20 +1,23 @@
 import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation, Link } from "wouter";
-import { Sparkles, Upload, LogOut, Eye, Smile, Loader2, Image as ImageIcon, Download, Images, Settings } from "lucide-react";
+import { Sparkles, Upload, LogOut, Eye, Smile, Loader2, Image as ImageIcon, Download, Images, Settings, Pause, Play, XCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardContent, CardFooter } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ObjectUploader } from "@/components/ObjectUploader";
 import { useAuth } from "@/hooks/useAuth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { openProgressStream } from "@/lib/progressStream";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import ProfileDropdown from "@/components/ProfileDropdown";
 import { useConvertKit } from "@/hooks/useConvertKit";
 import { NewsletterSignup } from "@/components/NewsletterSignup";
+import { SharedSessions } from "@/components/SharedSessions";
 import type { UploadResult } from "@uppy/core";
 import type { PhotoSession, Photo } from "@shared/schema";
 import { useKindeAuth } from "@kinde-oss/kinde-auth-react";
@@ -24,7 +27,7 @@ interface AnalysisProgress {
   currentPhoto: number;
   totalPhotos: number;
   percentage: number;
-  status: 'loading_models' | 'analyzing' | 'selecting_best' | 'complete' | 'error';
+  status: 'loading_models' | 'analyzing' | 'selecting_best' | 'complete' | 'error' | 'paused' | 'cancelled';
   message: string;
   currentPhotoId?: string;
 }
@@ -37,7 +40,7 @@ export default function Dashboard() {
   const [location] = useLocation();
   const [selectedSession, setSelectedSession] = useState<string | null>(null);
   const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
-  const progressIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const closeProgressStreamRef = useRef<(() => void) | null>(null);
   const [presignedUrls, setPresignedUrls] = useState<Record<string, string>>({});
 
   // Pagination state for sessions
@@ -129,7 +132,7 @@ export default function Dashboard() {
 
   // Fetch presigned URLs for all photos in selected session
   const { data: presignedData, isLoading: presignedLoading, error: presignedError } = useQuery<{
-    photos: Array<{ photoId: string; presignedUrl: string | null }>;
+    photos: Array<{ photoId: string; presignedUrl: string | null; thumbnailUrl: string | null; previewUrl: string | null }>;
   }>({
     queryKey: ["/api/sessions", selectedSession, "photos/presigned-urls"],
     enabled: !!selectedSession && !!user,
@@ -161,8 +164,10 @@ export default function Dashboard() {
       const urlMap: Record<string, string> = {};
       presignedData.photos.forEach((item) => {
         console.log('🔑 Processing presigned URL item:', item);
-        if (item.presignedUrl) {
-          urlMap[item.photoId] = item.presignedUrl;
+        // The grid only needs the thumbnail; older photos fall back to the original until backfilled
+        const url = item.thumbnailUrl || item.presignedUrl;
+        if (url) {
+          urlMap[item.photoId] = url;
         } else {
           console.warn('⚠️ Missing presigned URL for photo:', item.photoId);
         }
@@ -294,116 +299,203 @@ export default function Dashboard() {
   // Navigate to results
   const [, setLocation] = useLocation();
 
-  // Analyze session mutation with polling-based progress tracking
-  const analyzeSessionMutation = useMutation({
-    mutationFn: async (sessionId: string) => {
-      console.log('🚀 Starting analysis with polling-based progress tracking');
-
-      // Start polling for progress updates
-      const startPolling = () => {
-        progressIntervalRef.current = setInterval(async () => {
-          try {
-            const res = await apiRequest("GET", `/api/sessions/${sessionId}/progress`);
-            const data = await res.json();
-
-            if (data.progress) {
-              console.log('📊 Progress update:', data.progress);
-              setAnalysisProgress(data.progress);
-
-              // Stop polling when complete or error
-              if (data.progress.status === 'complete' || data.progress.status === 'error') {
-                console.log('✅ Analysis finished, stopping polling');
-                if (progressIntervalRef.current) {
-                  clearInterval(progressIntervalRef.current);
-                  progressIntervalRef.current = null;
-                }
-              }
-            }
-          } catch (error) {
-            console.error('❌ Error polling progress:', error);
-            
-            // Stop polling on 401 (unauthorized) - token expired
-            if (isUnauthorizedError(error as Error)) {
-              console.warn('⚠️ Token expired during progress polling, stopping');
-              if (progressIntervalRef.current) {
-                clearInterval(progressIntervalRef.current);
-                progressIntervalRef.current = null;
-              }
-              
-              toast({
-                title: "Session expired",
-                description: "Your session expired. Please refresh the page and try again.",
-                variant: "destructive",
-              });
-              
-              // Optionally redirect to login after a delay
-              setTimeout(() => {
-                window.location.href = "/api/login";
-              }, 2000);
-              
-              return; // Exit early to prevent further polling
-            }
-          }
-        }, 2000); // Poll every 2 seconds to avoid rate limits
-      };
-
-      // Start polling immediately
-      startPolling();
+  // Scoring profiles a session can be analyzed with
+  const { data: scoringProfiles } = useQuery<{
+    profiles: Array<{ id: string; name: string }>;
+    defaultProfileId: string;
+  }>({
+    queryKey: ["/api/scoring-profiles"],
+  });
 
-      // Start the analysis
-      console.log('🚀 Starting analysis POST request');
-      const res = await apiRequest("POST", `/api/sessions/${sessionId}/analyze`);
-      return await res.json();
+  const setScoringProfileMutation = useMutation({
+    mutationFn: async ({ sessionId, profileId }: { sessionId: string; profileId: string | null }) => {
+      await apiRequest("PUT", `/api/sessions/${sessionId}/scoring-profile`, { profileId });
     },
-    onSuccess: (_, sessionId) => {
-      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "photos"] });
+    onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to change the scoring profile",
+        variant: "destructive",
+      });
+    },
+  });
 
-      // Clear polling interval
-      if (progressIntervalRef.current) {
-        clearInterval(progressIntervalRef.current);
-        progressIntervalRef.current = null;
-      }
+  const closeProgressStream = () => {
+    closeProgressStreamRef.current?.();
+    closeProgressStreamRef.current = null;
+  };
 
-      // Clear progress after a brief delay to show completion
-      setTimeout(() => {
-        setAnalysisProgress(null);
-      }, 1000);
+  // Follow a queued analysis job; resolves once it completes or is cancelled, rejects if it fails
+  const followAnalysisProgress = (sessionId: string, jobId: string) =>
+    new Promise<AnalysisProgress>((resolve, reject) => {
+      closeProgressStream();
+      closeProgressStreamRef.current = openProgressStream<{ progress: AnalysisProgress | null; jobId?: string }>({
+        url: `/api/sessions/${sessionId}/progress`,
+        sessionId,
+        stream: "analysis",
+        onMessage: (data) => {
+          if (!data.progress || (data.jobId && data.jobId !== jobId)) return;
+
+          console.log('📊 Progress update:', data.progress);
+          setAnalysisProgress(data.progress);
+
+          if (data.progress.status === 'complete' || data.progress.status === 'cancelled') {
+            console.log('✅ Analysis finished, closing progress stream');
+            closeProgressStream();
+            resolve(data.progress);
+          } else if (data.progress.status === 'error') {
+            closeProgressStream();
+            reject(new Error(data.progress.message));
+          }
+        },
+        // Includes 401 (unauthorized) - token expired; handleAnalysisError handles re-login
+        onFailure: reject,
+      });
+    });
+
+  const handleAnalysisFinished = (progress: AnalysisProgress, sessionId: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "photos"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+
+    closeProgressStream();
 
+    if (progress.status === 'cancelled') {
+      setAnalysisProgress(null);
       toast({
-        title: "Analysis Complete",
-        description: "Your photos have been analyzed!",
+        title: "Analysis Cancelled",
+        description: progress.message,
       });
-      setLocation(`/session/${sessionId}/compare`);
-    },
-    onError: (error: Error) => {
-      // Clear polling interval
-      if (progressIntervalRef.current) {
-        clearInterval(progressIntervalRef.current);
-        progressIntervalRef.current = null;
-      }
+      return;
+    }
 
+    // Clear progress after a brief delay to show completion
+    setTimeout(() => {
       setAnalysisProgress(null);
+    }, 1000);
 
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
-      }
+    toast({
+      title: "Analysis Complete",
+      description: "Your photos have been analyzed!",
+    });
+    setLocation(`/session/${sessionId}/compare`);
+  };
+
+  const handleAnalysisError = (error: Error) => {
+    closeProgressStream();
+
+    setAnalysisProgress(null);
+
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: "Failed to analyze photos",
+      variant: "destructive",
+    });
+  };
+
+  // Analyze session mutation with streamed progress tracking
+  const analyzeSessionMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      // Queue the analysis; it runs in a background job and returns immediately
+      console.log('🚀 Starting analysis POST request');
+      const res = await apiRequest("POST", `/api/sessions/${sessionId}/analyze`);
+      const job = await res.json();
+
+      console.log('🚀 Analysis queued, streaming progress', { jobId: job.jobId });
+      return await followAnalysisProgress(sessionId, job.jobId);
+    },
+    onSuccess: (progress, sessionId) => handleAnalysisFinished(progress, sessionId),
+    onError: handleAnalysisError,
+  });
+
+  // Pause or cancel a running analysis; the run stops after its current batch and keeps finished photos
+  const stopAnalysisMutation = useMutation({
+    mutationFn: async ({ sessionId, action }: { sessionId: string; action: "pause" | "cancel" }) => {
+      await apiRequest("POST", `/api/sessions/${sessionId}/${action}`);
+      return action;
+    },
+    onSuccess: (action) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({
+        title: action === "pause" ? "Pausing analysis" : "Cancelling analysis",
+        description: "Photos already analyzed are kept",
+      });
+    },
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to analyze photos",
+        description: error.message,
         variant: "destructive",
       });
     },
   });
 
+  // Resume a paused analysis, following its progress unless the analyze mutation already is
+  const resumeAnalysisMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      const res = await apiRequest("POST", `/api/sessions/${sessionId}/resume`);
+      const { jobId } = await res.json();
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+
+      if (closeProgressStreamRef.current) return null;
+      return await followAnalysisProgress(sessionId, jobId);
+    },
+    onSuccess: (progress, sessionId) => {
+      if (progress) handleAnalysisFinished(progress, sessionId);
+    },
+    onError: handleAnalysisError,
+  });
+
+  const analysisControls = (sessionId: string, paused: boolean) => (
+    <div className="flex flex-wrap justify-end gap-2">
+      {paused ? (
+        <Button
+          size="sm"
+          onClick={() => resumeAnalysisMutation.mutate(sessionId)}
+          disabled={resumeAnalysisMutation.isPending}
+          data-testid="button-resume-analysis"
+        >
+          <Play className="mr-2 h-4 w-4" />
+          Resume
+        </Button>
+      ) : (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => stopAnalysisMutation.mutate({ sessionId, action: "pause" })}
+          disabled={stopAnalysisMutation.isPending}
+          data-testid="button-pause-analysis"
+        >
+          <Pause className="mr-2 h-4 w-4" />
+          Pause
+        </Button>
+      )}
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => stopAnalysisMutation.mutate({ sessionId, action: "cancel" })}
+        disabled={stopAnalysisMutation.isPending}
+        data-testid="button-cancel-analysis"
+      >
+        <XCircle className="mr-2 h-4 w-4" />
+        Cancel
+      </Button>
+    </div>
+  );
+
   const handleUploadComplete = async (result: UploadResult<Record<string, unknown>, Record<string, unknown>>) => {
     console.log("📦 Upload complete callback triggered", result);
 
@@ -432,7 +524,8 @@ export default function Dashboard() {
   };
 
   const currentSession = sessions?.find(s => s.id === selectedSession);
-  const canAnalyze = currentSession && currentSession.status === "uploading" && (photos?.length || 0) >= 2;
+  // A cancelled run can be started over; the photos it finished are re-analyzed
+  const canAnalyze = currentSession && (currentSession.status === "uploading" || currentSession.status === "cancelled") && (photos?.length || 0) >= 2;
 
   // Debug logging
   console.log('Dashboard Debug:', {
@@ -446,12 +539,10 @@ export default function Dashboard() {
   // Debug panel toggle
   const [showDebug, setShowDebug] = useState(false);
 
-  // Cleanup polling interval on unmount
+  // Close the progress stream on unmount
   useEffect(() => {
     return () => {
-      if (progressIntervalRef.current) {
-        clearInterval(progressIntervalRef.current);
-      }
+      closeProgressStreamRef.current?.();
     };
   }, []);
 
@@ -637,6 +728,9 @@ export default function Dashboard() {
           </Card>
         )}
 
+        {/* Sessions other people shared, and invitations waiting to be accepted */}
+        <SharedSessions />
+
         {/* Selected Session Photos */}
         {selectedSession && (
           <div className="mt-6 sm:mt-8">
@@ -667,6 +761,31 @@ export default function Dashboard() {
                   }
                   return null;
                 })()}
+                {/* Scoring profile for this session */}
+                {currentSession && scoringProfiles && (
+                  <Select
+                    value={currentSession.scoringProfileId ?? "default"}
+                    onValueChange={(value) => setScoringProfileMutation.mutate({
+                      sessionId: currentSession.id,
+                      profileId: value === "default" ? null : value,
+                    })}
+                    disabled={setScoringProfileMutation.isPending}
+                  >
+                    <SelectTrigger className="hidden sm:flex w-48" data-testid="select-session-scoring-profile">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">
+                        Default ({scoringProfiles.profiles.find(p => p.id === scoringProfiles.defaultProfileId)?.name ?? "Balanced"})
+                      </SelectItem>
+                      {scoringProfiles.profiles.map(profile => (
+                        <SelectItem key={profile.id} value={profile.id}>
+                          {profile.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
                 {/* Desktop Analyze Button */}
                 <Button 
                   onClick={() => analyzeSessionMutation.mutate(selectedSession)}
@@ -690,7 +809,9 @@ export default function Dashboard() {
                 <div className="space-y-4">
                   <div className="flex items-center justify-between">
                     <div>
-                      <h3 className="font-semibold text-lg">Analyzing Photos</h3>
+                      <h3 className="font-semibold text-lg">
+                        {analysisProgress.status === 'paused' ? 'Analysis Paused' : 'Analyzing Photos'}
+                      </h3>
                       <p className="text-sm text-muted-foreground">{analysisProgress.message}</p>
                     </div>
                     <Badge variant="secondary" className="font-mono text-lg px-3 py-1">
@@ -703,7 +824,21 @@ export default function Dashboard() {
                       Photo {analysisProgress.currentPhoto} of {analysisProgress.totalPhotos}
                     </p>
                   )}
+                  {analysisProgress.status !== 'complete' && analysisControls(analysisProgress.sessionId, analysisProgress.status === 'paused')}
+                </div>
+              </Card>
+            )}
+
+            {/* Paused run this page isn't following (e.g. after a reload) */}
+            {!analysisProgress && selectedSession && currentSession?.status === 'paused' && (
+              <Card className="mb-6 p-4 flex flex-col sm:flex-row sm:items-center gap-3" data-testid="card-analysis-paused">
+                <div className="flex-1">
+                  <p className="font-semibold">Analysis Paused</p>
+                  <p className="text-sm text-muted-foreground">
+                    Resume to analyze the remaining photos, or cancel to keep only those already analyzed
+                  </p>
                 </div>
+                {analysisControls(selectedSession, true)}
               </Card>
             )}
 
@@ -722,8 +857,8 @@ export default function Dashboard() {
             ) : photos && photos.length > 0 ? (
               <div className="grid gap-3 sm:gap-4 grid-cols-2 sm:grid-cols-2 lg:grid-cols-3">
                 {photos.map((photo) => {
-                  // Use presigned URL if available, fallback to original URL
-                  const imageUrl = presignedUrls[photo.id] || photo.fileUrl;
+                  // Use presigned URL if available, fallback to thumbnail or original URL
+                  const imageUrl = presignedUrls[photo.id] || photo.thumbnailUrl || photo.fileUrl;
                   console.log(`🖼️ Rendering photo ${photo.id}:`, {
                     photoId: photo.id,
                     originalFileUrl: photo.fileUrl,
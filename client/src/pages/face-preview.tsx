@@ -12,6 +12,9 @@ import { ArrowLeft, Sparkles, Loader2, CheckCircle2, XCircle, AlertCircle } from
 type DetectedFace = {
   boundingBox: { x: number; y: number; width: number; height: number };
   confidence: number;
+  headPose?: { pitch: number; yaw: number; roll: number };
+  lookingAway?: boolean;
+  excluded?: boolean; // excluded in an earlier analysis of this photo
 };
 
 type FaceDetectionResult = {
@@ -74,14 +77,14 @@ export default function FacePreview() {
     photosCount: photos?.length,
   });
 
-  // Initialize face selections (all faces included by default)
+  // Initialize face selections (faces are included unless previously excluded)
   useEffect(() => {
     if (detectionResults?.detections) {
       const initialSelections: FaceSelection = {};
       detectionResults.detections.forEach((result) => {
         initialSelections[result.photoId] = {};
-        result.faces.forEach((_, idx) => {
-          initialSelections[result.photoId][idx] = true; // Include by default
+        result.faces.forEach((face, idx) => {
+          initialSelections[result.photoId][idx] = !face.excluded;
         });
       });
       setFaceSelections(initialSelections);
@@ -104,9 +107,10 @@ export default function FacePreview() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      // Analysis continues in a background job; the session shows as analyzing until it finishes
       toast({
-        title: "Analysis Complete",
-        description: "Your photos have been analyzed",
+        title: "Analysis Started",
+        description: "Your photos are being analyzed in the background",
       });
       navigate("/");
     },
@@ -173,7 +177,7 @@ export default function FacePreview() {
         {/* Instructions */}
         <Card className="p-4 mb-6">
           <p className="text-sm text-muted-foreground">
-            Tap faces to exclude them from analysis. Excluded faces will be ignored when selecting the best photo.
+            Tap faces to exclude them from analysis. Excluded faces will be ignored when selecting the best photo and stay excluded when you re-analyze.
           </p>
         </Card>
 
@@ -301,6 +305,7 @@ function FacePreviewImage({
         src={photo.fileUrl}
         alt={photo.originalFilename || "Photo"}
         className="w-full h-auto"
+        style={{ imageOrientation: 'from-image' }} // Face coordinates are in display (EXIF-rotated) space
         onLoad={(e) => {
           const img = e.currentTarget;
           console.log("✅ Image loaded:", photo.fileUrl, {
@@ -422,6 +427,31 @@ function FacePreviewImage({
                 >
                   Face {idx + 1}
                 </text>
+
+                {/* Looking away badge */}
+                {face.lookingAway && (
+                  <g className="pointer-events-none" data-testid={`badge-looking-away-${photo.id}-${idx}`}>
+                    <rect
+                      x={x}
+                      y={y + height + 4}
+                      width={96}
+                      height={22}
+                      fill="#f59e0b"
+                      rx="4"
+                    />
+                    <text
+                      x={x + 48}
+                      y={y + height + 15}
+                      fill="white"
+                      fontSize="12"
+                      fontWeight="bold"
+                      textAnchor="middle"
+                      dominantBaseline="middle"
+                    >
+                      Looking away
+                    </text>
+                  </g>
+                )}
               </g>
             );
           })}
@@ -0,0 +1,51 @@
+import { useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useRoute, useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AlertCircle, Loader2 } from "lucide-react";
+
+// Opened from an invite link; accepts the invitation as the signed-in user and opens the session
+export default function Invite() {
+  const [, params] = useRoute("/invite/:token");
+  const token = params?.token;
+  const [, setLocation] = useLocation();
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/invitations/${encodeURIComponent(token!)}/accept`);
+      return await res.json() as { sessionId: string };
+    },
+    onSuccess: ({ sessionId }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", "shared"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+      setLocation(`/session/${sessionId}/compare`);
+    },
+  });
+
+  useEffect(() => {
+    // Accept once per token; the mutation object changes every render
+    if (token) acceptMutation.mutate();
+  }, [token]);
+
+  if (acceptMutation.isError) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col items-center justify-center text-center p-4">
+        <AlertCircle className="w-16 h-16 text-muted-foreground mb-4" />
+        <h2 className="text-2xl font-bold mb-2">This invitation can't be accepted</h2>
+        <p className="text-muted-foreground mb-6" data-testid="text-invite-error">
+          {acceptMutation.error instanceof Error ? acceptMutation.error.message : "It may have been withdrawn or already used."}
+        </p>
+        <Button onClick={() => setLocation("/")} data-testid="button-invite-dashboard">
+          Go to Dashboard
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center">
+      <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ArrowLeft, Copy, Loader2, Save, SlidersHorizontal, Trash2 } from "lucide-react";
+import type { AppliedScoringProfile, ScoringProfileSettings } from "@shared/schema";
+
+type ListedProfile = AppliedScoringProfile & { builtIn: boolean };
+
+type ProfilesResponse = {
+  profiles: ListedProfile[];
+  defaultProfileId: string;
+};
+
+// Editable numbers, as [section, key, label, step]
+const FIELDS: Array<{ title: string; description: string; rows: Array<[string, string, string, number]> }> = [
+  {
+    title: "Face score",
+    description: "Points each face earns, out of 100",
+    rows: [
+      ["faceWeights", "eyesOpen", "Eyes open", 1],
+      ["faceWeights", "smile", "Smile", 1],
+      ["faceWeights", "expression", "Happy or neutral expression", 1],
+      ["faceWeights", "detection", "Detection confidence", 1],
+    ],
+  },
+  {
+    title: "Photo score",
+    description: "Points each photo earns, out of 100",
+    rows: [
+      ["photoWeights", "eyesOpen", "Share of faces with eyes open", 1],
+      ["photoWeights", "smile", "Share of faces smiling", 1],
+      ["photoWeights", "faceQuality", "Average face score", 1],
+    ],
+  },
+  {
+    title: "Thresholds",
+    description: "When an eye counts as open and a face as smiling",
+    rows: [
+      ["thresholds", "eyeAspectRatio", "Eye aspect ratio above", 0.01],
+      ["thresholds", "smile", "Smile probability above", 0.05],
+    ],
+  },
+  {
+    title: "Best-photo selection",
+    description: "The photo with the most open eyes wins; these settle the rest",
+    rows: [
+      ["selection", "peopleTolerance", "Photos may miss this many people", 1],
+      ["tieBreakerWeights", "smile", "Tie-breaker: smiles", 1],
+      ["tieBreakerWeights", "faceQuality", "Tie-breaker: face score", 1],
+    ],
+  },
+];
+
+function readField(settings: ScoringProfileSettings, section: string, key: string): number {
+  const group: Record<string, number> = section === "tieBreakerWeights"
+    ? settings.selection.tieBreakerWeights
+    : (settings as unknown as Record<string, Record<string, number>>)[section];
+  return group[key];
+}
+
+function writeField(settings: ScoringProfileSettings, section: string, key: string, value: number): ScoringProfileSettings {
+  if (section === "tieBreakerWeights") {
+    return {
+      ...settings,
+      selection: {
+        ...settings.selection,
+        tieBreakerWeights: { ...settings.selection.tieBreakerWeights, [key]: value },
+      },
+    };
+  }
+  const current = (settings as unknown as Record<string, Record<string, number>>)[section];
+  return { ...settings, [section]: { ...current, [key]: value } };
+}
+
+export default function ScoringProfiles() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const [draftSettings, setDraftSettings] = useState<ScoringProfileSettings | null>(null);
+
+  const { data, isLoading } = useQuery<ProfilesResponse>({
+    queryKey: ["/api/scoring-profiles"],
+  });
+
+  const profiles = data?.profiles || [];
+  const selected = profiles.find(p => p.id === (selectedId ?? data?.defaultProfileId));
+
+  // Reset the editor whenever a different profile is selected
+  useEffect(() => {
+    if (selected) {
+      setDraftName(selected.name);
+      setDraftSettings(selected.settings);
+    }
+  }, [selected?.id]);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const setDefaultMutation = useMutation({
+    mutationFn: async (profileId: string) => {
+      await apiRequest("PUT", "/api/scoring-profiles/default", { profileId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scoring-profiles"] });
+      toast({
+        title: "Default profile updated",
+        description: "New analyses will use this profile unless a session picks another",
+      });
+    },
+    onError,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (source: ListedProfile) => {
+      const res = await apiRequest("POST", "/api/scoring-profiles", {
+        name: `${source.name} (copy)`.slice(0, 100),
+        settings: source.settings,
+      });
+      return await res.json() as { id: string };
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scoring-profiles"] });
+      setSelectedId(created.id);
+    },
+    onError,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PATCH", `/api/scoring-profiles/${selected!.id}`, {
+        name: draftName,
+        settings: draftSettings,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scoring-profiles"] });
+      toast({
+        title: "Profile saved",
+        description: "Re-analyze a session to score it with the new settings",
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/scoring-profiles/${selected!.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scoring-profiles"] });
+      setSelectedId(null);
+    },
+    onError,
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="container max-w-2xl mx-auto py-8">
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      </div>
+    );
+  }
+
+  const editable = selected && !selected.builtIn;
+
+  return (
+    <div className="container max-w-2xl mx-auto py-8 space-y-6">
+      <div className="flex items-center gap-4 mb-6">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setLocation("/")}
+          className="flex items-center gap-2"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to Dashboard
+        </Button>
+      </div>
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Scoring Profiles</h1>
+        <p className="text-muted-foreground mt-2">
+          Choose how photos are scored and how the best photo is picked
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <SlidersHorizontal className="h-5 w-5" />
+            Default Profile
+          </CardTitle>
+          <CardDescription>
+            Used for every analysis unless the session chooses its own
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Select
+            value={data.defaultProfileId}
+            onValueChange={(value) => setDefaultMutation.mutate(value)}
+            disabled={setDefaultMutation.isPending}
+          >
+            <SelectTrigger data-testid="select-default-profile">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map(profile => (
+                <SelectItem key={profile.id} value={profile.id}>
+                  {profile.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Profiles</CardTitle>
+          <CardDescription>
+            Built-in profiles can be copied and then adjusted
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-wrap gap-2">
+            {profiles.map(profile => (
+              <Button
+                key={profile.id}
+                variant={profile.id === selected?.id ? "default" : "outline"}
+                size="sm"
+                onClick={() => setSelectedId(profile.id)}
+                data-testid={`button-profile-${profile.id}`}
+              >
+                {profile.name}
+                {profile.builtIn && <Badge variant="secondary" className="ml-2">Built-in</Badge>}
+              </Button>
+            ))}
+          </div>
+
+          {selected && draftSettings && (
+            <>
+              <Separator />
+
+              <div className="space-y-2">
+                <Label htmlFor="profile-name">Name</Label>
+                <Input
+                  id="profile-name"
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  disabled={!editable}
+                  maxLength={100}
+                />
+              </div>
+
+              {FIELDS.map(section => (
+                <div key={section.title} className="space-y-3">
+                  <div>
+                    <p className="font-medium">{section.title}</p>
+                    <p className="text-sm text-muted-foreground">{section.description}</p>
+                  </div>
+                  {section.rows.map(([group, key, label, step]) => (
+                    <div key={`${group}.${key}`} className="flex items-center justify-between gap-4">
+                      <Label htmlFor={`${group}-${key}`} className="font-normal">{label}</Label>
+                      <Input
+                        id={`${group}-${key}`}
+                        type="number"
+                        step={step}
+                        min={0}
+                        className="w-28"
+                        value={readField(draftSettings, group, key)}
+                        onChange={(e) => {
+                          const value = parseFloat(e.target.value);
+                          if (!Number.isNaN(value)) {
+                            setDraftSettings(writeField(draftSettings, group, key, value));
+                          }
+                        }}
+                        disabled={!editable}
+                        data-testid={`input-${group}-${key}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+              ))}
+
+              <div className="flex flex-wrap gap-2 pt-2">
+                <Button
+                  variant="outline"
+                  onClick={() => createMutation.mutate(selected)}
+                  disabled={createMutation.isPending}
+                  data-testid="button-copy-profile"
+                >
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy
+                </Button>
+                {editable && (
+                  <>
+                    <Button
+                      onClick={() => saveMutation.mutate()}
+                      disabled={saveMutation.isPending}
+                      data-testid="button-save-profile"
+                    >
+                      {saveMutation.isPending ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <Save className="h-4 w-4 mr-2" />
+                      )}
+                      Save
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      onClick={() => deleteMutation.mutate()}
+                      disabled={deleteMutation.isPending}
+                      data-testid="button-delete-profile"
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </Button>
+                  </>
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useRoute } from "wouter";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { PhotoVoteControls, type OwnPhotoVote, type PhotoVoteInput } from "@/components/PhotoVoteControls";
+import { AlertCircle, CheckCircle2, Download, Loader2, Lock } from "lucide-react";
+import type { ShareTargetType } from "@shared/schema";
+
+type SharedPhoto = {
+  id: string;
+  originalFilename: string | null;
+  width: number | null;
+  height: number | null;
+  isBest: boolean;
+  thumbnailUrl: string | null;
+  previewUrl: string;
+  downloadUrl: string | null;
+};
+
+type SharedContent = {
+  targetType: ShareTargetType;
+  title: string;
+  allowDownload: boolean;
+  expiresAt: string | null;
+  photos: SharedPhoto[];
+  myVotes: Record<string, OwnPhotoVote>;
+};
+
+// The server answers 401 until the right password is sent, and 429 after too many wrong ones
+type ShareResponse =
+  | { status: "ok"; content: SharedContent }
+  | { status: "password"; message: string };
+
+// Anonymous viewers vote under an id this browser keeps, so their votes can be changed later
+const VIEWER_ID_STORAGE_KEY = "share-viewer-id";
+
+function getViewerId(): string {
+  let viewerId = localStorage.getItem(VIEWER_ID_STORAGE_KEY);
+  if (!viewerId) {
+    viewerId = crypto.randomUUID();
+    localStorage.setItem(VIEWER_ID_STORAGE_KEY, viewerId);
+  }
+  return viewerId;
+}
+
+// Anonymous request: no bearer token, the password travels in a header
+function shareHeaders(password: string): Record<string, string> {
+  return {
+    "X-Share-Viewer": getViewerId(),
+    ...(password ? { "X-Share-Password": password } : {}),
+  };
+}
+
+async function fetchShare(token: string, password: string): Promise<ShareResponse> {
+  const res = await fetch(`/api/share/${encodeURIComponent(token)}`, {
+    headers: shareHeaders(password),
+  });
+  const body = await res.json().catch(() => ({}));
+
+  if (res.status === 401 || res.status === 429) {
+    return { status: "password", message: body.message || "Password required" };
+  }
+  if (!res.ok) {
+    throw new Error(body.message || res.statusText);
+  }
+  return { status: "ok", content: body as SharedContent };
+}
+
+export default function Shared() {
+  const [, params] = useRoute("/share/:token");
+  const token = params?.token;
+  const [passwordInput, setPasswordInput] = useState("");
+  const [password, setPassword] = useState("");
+  const [selectedPhoto, setSelectedPhoto] = useState<SharedPhoto | null>(null);
+  const { toast } = useToast();
+
+  const { data, isLoading, error } = useQuery<ShareResponse>({
+    queryKey: ["share", token, password],
+    enabled: !!token,
+    queryFn: () => fetchShare(token!, password),
+  });
+
+  const voteMutation = useMutation({
+    mutationFn: async ({ photoId, input }: { photoId: string; input: PhotoVoteInput }) => {
+      const res = await fetch(`/api/share/${encodeURIComponent(token!)}/photos/${photoId}/vote`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", ...shareHeaders(password) },
+        body: JSON.stringify(input),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body.message || res.statusText);
+      }
+      return body as { photoId: string; vote: OwnPhotoVote | null };
+    },
+    onSuccess: ({ photoId, vote }) => {
+      // Presigned URLs stay as they are; only the viewer's own vote changes
+      queryClient.setQueryData<ShareResponse>(["share", token, password], (current) => {
+        if (current?.status !== "ok") return current;
+        const myVotes = { ...current.content.myVotes };
+        if (vote) myVotes[photoId] = vote;
+        else delete myVotes[photoId];
+        return { ...current, content: { ...current.content, myVotes } };
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save your vote", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col items-center justify-center text-center p-4">
+        <AlertCircle className="w-16 h-16 text-muted-foreground mb-4" />
+        <h2 className="text-2xl font-bold mb-2">This link can't be opened</h2>
+        <p className="text-muted-foreground" data-testid="text-share-error">
+          {error instanceof Error ? error.message : "The link may have expired or been revoked."}
+        </p>
+      </div>
+    );
+  }
+
+  if (data.status === "password") {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="p-6 w-full max-w-sm">
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setPassword(passwordInput);
+            }}
+          >
+            <div className="flex items-center gap-2">
+              <Lock className="w-5 h-5 text-muted-foreground" />
+              <h2 className="text-lg font-semibold">Password required</h2>
+            </div>
+            {password && (
+              <p className="text-sm text-red-600 dark:text-red-400" data-testid="text-share-password-error">
+                {data.message}
+              </p>
+            )}
+            <Input
+              type="password"
+              value={passwordInput}
+              onChange={(e) => setPasswordInput(e.target.value)}
+              placeholder="Enter the password you were given"
+              autoFocus
+              data-testid="input-share-password"
+            />
+            <Button type="submit" className="w-full" disabled={!passwordInput} data-testid="button-share-unlock">
+              View photos
+            </Button>
+          </form>
+        </Card>
+      </div>
+    );
+  }
+
+  const { content } = data;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto p-4 pb-20 max-w-7xl">
+        <h1 className="text-3xl font-bold mb-2" data-testid="text-share-title">{content.title}</h1>
+        <p className="text-muted-foreground mb-6">
+          {content.photos.length} {content.photos.length === 1 ? "photo" : "photos"}
+          {content.expiresAt && ` · available until ${new Date(content.expiresAt).toLocaleDateString()}`}
+        </p>
+
+        {content.photos.length === 0 ? (
+          <p className="text-muted-foreground">There are no photos to show yet.</p>
+        ) : (
+          <div className={content.photos.length === 1 ? "max-w-3xl mx-auto" : "grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4"}>
+            {content.photos.map(photo => (
+              <Card key={photo.id} className="overflow-hidden" data-testid={`card-shared-photo-${photo.id}`}>
+                <button type="button" className="block w-full" onClick={() => setSelectedPhoto(photo)}>
+                  <img
+                    src={content.photos.length === 1 ? photo.previewUrl : (photo.thumbnailUrl || photo.previewUrl)}
+                    alt={photo.originalFilename || "Shared photo"}
+                    className="w-full h-auto object-cover"
+                    loading="lazy"
+                  />
+                </button>
+                <PhotoVoteControls
+                  photoId={photo.id}
+                  myVote={content.myVotes?.[photo.id]}
+                  onVote={(input) => voteMutation.mutate({ photoId: photo.id, input })}
+                  disabled={voteMutation.isPending}
+                  className="px-1 pt-1"
+                />
+                {(photo.isBest || photo.downloadUrl) && (
+                  <div className="flex items-center justify-between gap-2 p-2">
+                    {photo.isBest ? (
+                      <Badge className="gap-1">
+                        <CheckCircle2 className="w-3 h-3" />
+                        Best photo
+                      </Badge>
+                    ) : <span />}
+                    {photo.downloadUrl && (
+                      <Button size="sm" variant="ghost" asChild data-testid={`button-download-${photo.id}`}>
+                        <a href={photo.downloadUrl}>
+                          <Download className="w-4 h-4" />
+                        </a>
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={!!selectedPhoto} onOpenChange={() => setSelectedPhoto(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>{selectedPhoto?.originalFilename || "Photo"}</DialogTitle>
+          </DialogHeader>
+          {selectedPhoto && (
+            <div className="space-y-3">
+              <img
+                src={selectedPhoto.previewUrl}
+                alt={selectedPhoto.originalFilename || "Shared photo"}
+                className="w-full h-auto max-h-[70vh] object-contain"
+              />
+              {selectedPhoto.downloadUrl && (
+                <Button asChild className="w-full">
+                  <a href={selectedPhoto.downloadUrl}>
+                    <Download className="w-4 h-4 mr-2" />
+                    Download original
+                  </a>
+                </Button>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
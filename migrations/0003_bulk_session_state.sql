@@ -0,0 +1,6 @@
+ALTER TABLE "photo_sessions" ADD COLUMN "description" text;--> statement-breakpoint
+ALTER TABLE "photo_sessions" ADD COLUMN "bulk_settings" jsonb;--> statement-breakpoint
+ALTER TABLE "photos" ADD COLUMN "analysis_status" varchar(50) DEFAULT 'pending' NOT NULL;--> statement-breakpoint
+ALTER TABLE "photos" ADD COLUMN "analysis_error" text;--> statement-breakpoint
+UPDATE "photos" SET "analysis_status" = 'analyzed' WHERE "analysis_data" IS NOT NULL;--> statement-breakpoint
+CREATE INDEX "idx_photos_analysis_status" ON "photos" USING btree ("analysis_status");
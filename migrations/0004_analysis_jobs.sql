@@ -0,0 +1,26 @@
+CREATE TABLE "analysis_jobs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" varchar NOT NULL,
+	"user_id" varchar NOT NULL,
+	"type" varchar(50) NOT NULL,
+	"status" varchar(50) DEFAULT 'queued' NOT NULL,
+	"payload" jsonb,
+	"progress" jsonb,
+	"checkpoint" jsonb,
+	"result" jsonb,
+	"error" text,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 3 NOT NULL,
+	"run_after" timestamp DEFAULT now() NOT NULL,
+	"locked_by" varchar,
+	"locked_at" timestamp,
+	"started_at" timestamp,
+	"completed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "analysis_jobs" ADD CONSTRAINT "analysis_jobs_session_id_photo_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."photo_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "analysis_jobs" ADD CONSTRAINT "analysis_jobs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_analysis_jobs_session_id" ON "analysis_jobs" USING btree ("session_id");--> statement-breakpoint
+CREATE INDEX "idx_analysis_jobs_status_run_after" ON "analysis_jobs" USING btree ("status","run_after");
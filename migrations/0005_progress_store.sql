@@ -0,0 +1,9 @@
+CREATE TABLE "progress_entries" (
+	"key" varchar(255) PRIMARY KEY NOT NULL,
+	"data" jsonb NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "idx_progress_entries_expires_at" ON "progress_entries" USING btree ("expires_at");--> statement-breakpoint
+ALTER TABLE "analysis_jobs" DROP COLUMN "progress";
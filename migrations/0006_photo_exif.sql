@@ -0,0 +1,11 @@
+ALTER TABLE "photos" ADD COLUMN "captured_at" timestamp;--> statement-breakpoint
+ALTER TABLE "photos" ADD COLUMN "camera_make" varchar(100);--> statement-breakpoint
+ALTER TABLE "photos" ADD COLUMN "camera_model" varchar(100);--> statement-breakpoint
+ALTER TABLE "photos" ADD COLUMN "focal_length" real;--> statement-breakpoint
+ALTER TABLE "photos" ADD COLUMN "exposure_time" real;--> statement-breakpoint
+ALTER TABLE "photos" ADD COLUMN "f_number" real;--> statement-breakpoint
+ALTER TABLE "photos" ADD COLUMN "iso" integer;--> statement-breakpoint
+ALTER TABLE "photos" ADD COLUMN "orientation" integer;--> statement-breakpoint
+ALTER TABLE "photos" ADD COLUMN "gps_latitude" double precision;--> statement-breakpoint
+ALTER TABLE "photos" ADD COLUMN "gps_longitude" double precision;--> statement-breakpoint
+CREATE INDEX "idx_photos_captured_at" ON "photos" USING btree ("captured_at");
@@ -0,0 +1 @@
+ALTER TABLE "photos" ADD COLUMN "preview_url" varchar(500);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "faces" ADD COLUMN "face_index" integer;
\ No newline at end of file
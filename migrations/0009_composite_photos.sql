@@ -0,0 +1,2 @@
+ALTER TABLE "photos" ADD COLUMN "is_composite" boolean DEFAULT false NOT NULL;
+ALTER TABLE "photos" ADD COLUMN "composite_source" jsonb;
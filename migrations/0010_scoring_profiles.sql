@@ -0,0 +1,13 @@
+CREATE TABLE "scoring_profiles" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"settings" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "scoring_profiles" ADD CONSTRAINT "scoring_profiles_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_scoring_profiles_user_id" ON "scoring_profiles" USING btree ("user_id");--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "scoring_profile_id" varchar(100);--> statement-breakpoint
+ALTER TABLE "photo_sessions" ADD COLUMN "scoring_profile_id" varchar(100);
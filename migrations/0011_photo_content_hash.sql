@@ -0,0 +1 @@
+ALTER TABLE "photos" ADD COLUMN "content_hash" varchar(64);
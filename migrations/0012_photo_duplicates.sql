@@ -0,0 +1,6 @@
+ALTER TABLE "photos" ADD COLUMN "perceptual_hash" varchar(16);--> statement-breakpoint
+ALTER TABLE "photos" ADD COLUMN "duplicate_of_photo_id" varchar;--> statement-breakpoint
+ALTER TABLE "photos" ADD COLUMN "duplicate_kind" varchar(20);--> statement-breakpoint
+ALTER TABLE "photos" ADD CONSTRAINT "photos_duplicate_of_photo_id_photos_id_fk" FOREIGN KEY ("duplicate_of_photo_id") REFERENCES "public"."photos"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_photos_content_hash" ON "photos" USING btree ("content_hash");--> statement-breakpoint
+CREATE INDEX "idx_photos_duplicate_of_photo_id" ON "photos" USING btree ("duplicate_of_photo_id");
@@ -0,0 +1,2 @@
+ALTER TABLE "photo_groups" ADD COLUMN "algorithm" varchar(50);--> statement-breakpoint
+ALTER TABLE "photo_groups" ADD COLUMN "algorithm_params" jsonb;
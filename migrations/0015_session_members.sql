@@ -0,0 +1,18 @@
+CREATE TABLE "session_members" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" varchar NOT NULL,
+	"email" varchar(255) NOT NULL,
+	"user_id" varchar,
+	"role" varchar(20) NOT NULL,
+	"invite_token" varchar(64),
+	"invited_by" varchar,
+	"accepted_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "session_members" ADD CONSTRAINT "session_members_session_id_photo_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."photo_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_members" ADD CONSTRAINT "session_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_members" ADD CONSTRAINT "session_members_invited_by_users_id_fk" FOREIGN KEY ("invited_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_session_members_session_email" ON "session_members" USING btree ("session_id","email");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_session_members_invite_token" ON "session_members" USING btree ("invite_token");--> statement-breakpoint
+CREATE INDEX "idx_session_members_user_id" ON "session_members" USING btree ("user_id");
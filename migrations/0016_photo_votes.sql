@@ -0,0 +1,19 @@
+CREATE TABLE "photo_votes" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"photo_id" varchar NOT NULL,
+	"session_id" varchar NOT NULL,
+	"voter_key" varchar(255) NOT NULL,
+	"user_id" varchar,
+	"share_link_id" varchar,
+	"reaction" varchar(20),
+	"rating" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "photo_votes" ADD CONSTRAINT "photo_votes_photo_id_photos_id_fk" FOREIGN KEY ("photo_id") REFERENCES "public"."photos"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "photo_votes" ADD CONSTRAINT "photo_votes_session_id_photo_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."photo_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "photo_votes" ADD CONSTRAINT "photo_votes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "photo_votes" ADD CONSTRAINT "photo_votes_share_link_id_share_links_id_fk" FOREIGN KEY ("share_link_id") REFERENCES "public"."share_links"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_photo_votes_photo_voter" ON "photo_votes" USING btree ("photo_id","voter_key");--> statement-breakpoint
+CREATE INDEX "idx_photo_votes_session_id" ON "photo_votes" USING btree ("session_id");
@@ -0,0 +1 @@
+CREATE UNIQUE INDEX "idx_analysis_jobs_active_analysis" ON "analysis_jobs" USING btree ("session_id") WHERE "analysis_jobs"."status" IN ('queued', 'running', 'paused') AND "analysis_jobs"."type" IN ('analyze', 'group-analyze');
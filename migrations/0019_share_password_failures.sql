@@ -0,0 +1,10 @@
+CREATE TABLE "share_password_failures" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"share_link_id" varchar NOT NULL,
+	"client_key" varchar(255) NOT NULL,
+	"failures" integer DEFAULT 0 NOT NULL,
+	"window_started_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "share_password_failures" ADD CONSTRAINT "share_password_failures_share_link_id_share_links_id_fk" FOREIGN KEY ("share_link_id") REFERENCES "public"."share_links"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_share_password_failures_link_client" ON "share_password_failures" USING btree ("share_link_id","client_key");
@@ -0,0 +1,450 @@
+// Job handlers for session analysis and grouping (run by the durable job queue)
+import type { AnalysisJob, AppliedScoringProfile, Photo, PhotoAnalysisResult } from "@shared/schema";
+import { storage } from './storage';
+import { photoAnalysisService, type AnalysisProgress } from './photoAnalysis';
+import { photoGroupingService, type GroupingOptions } from './photoGroupingService';
+import { convertKitService } from './convertKitService';
+import { jobQueue, jobProgressKey, type JobContext } from './jobQueue';
+import { progressStore } from './progressStore';
+import { runRenditionsJob } from './renditions';
+import { identifySessionFaces } from './faceIdentity';
+import { resolveScoringProfileForSession } from './scoringProfiles';
+import { throwIfStopRequested } from './runControl';
+import { getVoteScores } from './photoVotes';
+import { bulkSessionService } from './bulkSessionService';
+import { logger } from './middleware/logger';
+
+export interface AnalyzeJobPayload {
+  faceSelections?: Record<string, Record<number, boolean>>;
+}
+
+export interface GroupAnalyzeJobPayload {
+  groupingOptions: GroupingOptions;
+  targetGroupSize?: number;
+}
+
+interface AnalysisCheckpoint {
+  analyzedPhotoIds?: string[];
+  needsAnalysis?: boolean;
+}
+
+// Share of the group-analyze progress bar used by analysis; grouping gets the rest
+const GROUP_ANALYZE_ANALYSIS_SHARE = 0.9;
+
+/**
+ * Whether a photo is missing the quality score or analysis data grouping relies on
+ */
+function photoNeedsAnalysis(photo: Photo): boolean {
+  const hasQualityScore = photo.qualityScore && parseFloat(photo.qualityScore) > 0;
+  const hasAnalysisData = photo.analysisData && (
+    typeof photo.analysisData === 'object' ||
+    (typeof photo.analysisData === 'string' && photo.analysisData.length > 0)
+  );
+  return !hasQualityScore || !hasAnalysisData;
+}
+
+/**
+ * Analyze a session's photos, skipping any the job already finished before a restart or pause.
+ * Each result is persisted as soon as it is ready and recorded in the job checkpoint, and a
+ * pause or cancel requested for the session stops the run between batches.
+ */
+async function analyzeWithCheckpoint(
+  job: AnalysisJob,
+  ctx: JobContext,
+  photos: Photo[],
+  faceSelections: AnalyzeJobPayload['faceSelections'],
+  progressShare: number,
+  profile: AppliedScoringProfile
+): Promise<PhotoAnalysisResult[]> {
+  const checkpoint = (job.checkpoint as AnalysisCheckpoint | null) || {};
+  const analyzedPhotoIds = [...(checkpoint.analyzedPhotoIds || [])];
+  const done = new Set(analyzedPhotoIds);
+
+  const previous = photos
+    .filter(p => done.has(p.id) && p.analysisData)
+    .map(p => p.analysisData as PhotoAnalysisResult);
+  const remaining = photos.filter(p => !done.has(p.id) || !p.analysisData);
+
+  if (previous.length > 0) {
+    logger.info('Resuming analysis job from checkpoint', {
+      jobId: job.id,
+      sessionId: job.sessionId,
+      alreadyAnalyzed: previous.length,
+      remaining: remaining.length,
+    });
+  }
+
+  if (remaining.length === 0) {
+    return previous;
+  }
+
+  // Relay in-process analysis progress into the job row, offset by resumed work
+  const unsubscribe = photoAnalysisService.onProgress(job.sessionId, (progress) => {
+    if (progress.status === 'complete' || progress.status === 'error') return;
+
+    const currentPhoto = previous.length + progress.currentPhoto;
+    ctx.updateProgress({
+      ...progress,
+      currentPhoto,
+      totalPhotos: photos.length,
+      percentage: Math.round((currentPhoto / photos.length) * 100 * progressShare),
+      message: progress.status === 'analyzing'
+        ? `Analyzing photo ${currentPhoto} of ${photos.length}...`
+        : progress.message,
+    } satisfies AnalysisProgress);
+  });
+
+  try {
+    const result = await photoAnalysisService.analyzeSession(
+      job.sessionId,
+      remaining,
+      faceSelections,
+      async (analysis, error) => {
+        await storage.updatePhoto(analysis.photoId, {
+          qualityScore: analysis.overallQualityScore.toString(),
+          analysisData: analysis,
+          analysisStatus: error ? 'failed' : 'analyzed',
+          analysisError: error ?? null,
+        });
+
+        if (!error) {
+          analyzedPhotoIds.push(analysis.photoId);
+          await ctx.saveCheckpoint({ ...checkpoint, analyzedPhotoIds });
+        }
+      },
+      profile,
+      () => throwIfStopRequested(job.sessionId)
+    );
+
+    return [...previous, ...result.analyses];
+  } finally {
+    unsubscribe();
+  }
+}
+
+/**
+ * Analyze every photo in a session and select the overall best photo
+ */
+async function runAnalyzeJob(job: AnalysisJob, ctx: JobContext) {
+  const { sessionId, userId } = job;
+  const { faceSelections } = (job.payload as AnalyzeJobPayload | null) || {};
+
+  const photos = await storage.getPhotosBySession(sessionId);
+  const profile = await resolveScoringProfileForSession(sessionId);
+
+  // Paused or cancelled while still queued
+  await throwIfStopRequested(sessionId);
+  await storage.updateSession(sessionId, { status: "analyzing" });
+
+  const analyzed = await analyzeWithCheckpoint(job, ctx, photos, faceSelections, 1, profile);
+
+  // Match people across photos so selection counts each person once
+  const identified = await identifySessionFaces(sessionId);
+  const analyses = analyzed.map(a => identified.get(a.photoId) ?? a);
+  const voteScores = await getVoteScores(analyses.map(a => a.photoId));
+  const { bestPhotoId, selections } = photoAnalysisService.explainBestPhoto(analyses, profile, voteScores);
+
+  // Record why each photo won or lost alongside its scores
+  for (const analysis of analyses) {
+    await storage.updatePhoto(analysis.photoId, {
+      analysisData: { ...analysis, selection: selections.get(analysis.photoId) },
+    });
+  }
+
+  for (const photo of photos) {
+    const isBest = photo.id === bestPhotoId;
+    if (photo.isSelectedBest !== isBest) {
+      await storage.updatePhoto(photo.id, { isSelectedBest: isBest });
+    }
+  }
+
+  // Update session with best photo and status
+  await storage.updateSession(sessionId, {
+    status: "completed",
+    bestPhotoId,
+  });
+
+  ctx.updateProgress({
+    sessionId,
+    currentPhoto: photos.length,
+    totalPhotos: photos.length,
+    percentage: 100,
+    status: 'complete',
+    message: 'Analysis complete!',
+  } satisfies AnalysisProgress);
+
+  // Send analysis completion email if user has consented
+  try {
+    const settings = await storage.getConvertKitSettings(userId);
+    if (settings?.emailConsent) {
+      const user = await storage.getUser(userId);
+      const bestPhoto = await storage.getPhoto(bestPhotoId || '');
+
+      await convertKitService.sendPhotoAnalysisEmail({
+        sessionId,
+        campaignType: 'analysis_complete',
+        userEmail: user?.email || '',
+        userName: user?.firstName || '',
+        analysisResults: {
+          photoCount: photos.length,
+          bestPhotoUrl: bestPhoto?.fileUrl,
+          qualityScore: bestPhoto?.qualityScore ? parseFloat(bestPhoto.qualityScore) : undefined,
+          facesDetected: analyses.reduce((total, analysis) => total + analysis.faces.length, 0),
+        },
+      });
+    }
+  } catch (emailError) {
+    logger.error('Failed to send analysis completion email', {
+      sessionId,
+      userId,
+      error: emailError instanceof Error ? emailError.message : 'Unknown error',
+    });
+    // Don't fail the job if email fails
+  }
+
+  return {
+    sessionId,
+    bestPhotoId,
+    analyzedCount: analyses.length,
+    scoringProfileId: profile.id,
+  };
+}
+
+/**
+ * Analyze photos that still need it, cluster the session into groups and pick each group's best photo
+ */
+async function runGroupAnalyzeJob(job: AnalysisJob, ctx: JobContext) {
+  const { sessionId } = job;
+  const { groupingOptions, targetGroupSize } = (job.payload as GroupAnalyzeJobPayload | null) || { groupingOptions: {} };
+  const checkpoint = (job.checkpoint as AnalysisCheckpoint | null) || {};
+
+  let photos = await storage.getPhotosBySession(sessionId);
+  const profile = await resolveScoringProfileForSession(sessionId);
+
+  // Photos must be analyzed BEFORE grouping so we can select the best photo from each scene.
+  // Decided once per job so a resumed job doesn't skip the analysis it was halfway through.
+  const needsAnalysis = checkpoint.needsAnalysis ?? photos.some(photoNeedsAnalysis);
+
+  // Paused or cancelled while still queued
+  await throwIfStopRequested(sessionId);
+
+  if (needsAnalysis) {
+    await ctx.saveCheckpoint({ ...checkpoint, needsAnalysis: true });
+    job = { ...job, checkpoint: { ...checkpoint, needsAnalysis: true } };
+
+    await storage.updateSession(sessionId, { status: "analyzing" });
+
+    // Analyze all photos (not just the ones needing analysis) to ensure consistency; unchanged
+    // photos keep their stored analysis
+    await analyzeWithCheckpoint(job, ctx, photos, undefined, GROUP_ANALYZE_ANALYSIS_SHARE, profile);
+    await identifySessionFaces(sessionId);
+
+    photos = await storage.getPhotosBySession(sessionId);
+    const stillMissingAnalysis = photos.filter(photoNeedsAnalysis);
+    if (stillMissingAnalysis.length > 0) {
+      logger.error(`Some photos still missing analysis after update`, {
+        sessionId,
+        missingCount: stillMissingAnalysis.length,
+        photoIds: stillMissingAnalysis.map(p => p.id)
+      });
+      throw new Error(`Failed to analyze ${stillMissingAnalysis.length} photo(s). Analysis may have partially failed.`);
+    }
+  }
+
+  await throwIfStopRequested(sessionId);
+
+  ctx.updateProgress({
+    sessionId,
+    currentPhoto: photos.length,
+    totalPhotos: photos.length,
+    percentage: Math.round(GROUP_ANALYZE_ANALYSIS_SHARE * 100),
+    status: 'selecting_best',
+    message: `Analysis complete (${photos.length}/${photos.length} photos). Grouping photos by scene...`,
+  } satisfies AnalysisProgress);
+
+  let clusters;
+  const unsubscribe = photoGroupingService.onProgress(sessionId, (progress) => {
+    if (progress.status === 'complete' || progress.status === 'error') return;
+    ctx.updateProgress({
+      sessionId,
+      currentPhoto: photos.length,
+      totalPhotos: photos.length,
+      percentage: Math.min(99, Math.round((GROUP_ANALYZE_ANALYSIS_SHARE + (1 - GROUP_ANALYZE_ANALYSIS_SHARE) * progress.percentage / 100) * 100)),
+      status: 'selecting_best',
+      message: progress.message,
+    } satisfies AnalysisProgress);
+  });
+
+  try {
+    clusters = await photoGroupingService.groupSessionPhotos(sessionId, groupingOptions);
+  } catch (groupingError) {
+    const message = groupingError instanceof Error ? groupingError.message : 'Unknown error';
+
+    // If analysis succeeded but grouping failed, still mark as completed.
+    // Analysis is what enables comparison view, so users should still be able to compare photos.
+    if (!photos.some(photoNeedsAnalysis)) {
+      logger.warn(`Grouping failed but analysis succeeded - marking session as completed anyway`, {
+        sessionId,
+        photoCount: photos.length,
+        groupingError: message
+      });
+
+      await storage.updateSession(sessionId, { status: "completed" });
+
+      const partialMessage = `Photos analyzed successfully, but grouping failed: ${message}. You can still view and compare your photos.`;
+      ctx.updateProgress({
+        sessionId,
+        currentPhoto: photos.length,
+        totalPhotos: photos.length,
+        percentage: 100,
+        status: 'complete',
+        message: partialMessage,
+      } satisfies AnalysisProgress);
+
+      return {
+        sessionId,
+        groups: [],
+        totalGroups: 0,
+        options: groupingOptions,
+        analysisCompleted: true,
+        groupingFailed: true,
+        message: partialMessage,
+      };
+    }
+
+    throw groupingError;
+  } finally {
+    unsubscribe();
+  }
+
+  // Update session with grouping metadata
+  await storage.updateSession(sessionId, {
+    bulkMode: true,
+    targetGroupSize: targetGroupSize ?? 5,
+  });
+
+  // Replace any previous grouping, including the best photos it marked
+  const existingGroups = await storage.getGroupsBySession(sessionId);
+  await Promise.all(existingGroups.map(group => storage.deleteGroup(group.id)));
+  await Promise.all(
+    photos.filter(p => p.isSelectedBest).map(p => storage.updatePhoto(p.id, { isSelectedBest: false }))
+  );
+  photos = await storage.getPhotosBySession(sessionId);
+
+  const createdGroups = [];
+
+  for (const cluster of clusters) {
+    const clusterPhotos = photos.filter(p => cluster.photoIds.includes(p.id));
+
+    const group = await storage.createGroup({
+      sessionId,
+      name: `Group ${createdGroups.length + 1}`,
+      groupType: 'auto',
+      confidenceScore: cluster.confidence.toString(),
+      similarityScore: cluster.avgSimilarity.toString(),
+      timeWindowStart: cluster.timeWindow.start,
+      timeWindowEnd: cluster.timeWindow.end,
+      algorithm: cluster.algorithm,
+      algorithmParams: cluster.algorithmParams,
+    });
+
+    for (const photoId of cluster.photoIds) {
+      await storage.addPhotoToGroup(group.id, photoId, {
+        confidenceScore: cluster.confidence.toString(),
+      });
+    }
+
+    // Same selection as the bulk pipeline: scoring profile, then votes as a tie-breaker
+    const analyses = clusterPhotos
+      .filter(p => p.analysisData && typeof p.analysisData === 'object')
+      .map(p => p.analysisData as PhotoAnalysisResult);
+    const bestPhotoId = await bulkSessionService.selectGroupBest(group, clusterPhotos, analyses, profile);
+
+    createdGroups.push({
+      ...group,
+      photoCount: cluster.photoIds.length,
+      photoIds: cluster.photoIds,
+      bestPhotoId,
+    });
+  }
+
+  logger.info(`Successfully created groups`, {
+    sessionId,
+    groupsCreated: createdGroups.length,
+    totalPhotos: createdGroups.reduce((sum, g) => sum + g.photoCount, 0),
+    groupsWithoutBestPhoto: createdGroups.filter(g => !g.bestPhotoId).length,
+  });
+
+  // Update session status to completed after successful grouping
+  await storage.updateSession(sessionId, { status: "completed" });
+
+  ctx.updateProgress({
+    sessionId,
+    currentPhoto: photos.length,
+    totalPhotos: photos.length,
+    percentage: 100,
+    status: 'complete',
+    message: `Analysis complete! Created ${createdGroups.length} groups.`,
+  } satisfies AnalysisProgress);
+
+  return {
+    sessionId,
+    groups: createdGroups,
+    totalGroups: createdGroups.length,
+    options: groupingOptions,
+    analysisCompleted: needsAnalysis,
+  };
+}
+
+/**
+ * Progress for a job in the shape the session progress endpoints return
+ */
+export async function getJobProgress(job: AnalysisJob): Promise<AnalysisProgress> {
+  const stored = await progressStore.get<AnalysisProgress>(jobProgressKey(job.id));
+  const base: AnalysisProgress = stored || {
+    sessionId: job.sessionId,
+    currentPhoto: 0,
+    totalPhotos: 0,
+    percentage: 0,
+    status: 'loading_models',
+    message: 'Waiting for an analysis worker...',
+  };
+
+  switch (job.status) {
+    case 'completed':
+      return base.status === 'complete'
+        ? base
+        : { ...base, percentage: 100, status: 'complete', message: 'Analysis complete!' };
+    case 'failed':
+      return { ...base, status: 'error', message: `Analysis failed: ${job.error || 'Unknown error'}` };
+    case 'paused':
+      return {
+        ...base,
+        status: 'paused',
+        message: `Analysis paused after ${base.currentPhoto} of ${base.totalPhotos} photos`,
+      };
+    case 'cancelled':
+      return {
+        ...base,
+        status: 'cancelled',
+        message: `Analysis cancelled. ${base.currentPhoto} of ${base.totalPhotos} photos were analyzed and kept.`,
+      };
+    case 'queued':
+      return job.error
+        ? { ...base, status: base.status === 'complete' ? 'analyzing' : base.status, message: `Retrying after error: ${job.error}` }
+        : base;
+    default:
+      return base;
+  }
+}
+
+/**
+ * Register the analysis job handlers and start polling for work
+ */
+export function startAnalysisWorker(): void {
+  jobQueue.register('analyze', runAnalyzeJob);
+  jobQueue.register('group-analyze', runGroupAnalyzeJob);
+  // Renditions are a convenience; a failed backfill leaves the session usable
+  jobQueue.register('renditions', runRenditionsJob, { failSessionOnError: false });
+  jobQueue.start();
+}
@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { PhotoSession } from "@shared/schema";
+
+// Native image and ML modules aren't needed to claim a session
+vi.mock("canvas", () => ({ createCanvas: vi.fn(), loadImage: vi.fn(), Canvas: class {}, Image: class {} }));
+vi.mock("./photoAnalysis", () => ({ photoAnalysisService: {} }));
+vi.mock("./photoGroupingService", () => ({ photoGroupingService: {} }));
+vi.mock("./faceIdentity", () => ({ identifySessionFaces: vi.fn() }));
+vi.mock("./db", () => ({ db: {}, pool: {} }));
+vi.mock("./storage", () => ({
+  storage: {
+    claimSession: vi.fn(),
+    getPhotosBySession: vi.fn(async () => []),
+    getGroupsBySession: vi.fn(async () => []),
+  },
+}));
+
+import { storage } from "./storage";
+import { BulkSessionService } from "./bulkSessionService";
+
+const SESSION_ID = "session-1";
+const mockedStorage = vi.mocked(storage);
+
+function session(status: string, updatedAgoMs: number): PhotoSession {
+  return { id: SESSION_ID, status, updatedAt: new Date(Date.now() - updatedAgoMs) } as PhotoSession;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("bulk session claims", () => {
+  it("refuses to start a session another process is running", async () => {
+    mockedStorage.claimSession.mockResolvedValue(undefined);
+    const service = new BulkSessionService();
+
+    await expect(service.start(SESSION_ID, { similarityThreshold: 0.5 })).rejects.toMatchObject({ statusCode: 409 });
+    expect(service.isRunning(SESSION_ID)).toBe(false);
+    // Settings are only saved with a successful claim
+    expect(mockedStorage.claimSession).toHaveBeenCalledWith(
+      SESSION_ID,
+      { status: "grouping", bulkMode: true, bulkSettings: { similarityThreshold: 0.5 } },
+      expect.any(Array),
+      expect.any(Array),
+      expect.any(Date)
+    );
+  });
+
+  it("refuses to retry a session another process is running", async () => {
+    mockedStorage.claimSession.mockResolvedValue(undefined);
+    const service = new BulkSessionService();
+
+    await expect(service.retry(SESSION_ID)).rejects.toMatchObject({ statusCode: 409 });
+    expect(mockedStorage.claimSession).toHaveBeenCalledWith(
+      SESSION_ID,
+      { status: "grouping" },
+      ["grouping", "analyzing"],
+      ["analyze", "group-analyze"],
+      expect.any(Date)
+    );
+  });
+
+  it("refuses to queue an analysis job while a bulk run or another job holds the session", async () => {
+    mockedStorage.claimSession.mockResolvedValue(undefined);
+    await expect(new BulkSessionService().claimForJob(SESSION_ID)).rejects.toMatchObject({ statusCode: 409 });
+
+    mockedStorage.claimSession.mockResolvedValue({ id: SESSION_ID, status: "analyzing" } as PhotoSession);
+    await expect(new BulkSessionService().claimForJob(SESSION_ID)).resolves.toBeUndefined();
+  });
+
+  it("treats an active session as busy only while its run keeps it fresh", () => {
+    const service = new BulkSessionService();
+    expect(service.isBusy(session("analyzing", 10 * 1000))).toBe(true);
+    expect(service.isBusy(session("analyzing", 10 * 60 * 1000))).toBe(false);
+    expect(service.isBusy(session("completed", 0))).toBe(false);
+  });
+});
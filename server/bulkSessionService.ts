@@ -0,0 +1,679 @@
+// Bulk session service - drives the group-then-analyze pipeline behind /api/bulk-sessions
+import type { Photo, PhotoSession, PhotoGroup, PhotoAnalysisResult, BulkSessionSettings, AppliedScoringProfile } from "@shared/schema";
+import { storage } from './storage';
+import { progressStore, publishProgress, FINISHED_PROGRESS_TTL_MS } from './progressStore';
+import { photoAnalysisService } from './photoAnalysis';
+import { identifySessionFaces } from './faceIdentity';
+import { resolveScoringProfileForSession } from './scoringProfiles';
+import { photoGroupingService, type GroupingOptions, type PhotoCluster } from './photoGroupingService';
+import { RunStoppedError } from './runControl';
+import { ANALYSIS_JOB_TYPES } from './jobQueue';
+import { getVoteScores } from './photoVotes';
+import { AppError } from './middleware/errorHandler';
+import { logger } from './middleware/logger';
+
+export type BulkStage = 'uploading' | 'grouping' | 'analyzing' | 'completed' | 'cancelled' | 'error';
+
+export interface BulkPhotoError {
+  photoId: string;
+  filename: string;
+  error: string;
+  retryable: boolean;
+}
+
+export interface BulkAnalysisProgress {
+  stage: BulkStage;
+  totalPhotos: number;
+  processedPhotos: number;
+  currentGroup?: number;
+  totalGroups?: number;
+  estimatedTimeRemaining?: number;
+  errors?: BulkPhotoError[];
+  message?: string;
+  currentPhoto?: string;
+  currentOperation?: string;
+  startTime?: number;
+  endTime?: number;
+}
+
+export interface BulkSessionSummary {
+  id: string;
+  name: string;
+  description?: string;
+  status: 'uploading' | 'grouping' | 'analyzing' | 'completed' | 'cancelled' | 'error';
+  totalPhotos: number;
+  processedPhotos: number;
+  createdAt: Date;
+  updatedAt: Date;
+  settings: BulkSessionSettings;
+}
+
+// Session statuses during which a pipeline run owns the session
+const ACTIVE_STATUSES = ['grouping', 'analyzing'];
+
+// A run touches its session this often. One left in an active status for longer than the lease
+// belonged to a process that died (or was restarted) and can be claimed by a new run.
+const RUN_HEARTBEAT_MS = 15 * 1000;
+const RUN_LEASE_MS = 2 * 60 * 1000;
+
+// Failures that will fail again no matter how often they are retried
+const NON_RETRYABLE_ERRORS = ['Unsupported image format', 'Image too small'];
+
+const CONCURRENT_ANALYSES = 3; // Same concurrency limit as PhotoAnalysisService.analyzeSession
+
+export class BulkSessionService {
+  private activeRuns = new Set<string>();
+
+  /**
+   * Persist a progress update for a session. Once it expires, DB state takes over.
+   */
+  private emitProgress(sessionId: string, progress: BulkAnalysisProgress): void {
+    publishProgress(
+      `bulk:${sessionId}`,
+      progress,
+      this.isFinishedStage(progress.stage) ? FINISHED_PROGRESS_TTL_MS : undefined
+    );
+  }
+
+  /**
+   * Whether a progress stage means processing has stopped
+   */
+  isFinishedStage(stage: BulkStage): boolean {
+    return stage === 'completed' || stage === 'cancelled' || stage === 'error';
+  }
+
+  /**
+   * Whether a pipeline run for this session is in flight in this process
+   */
+  isRunning(sessionId: string): boolean {
+    return this.activeRuns.has(sessionId);
+  }
+
+  /**
+   * Whether a photo already has usable analysis results
+   */
+  isAnalyzed(photo: Photo): boolean {
+    return photo.analysisStatus === 'analyzed' ||
+      (photo.analysisStatus === 'pending' && !!photo.analysisData && photo.qualityScore !== null);
+  }
+
+  /**
+   * Per-photo failures for a session, in upload order
+   */
+  getErrors(photos: Photo[]): BulkPhotoError[] {
+    return photos
+      .filter(p => p.analysisStatus === 'failed')
+      .map(p => {
+        const error = p.analysisError || 'Analysis failed';
+        return {
+          photoId: p.id,
+          filename: p.originalFilename || p.id,
+          error,
+          retryable: !NON_RETRYABLE_ERRORS.some(pattern => error.includes(pattern)),
+        };
+      });
+  }
+
+  /**
+   * Current progress for a session: live progress while running, otherwise derived from stored state
+   */
+  async getProgress(session: PhotoSession, photos?: Photo[]): Promise<BulkAnalysisProgress> {
+    const sessionPhotos = photos ?? await storage.getPhotosBySession(session.id);
+    const errors = this.getErrors(sessionPhotos);
+
+    const live = await progressStore.get<BulkAnalysisProgress>(`bulk:${session.id}`);
+    if (live) {
+      return { ...live, errors };
+    }
+
+    const processedPhotos = sessionPhotos.filter(p => this.isAnalyzed(p) || p.analysisStatus === 'failed').length;
+    const base = { totalPhotos: sessionPhotos.length, errors };
+
+    switch (session.status) {
+      case 'grouping':
+        return { ...base, stage: 'grouping', processedPhotos: 0, message: 'Grouping photos by scene...' };
+      case 'analyzing':
+        return { ...base, stage: 'analyzing', processedPhotos, message: `Analyzing photos... (${processedPhotos}/${sessionPhotos.length} complete)` };
+      case 'completed':
+        return { ...base, stage: 'completed', processedPhotos, message: 'Analysis complete' };
+      case 'cancelled':
+        return { ...base, stage: 'cancelled', processedPhotos, message: 'Processing was cancelled. Analyzed photos have been kept.' };
+      case 'failed':
+        return { ...base, stage: 'error', processedPhotos, message: 'Processing failed' };
+      default:
+        return { ...base, stage: 'uploading', processedPhotos: sessionPhotos.length, message: `${sessionPhotos.length} photos uploaded` };
+    }
+  }
+
+  /**
+   * Shape a session row for the bulk-sessions API
+   */
+  toSummary(session: PhotoSession, photos: Photo[]): BulkSessionSummary {
+    const statusMap: Record<string, BulkSessionSummary['status']> = {
+      uploading: 'uploading',
+      grouping: 'grouping',
+      analyzing: 'analyzing',
+      completed: 'completed',
+      cancelled: 'cancelled',
+      failed: 'error',
+    };
+
+    return {
+      id: session.id,
+      name: session.name || 'Untitled session',
+      description: session.description || undefined,
+      status: statusMap[session.status] || 'uploading',
+      totalPhotos: photos.length,
+      processedPhotos: photos.filter(p => this.isAnalyzed(p) || p.analysisStatus === 'failed').length,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      settings: (session.bulkSettings as BulkSessionSettings | null) || {},
+    };
+  }
+
+  /**
+   * Get all groups of a session with their member photos
+   */
+  async getGroupsWithPhotos(sessionId: string) {
+    const groups = await storage.getGroupsBySession(sessionId);
+
+    return Promise.all(
+      groups.map(async (group) => {
+        const memberships = await storage.getMembershipsByGroup(group.id);
+
+        const photos = await Promise.all(
+          memberships.map(async (membership) => {
+            const photo = await storage.getPhoto(membership.photoId);
+            return photo ? {
+              ...photo,
+              confidenceScore: membership.confidenceScore ? parseFloat(membership.confidenceScore) : undefined,
+              isExcluded: membership.isExcluded,
+              userNotes: membership.userNotes,
+            } : null;
+          })
+        );
+
+        // Filter out null photos and sort by upload order
+        const validPhotos = photos
+          .filter((p): p is NonNullable<typeof p> => p !== null)
+          .sort((a, b) => (a.uploadOrder || 0) - (b.uploadOrder || 0));
+
+        return {
+          ...group,
+          photoCount: validPhotos.length,
+          photos: validPhotos,
+          bestPhoto: validPhotos.find(p => p.id === group.bestPhotoId),
+          confidenceScore: group.confidenceScore ? parseFloat(group.confidenceScore) : undefined,
+          similarityScore: group.similarityScore ? parseFloat(group.similarityScore) : undefined,
+        };
+      })
+    );
+  }
+
+  /**
+   * Save the session's bulk settings and start grouping and analysis in the background
+   */
+  async start(sessionId: string, settings: BulkSessionSettings = {}): Promise<void> {
+    await this.claim(sessionId, { status: 'grouping', bulkMode: true, bulkSettings: settings });
+
+    const options: GroupingOptions = { similarityThreshold: settings.similarityThreshold };
+
+    this.runPipeline(sessionId, options).catch(error => {
+      logger.error('Bulk pipeline crashed', {
+        sessionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    });
+  }
+
+  /**
+   * Retry failed photos (or one specific photo) and resume an interrupted run
+   */
+  async retry(sessionId: string, photoId?: string): Promise<{ retried: number }> {
+    const photos = await storage.getPhotosBySession(sessionId);
+    const targets = photoId
+      ? photos.filter(p => p.id === photoId)
+      : photos.filter(p => p.analysisStatus === 'failed');
+
+    const groups = await storage.getGroupsBySession(sessionId);
+    await this.claim(sessionId, { status: groups.length > 0 ? 'analyzing' : 'grouping' });
+
+    try {
+      for (const photo of targets) {
+        await storage.updatePhoto(photo.id, {
+          analysisStatus: 'pending',
+          analysisError: null,
+          analysisData: null,
+          qualityScore: null,
+        });
+      }
+    } catch (error) {
+      this.activeRuns.delete(sessionId);
+      throw error;
+    }
+
+    const session = await storage.getSession(sessionId);
+    const settings = (session?.bulkSettings as BulkSessionSettings | null) || {};
+    this.runPipeline(sessionId, { similarityThreshold: settings.similarityThreshold }).catch(error => {
+      logger.error('Bulk retry crashed', {
+        sessionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    });
+
+    return { retried: targets.length };
+  }
+
+  /**
+   * Cancel a session. A running pipeline stops at its next batch boundary and keeps partial results.
+   */
+  async cancel(sessionId: string): Promise<PhotoSession | undefined> {
+    const session = await storage.updateSession(sessionId, { status: 'cancelled' });
+
+    if (!this.isRunning(sessionId)) {
+      const photos = await storage.getPhotosBySession(sessionId);
+      this.emitProgress(sessionId, {
+        ...(await this.getProgress(session!, photos)),
+        stage: 'cancelled',
+        endTime: Date.now(),
+      });
+    }
+
+    return session;
+  }
+
+  /**
+   * Whether a live run, in this process or another, holds the session
+   */
+  isBusy(session: PhotoSession): boolean {
+    return this.isRunning(session.id) ||
+      (this.isActiveStatus(session.status) && session.updatedAt.getTime() > Date.now() - RUN_LEASE_MS);
+  }
+
+  /**
+   * Take the session for a run in this process: set its active status in the same conditional
+   * update that checks no live run holds it. 409 if one does.
+   */
+  private async claim(sessionId: string, data: Partial<PhotoSession>): Promise<void> {
+    if (this.activeRuns.has(sessionId)) {
+      throw new AppError(409, "Session is already being processed");
+    }
+
+    const claimed = await storage.claimSession(sessionId, data, ACTIVE_STATUSES, ANALYSIS_JOB_TYPES, new Date(Date.now() - RUN_LEASE_MS));
+    if (!claimed) {
+      throw new AppError(409, "Session is already being processed");
+    }
+    this.activeRuns.add(sessionId);
+  }
+
+  /**
+   * Mark a session as analyzing for a queued analysis job, under the same claim as a bulk run.
+   * 409 if a bulk run or another analysis job holds the session.
+   */
+  async claimForJob(sessionId: string): Promise<void> {
+    if (this.activeRuns.has(sessionId)) {
+      throw new AppError(409, "Session is already being processed");
+    }
+
+    const claimed = await storage.claimSession(sessionId, { status: 'analyzing' }, ACTIVE_STATUSES, ANALYSIS_JOB_TYPES, new Date(Date.now() - RUN_LEASE_MS));
+    if (!claimed) {
+      throw new AppError(409, "Session is already being processed");
+    }
+  }
+
+  private async isCancelled(sessionId: string): Promise<boolean> {
+    const session = await storage.getSession(sessionId);
+    return !session || session.status === 'cancelled';
+  }
+
+  /**
+   * Group photos (unless groups already exist), then analyze each group and pick its best photo
+   */
+  private async runPipeline(sessionId: string, options: GroupingOptions): Promise<void> {
+    const startTime = Date.now();
+
+    // Keep the claim's lease fresh so no other process takes the session over
+    const heartbeat = setInterval(() => {
+      storage.updateSession(sessionId, {}).catch(() => {
+        // Next beat will try again
+      });
+    }, RUN_HEARTBEAT_MS);
+
+    try {
+      const session = await storage.getSession(sessionId);
+      const settings = (session?.bulkSettings as BulkSessionSettings | null) || {};
+      let groups = await storage.getGroupsBySession(sessionId);
+
+      if (groups.length === 0) {
+        groups = await this.runGroupingStage(sessionId, options, startTime);
+      }
+
+      if (await this.isCancelled(sessionId)) {
+        await this.finishCancelled(sessionId, startTime);
+        return;
+      }
+
+      if (settings.enableQualityAnalysis !== false) {
+        const completed = await this.runAnalysisStage(sessionId, groups, startTime);
+        if (!completed) {
+          await this.finishCancelled(sessionId, startTime);
+          return;
+        }
+      }
+
+      await storage.updateSession(sessionId, { status: 'completed' });
+
+      const photos = await storage.getPhotosBySession(sessionId);
+      const errors = this.getErrors(photos);
+      this.emitProgress(sessionId, {
+        stage: 'completed',
+        totalPhotos: photos.length,
+        processedPhotos: photos.length,
+        totalGroups: groups.length,
+        errors,
+        message: errors.length > 0
+          ? `Analysis complete. ${errors.length} photo(s) could not be analyzed.`
+          : 'Analysis complete',
+        startTime,
+        endTime: Date.now(),
+      });
+
+      logger.info('Bulk session processed', {
+        sessionId,
+        groups: groups.length,
+        photos: photos.length,
+        failedPhotos: errors.length,
+        durationMs: Date.now() - startTime,
+      });
+    } catch (error) {
+      // Grouping stops between batches once the session is cancelled
+      if (error instanceof RunStoppedError) {
+        await this.finishCancelled(sessionId, startTime);
+        return;
+      }
+
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Bulk session processing failed', {
+        sessionId,
+        error: message,
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      // Don't overwrite a cancellation that raced with the failure
+      if (!(await this.isCancelled(sessionId).catch(() => false))) {
+        await storage.updateSession(sessionId, { status: 'failed' }).catch(() => {
+          // Ignore errors updating status
+        });
+      }
+
+      this.emitProgress(sessionId, {
+        stage: 'error',
+        totalPhotos: 0,
+        processedPhotos: 0,
+        message: `Processing failed: ${message}`,
+        startTime,
+        endTime: Date.now(),
+      });
+    } finally {
+      clearInterval(heartbeat);
+      this.activeRuns.delete(sessionId);
+    }
+  }
+
+  /**
+   * Cluster the session's photos and replace its groups with the result
+   */
+  private async runGroupingStage(sessionId: string, options: GroupingOptions, startTime: number): Promise<PhotoGroup[]> {
+    await storage.updateSession(sessionId, { status: 'grouping' });
+
+    const photos = await storage.getPhotosBySession(sessionId);
+    this.emitProgress(sessionId, {
+      stage: 'grouping',
+      totalPhotos: photos.length,
+      processedPhotos: 0,
+      message: 'Grouping photos by scene...',
+      startTime,
+    });
+
+    // Relay grouping service progress as bulk progress
+    const unsubscribe = photoGroupingService.onProgress(sessionId, (progress) => {
+      if (progress.status === 'complete' || progress.status === 'error') return;
+      this.emitProgress(sessionId, {
+        stage: 'grouping',
+        totalPhotos: progress.totalPhotos,
+        processedPhotos: progress.currentPhoto,
+        currentOperation: progress.message,
+        message: 'Grouping photos by scene...',
+        startTime,
+      });
+    });
+
+    let clusters: PhotoCluster[];
+    try {
+      clusters = await photoGroupingService.groupSessionPhotos(sessionId, options);
+    } finally {
+      unsubscribe();
+    }
+
+    // Replace any previous grouping
+    const existingGroups = await storage.getGroupsBySession(sessionId);
+    await Promise.all(existingGroups.map(group => storage.deleteGroup(group.id)));
+    await Promise.all(
+      photos.filter(p => p.isSelectedBest).map(p => storage.updatePhoto(p.id, { isSelectedBest: false }))
+    );
+
+    const groups: PhotoGroup[] = [];
+    for (const cluster of clusters) {
+      const group = await storage.createGroup({
+        sessionId,
+        name: `Group ${groups.length + 1}`,
+        groupType: 'auto',
+        confidenceScore: cluster.confidence.toString(),
+        similarityScore: cluster.avgSimilarity.toString(),
+        timeWindowStart: cluster.timeWindow.start,
+        timeWindowEnd: cluster.timeWindow.end,
+        algorithm: cluster.algorithm,
+        algorithmParams: cluster.algorithmParams,
+      });
+
+      for (const photoId of cluster.photoIds) {
+        await storage.addPhotoToGroup(group.id, photoId, {
+          confidenceScore: cluster.confidence.toString(),
+        });
+      }
+
+      groups.push(group);
+    }
+
+    logger.info('Bulk grouping stage complete', { sessionId, groupsCreated: groups.length });
+    return groups;
+  }
+
+  /**
+   * Analyze unanalyzed photos group by group and select each group's best photo.
+   * Returns false if the session was cancelled part way through.
+   */
+  private async runAnalysisStage(sessionId: string, groups: PhotoGroup[], startTime: number): Promise<boolean> {
+    await storage.updateSession(sessionId, { status: 'analyzing' });
+
+    const photos = await storage.getPhotosBySession(sessionId);
+    const photosById = new Map(photos.map(p => [p.id, p]));
+
+    const excludedIds = new Set<string>();
+    const groupPhotos = await Promise.all(
+      groups.map(async (group) => {
+        const memberships = await storage.getMembershipsByGroup(group.id);
+        memberships.filter(m => m.isExcluded).forEach(m => excludedIds.add(`${group.id}:${m.photoId}`));
+        return memberships
+          .map(m => photosById.get(m.photoId))
+          .filter((p): p is Photo => !!p);
+      })
+    );
+
+    // Only groups with photos still to analyze need work; retries touch just their groups
+    const pending = groups
+      .map((group, index) => ({ group, index, members: groupPhotos[index] }))
+      .filter(({ members }) => members.some(p => !this.isAnalyzed(p) && p.analysisStatus !== 'failed'));
+
+    const totalToAnalyze = pending.reduce(
+      (sum, { members }) => sum + members.filter(p => !this.isAnalyzed(p) && p.analysisStatus !== 'failed').length,
+      0
+    );
+    let processed = 0;
+    const analysisStart = Date.now();
+
+    await photoAnalysisService.loadModels();
+    const profile = await resolveScoringProfileForSession(sessionId);
+
+    for (const { group, index, members } of pending) {
+      const analyses: PhotoAnalysisResult[] = [];
+      const toAnalyze: Photo[] = [];
+
+      for (const photo of members) {
+        if (this.isAnalyzed(photo)) {
+          analyses.push(photo.analysisData as PhotoAnalysisResult);
+        } else if (photo.analysisStatus !== 'failed') {
+          toAnalyze.push(photo);
+        }
+      }
+
+      for (let i = 0; i < toAnalyze.length; i += CONCURRENT_ANALYSES) {
+        // Check for cancellation between batches
+        if (await this.isCancelled(sessionId)) {
+          return false;
+        }
+
+        const batch = toAnalyze.slice(i, i + CONCURRENT_ANALYSES);
+        this.emitProgress(sessionId, {
+          stage: 'analyzing',
+          totalPhotos: totalToAnalyze,
+          processedPhotos: processed,
+          currentGroup: index + 1,
+          totalGroups: groups.length,
+          currentPhoto: batch.map(p => p.originalFilename || p.id).join(', '),
+          estimatedTimeRemaining: processed > 0
+            ? ((Date.now() - analysisStart) / processed) * (totalToAnalyze - processed)
+            : undefined,
+          message: `Analyzing ${group.name || `group ${index + 1}`}...`,
+          startTime,
+        });
+
+        const results = await Promise.all(batch.map(photo => this.analyzePhoto(photo, profile)));
+        for (const result of results) {
+          if (result) analyses.push(result);
+        }
+        processed += batch.length;
+      }
+
+      // Excluded members are analyzed but never picked as best
+      await this.selectGroupBest(
+        group,
+        members,
+        analyses.filter(a => !excludedIds.has(`${group.id}:${a.photoId}`)),
+        profile
+      );
+    }
+
+    // Match people across the whole session once every group is analyzed
+    await identifySessionFaces(sessionId);
+
+    return true;
+  }
+
+  /**
+   * Analyze one photo, recording success or failure on the photo row
+   */
+  private async analyzePhoto(photo: Photo, profile: AppliedScoringProfile): Promise<PhotoAnalysisResult | null> {
+    await storage.updatePhoto(photo.id, { analysisStatus: 'analyzing', analysisError: null });
+
+    try {
+      const analysis = await photoAnalysisService.analyzeAndRecordPhoto(photo, undefined, profile);
+      await storage.updatePhoto(photo.id, {
+        analysisStatus: 'analyzed',
+        analysisData: analysis,
+        qualityScore: analysis.overallQualityScore.toString(),
+      });
+      return analysis;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn('Bulk photo analysis failed', { photoId: photo.id, error: message });
+      await storage.updatePhoto(photo.id, {
+        analysisStatus: 'failed',
+        analysisError: message,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Pick and persist the best photo of a group from its successful analyses.
+   * Also used by the group-analyze job, so both pipelines pick the same best photos.
+   */
+  async selectGroupBest(
+    group: PhotoGroup,
+    members: Photo[],
+    analyses: PhotoAnalysisResult[],
+    profile: AppliedScoringProfile
+  ): Promise<string | null> {
+    const voteScores = await getVoteScores(analyses.map(a => a.photoId));
+    const { bestPhotoId, selections } = photoAnalysisService.explainBestPhoto(analyses, profile, voteScores);
+
+    await storage.updateGroup(group.id, { bestPhotoId });
+
+    // Singletons aren't compared against anything, so there's nothing to explain
+    if (members.length >= 2) {
+      await Promise.all(
+        analyses.map(analysis =>
+          storage.updatePhoto(analysis.photoId, {
+            analysisData: { ...analysis, selection: selections.get(analysis.photoId) },
+          })
+        )
+      );
+    }
+
+    // Don't mark singletons as "best" - that's meaningless
+    await Promise.all(
+      members.map(photo => {
+        const isBest = members.length >= 2 && photo.id === bestPhotoId;
+        return photo.isSelectedBest !== isBest
+          ? storage.updatePhoto(photo.id, { isSelectedBest: isBest })
+          : Promise.resolve();
+      })
+    );
+
+    return bestPhotoId;
+  }
+
+  private async finishCancelled(sessionId: string, startTime: number): Promise<void> {
+    const photos = await storage.getPhotosBySession(sessionId);
+
+    // Photos interrupted mid-analysis go back to pending so a retry picks them up
+    await Promise.all(
+      photos
+        .filter(p => p.analysisStatus === 'analyzing')
+        .map(p => storage.updatePhoto(p.id, { analysisStatus: 'pending' }))
+    );
+
+    const processedPhotos = photos.filter(p => this.isAnalyzed(p) || p.analysisStatus === 'failed').length;
+    this.emitProgress(sessionId, {
+      stage: 'cancelled',
+      totalPhotos: photos.length,
+      processedPhotos,
+      errors: this.getErrors(photos),
+      message: `Processing cancelled. ${processedPhotos} of ${photos.length} photos were analyzed and kept.`,
+      startTime,
+      endTime: Date.now(),
+    });
+
+    logger.info('Bulk session cancelled', { sessionId, processedPhotos, totalPhotos: photos.length });
+  }
+
+  /**
+   * Whether a session status means a pipeline run owns the session
+   */
+  isActiveStatus(status: string): boolean {
+    return ACTIVE_STATUSES.includes(status);
+  }
+}
+
+export const bulkSessionService = new BulkSessionService();
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import type { GroupingFeatures, GroupingOptions, SimilarityMatrix } from "./photoGroupingService";
+import {
+  agglomerativeStrategy,
+  capGroupSize,
+  dbscanStrategy,
+  getClusteringStrategy,
+  runClusteringStrategy,
+  timeGapStrategy,
+} from "./clusteringStrategies";
+
+const OPTIONS: Required<GroupingOptions> = {
+  similarityThreshold: 0.5,
+  maxGroupSize: 20,
+  minGroupSize: 1,
+  temporalWeight: 0.9,
+  visualWeight: 0.08,
+  metadataWeight: 0.02,
+  perceptualHashWeight: 0.3,
+  timeGapSeconds: 120,
+  dbscanMinSimilarity: 0.6,
+  dbscanMinPoints: 2,
+  batchSize: 10,
+};
+
+const START = Date.UTC(2024, 5, 15, 12, 0, 0);
+
+// Features in shooting order, each [seconds after START, timestamp source]
+function features(shots: Array<[number, GroupingFeatures["timestampSource"]]>): GroupingFeatures[] {
+  return shots.map(([seconds, timestampSource], i) => ({
+    photoId: `p${i}`,
+    timestamp: new Date(START + seconds * 1000),
+    timestampSource,
+  }) as GroupingFeatures);
+}
+
+function similarity(matrix: number[][]): SimilarityMatrix {
+  return { matrix, photoIds: matrix.map((_, i) => `p${i}`) };
+}
+
+// Two tight pairs that barely resemble each other, and a photo like neither
+const TWO_PAIRS = similarity([
+  [1, 0.9, 0.1, 0.1, 0.1],
+  [0.9, 1, 0.1, 0.1, 0.1],
+  [0.1, 0.1, 1, 0.8, 0.1],
+  [0.1, 0.1, 0.8, 1, 0.1],
+  [0.1, 0.1, 0.1, 0.1, 1],
+]);
+
+const sorted = (clusters: number[][]) => clusters.map(c => [...c].sort((a, b) => a - b)).sort((a, b) => a[0] - b[0]);
+
+describe("capGroupSize", () => {
+  it("splits oversized clusters into consecutive runs in time order", () => {
+    expect(capGroupSize([[4, 0, 2, 1, 3]], 2)).toEqual([[0, 1], [2, 3], [4]]);
+  });
+
+  it("leaves clusters within the limit alone", () => {
+    expect(capGroupSize([[0, 1], [2]], 2)).toEqual([[0, 1], [2]]);
+  });
+});
+
+describe("timeGapStrategy", () => {
+  it("starts a new group at every pause longer than timeGapSeconds", () => {
+    const shots = features([[0, "capture"], [30, "capture"], [150, "capture"], [400, "capture"], [410, "capture"]]);
+    expect(timeGapStrategy.cluster(similarity([]), shots, OPTIONS)).toEqual([[0, 1, 2], [3, 4]]);
+  });
+
+  it("never groups a capture time with an upload time, however close", () => {
+    const shots = features([[0, "capture"], [1, "upload"], [2, "upload"], [3, "capture"]]);
+    expect(timeGapStrategy.cluster(similarity([]), shots, OPTIONS)).toEqual([[0], [1, 2], [3]]);
+  });
+
+  it("caps groups at maxGroupSize", () => {
+    const shots = features([[0, "capture"], [1, "capture"], [2, "capture"], [3, "capture"], [4, "capture"]]);
+    expect(timeGapStrategy.cluster(similarity([]), shots, { ...OPTIONS, maxGroupSize: 2 })).toEqual([[0, 1], [2, 3], [4]]);
+  });
+
+  it("returns no groups for no photos", () => {
+    expect(timeGapStrategy.cluster(similarity([]), [], OPTIONS)).toEqual([]);
+  });
+});
+
+describe("dbscanStrategy", () => {
+  it("groups neighbours and leaves unreachable photos on their own", () => {
+    expect(sorted(dbscanStrategy.cluster(TWO_PAIRS, [], OPTIONS))).toEqual([[0, 1], [2, 3], [4]]);
+  });
+
+  it("grows a group through a chain of core photos", () => {
+    const chain = similarity([
+      [1, 0.7, 0.2, 0.1],
+      [0.7, 1, 0.7, 0.2],
+      [0.2, 0.7, 1, 0.7],
+      [0.1, 0.2, 0.7, 1],
+    ]);
+    expect(sorted(dbscanStrategy.cluster(chain, [], OPTIONS))).toEqual([[0, 1, 2, 3]]);
+  });
+
+  it("adds border photos without growing the group through them", () => {
+    // 0-3 are core with dbscanMinPoints 4; 4 neighbours 3 and 5 but too few to be core
+    const border = similarity([
+      [1, 0.9, 0.9, 0.9, 0.1, 0.1],
+      [0.9, 1, 0.9, 0.9, 0.1, 0.1],
+      [0.9, 0.9, 1, 0.9, 0.1, 0.1],
+      [0.9, 0.9, 0.9, 1, 0.7, 0.1],
+      [0.1, 0.1, 0.1, 0.7, 1, 0.7],
+      [0.1, 0.1, 0.1, 0.1, 0.7, 1],
+    ]);
+    expect(sorted(dbscanStrategy.cluster(border, [], { ...OPTIONS, dbscanMinPoints: 4 }))).toEqual([[0, 1, 2, 3, 4], [5]]);
+  });
+
+  it("caps groups at maxGroupSize", () => {
+    const all = similarity(Array.from({ length: 5 }, () => Array(5).fill(0.9)));
+    expect(sorted(dbscanStrategy.cluster(all, [], { ...OPTIONS, maxGroupSize: 2 }))).toEqual([[0, 1], [2, 3], [4]]);
+  });
+});
+
+describe("agglomerativeStrategy", () => {
+  it("merges pairs above the similarity threshold and stops below it", () => {
+    expect(sorted(agglomerativeStrategy.cluster(TWO_PAIRS, [], OPTIONS))).toEqual([[0, 1], [2, 3], [4]]);
+  });
+});
+
+describe("runClusteringStrategy", () => {
+  it("drops clusters under minGroupSize and stamps the algorithm and its parameters", () => {
+    const clusters = runClusteringStrategy(dbscanStrategy, TWO_PAIRS, [], { ...OPTIONS, minGroupSize: 2 });
+
+    expect(clusters.map(c => c.photoIds)).toEqual([["p0", "p1"], ["p2", "p3"]]);
+    expect(clusters[0].avgSimilarity).toBeCloseTo(0.9);
+    expect(clusters[0].algorithm).toBe("dbscan");
+    expect(clusters[0].algorithmParams).toMatchObject({ dbscanMinSimilarity: 0.6, dbscanMinPoints: 2, minGroupSize: 2 });
+  });
+});
+
+describe("getClusteringStrategy", () => {
+  it("picks the session's algorithm and falls back to agglomerative", () => {
+    expect(getClusteringStrategy("time_gap")).toBe(timeGapStrategy);
+    expect(getClusteringStrategy("dbscan")).toBe(dbscanStrategy);
+    expect(getClusteringStrategy(null)).toBe(agglomerativeStrategy);
+    expect(getClusteringStrategy("k_means")).toBe(agglomerativeStrategy);
+  });
+});
@@ -0,0 +1,328 @@
+// Clustering strategies - how a session's photos are partitioned into groups
+// Every strategy works on the same time-ordered features and similarity matrix and returns
+// clusters as matrix indices; toPhotoClusters turns those into PhotoClusters stamped with the
+// algorithm and the parameters that produced them. photoSessions.groupingAlgorithm picks one.
+import type { GroupingAlgorithm } from "@shared/schema";
+import type { GroupingFeatures, GroupingOptions, PhotoCluster, SimilarityMatrix } from './photoGroupingService';
+import { logger } from './middleware/logger';
+
+export interface ClusteringStrategy {
+  algorithm: GroupingAlgorithm;
+  /** The options this strategy reads, recorded with every group it produces */
+  parameters(options: Required<GroupingOptions>): Record<string, number>;
+  /** Clusters as indices into the similarity matrix (and the time-ordered features) */
+  cluster(similarityMatrix: SimilarityMatrix, features: GroupingFeatures[], options: Required<GroupingOptions>): number[][];
+}
+
+// Options that shape the similarity matrix, for strategies that cluster on it
+function similarityParameters(options: Required<GroupingOptions>): Record<string, number> {
+  return {
+    temporalWeight: options.temporalWeight,
+    visualWeight: options.visualWeight,
+    metadataWeight: options.metadataWeight,
+    perceptualHashWeight: options.perceptualHashWeight,
+  };
+}
+
+/**
+ * Split clusters over maxGroupSize into consecutive runs; indices are in time order
+ */
+export function capGroupSize(clusters: number[][], maxGroupSize: number): number[][] {
+  return clusters.flatMap(cluster => {
+    const sorted = [...cluster].sort((a, b) => a - b);
+    const runs: number[][] = [];
+    for (let i = 0; i < sorted.length; i += maxGroupSize) {
+      runs.push(sorted.slice(i, i + maxGroupSize));
+    }
+    return runs;
+  });
+}
+
+/**
+ * Average-linkage agglomerative clustering: repeatedly merge the most similar pair of clusters
+ * until no pair reaches the similarity threshold
+ */
+export const agglomerativeStrategy: ClusteringStrategy = {
+  algorithm: 'temporal_similarity',
+
+  parameters(options) {
+    return {
+      similarityThreshold: options.similarityThreshold,
+      minGroupSize: options.minGroupSize,
+      maxGroupSize: options.maxGroupSize,
+      ...similarityParameters(options),
+    };
+  },
+
+  cluster(similarityMatrix, _features, options) {
+    const n = similarityMatrix.photoIds.length;
+    const matrix = similarityMatrix.matrix;
+
+    // Initialize each photo as its own cluster
+    let clusters: number[][] = Array(n).fill(null).map((_, i) => [i]);
+
+    logger.info(`Starting hierarchical clustering`, {
+      totalPhotos: n,
+      initialClusters: clusters.length,
+      threshold: options.similarityThreshold
+    });
+
+    let iterationCount = 0;
+    while (clusters.length > 1) {
+      // Find most similar cluster pair
+      let maxSimilarity = -1;
+      let bestPair: [number, number] = [0, 0];
+
+      for (let i = 0; i < clusters.length; i++) {
+        for (let j = i + 1; j < clusters.length; j++) {
+          // Calculate average linkage between clusters
+          let totalSimilarity = 0;
+          let comparisons = 0;
+
+          for (const idx1 of clusters[i]) {
+            for (const idx2 of clusters[j]) {
+              totalSimilarity += matrix[idx1][idx2];
+              comparisons++;
+            }
+          }
+
+          const avgSimilarity = comparisons > 0 ? totalSimilarity / comparisons : 0;
+
+          if (avgSimilarity > maxSimilarity) {
+            maxSimilarity = avgSimilarity;
+            bestPair = [i, j];
+          }
+        }
+      }
+
+      // Log ALL iterations for debugging (not just first 10)
+      logger.info(`Clustering iteration ${iterationCount}`, {
+        clustersRemaining: clusters.length,
+        maxSimilarity: maxSimilarity.toFixed(3),
+        threshold: options.similarityThreshold,
+        willMerge: maxSimilarity >= options.similarityThreshold,
+        clusterSizes: clusters.map(c => c.length),
+        bestPairIndices: bestPair,
+        bestPairSizes: [clusters[bestPair[0]].length, clusters[bestPair[1]].length]
+      });
+      iterationCount++;
+
+      // Stop if similarity below threshold
+      if (maxSimilarity < options.similarityThreshold) {
+        logger.warn(`⚠️ Clustering stopped: max similarity ${maxSimilarity.toFixed(3)} below threshold ${options.similarityThreshold}`, {
+          finalClusterCount: clusters.length,
+          iterations: iterationCount,
+          finalClusterSizes: clusters.map(c => c.length),
+          suggestion: 'Consider lowering similarityThreshold or increasing temporal weight'
+        });
+        break;
+      }
+
+      // Merge the two most similar clusters
+      const [i, j] = bestPair;
+      const mergedCluster = [...clusters[i], ...clusters[j]];
+
+      // Remove old clusters and add merged one
+      clusters = clusters.filter((_, idx) => idx !== i && idx !== j);
+      clusters.push(mergedCluster);
+
+      // Stop if cluster would be too large
+      if (mergedCluster.length > options.maxGroupSize) break;
+    }
+
+    return clusters;
+  },
+};
+
+/**
+ * Time-gap segmentation: walk the photos in shooting order and start a new group at every
+ * pause longer than timeGapSeconds. Linear, and predictable for event and burst shooting.
+ */
+export const timeGapStrategy: ClusteringStrategy = {
+  algorithm: 'time_gap',
+
+  parameters(options) {
+    return {
+      timeGapSeconds: options.timeGapSeconds,
+      minGroupSize: options.minGroupSize,
+      maxGroupSize: options.maxGroupSize,
+    };
+  },
+
+  cluster(_similarityMatrix, features, options) {
+    if (features.length === 0) return [];
+
+    const clusters: number[][] = [[0]];
+    for (let i = 1; i < features.length; i++) {
+      // A capture time and an upload time can't be compared, so they always split
+      const comparable = features[i].timestampSource === features[i - 1].timestampSource;
+      const gap = features[i].timestamp.getTime() - features[i - 1].timestamp.getTime();
+      const current = clusters[clusters.length - 1];
+
+      if (!comparable || gap > options.timeGapSeconds * 1000 || current.length >= options.maxGroupSize) {
+        clusters.push([i]);
+      } else {
+        current.push(i);
+      }
+    }
+
+    return clusters;
+  },
+};
+
+/**
+ * DBSCAN over the similarity matrix: photos with at least dbscanMinPoints neighbours (itself
+ * included) at dbscanMinSimilarity or above seed a group, which grows through neighbouring
+ * core photos. Photos reachable from no core photo stay on their own.
+ */
+export const dbscanStrategy: ClusteringStrategy = {
+  algorithm: 'dbscan',
+
+  parameters(options) {
+    return {
+      dbscanMinSimilarity: options.dbscanMinSimilarity,
+      dbscanMinPoints: options.dbscanMinPoints,
+      minGroupSize: options.minGroupSize,
+      maxGroupSize: options.maxGroupSize,
+      ...similarityParameters(options),
+    };
+  },
+
+  cluster(similarityMatrix, _features, options) {
+    const { matrix } = similarityMatrix;
+    const n = matrix.length;
+    const UNVISITED = -1;
+    const NOISE = -2;
+    const labels: number[] = new Array(n).fill(UNVISITED);
+    const clusters: number[][] = [];
+
+    const neighbours = (i: number) => {
+      const result: number[] = [];
+      for (let j = 0; j < n; j++) {
+        if (j !== i && matrix[i][j] >= options.dbscanMinSimilarity) result.push(j);
+      }
+      return result;
+    };
+    const isCore = (found: number[]) => found.length + 1 >= options.dbscanMinPoints;
+
+    for (let i = 0; i < n; i++) {
+      if (labels[i] !== UNVISITED) continue;
+
+      const seeds = neighbours(i);
+      if (!isCore(seeds)) {
+        labels[i] = NOISE;
+        continue;
+      }
+
+      const label = clusters.length;
+      const cluster = [i];
+      clusters.push(cluster);
+      labels[i] = label;
+
+      const queue = [...seeds];
+      while (queue.length > 0) {
+        const j = queue.shift()!;
+        if (labels[j] === NOISE) {
+          // Border photo: joins the group but doesn't extend it
+          labels[j] = label;
+          cluster.push(j);
+          continue;
+        }
+        if (labels[j] !== UNVISITED) continue;
+
+        labels[j] = label;
+        cluster.push(j);
+        const found = neighbours(j);
+        if (isCore(found)) queue.push(...found);
+      }
+    }
+
+    const noise = labels.flatMap((label, i) => label === NOISE ? [[i]] : []);
+    return capGroupSize([...clusters, ...noise], options.maxGroupSize);
+  },
+};
+
+const STRATEGIES: Record<GroupingAlgorithm, ClusteringStrategy> = {
+  temporal_similarity: agglomerativeStrategy,
+  time_gap: timeGapStrategy,
+  dbscan: dbscanStrategy,
+};
+
+/**
+ * Strategy for a session's groupingAlgorithm; unknown values fall back to the agglomerative default
+ */
+export function getClusteringStrategy(algorithm: string | null | undefined): ClusteringStrategy {
+  const strategy = algorithm ? STRATEGIES[algorithm as GroupingAlgorithm] : undefined;
+  if (!strategy) {
+    if (algorithm) {
+      logger.warn(`Unknown grouping algorithm "${algorithm}", using temporal_similarity`);
+    }
+    return agglomerativeStrategy;
+  }
+  return strategy;
+}
+
+/**
+ * Run a strategy and turn its clusters into PhotoClusters, dropping any under minGroupSize.
+ * Time windows and dominant features are filled in later from the photos' features.
+ */
+export function runClusteringStrategy(
+  strategy: ClusteringStrategy,
+  similarityMatrix: SimilarityMatrix,
+  features: GroupingFeatures[],
+  options: Required<GroupingOptions>
+): PhotoCluster[] {
+  const { matrix } = similarityMatrix;
+  const clusters = strategy.cluster(similarityMatrix, features, options);
+  const algorithmParams = strategy.parameters(options);
+  const photoClusters: PhotoCluster[] = [];
+
+  logger.info(`Converting ${clusters.length} clusters to PhotoCluster objects`, {
+    algorithm: strategy.algorithm,
+    clusterSizes: clusters.map(c => c.length),
+    minGroupSize: options.minGroupSize,
+    willKeepAllClusters: options.minGroupSize <= 1
+  });
+
+  for (let i = 0; i < clusters.length; i++) {
+    const cluster = clusters[i];
+
+    // Skip clusters that are too small (but if minGroupSize is 1, keep everything including singletons)
+    if (cluster.length < options.minGroupSize) {
+      logger.info(`Skipping cluster ${i} (size ${cluster.length} < minGroupSize ${options.minGroupSize})`);
+      continue;
+    }
+
+    const photoIds = cluster.map(idx => similarityMatrix.photoIds[idx]);
+
+    // Calculate cluster statistics
+    let totalSimilarity = 0;
+    let comparisons = 0;
+
+    for (let j = 0; j < cluster.length; j++) {
+      for (let k = j + 1; k < cluster.length; k++) {
+        totalSimilarity += matrix[cluster[j]][cluster[k]];
+        comparisons++;
+      }
+    }
+
+    const avgSimilarity = comparisons > 0 ? totalSimilarity / comparisons : 0;
+
+    photoClusters.push({
+      id: `cluster-${i}`,
+      photoIds,
+      confidence: avgSimilarity,
+      avgSimilarity,
+      timeWindow: { start: new Date(), end: new Date() }, // Will be filled later
+      dominantFeatures: {
+        avgColorHistogram: [],
+        commonAspectRatios: [],
+        avgFaceCount: 0,
+      },
+      algorithm: strategy.algorithm,
+      algorithmParams,
+    });
+  }
+
+  return photoClusters;
+}
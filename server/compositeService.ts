@@ -0,0 +1,369 @@
+// Composite service - builds a "best faces" photo when no single frame has everyone's eyes open
+// A base frame is kept as-is except for the faces of people whose eyes are closed there; each
+// of those is replaced by the same person's best open-eyed face from another frame of the burst,
+// aligned with a similarity transform fitted to the face landmarks and blended in with a
+// feathered elliptical mask.
+import { createCanvas, type Canvas, type Image } from 'canvas';
+import type { CompositeSource, FaceAnalysis, Photo, PhotoAnalysisResult, SessionAnalysisResult } from "@shared/schema";
+import { storage } from './storage';
+import { photoAnalysisService } from './photoAnalysis';
+import { identifySessionFaces } from './faceIdentity';
+import { R2StorageService } from './r2Storage';
+import { loadImageFromUrl } from './imageLoader';
+import { resolveObjectAclPolicy } from './objectOwnership';
+import { renderRenditions, uploadRenditions } from './renditions';
+import { resolveScoringProfileForSession } from './scoringProfiles';
+import { AppError } from './middleware/errorHandler';
+import { logger } from './middleware/logger';
+
+export interface CompositeOptions {
+  groupId?: string; // use this group's members as frames; defaults to the whole session
+  basePhotoId?: string; // defaults to the group's or session's best photo
+}
+
+interface FaceReplacement {
+  personIndex: number;
+  target: FaceAnalysis; // face in the base frame
+  source: FaceAnalysis; // face to paste in
+  sourcePhotoId: string;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Maps (x, y) to (a·x − b·y + tx, b·x + a·y + ty): uniform scale, rotation and translation
+interface SimilarityTransform {
+  a: number;
+  b: number;
+  tx: number;
+  ty: number;
+}
+
+// Frames of a burst barely move; a face that needs more than this to line up is a different shot
+const MAX_SCALE_CHANGE = 1.5;
+const MAX_ROTATION_DEGREES = 20;
+// Mean landmark misfit after alignment, as a share of the base face's eye distance
+const MAX_ALIGNMENT_ERROR = 0.15;
+
+// Mask ellipse radii relative to the face box, and where inside it the feather starts
+const MASK_RADIUS_X = 0.65;
+const MASK_RADIUS_Y = 0.75;
+const MASK_FEATHER_START = 0.7;
+
+const COMPOSITE_QUALITY = 0.92;
+const COMPOSITE_CONTENT_TYPE = 'image/jpeg';
+
+function landmarkPoints(face: FaceAnalysis, width: number, height: number): Point[] {
+  const { leftEye, rightEye, nose, mouthLeft, mouthRight } = face.landmarks;
+  return [leftEye, rightEye, nose, mouthLeft, mouthRight].map(p => ({ x: p.x * width, y: p.y * height }));
+}
+
+/**
+ * Least-squares similarity transform taking the source points onto the target points
+ */
+function fitSimilarity(source: Point[], target: Point[]): SimilarityTransform {
+  const mean = (points: Point[]) => ({
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+  });
+  const sourceMean = mean(source);
+  const targetMean = mean(target);
+
+  let dot = 0;
+  let cross = 0;
+  let norm = 0;
+  source.forEach((s, i) => {
+    const sx = s.x - sourceMean.x;
+    const sy = s.y - sourceMean.y;
+    const tx = target[i].x - targetMean.x;
+    const ty = target[i].y - targetMean.y;
+    dot += sx * tx + sy * ty;
+    cross += sx * ty - sy * tx;
+    norm += sx * sx + sy * sy;
+  });
+
+  const a = norm > 0 ? dot / norm : 1;
+  const b = norm > 0 ? cross / norm : 0;
+  return {
+    a,
+    b,
+    tx: targetMean.x - (a * sourceMean.x - b * sourceMean.y),
+    ty: targetMean.y - (b * sourceMean.x + a * sourceMean.y),
+  };
+}
+
+function applyTransform(t: SimilarityTransform, p: Point): Point {
+  return { x: t.a * p.x - t.b * p.y + t.tx, y: t.b * p.x + t.a * p.y + t.ty };
+}
+
+/**
+ * Whether the fitted transform is a small, accurate move, i.e. the frames are aligned
+ */
+function isPlausibleAlignment(t: SimilarityTransform, source: Point[], target: Point[]): boolean {
+  const scale = Math.hypot(t.a, t.b);
+  const rotation = Math.abs((Math.atan2(t.b, t.a) * 180) / Math.PI);
+  if (scale > MAX_SCALE_CHANGE || scale < 1 / MAX_SCALE_CHANGE || rotation > MAX_ROTATION_DEGREES) {
+    return false;
+  }
+
+  const eyeDistance = Math.hypot(target[1].x - target[0].x, target[1].y - target[0].y);
+  if (eyeDistance === 0) return false;
+
+  const meanError = source.reduce((sum, p, i) => {
+    const moved = applyTransform(t, p);
+    return sum + Math.hypot(moved.x - target[i].x, moved.y - target[i].y);
+  }, 0) / source.length;
+
+  return meanError / eyeDistance <= MAX_ALIGNMENT_ERROR;
+}
+
+function needsReplacement(face: FaceAnalysis): boolean {
+  return !face.attributes.eyesOpen.detected;
+}
+
+function isGoodDonor(face: FaceAnalysis): boolean {
+  return face.attributes.eyesOpen.detected && !face.attributes.lookingAway;
+}
+
+export class CompositeService {
+  /**
+   * Faces in the base frame worth replacing, each paired with the same person's best
+   * open-eyed face in another frame. People are matched by personIndex, so faces must have
+   * been identified across the session (analyses with recognition descriptors).
+   */
+  planReplacements(base: PhotoAnalysisResult, others: PhotoAnalysisResult[]): FaceReplacement[] {
+    const replacements: FaceReplacement[] = [];
+
+    for (const target of base.faces) {
+      if (!target.descriptor || !needsReplacement(target)) continue;
+
+      let best: { face: FaceAnalysis; photoId: string } | null = null;
+      for (const analysis of others) {
+        if (analysis.photoId === base.photoId) continue;
+        const face = analysis.faces.find(f => f.personIndex === target.personIndex && f.descriptor);
+        if (face && isGoodDonor(face) && (!best || face.qualityScore > best.face.qualityScore)) {
+          best = { face, photoId: analysis.photoId };
+        }
+      }
+
+      if (best) {
+        replacements.push({
+          personIndex: target.personIndex,
+          target,
+          source: best.face,
+          sourcePhotoId: best.photoId,
+        });
+      }
+    }
+
+    return replacements;
+  }
+
+  /**
+   * Whether a composite would improve on the best photo: someone's eyes are closed in it and
+   * another frame has them open
+   */
+  requiresComposite(analyses: PhotoAnalysisResult[], bestPhotoId: string | null): boolean {
+    const base = analyses.find(a => a.photoId === bestPhotoId);
+    return !!base && this.planReplacements(base, analyses).length > 0;
+  }
+
+  /**
+   * The session's analyses with its best photo and whether a composite is worth offering.
+   * Composites themselves are never frames for another composite.
+   */
+  async getSessionAnalysis(sessionId: string): Promise<SessionAnalysisResult> {
+    const [session, photos] = await Promise.all([
+      storage.getSession(sessionId),
+      storage.getPhotosBySession(sessionId),
+    ]);
+
+    const frames = photos.filter(p => !p.isComposite && p.analysisData && typeof p.analysisData === 'object');
+    const analyses = frames.map(p => p.analysisData as PhotoAnalysisResult);
+    const bestPhotoId = session?.bestPhotoId && frames.some(p => p.id === session.bestPhotoId)
+      ? session.bestPhotoId
+      : photoAnalysisService.selectBestPhoto(analyses, await resolveScoringProfileForSession(sessionId));
+
+    return {
+      sessionId,
+      photos: analyses,
+      bestPhotoId,
+      requiresComposite: this.requiresComposite(analyses, bestPhotoId),
+    };
+  }
+
+  /**
+   * Build a composite from a session's (or group's) frames and save it as a new, analyzed photo
+   */
+  async createComposite(sessionId: string, options: CompositeOptions = {}): Promise<Photo> {
+    const { frames, defaultBaseId } = await this.getFrames(sessionId, options.groupId);
+    const profile = await resolveScoringProfileForSession(sessionId);
+
+    const analyses = frames.map(p => p.analysisData as PhotoAnalysisResult);
+    const baseId = options.basePhotoId ?? defaultBaseId ?? photoAnalysisService.selectBestPhoto(analyses, profile);
+    const base = frames.find(p => p.id === baseId);
+    if (!base) {
+      throw new AppError(400, options.basePhotoId ? "Base photo is not an analyzed frame of this set" : "No analyzed photos to build a composite from");
+    }
+
+    const planned = this.planReplacements(base.analysisData as PhotoAnalysisResult, analyses);
+    if (planned.length === 0) {
+      throw new AppError(400, "No closed eyes in the base photo can be replaced from another frame");
+    }
+
+    const baseImage = await loadImageFromUrl(base.fileUrl);
+    const canvas = createCanvas(baseImage.width, baseImage.height);
+    const ctx = canvas.getContext('2d');
+    ctx.drawImage(baseImage, 0, 0);
+
+    const sourceImages = new Map<string, Image>();
+    const applied: FaceReplacement[] = [];
+    for (const replacement of planned) {
+      const source = frames.find(p => p.id === replacement.sourcePhotoId)!;
+      if (!sourceImages.has(source.id)) {
+        sourceImages.set(source.id, await loadImageFromUrl(source.fileUrl));
+      }
+
+      if (this.blendFace(canvas, sourceImages.get(source.id)!, replacement)) {
+        applied.push(replacement);
+      } else {
+        logger.info('Skipped composite face that does not line up', {
+          sessionId,
+          personIndex: replacement.personIndex,
+          sourcePhotoId: replacement.sourcePhotoId,
+        });
+      }
+    }
+
+    if (applied.length === 0) {
+      throw new AppError(400, "The frames are not aligned closely enough to build a composite");
+    }
+
+    const buffer = canvas.toBuffer(COMPOSITE_CONTENT_TYPE, { quality: COMPOSITE_QUALITY });
+    const r2Storage = new R2StorageService();
+    // The composite belongs to whoever owns the frames it was built from
+    const aclPolicy = (await resolveObjectAclPolicy(base.fileUrl, r2Storage)) ?? undefined;
+    const { objectKey } = await r2Storage.uploadFile(buffer, COMPOSITE_CONTENT_TYPE, undefined, aclPolicy);
+    const rendered = await renderRenditions(buffer);
+    const renditions = rendered ? await uploadRenditions(r2Storage, objectKey, rendered, aclPolicy) : undefined;
+
+    const compositeSource: CompositeSource = {
+      basePhotoId: base.id,
+      ...(options.groupId ? { groupId: options.groupId } : {}),
+      replacements: applied.map(r => ({ personIndex: r.personIndex, sourcePhotoId: r.sourcePhotoId })),
+    };
+
+    const photoCount = await storage.countPhotosBySession(sessionId);
+    const photo = await storage.createPhoto({
+      sessionId,
+      fileUrl: `/objects/${objectKey}`,
+      originalFilename: `composite-${(base.originalFilename || 'photo').replace(/\.[^.]+$/, '')}.jpg`,
+      fileSize: buffer.length,
+      width: canvas.width,
+      height: canvas.height,
+      uploadOrder: photoCount,
+      capturedAt: base.capturedAt,
+      isComposite: true,
+      compositeSource,
+      ...renditions,
+    });
+    await storage.updateSession(sessionId, { photoCount: photoCount + 1 });
+
+    if (options.groupId) {
+      await storage.addPhotoToGroup(options.groupId, photo.id);
+    }
+
+    // Score the composite like any other photo so it can be compared and picked as best
+    const analysis = await photoAnalysisService.analyzeAndRecordPhoto(photo, undefined, profile);
+    await storage.updatePhoto(photo.id, {
+      qualityScore: analysis.overallQualityScore.toString(),
+      analysisData: analysis,
+      analysisStatus: 'analyzed',
+    });
+    await identifySessionFaces(sessionId);
+
+    logger.info('Composite photo created', {
+      sessionId,
+      photoId: photo.id,
+      basePhotoId: base.id,
+      replacedPeople: applied.length,
+    });
+
+    return (await storage.getPhoto(photo.id)) ?? photo;
+  }
+
+  /**
+   * Analyzed, non-composite frames to work from and the best photo to use as base by default
+   */
+  private async getFrames(sessionId: string, groupId?: string): Promise<{ frames: Photo[]; defaultBaseId: string | null }> {
+    const isFrame = (p: Photo | undefined): p is Photo =>
+      !!p && !p.isComposite && !!p.analysisData && typeof p.analysisData === 'object';
+
+    if (!groupId) {
+      const session = await storage.getSession(sessionId);
+      const frames = (await storage.getPhotosBySession(sessionId)).filter(isFrame);
+      return { frames, defaultBaseId: session?.bestPhotoId ?? null };
+    }
+
+    const group = await storage.getGroup(groupId);
+    if (!group || group.sessionId !== sessionId) {
+      throw new AppError(404, "Group not found");
+    }
+
+    // Excluded members are never candidates for best photo, so they aren't frames either
+    const memberships = (await storage.getMembershipsByGroup(groupId)).filter(m => !m.isExcluded);
+    const frames = (await Promise.all(memberships.map(m => storage.getPhoto(m.photoId)))).filter(isFrame);
+    return { frames, defaultBaseId: group.bestPhotoId };
+  }
+
+  /**
+   * Paste the source face over the target face. Returns false, leaving the canvas untouched,
+   * when the two faces can't be aligned.
+   */
+  private blendFace(canvas: Canvas, sourceImage: Image, replacement: FaceReplacement): boolean {
+    const sourcePoints = landmarkPoints(replacement.source, sourceImage.width, sourceImage.height);
+    const targetPoints = landmarkPoints(replacement.target, canvas.width, canvas.height);
+    const transform = fitSimilarity(sourcePoints, targetPoints);
+    if (!isPlausibleAlignment(transform, sourcePoints, targetPoints)) {
+      return false;
+    }
+
+    const box = replacement.target.boundingBox;
+    const centerX = (box.x + box.width / 2) * canvas.width;
+    const centerY = (box.y + box.height / 2) * canvas.height;
+    const radiusX = box.width * canvas.width * MASK_RADIUS_X;
+    const radiusY = box.height * canvas.height * MASK_RADIUS_Y;
+
+    // Only the face's neighbourhood needs drawing
+    const left = Math.max(0, Math.floor(centerX - radiusX));
+    const top = Math.max(0, Math.floor(centerY - radiusY));
+    const width = Math.min(canvas.width, Math.ceil(centerX + radiusX)) - left;
+    const height = Math.min(canvas.height, Math.ceil(centerY + radiusY)) - top;
+    if (width <= 0 || height <= 0) return false;
+
+    const patch = createCanvas(width, height);
+    const patchCtx = patch.getContext('2d');
+
+    // Source frame moved into base-frame coordinates, offset to the patch origin
+    patchCtx.setTransform(transform.a, transform.b, -transform.b, transform.a, transform.tx - left, transform.ty - top);
+    patchCtx.drawImage(sourceImage, 0, 0);
+    patchCtx.setTransform(1, 0, 0, 1, 0, 0);
+
+    // Keep an ellipse around the face that fades out toward its edge
+    patchCtx.globalCompositeOperation = 'destination-in';
+    patchCtx.translate(centerX - left, centerY - top);
+    patchCtx.scale(radiusX, radiusY);
+    const feather = patchCtx.createRadialGradient(0, 0, MASK_FEATHER_START, 0, 0, 1);
+    feather.addColorStop(0, 'rgba(0, 0, 0, 1)');
+    feather.addColorStop(1, 'rgba(0, 0, 0, 0)');
+    patchCtx.fillStyle = feather;
+    patchCtx.fillRect(-1, -1, 2, 2);
+
+    canvas.getContext('2d').drawImage(patch, left, top);
+    return true;
+  }
+}
+
+export const compositeService = new CompositeService();
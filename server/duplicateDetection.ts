@@ -0,0 +1,132 @@
+// Duplicate detection - exact (same file) and near (similar perceptual hash) duplicates
+// Uploads are checked once against the owner's whole library. A flagged photo points at the
+// earlier photo it duplicates until the user keeps it (clearing the flag) or deletes it.
+import type { Photo } from "@shared/schema";
+import { storage } from './storage';
+import { hashImageContent } from './imageLoader';
+import { computePerceptualHash, hammingDistance, NEAR_DUPLICATE_MAX_DISTANCE } from './perceptualHash';
+import { logger } from './middleware/logger';
+
+export type DuplicateKind = 'exact' | 'near';
+
+export interface DuplicateMatch {
+  photoId: string;
+  kind: DuplicateKind;
+  sameSession: boolean;
+  distance: number; // differing perceptual hash bits; 0 for exact duplicates
+}
+
+export interface DuplicateSet {
+  original: Photo;
+  duplicates: Array<{ photo: Photo; kind: DuplicateKind; sameSession: boolean }>;
+}
+
+/**
+ * Content and perceptual hashes of a stored photo file. The perceptual hash is null when the
+ * file can't be decoded here; exact duplicates are still caught by the content hash.
+ */
+export async function hashPhotoFile(buffer: Buffer): Promise<{ contentHash: string; perceptualHash: string | null }> {
+  const contentHash = hashImageContent(buffer);
+  try {
+    return { contentHash, perceptualHash: await computePerceptualHash(buffer) };
+  } catch (error) {
+    logger.warn('Failed to compute perceptual hash', {
+      contentHash,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return { contentHash, perceptualHash: null };
+  }
+}
+
+/**
+ * The earlier photo in the user's library that a photo duplicates, if any. Exact duplicates
+ * win over near ones, then photos in the same session, then the closest perceptual hash.
+ */
+export async function findDuplicateOf(photo: Photo, userId: string): Promise<DuplicateMatch | null> {
+  if (photo.contentHash) {
+    const exact = (await storage.getPhotosByContentHash(userId, photo.contentHash)).filter(p => p.id !== photo.id);
+    if (exact.length > 0) {
+      const match = exact.find(p => p.sessionId === photo.sessionId) ?? exact[0];
+      return { photoId: match.id, kind: 'exact', sameSession: match.sessionId === photo.sessionId, distance: 0 };
+    }
+  }
+
+  if (!photo.perceptualHash) return null;
+
+  let best: DuplicateMatch | null = null;
+  for (const candidate of await storage.getPerceptualHashesByUser(userId)) {
+    if (candidate.id === photo.id) continue;
+
+    const distance = hammingDistance(photo.perceptualHash, candidate.perceptualHash);
+    if (distance > NEAR_DUPLICATE_MAX_DISTANCE) continue;
+
+    // Candidates come oldest first, so ties keep the earliest photo
+    const sameSession = candidate.sessionId === photo.sessionId;
+    const better = !best ||
+      (sameSession && !best.sameSession) ||
+      (sameSession === best.sameSession && distance < best.distance);
+    if (better) {
+      best = { photoId: candidate.id, kind: 'near', sameSession, distance };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Flag a newly uploaded photo if it duplicates an earlier one. Failures are only logged:
+ * an unflagged photo is still a valid upload.
+ */
+export async function flagIfDuplicate(photo: Photo, userId: string): Promise<Photo> {
+  try {
+    const match = await findDuplicateOf(photo, userId);
+    if (!match) return photo;
+
+    logger.info('Uploaded photo duplicates an earlier photo', {
+      photoId: photo.id,
+      duplicateOfPhotoId: match.photoId,
+      kind: match.kind,
+      sameSession: match.sameSession,
+      distance: match.distance,
+    });
+
+    const flagged = await storage.updatePhoto(photo.id, {
+      duplicateOfPhotoId: match.photoId,
+      duplicateKind: match.kind,
+    });
+    return flagged ?? photo;
+  } catch (error) {
+    logger.warn('Duplicate check failed for uploaded photo', {
+      photoId: photo.id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return photo;
+  }
+}
+
+/**
+ * Flagged duplicates in a user's library (or one session), grouped under the photo they duplicate
+ */
+export async function listDuplicates(userId: string, sessionId?: string): Promise<DuplicateSet[]> {
+  const flagged = await storage.getDuplicatePhotosByUser(userId, sessionId);
+  const sets = new Map<string, DuplicateSet>();
+
+  for (const photo of flagged) {
+    const originalId = photo.duplicateOfPhotoId!;
+    let set = sets.get(originalId);
+    if (!set) {
+      const original = await storage.getPhoto(originalId);
+      if (!original) continue;
+      set = { original, duplicates: [] };
+      sets.set(originalId, set);
+    }
+
+    set.duplicates.push({
+      photo,
+      kind: photo.duplicateKind as DuplicateKind,
+      sameSession: photo.sessionId === set.original.sessionId,
+    });
+  }
+
+  return Array.from(sets.values());
+}
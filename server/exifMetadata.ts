@@ -0,0 +1,166 @@
+// EXIF metadata extraction - capture time and camera settings read at upload time
+import exifr from 'exifr';
+import { logger } from './middleware/logger';
+
+// Photo columns filled from EXIF; every field is optional since many files carry none
+export interface PhotoExifMetadata {
+  capturedAt?: Date;
+  cameraMake?: string;
+  cameraModel?: string;
+  focalLength?: number; // mm
+  exposureTime?: number; // seconds
+  fNumber?: number;
+  iso?: number;
+  orientation?: number; // EXIF orientation 1-8
+  gpsLatitude?: number;
+  gpsLongitude?: number;
+}
+
+// Object-storage metadata key the upload endpoint stores parsed EXIF under
+export const EXIF_OBJECT_METADATA_KEY = 'photo-exif';
+
+const EXIF_TAGS = [
+  'DateTimeOriginal', 'SubSecTimeOriginal', 'OffsetTimeOriginal',
+  'CreateDate', 'SubSecTimeDigitized', 'OffsetTimeDigitized', 'OffsetTime',
+  'Make', 'Model', 'FocalLength', 'ExposureTime', 'FNumber', 'ISO', 'Orientation',
+  'GPSLatitude', 'GPSLatitudeRef', 'GPSLongitude', 'GPSLongitudeRef',
+];
+
+/**
+ * Parse an EXIF date ("YYYY:MM:DD HH:MM:SS") with optional sub-second and UTC offset tags.
+ * Without an offset the wall-clock time is stored as UTC, which keeps photos from the
+ * same camera correctly ordered relative to each other.
+ */
+export function parseExifDate(value: unknown, subSec?: unknown, offset?: unknown): Date | undefined {
+  if (typeof value !== 'string') return undefined;
+
+  const match = value.trim().match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  if (!year || !month || !day) return undefined; // "0000:00:00 00:00:00" placeholder
+
+  let ms = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  // SubSecTime is the fractional digits: "5" is 500ms, "123" is 123ms
+  const subSecDigits = subSec !== undefined && subSec !== null ? String(subSec).trim() : '';
+  if (/^\d+$/.test(subSecDigits)) {
+    ms += Math.round(parseFloat(`0.${subSecDigits}`) * 1000);
+  }
+
+  const offsetMatch = typeof offset === 'string' ? offset.trim().match(/^([+-])(\d{2}):?(\d{2})$/) : null;
+  if (offsetMatch) {
+    const sign = offsetMatch[1] === '-' ? -1 : 1;
+    ms -= sign * (Number(offsetMatch[2]) * 60 + Number(offsetMatch[3])) * 60 * 1000;
+  }
+
+  const date = new Date(ms);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Convert EXIF degrees/minutes/seconds and hemisphere ref to signed decimal degrees
+ */
+function parseGpsCoordinate(value: unknown, ref: unknown): number | undefined {
+  let degrees: number | undefined;
+
+  if (Array.isArray(value) && value.length > 0) {
+    const [d = 0, m = 0, s = 0] = value.map(Number);
+    degrees = d + m / 60 + s / 3600;
+  } else if (typeof value === 'number') {
+    degrees = value;
+  }
+
+  if (degrees === undefined || !isFinite(degrees)) return undefined;
+  return ref === 'S' || ref === 'W' ? -degrees : degrees;
+}
+
+function toNumber(value: unknown): number | undefined {
+  const num = typeof value === 'number' ? value : parseFloat(String(value));
+  return isFinite(num) ? num : undefined;
+}
+
+function toText(value: unknown, maxLength: number): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  // Camera strings are often NUL-padded
+  const text = value.replace(/\0/g, '').trim();
+  return text ? text.slice(0, maxLength) : undefined;
+}
+
+/**
+ * Read EXIF from a JPEG, HEIC or PNG buffer. Returns an empty object when the
+ * file has no usable metadata; never throws, since EXIF is optional.
+ */
+export async function extractExifMetadata(buffer: Buffer): Promise<PhotoExifMetadata> {
+  let tags: Record<string, unknown> | undefined;
+
+  try {
+    tags = await exifr.parse(buffer, {
+      pick: EXIF_TAGS,
+      tiff: true,
+      exif: true,
+      gps: true,
+      reviveValues: false, // Keep raw date strings so we control time zone handling
+      translateValues: false, // Keep Orientation numeric
+    });
+  } catch (error) {
+    logger.warn('Failed to read EXIF metadata', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return {};
+  }
+
+  if (!tags) return {};
+
+  const capturedAt =
+    parseExifDate(tags.DateTimeOriginal, tags.SubSecTimeOriginal, tags.OffsetTimeOriginal ?? tags.OffsetTime) ??
+    parseExifDate(tags.CreateDate, tags.SubSecTimeDigitized, tags.OffsetTimeDigitized ?? tags.OffsetTime);
+
+  const orientation = toNumber(tags.Orientation);
+  const gpsLatitude = parseGpsCoordinate(tags.GPSLatitude, tags.GPSLatitudeRef);
+  const gpsLongitude = parseGpsCoordinate(tags.GPSLongitude, tags.GPSLongitudeRef);
+
+  const metadata: PhotoExifMetadata = {
+    capturedAt,
+    cameraMake: toText(tags.Make, 100),
+    cameraModel: toText(tags.Model, 100),
+    focalLength: toNumber(tags.FocalLength),
+    exposureTime: toNumber(tags.ExposureTime),
+    fNumber: toNumber(tags.FNumber),
+    iso: toNumber(tags.ISO),
+    orientation: orientation && orientation >= 1 && orientation <= 8 ? Math.round(orientation) : undefined,
+    gpsLatitude: gpsLatitude !== undefined && Math.abs(gpsLatitude) <= 90 ? gpsLatitude : undefined,
+    gpsLongitude: gpsLongitude !== undefined && Math.abs(gpsLongitude) <= 180 ? gpsLongitude : undefined,
+  };
+
+  // Drop missing fields so callers can spread the result into an update
+  return Object.fromEntries(
+    Object.entries(metadata).filter(([, value]) => value !== undefined)
+  ) as PhotoExifMetadata;
+}
+
+/**
+ * Serialize metadata for an object-storage header (ASCII only, so base64 JSON)
+ */
+export function encodeExifMetadata(metadata: PhotoExifMetadata): string {
+  return Buffer.from(JSON.stringify(metadata)).toString('base64');
+}
+
+/**
+ * Inverse of encodeExifMetadata. Returns an empty object for missing or malformed values.
+ */
+export function decodeExifMetadata(encoded: string | undefined): PhotoExifMetadata {
+  if (!encoded) return {};
+
+  try {
+    const raw = JSON.parse(Buffer.from(encoded, 'base64').toString('utf8'));
+    const { capturedAt, ...rest } = raw as Omit<PhotoExifMetadata, 'capturedAt'> & { capturedAt?: string };
+    const date = capturedAt ? new Date(capturedAt) : undefined;
+    return {
+      ...rest,
+      ...(date && !isNaN(date.getTime()) ? { capturedAt: date } : {}),
+    };
+  } catch {
+    return {};
+  }
+}
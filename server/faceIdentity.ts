@@ -0,0 +1,118 @@
+// Face identity - matches faces across a session's photos so personIndex names the same
+// person in every frame. Faces are compared by face-api recognition descriptors (128-d,
+// Euclidean distance) and clustered greedily in upload order, so person numbering follows
+// the order people first appear.
+import type { FaceAnalysis, PhotoAnalysisResult } from "@shared/schema";
+import { storage } from './storage';
+import { syncFacePersonIndices } from './faceRecords';
+import { logger } from './middleware/logger';
+
+// face-api suggests 0.6 for "same person"; bursts of one group shot are full of similar
+// faces, so a tighter threshold keeps different people apart
+const MATCH_DISTANCE = 0.5;
+
+interface Person {
+  index: number;
+  centroid: number[];
+  faceCount: number;
+}
+
+function euclideanDistance(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i];
+    sum += diff * diff;
+  }
+  return Math.sqrt(sum);
+}
+
+/**
+ * Assign session-wide person indices to every face, excluded ones included. Two faces in the
+ * same photo are never the same person. Faces without a descriptor (older analyses) each
+ * become their own person.
+ */
+export function assignPersonIndices(analyses: PhotoAnalysisResult[]): PhotoAnalysisResult[] {
+  const people: Person[] = [];
+
+  const addPerson = (descriptor?: number[]): number => {
+    const index = people.length;
+    people.push({ index, centroid: descriptor ? [...descriptor] : [], faceCount: descriptor ? 1 : 0 });
+    return index;
+  };
+
+  return analyses.map(analysis => {
+    const allFaces = [...analysis.faces, ...(analysis.excludedFaces ?? [])];
+    const assigned = new Map<number, number>(); // face position -> person index
+
+    // Closest face/person pairs first; each person matches at most one face per photo
+    const candidates: Array<{ faceIdx: number; person: Person; distance: number }> = [];
+    allFaces.forEach((face, faceIdx) => {
+      if (!face.descriptor) return;
+      for (const person of people) {
+        if (person.faceCount === 0) continue;
+        const distance = euclideanDistance(face.descriptor, person.centroid);
+        if (distance < MATCH_DISTANCE) {
+          candidates.push({ faceIdx, person, distance });
+        }
+      }
+    });
+    candidates.sort((a, b) => a.distance - b.distance);
+
+    const matchedPeople = new Set<number>();
+    for (const { faceIdx, person } of candidates) {
+      if (assigned.has(faceIdx) || matchedPeople.has(person.index)) continue;
+      assigned.set(faceIdx, person.index);
+      matchedPeople.add(person.index);
+    }
+
+    const identified: FaceAnalysis[] = allFaces.map((face, faceIdx) => {
+      let personIndex = assigned.get(faceIdx);
+
+      if (personIndex === undefined) {
+        personIndex = addPerson(face.descriptor);
+      } else if (face.descriptor) {
+        // Running mean keeps the centroid representative as more frames of the person arrive
+        const person = people[personIndex];
+        person.faceCount++;
+        person.centroid = person.centroid.map((v, i) => v + (face.descriptor![i] - v) / person.faceCount);
+      }
+
+      return { ...face, personIndex };
+    });
+
+    const faces = identified.slice(0, analysis.faces.length);
+    const excludedFaces = identified.slice(analysis.faces.length);
+    return excludedFaces.length > 0 ? { ...analysis, faces, excludedFaces } : { ...analysis, faces };
+  });
+}
+
+/**
+ * Re-number the faces of every analyzed photo in a session and persist the photos whose
+ * person indices changed. Returns the session's analyses keyed by photo id.
+ */
+export async function identifySessionFaces(sessionId: string): Promise<Map<string, PhotoAnalysisResult>> {
+  const photos = (await storage.getPhotosBySession(sessionId))
+    .filter(p => p.analysisData && typeof p.analysisData === 'object')
+    .sort((a, b) => (a.uploadOrder || 0) - (b.uploadOrder || 0));
+
+  const analyses = photos.map(p => p.analysisData as PhotoAnalysisResult);
+  const identified = assignPersonIndices(analyses);
+
+  let changed = 0;
+  for (let i = 0; i < identified.length; i++) {
+    const personIndices = (a: PhotoAnalysisResult) =>
+      [...a.faces, ...(a.excludedFaces ?? [])].map(f => f.personIndex);
+    const before = personIndices(analyses[i]);
+    const after = personIndices(identified[i]);
+    if (before.some((index, j) => index !== after[j])) {
+      await storage.updatePhoto(photos[i].id, { analysisData: identified[i] });
+      await syncFacePersonIndices(identified[i]);
+      changed++;
+    }
+  }
+
+  const people = new Set(identified.flatMap(a => a.faces.map(f => f.personIndex)));
+  logger.info('Session faces identified', { sessionId, photoCount: photos.length, people: people.size, photosUpdated: changed });
+
+  return new Map(identified.map(a => [a.photoId, a]));
+}
@@ -0,0 +1,114 @@
+// Face records - one faces row per detected face, kept in step with photos.analysisData
+// The rows are where per-face choices (exclusion) live, so they survive re-analysis.
+import type { Face, FaceAnalysis, InsertFace, PhotoAnalysisResult } from "@shared/schema";
+import { storage } from './storage';
+
+// A re-detected face overlapping a previous one at least this much is the same face
+const SAME_FACE_IOU = 0.5;
+
+type Box = { x: number; y: number; width: number; height: number };
+
+/**
+ * Analysis faceId for the face at a detection index
+ */
+export function analysisFaceId(photoId: string, faceIndex: number): string {
+  return `face-${photoId}-${faceIndex}`;
+}
+
+function boxIoU(a: Box, b: Box): number {
+  const x1 = Math.max(a.x, b.x);
+  const y1 = Math.max(a.y, b.y);
+  const x2 = Math.min(a.x + a.width, b.x + b.width);
+  const y2 = Math.min(a.y + a.height, b.y + b.height);
+
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+/**
+ * Previous face row covering the same area, if any
+ */
+export function findMatchingFace(box: Box, rows: Face[]): Face | undefined {
+  let best: Face | undefined;
+  let bestIoU = SAME_FACE_IOU;
+
+  for (const row of rows) {
+    const iou = boxIoU(box, row.boundingBox as Box);
+    if (iou >= bestIoU) {
+      best = row;
+      bestIoU = iou;
+    }
+  }
+
+  return best;
+}
+
+function toFaceRow(photoId: string, face: FaceAnalysis, faceIndex: number, excluded: boolean): InsertFace {
+  return {
+    photoId,
+    faceIndex,
+    personIndex: face.personIndex,
+    boundingBox: face.boundingBox,
+    landmarks: face.landmarks,
+    eyesOpen: face.attributes.eyesOpen.detected,
+    eyesConfidence: face.attributes.eyesOpen.confidence.toFixed(2),
+    smileDetected: face.attributes.smile.detected,
+    smileConfidence: face.attributes.smile.confidence.toFixed(2),
+    expression: face.attributes.expression,
+    headAngle: face.attributes.headPose,
+    qualityScore: face.qualityScore.toFixed(2),
+    excluded,
+  };
+}
+
+/**
+ * Replace a photo's face rows with a fresh detection (faces in detection order).
+ * Selections, when given, set exclusion by detection index; otherwise each face keeps the
+ * exclusion of the previous row it overlaps.
+ */
+export async function recordDetectedFaces(
+  photoId: string,
+  faces: FaceAnalysis[],
+  selections?: Record<number, boolean>
+): Promise<Face[]> {
+  const previous = selections ? [] : await storage.getFacesByPhoto(photoId);
+
+  const rows = faces.map((face, faceIndex) => {
+    const excluded = selections
+      ? selections[faceIndex] === false
+      : findMatchingFace(face.boundingBox, previous)?.excluded ?? false;
+    return toFaceRow(photoId, face, faceIndex, excluded);
+  });
+
+  return storage.replaceFacesByPhoto(photoId, rows);
+}
+
+/**
+ * Analysis faceIds of the excluded rows
+ */
+export function excludedFaceIds(rows: Face[]): Set<string> {
+  return new Set(
+    rows
+      .filter(row => row.excluded && row.faceIndex !== null)
+      .map(row => analysisFaceId(row.photoId, row.faceIndex!))
+  );
+}
+
+/**
+ * Copy person indices from an identified analysis onto the photo's face rows
+ */
+export async function syncFacePersonIndices(analysis: PhotoAnalysisResult): Promise<void> {
+  const rows = await storage.getFacesByPhoto(analysis.photoId);
+  const byFaceId = new Map(
+    [...analysis.faces, ...(analysis.excludedFaces ?? [])].map(face => [face.faceId, face.personIndex])
+  );
+
+  for (const row of rows) {
+    if (row.faceIndex === null) continue;
+    const personIndex = byFaceId.get(analysisFaceId(row.photoId, row.faceIndex));
+    if (personIndex !== undefined && personIndex !== row.personIndex) {
+      await storage.updateFace(row.id, { personIndex });
+    }
+  }
+}
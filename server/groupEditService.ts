@@ -0,0 +1,336 @@
+// Group edit service - merges and splits photo groups on behalf of editors
+import type { Photo, PhotoGroup, PhotoGroupMembership, PhotoAnalysisResult } from "@shared/schema";
+import { storage } from './storage';
+import { photoGroupingService, type GroupingFeatures, type SimilarityMatrix } from './photoGroupingService';
+import { AppError } from './middleware/errorHandler';
+import { logger } from './middleware/logger';
+
+export interface SplitGroupOptions {
+  // Explicit photo-id partitions; the first stays in the original group
+  partitions?: string[][];
+  // Used when no partitions are given: re-cluster the group's members at this threshold
+  similarityThreshold?: number;
+}
+
+export interface MembershipUpdate {
+  isExcluded?: boolean;
+  userNotes?: string | null;
+}
+
+// A group member; excluded members stay in the group but are never picked as best
+type MemberPhoto = Photo & { isExcluded: boolean };
+
+// Stats recomputed whenever a group's members change
+type GroupStats = Pick<PhotoGroup, 'similarityScore' | 'timeWindowStart' | 'timeWindowEnd' | 'bestPhotoId'>;
+
+export class GroupEditService {
+  /**
+   * Move the members of other groups in the same session into this group and delete them
+   */
+  async merge(group: PhotoGroup, otherGroupIds: string[]): Promise<PhotoGroup> {
+    const sourceIds = Array.from(new Set(otherGroupIds)).filter(id => id !== group.id);
+    if (sourceIds.length === 0) {
+      throw new AppError(400, "groupIds must list at least one other group to merge");
+    }
+
+    for (const sourceId of sourceIds) {
+      const source = await storage.getGroup(sourceId);
+      if (!source || source.sessionId !== group.sessionId) {
+        throw new AppError(400, `Group ${sourceId} not found in session`);
+      }
+    }
+
+    const members = await this.getMembers([group.id, ...sourceIds]);
+    const { features, similarityMatrix } = await photoGroupingService.buildPhotoSetMatrix(members);
+    const photoIds = members.map(p => p.id);
+
+    const [merged] = await storage.applyGroupEdit({
+      update: [{
+        groupId: group.id,
+        data: {
+          groupType: 'merged',
+          ...this.computeStats(photoIds, members, features, similarityMatrix),
+        },
+        photoIds,
+      }],
+      create: [],
+      delete: sourceIds,
+    });
+
+    logger.info('Groups merged', { groupId: group.id, mergedGroupIds: sourceIds, photoCount: photoIds.length });
+    return merged;
+  }
+
+  /**
+   * Split a group by explicit partitions, or by re-clustering only its own members
+   */
+  async split(group: PhotoGroup, options: SplitGroupOptions): Promise<PhotoGroup[]> {
+    const members = await this.getMembers([group.id]);
+    if (members.length < 2) {
+      throw new AppError(400, "Need at least 2 photos to split a group");
+    }
+
+    const { features, similarityMatrix, options: opts } = await photoGroupingService.buildPhotoSetMatrix(
+      members,
+      options.similarityThreshold !== undefined ? { similarityThreshold: options.similarityThreshold } : {}
+    );
+
+    let partitions: string[][];
+    let newGroupType: string;
+    // Which clustering produced the groups, when they were re-clustered rather than given
+    let provenance: { algorithm?: string; algorithmParams?: Record<string, number> } = {};
+
+    if (options.partitions) {
+      partitions = this.validatePartitions(options.partitions, members);
+      newGroupType = 'manual';
+    } else {
+      // Singletons are kept so every member ends up in some group
+      const clusters = photoGroupingService.hierarchicalClustering(similarityMatrix, {
+        ...opts,
+        minGroupSize: 1,
+        maxGroupSize: members.length,
+      });
+      partitions = clusters
+        .map(c => c.photoIds)
+        .sort((a, b) => b.length - a.length);
+      newGroupType = 'auto';
+      if (clusters.length > 0) {
+        provenance = { algorithm: clusters[0].algorithm, algorithmParams: clusters[0].algorithmParams };
+      }
+
+      if (partitions.length < 2) {
+        throw new AppError(400, `Group could not be split at similarity threshold ${opts.similarityThreshold}`);
+      }
+    }
+
+    const [kept, ...rest] = partitions;
+    const groups = await storage.applyGroupEdit({
+      update: [{
+        groupId: group.id,
+        data: { ...this.computeStats(kept, members, features, similarityMatrix), ...provenance },
+        photoIds: kept,
+      }],
+      create: rest.map((photoIds, index) => {
+        const stats = this.computeStats(photoIds, members, features, similarityMatrix);
+        return {
+          data: {
+            sessionId: group.sessionId,
+            name: `${group.name || 'Group'} (${index + 2})`,
+            groupType: newGroupType,
+            confidenceScore: newGroupType === 'manual' ? '1.0' : stats.similarityScore,
+            ...stats,
+            ...provenance,
+          },
+          photoIds,
+        };
+      }),
+      delete: [],
+    });
+
+    logger.info('Group split', {
+      groupId: group.id,
+      mode: options.partitions ? 'partitions' : 'recluster',
+      groupSizes: partitions.map(p => p.length),
+    });
+    return groups;
+  }
+
+  /**
+   * Move a photo to another group in the same session. A group left empty is deleted.
+   */
+  async movePhoto(group: PhotoGroup, photoId: string, toGroupId: string): Promise<PhotoGroup[]> {
+    if (toGroupId === group.id) {
+      throw new AppError(400, "Photo is already in this group");
+    }
+
+    const target = await storage.getGroup(toGroupId);
+    if (!target || target.sessionId !== group.sessionId) {
+      throw new AppError(400, `Group ${toGroupId} not found in session`);
+    }
+
+    const sourceMembers = await this.getMembers([group.id]);
+    const moved = sourceMembers.find(p => p.id === photoId);
+    if (!moved) {
+      throw new AppError(404, "Photo not found in group");
+    }
+
+    const targetMembers = await this.getMembers([toGroupId]);
+    if (targetMembers.some(p => p.id === photoId)) {
+      throw new AppError(409, "Photo is already in the target group");
+    }
+
+    // Similarity needs image features, so a single move only refreshes the cheap stats
+    const remaining = sourceMembers.filter(p => p.id !== photoId);
+    const received = [...targetMembers, moved];
+
+    const groups = await storage.applyGroupEdit({
+      update: [
+        ...(remaining.length > 0
+          ? [{ groupId: group.id, data: this.computeCheapStats(remaining), photoIds: remaining.map(p => p.id) }]
+          : []),
+        { groupId: toGroupId, data: this.computeCheapStats(received), photoIds: received.map(p => p.id) },
+      ],
+      create: [],
+      delete: remaining.length > 0 ? [] : [group.id],
+    });
+
+    logger.info('Photo moved between groups', { photoId, fromGroupId: group.id, toGroupId, sourceDeleted: remaining.length === 0 });
+    return groups;
+  }
+
+  /**
+   * Update a member's exclusion flag or notes. Changing exclusion re-picks the group's best photo.
+   */
+  async updateMember(group: PhotoGroup, photoId: string, update: MembershipUpdate): Promise<PhotoGroupMembership> {
+    const membership = await storage.getMembership(group.id, photoId);
+    if (!membership) {
+      throw new AppError(404, "Photo not found in group");
+    }
+
+    const updated = await storage.updateMembership(membership.id, update);
+    if (!updated) {
+      throw new AppError(404, "Photo not found in group");
+    }
+
+    if (update.isExcluded !== undefined && update.isExcluded !== membership.isExcluded) {
+      const members = await this.getMembers([group.id]);
+      const bestPhotoId = this.pickBestPhoto(members);
+
+      if (bestPhotoId !== group.bestPhotoId) {
+        await storage.applyGroupEdit({
+          update: [{ groupId: group.id, data: { bestPhotoId }, photoIds: members.map(p => p.id) }],
+          create: [],
+          delete: [],
+        });
+      }
+    }
+
+    return updated;
+  }
+
+  /**
+   * Check partitions against the group's members. Unlisted members stay with the first partition.
+   */
+  private validatePartitions(partitions: string[][], members: MemberPhoto[]): string[][] {
+    const memberIds = new Set(members.map(p => p.id));
+    const seen = new Set<string>();
+
+    for (const partition of partitions) {
+      if (partition.length === 0) {
+        throw new AppError(400, "Partitions must not be empty");
+      }
+      for (const photoId of partition) {
+        if (!memberIds.has(photoId)) {
+          throw new AppError(400, `Photo ${photoId} is not in this group`);
+        }
+        if (seen.has(photoId)) {
+          throw new AppError(400, `Photo ${photoId} is listed in more than one partition`);
+        }
+        seen.add(photoId);
+      }
+    }
+
+    if (partitions.length < 2) {
+      throw new AppError(400, "Split needs at least 2 partitions");
+    }
+
+    const unlisted = members.filter(p => !seen.has(p.id)).map(p => p.id);
+    return [[...partitions[0], ...unlisted], ...partitions.slice(1)];
+  }
+
+  /**
+   * Distinct photos across the given groups, in upload order. A photo excluded in any of them stays excluded.
+   */
+  private async getMembers(groupIds: string[]): Promise<MemberPhoto[]> {
+    const excludedByPhoto = new Map<string, boolean>();
+    for (const groupId of groupIds) {
+      const memberships = await storage.getMembershipsByGroup(groupId);
+      memberships.forEach(m => excludedByPhoto.set(m.photoId, (excludedByPhoto.get(m.photoId) ?? false) || m.isExcluded));
+    }
+
+    const photos = await Promise.all(Array.from(excludedByPhoto.keys()).map(id => storage.getPhoto(id)));
+    return photos
+      .filter((p): p is Photo => !!p)
+      .map(p => ({ ...p, isExcluded: excludedByPhoto.get(p.id) ?? false }))
+      .sort((a, b) => (a.uploadOrder || 0) - (b.uploadOrder || 0));
+  }
+
+  /**
+   * Similarity, time window and best photo for one set of photos
+   */
+  private computeStats(
+    photoIds: string[],
+    photos: MemberPhoto[],
+    features: GroupingFeatures[],
+    similarityMatrix: SimilarityMatrix
+  ): GroupStats {
+    const indices = photoIds.map(id => similarityMatrix.photoIds.indexOf(id)).filter(i => i >= 0);
+
+    // Average pairwise similarity; a single photo is trivially similar to itself
+    let totalSimilarity = 0;
+    let comparisons = 0;
+    for (let i = 0; i < indices.length; i++) {
+      for (let j = i + 1; j < indices.length; j++) {
+        totalSimilarity += similarityMatrix.matrix[indices[i]][indices[j]];
+        comparisons++;
+      }
+    }
+    const similarity = comparisons > 0 ? totalSimilarity / comparisons : 1;
+
+    const timestamps = features
+      .filter(f => photoIds.includes(f.photoId))
+      .map(f => f.timestamp.getTime());
+
+    return {
+      similarityScore: similarity.toString(),
+      timeWindowStart: timestamps.length > 0 ? new Date(Math.min(...timestamps)) : null,
+      timeWindowEnd: timestamps.length > 0 ? new Date(Math.max(...timestamps)) : null,
+      bestPhotoId: this.pickBestPhoto(photos.filter(p => photoIds.includes(p.id))),
+    };
+  }
+
+  /**
+   * Time window and best photo, which don't need image features
+   */
+  private computeCheapStats(photos: MemberPhoto[]): Omit<GroupStats, 'similarityScore'> {
+    // Capture time when known, like the grouping features merge and split use
+    const timestamps = photos.map(p => (p.capturedAt ?? p.createdAt).getTime());
+
+    return {
+      timeWindowStart: timestamps.length > 0 ? new Date(Math.min(...timestamps)) : null,
+      timeWindowEnd: timestamps.length > 0 ? new Date(Math.max(...timestamps)) : null,
+      bestPhotoId: this.pickBestPhoto(photos),
+    };
+  }
+
+  /**
+   * Highest quality member that isn't excluded; null when every member is excluded
+   */
+  private pickBestPhoto(photos: MemberPhoto[]): string | null {
+    let bestPhotoId: string | null = null;
+    let bestQualityScore = -1;
+
+    for (const photo of photos) {
+      if (photo.isExcluded) continue;
+
+      let qualityScore = photo.qualityScore ? parseFloat(photo.qualityScore) : 0;
+
+      // Fall back to analysisData if the qualityScore column is missing
+      if (qualityScore === 0 && photo.analysisData) {
+        const analysisData = photo.analysisData as Partial<PhotoAnalysisResult>;
+        if (analysisData.overallQualityScore) {
+          qualityScore = Number(analysisData.overallQualityScore);
+        }
+      }
+
+      if (qualityScore > bestQualityScore) {
+        bestQualityScore = qualityScore;
+        bestPhotoId = photo.id;
+      }
+    }
+
+    return bestPhotoId;
+  }
+}
+
+export const groupEditService = new GroupEditService();
@@ -0,0 +1,106 @@
+// Head pose estimation from face-api's 68-point landmarks
+// There is no 3D model here: angles come from the geometry of the landmarks once the
+// in-plane roll is removed. They are approximate, but consistent enough to tell someone
+// facing the camera from someone turned away, which is what best-photo picking needs.
+
+export interface HeadPose {
+  pitch: number; // degrees, positive when looking up
+  yaw: number; // degrees, positive when turned toward the image's right
+  roll: number; // degrees, positive when tilted clockwise in the image
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Beyond these angles the person counts as looking away
+const YAW_LIMIT_DEGREES = 30;
+const PITCH_LIMIT_DEGREES = 25;
+
+// Nose tip sits at about this fraction of the eye-line-to-chin distance on a level face
+const NEUTRAL_NOSE_RATIO = 0.4;
+// Change in that fraction between a level face and one tilted ~90 degrees
+const NOSE_RATIO_RANGE = 0.35;
+
+// 68-point landmark indices
+const JAW_LEFT = 0;
+const JAW_RIGHT = 16;
+const CHIN = 8;
+const NOSE_TIP = 30;
+const LEFT_EYE = [36, 37, 38, 39, 40, 41];
+const RIGHT_EYE = [42, 43, 44, 45, 46, 47];
+
+function centroid(points: Point[], indices: number[]): Point {
+  const sum = indices.reduce((acc, i) => ({ x: acc.x + points[i].x, y: acc.y + points[i].y }), { x: 0, y: 0 });
+  return { x: sum.x / indices.length, y: sum.y / indices.length };
+}
+
+function toDegrees(radians: number): number {
+  return (radians * 180) / Math.PI;
+}
+
+function clampedAsin(value: number): number {
+  return Math.asin(Math.max(-1, Math.min(1, value)));
+}
+
+/**
+ * Estimate pitch, yaw and roll from 68 landmark positions (any pixel scale).
+ * Returns a level pose when the landmarks are incomplete.
+ */
+export function estimateHeadPose(points: Point[]): HeadPose {
+  if (points.length < 68) {
+    return { pitch: 0, yaw: 0, roll: 0 };
+  }
+
+  const leftEye = centroid(points, LEFT_EYE);
+  const rightEye = centroid(points, RIGHT_EYE);
+
+  // Roll is the tilt of the line through both eyes
+  const rollRadians = Math.atan2(rightEye.y - leftEye.y, rightEye.x - leftEye.x);
+
+  // Rotate everything about the eye midpoint so the eye line is horizontal
+  const origin = { x: (leftEye.x + rightEye.x) / 2, y: (leftEye.y + rightEye.y) / 2 };
+  const cos = Math.cos(-rollRadians);
+  const sin = Math.sin(-rollRadians);
+  const level = (p: Point): Point => {
+    const dx = p.x - origin.x;
+    const dy = p.y - origin.y;
+    return { x: dx * cos - dy * sin, y: dx * sin + dy * cos };
+  };
+
+  const nose = level(points[NOSE_TIP]);
+  const jawLeft = level(points[JAW_LEFT]);
+  const jawRight = level(points[JAW_RIGHT]);
+  const chin = level(points[CHIN]);
+
+  // Yaw: turning the head moves the nose tip toward one side of the face outline
+  const toLeft = nose.x - jawLeft.x;
+  const toRight = jawRight.x - nose.x;
+  const faceWidth = toLeft + toRight;
+  const yaw = faceWidth > 0 ? toDegrees(clampedAsin((toLeft - toRight) / faceWidth)) : 0;
+
+  // Pitch: nodding moves the nose tip up or down between the eye line and the chin
+  const faceHeight = chin.y;
+  const pitch = faceHeight > 0
+    ? toDegrees(clampedAsin((NEUTRAL_NOSE_RATIO - nose.y / faceHeight) / NOSE_RATIO_RANGE))
+    : 0;
+
+  return {
+    pitch: Math.round(pitch * 10) / 10,
+    yaw: Math.round(yaw * 10) / 10,
+    roll: Math.round(toDegrees(rollRadians) * 10) / 10,
+  };
+}
+
+/**
+ * How far the head is turned relative to the looking-away limits: 0 facing the camera,
+ * 1 at the limit. Roll is ignored since a tilted head still faces the camera.
+ */
+export function headPoseDeviation(pose: HeadPose): number {
+  return Math.max(Math.abs(pose.yaw) / YAW_LIMIT_DEGREES, Math.abs(pose.pitch) / PITCH_LIMIT_DEGREES);
+}
+
+export function isLookingAway(pose: HeadPose): boolean {
+  return headPoseDeviation(pose) > 1;
+}
@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const OWNER = "user-owner";
+const OTHER = "user-other";
+const OBJECT_PATH = "/objects/uploads/photo-1";
+const JPEG_BYTES = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01]);
+
+const r2 = vi.hoisted(() => ({
+  getObjectAclPolicy: vi.fn(),
+  setObjectAclPolicy: vi.fn(),
+  getObject: vi.fn(),
+}));
+
+// The native canvas build isn't needed to check who may load an image
+vi.mock("canvas", () => ({
+  createCanvas: vi.fn(),
+  loadImage: vi.fn(async () => ({ width: 640, height: 480 })),
+  Canvas: class {},
+  Image: class {},
+}));
+
+vi.mock("./r2Storage", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./r2Storage")>();
+  return {
+    ...actual,
+    R2StorageService: class {
+      getObjectKeyFromPath(path: string) {
+        return path.replace(/^\/objects\//, "");
+      }
+      getObjectAclPolicy = r2.getObjectAclPolicy;
+      setObjectAclPolicy = r2.setObjectAclPolicy;
+      getObject = r2.getObject;
+    },
+  };
+});
+
+vi.mock("./storage", () => ({
+  storage: {
+    getSession: vi.fn(async () => undefined),
+    getSessionMemberByUser: vi.fn(async () => undefined),
+    getObjectSessionsByPath: vi.fn(async () => []),
+  },
+}));
+
+import { ObjectAccessDeniedError } from "./r2Storage";
+import { loadImageFromUrl } from "./imageLoader";
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  r2.getObjectAclPolicy.mockResolvedValue({ owner: OWNER, visibility: "private" });
+  r2.getObject.mockResolvedValue({ buffer: JPEG_BYTES, contentType: "image/jpeg" });
+});
+
+describe("loadImageFromUrl", () => {
+  it("loads an object for its owner", async () => {
+    const image = await loadImageFromUrl(OBJECT_PATH, { userId: OWNER });
+    expect(image.width).toBe(640);
+    expect(r2.getObject).toHaveBeenCalledWith("uploads/photo-1");
+  });
+
+  it("rejects another user's object without reading it", async () => {
+    await expect(loadImageFromUrl(OBJECT_PATH, { userId: OTHER })).rejects.toBeInstanceOf(ObjectAccessDeniedError);
+    expect(r2.getObject).not.toHaveBeenCalled();
+  });
+
+  it("rejects an object with no owner", async () => {
+    r2.getObjectAclPolicy.mockResolvedValue(null);
+    await expect(loadImageFromUrl(OBJECT_PATH, { userId: OWNER })).rejects.toBeInstanceOf(ObjectAccessDeniedError);
+    expect(r2.getObject).not.toHaveBeenCalled();
+  });
+});
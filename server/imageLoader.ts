@@ -1,51 +1,76 @@
 import { createCanvas, loadImage, Canvas, Image } from 'canvas';
-import { R2StorageService } from './r2Storage.js';
-import { GetObjectCommand } from '@aws-sdk/client-s3';
+import { R2StorageService, ObjectAccessDeniedError } from './r2Storage.js';
+import { canUserAccessObject } from './objectOwnership.js';
 import path from 'path';
 import heicConvert from 'heic-convert';
+import exifr from 'exifr';
+import * as crypto from 'node:crypto';
+
+// Object metadata key an upload's content hash is stored under, for the photo record to pick up
+export const CONTENT_HASH_OBJECT_METADATA_KEY = 'photo-content-hash';
 
 /**
- * Load image from URL (object storage path) and return canvas image
+ * SHA-256 of an image file's stored bytes (hex)
  */
-export async function loadImageFromUrl(url: string): Promise<Image> {
-  try {
-    let buffer: Buffer;
-    let contentType: string | undefined;
+export function hashImageContent(buffer: Buffer): string {
+  return crypto.createHash('sha256').update(buffer).digest('hex');
+}
+
+// Whose behalf an image is loaded on; /objects/ paths are then checked against the object's ACL
+export interface ImageAccess {
+  userId: string;
+}
 
-    // If it's an /objects/ path, get it from R2 storage
-    if (url.startsWith('/objects/')) {
-      const r2Storage = new R2StorageService();
-      const objectKey = r2Storage.getObjectKeyFromPath(url);
+/**
+ * Fetch an image's stored bytes from object storage (/objects/ paths) or an external URL
+ * With access given, objects the user can't read throw ObjectAccessDeniedError.
+ */
+export async function fetchImageBuffer(url: string, access?: ImageAccess): Promise<{ buffer: Buffer; contentType?: string }> {
+  let buffer: Buffer;
+  let contentType: string | undefined;
+
+  // If it's an /objects/ path, get it from R2 storage
+  if (url.startsWith('/objects/')) {
+    const r2Storage = new R2StorageService();
+    const objectKey = r2Storage.getObjectKeyFromPath(url);
 
-      console.log(`Loading image from R2: ${objectKey}`);
+    if (access && !(await canUserAccessObject(access.userId, url, undefined, r2Storage))) {
+      throw new ObjectAccessDeniedError();
+    }
 
-      // Get object from R2
-      const command = new GetObjectCommand({
-        Bucket: process.env.R2_BUCKET_NAME,
-        Key: objectKey,
-      });
+    console.log(`Loading image from R2: ${objectKey}`);
 
-      const response = await (r2Storage as any).s3Client.send(command);
-      contentType = response.ContentType;
+    ({ buffer, contentType } = await r2Storage.getObject(objectKey));
 
-      // Convert stream to buffer
-      const chunks: Uint8Array[] = [];
-      for await (const chunk of response.Body as any) {
-        chunks.push(chunk);
-      }
-      buffer = Buffer.concat(chunks);
-
-      console.log(`Image loaded from R2: ${objectKey}, size: ${buffer.length} bytes, type: ${contentType}`);
-    } else {
-      // For external URLs, use fetch
-      const response = await fetch(url);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch image: ${response.statusText}`);
-      }
-      contentType = response.headers.get('content-type') || undefined;
-      const arrayBuffer = await response.arrayBuffer();
-      buffer = Buffer.from(arrayBuffer);
+    console.log(`Image loaded from R2: ${objectKey}, size: ${buffer.length} bytes, type: ${contentType}`);
+  } else {
+    // For external URLs, use fetch
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch image: ${response.statusText}`);
     }
+    contentType = response.headers.get('content-type') || undefined;
+    const arrayBuffer = await response.arrayBuffer();
+    buffer = Buffer.from(arrayBuffer);
+  }
+
+  return { buffer, contentType };
+}
+
+/**
+ * Load image from URL (object storage path) and return canvas image
+ */
+export async function loadImageFromUrl(url: string, access?: ImageAccess): Promise<Image> {
+  return (await loadImageWithHash(url, access)).image;
+}
+
+/**
+ * Load image from URL along with the content hash of its stored bytes (before HEIC conversion or rotation)
+ */
+export async function loadImageWithHash(url: string, access?: ImageAccess): Promise<{ image: Image; contentHash: string }> {
+  try {
+    let { buffer, contentType } = await fetchImageBuffer(url, access);
+    const contentHash = hashImageContent(buffer);
 
     // Validate image format
     const isValid = isValidImageFormat(buffer, contentType);
@@ -71,8 +96,14 @@ export async function loadImageFromUrl(url: string): Promise<Image> {
       }
     }
 
-    // Load image with canvas
-    const image = await loadImage(buffer);
+    // Load image with canvas. Canvas ignores EXIF orientation, so rotate to display
+    // space here; otherwise sideways phone shots are analyzed sideways and face
+    // coordinates don't match what the browser shows.
+    let image = await loadImage(buffer);
+    const orientation = await readOrientation(buffer);
+    if (orientation !== 1) {
+      image = await loadImage(drawOriented(image, orientation).toBuffer('image/jpeg', { quality: 0.95 }));
+    }
     
     // Validate minimum image dimensions for face detection
     // SSD MobileNet v1 requires faces to be at least 80x80 pixels
@@ -81,13 +112,67 @@ export async function loadImageFromUrl(url: string): Promise<Image> {
       throw new Error(`Image too small for face detection. Minimum size: ${MIN_IMAGE_SIZE}x${MIN_IMAGE_SIZE} pixels. Actual: ${image.width}x${image.height}`);
     }
     
-    return image;
+    return { image, contentHash };
   } catch (error) {
+    if (error instanceof ObjectAccessDeniedError) {
+      throw error;
+    }
     console.error('Error loading image from', url, ':', error);
     throw new Error(`Failed to load image from ${url}: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
+/**
+ * EXIF orientation of an encoded image (1 = upright, also when the tag is missing)
+ */
+export async function readOrientation(buffer: Buffer): Promise<number> {
+  try {
+    const orientation = await exifr.orientation(buffer);
+    return orientation && orientation >= 1 && orientation <= 8 ? orientation : 1;
+  } catch {
+    return 1;
+  }
+}
+
+/**
+ * Draw an image upright according to its EXIF orientation (1-8)
+ */
+export function drawOriented(image: Image, orientation: number): Canvas {
+  const { width, height } = image;
+  const swapsAxes = orientation >= 5;
+  const canvas = createCanvas(swapsAxes ? height : width, swapsAxes ? width : height);
+  const ctx = canvas.getContext('2d');
+
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break; // Mirror horizontal
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break; // Rotate 180
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break; // Mirror vertical
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break; // Mirror horizontal, rotate 270 CW
+    case 6: ctx.transform(0, 1, -1, 0, height, 0); break; // Rotate 90 CW
+    case 7: ctx.transform(0, -1, -1, 0, height, width); break; // Mirror horizontal, rotate 90 CW
+    case 8: ctx.transform(0, -1, 1, 0, 0, width); break; // Rotate 270 CW
+  }
+
+  ctx.drawImage(image, 0, 0);
+  return canvas;
+}
+
+/**
+ * Bake EXIF orientation into the pixels of an upload, so the stored file is upright
+ * for every consumer. Files that are already upright are returned untouched.
+ */
+export async function normalizeOrientation(buffer: Buffer, mimetype: string): Promise<{ buffer: Buffer; mimetype: string }> {
+  const orientation = await readOrientation(buffer);
+  if (orientation === 1) {
+    return { buffer, mimetype };
+  }
+
+  const canvas = drawOriented(await loadImage(buffer), orientation);
+  return mimetype.includes('png')
+    ? { buffer: canvas.toBuffer('image/png'), mimetype: 'image/png' }
+    : { buffer: canvas.toBuffer('image/jpeg', { quality: 0.92 }), mimetype: 'image/jpeg' };
+}
+
 /**
  * Check if buffer is HEIC/HEIF format
  */
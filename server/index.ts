@@ -33,6 +33,7 @@ import { setupVite, serveStatic, log } from "./vite";
 import { errorHandler, notFoundHandler } from "./middleware/errorHandler";
 import { securityHeaders, validateRequest } from "./middleware/security";
 import { logger } from "./middleware/logger";
+import { startAnalysisWorker } from "./analysisJobs";
 
 const app = express();
 
@@ -111,6 +112,9 @@ app.use((req, res, next) => {
       port 
     });
     log(`serving on port ${port}`);
+
+    // Pick up queued analysis jobs, including ones interrupted by a restart
+    startAnalysisWorker();
   });
 })().catch((err) => {
   console.error("======================");
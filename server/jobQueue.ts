@@ -0,0 +1,333 @@
+// Durable job queue backed by the analysis_jobs table
+// Long-running analysis/grouping runs here instead of inside HTTP requests, so a
+// proxy timeout can't kill it and a restarted process picks up where it left off.
+import type { AnalysisJob } from "@shared/schema";
+import os from 'os';
+import { randomUUID } from 'crypto';
+import { storage } from './storage';
+import { progressStore, FINISHED_PROGRESS_TTL_MS } from './progressStore';
+import { RunStoppedError } from './runControl';
+import { logger } from './middleware/logger';
+
+export type JobType = 'analyze' | 'group-analyze' | 'renditions';
+
+// Jobs that analyze a session; only one of these runs per session at a time
+export const ANALYSIS_JOB_TYPES: JobType[] = ['analyze', 'group-analyze'];
+
+export interface JobOptions {
+  /** Mark the session failed when a job of this type fails for good (default true) */
+  failSessionOnError?: boolean;
+}
+
+export interface JobContext {
+  /** Persist a progress snapshot for the progress endpoints (writes are serialized) */
+  updateProgress(progress: unknown): void;
+  /** Persist resume state; awaited so a crash never loses acknowledged work */
+  saveCheckpoint(checkpoint: unknown): Promise<void>;
+}
+
+export type JobHandler = (job: AnalysisJob, ctx: JobContext) => Promise<unknown>;
+
+const POLL_INTERVAL_MS = 2000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+// A running job whose heartbeat is older than this belonged to a worker that died
+const STALE_LOCK_MS = 2 * 60 * 1000;
+const RETRY_BACKOFF_MS = [5000, 30000, 120000];
+
+export class JobQueue {
+  private handlers = new Map<JobType, JobHandler>();
+  private options = new Map<JobType, JobOptions>();
+  private workerId = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private staleTimer: NodeJS.Timeout | null = null;
+  private running = false;
+  private busy = false;
+
+  /**
+   * Register the function that executes jobs of a given type
+   */
+  register(type: JobType, handler: JobHandler, options: JobOptions = {}): void {
+    this.handlers.set(type, handler);
+    this.options.set(type, options);
+  }
+
+  /**
+   * Persist a new job. The worker loop picks it up on its next poll. Undefined if the session
+   * already has an unfinished job of a kind it may only have one of.
+   */
+  async enqueue(type: JobType, sessionId: string, userId: string, payload?: unknown): Promise<AnalysisJob | undefined> {
+    const job = await storage.createAnalysisJob({
+      type,
+      sessionId,
+      userId,
+      payload: payload ?? null,
+      status: 'queued',
+    });
+    if (!job) return undefined;
+
+    logger.info('Analysis job queued', { jobId: job.id, type, sessionId, userId });
+
+    // Don't wait for the next poll if this worker is idle
+    this.schedulePoll(0);
+    return job;
+  }
+
+  /**
+   * Queue a paused job again; it resumes from its checkpoint
+   */
+  async resume(job: AnalysisJob): Promise<void> {
+    await storage.updateAnalysisJob(job.id, {
+      status: 'queued',
+      runAfter: new Date(),
+    });
+
+    logger.info('Analysis job resumed', { jobId: job.id, type: job.type, sessionId: job.sessionId });
+    this.schedulePoll(0);
+  }
+
+  /**
+   * Cancel a job that isn't running. A running job is cancelled through its session and stops
+   * at its next batch.
+   */
+  async cancel(job: AnalysisJob): Promise<void> {
+    await storage.updateAnalysisJob(job.id, {
+      status: 'cancelled',
+      completedAt: new Date(),
+    });
+
+    logger.info('Analysis job cancelled', { jobId: job.id, type: job.type, sessionId: job.sessionId });
+  }
+
+  /**
+   * Start the worker loop. Jobs orphaned by a previous process are requeued first.
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    logger.info('Analysis job worker started', { workerId: this.workerId });
+
+    this.recoverStaleJobs().finally(() => this.schedulePoll(0));
+    this.staleTimer = setInterval(() => {
+      this.recoverStaleJobs();
+    }, STALE_LOCK_MS);
+  }
+
+  /**
+   * Stop polling. A job already running finishes (or is recovered after restart).
+   */
+  stop(): void {
+    this.running = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+    if (this.staleTimer) {
+      clearInterval(this.staleTimer);
+      this.staleTimer = null;
+    }
+  }
+
+  private schedulePoll(delayMs: number): void {
+    if (!this.running || this.busy) return;
+    if (this.pollTimer) clearTimeout(this.pollTimer);
+    this.pollTimer = setTimeout(() => this.poll(), delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    this.pollTimer = null;
+    if (!this.running || this.busy) return;
+
+    // Analysis is CPU bound, so each process runs one job at a time
+    this.busy = true;
+    let job: AnalysisJob | undefined;
+    try {
+      job = await storage.claimNextAnalysisJob(this.workerId);
+      if (job) {
+        await this.runJob(job);
+      }
+    } catch (error) {
+      logger.error('Analysis job worker poll failed', {
+        workerId: this.workerId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      this.busy = false;
+    }
+
+    // Drain the queue back-to-back, otherwise wait for the next poll
+    this.schedulePoll(job ? 0 : POLL_INTERVAL_MS);
+  }
+
+  private async runJob(job: AnalysisJob): Promise<void> {
+    const handler = this.handlers.get(job.type as JobType);
+    if (!handler) {
+      await storage.updateAnalysisJob(job.id, {
+        status: 'failed',
+        error: `No handler registered for job type "${job.type}"`,
+        lockedBy: null,
+        lockedAt: null,
+        completedAt: new Date(),
+      });
+      return;
+    }
+
+    logger.info('Analysis job started', {
+      jobId: job.id,
+      type: job.type,
+      sessionId: job.sessionId,
+      attempt: job.attempts,
+      resuming: !!job.checkpoint,
+    });
+
+    // Analysis jobs also keep their session's lease fresh, so a bulk run can't claim it meanwhile
+    const holdsSession = ANALYSIS_JOB_TYPES.includes(job.type as JobType);
+    const heartbeat = setInterval(() => {
+      storage.updateAnalysisJob(job.id, { lockedAt: new Date() }).catch(() => {
+        // Next beat will try again
+      });
+      if (holdsSession) {
+        storage.updateSession(job.sessionId, {}).catch(() => {
+          // Next beat will try again
+        });
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+
+    const progressKey = jobProgressKey(job.id);
+    let progressWrite: Promise<unknown> = Promise.resolve();
+    const ctx: JobContext = {
+      updateProgress: (progress) => {
+        progressWrite = progressWrite
+          .then(() => progressStore.set(progressKey, progress))
+          .catch((error) => {
+            logger.warn('Failed to persist job progress', {
+              jobId: job.id,
+              error: error instanceof Error ? error.message : 'Unknown error',
+            });
+          });
+      },
+      saveCheckpoint: async (checkpoint) => {
+        await storage.updateAnalysisJob(job.id, { checkpoint });
+      },
+    };
+
+    try {
+      const result = await handler(job, ctx);
+      await progressWrite;
+
+      await storage.updateAnalysisJob(job.id, {
+        status: 'completed',
+        result: result ?? null,
+        error: null,
+        lockedBy: null,
+        lockedAt: null,
+        completedAt: new Date(),
+      });
+
+      logger.info('Analysis job completed', { jobId: job.id, type: job.type, sessionId: job.sessionId });
+    } catch (error) {
+      await progressWrite;
+      if (error instanceof RunStoppedError) {
+        await this.handleStop(job, error);
+      } else {
+        await this.handleFailure(job, error);
+      }
+    } finally {
+      clearInterval(heartbeat);
+
+      // Keep the final snapshot around for the client's last polls, then let it expire
+      await progressStore.expire(progressKey, FINISHED_PROGRESS_TTL_MS).catch(() => {
+        // Expires on its own with the active TTL
+      });
+    }
+  }
+
+  private async handleStop(job: AnalysisJob, stop: RunStoppedError): Promise<void> {
+    await storage.updateAnalysisJob(job.id, {
+      status: stop.reason,
+      lockedBy: null,
+      lockedAt: null,
+      // Stopping on request isn't a failed attempt; a resumed job keeps its retries
+      attempts: Math.max(0, job.attempts - 1),
+      completedAt: stop.reason === 'cancelled' ? new Date() : null,
+    });
+
+    logger.info(`Analysis job ${stop.reason}`, { jobId: job.id, type: job.type, sessionId: job.sessionId });
+  }
+
+  private async handleFailure(job: AnalysisJob, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const willRetry = job.attempts < job.maxAttempts;
+
+    logger.error('Analysis job failed', {
+      jobId: job.id,
+      type: job.type,
+      sessionId: job.sessionId,
+      attempt: job.attempts,
+      willRetry,
+      error: message,
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    if (willRetry) {
+      const backoff = RETRY_BACKOFF_MS[Math.min(job.attempts - 1, RETRY_BACKOFF_MS.length - 1)];
+      await storage.updateAnalysisJob(job.id, {
+        status: 'queued',
+        error: message,
+        lockedBy: null,
+        lockedAt: null,
+        runAfter: new Date(Date.now() + backoff),
+      });
+      return;
+    }
+
+    await storage.updateAnalysisJob(job.id, {
+      status: 'failed',
+      error: message,
+      lockedBy: null,
+      lockedAt: null,
+      completedAt: new Date(),
+    });
+
+    await this.failSession(job);
+  }
+
+  private async failSession(job: AnalysisJob): Promise<void> {
+    if (this.options.get(job.type as JobType)?.failSessionOnError === false) return;
+
+    await storage.updateSession(job.sessionId, { status: 'failed' }).catch(() => {
+      // Ignore errors updating status
+    });
+  }
+
+  private async recoverStaleJobs(): Promise<void> {
+    try {
+      const { requeued, failed } = await storage.requeueStaleAnalysisJobs(new Date(Date.now() - STALE_LOCK_MS));
+
+      for (const job of failed) {
+        await this.failSession(job);
+      }
+
+      if (requeued.length > 0 || failed.length > 0) {
+        logger.warn('Recovered analysis jobs from dead workers', {
+          requeued: requeued.map(j => j.id),
+          failed: failed.map(j => j.id),
+        });
+        this.schedulePoll(0);
+      }
+    } catch (error) {
+      logger.error('Failed to recover stale analysis jobs', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
+
+/**
+ * Progress store key for a job's live progress
+ */
+export function jobProgressKey(jobId: string): string {
+  return `job:${jobId}`;
+}
+
+export const jobQueue = new JobQueue();
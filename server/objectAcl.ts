@@ -1,9 +1,14 @@
 // Reference: blueprint:javascript_object_storage
 import { File } from "@google-cloud/storage";
+import { storage } from "./storage";
+import { getSessionRole } from "./sessionAccess";
 
 const ACL_POLICY_METADATA_KEY = "custom:aclPolicy";
 
-export enum ObjectAccessGroupType {}
+export enum ObjectAccessGroupType {
+  // Everyone in a photo session (owner, editors and viewers); the group id is the session id
+  SESSION_MEMBER = "session_member",
+}
 
 export interface ObjectAccessGroup {
   type: ObjectAccessGroupType;
@@ -45,10 +50,23 @@ abstract class BaseObjectAccessGroup implements ObjectAccessGroup {
   public abstract hasMember(userId: string): Promise<boolean>;
 }
 
+class SessionMemberAccessGroup extends BaseObjectAccessGroup {
+  constructor(id: string) {
+    super(ObjectAccessGroupType.SESSION_MEMBER, id);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    const session = await storage.getSession(this.id);
+    return !!session && (await getSessionRole(session, userId)) !== null;
+  }
+}
+
 function createObjectAccessGroup(
   group: ObjectAccessGroup,
 ): BaseObjectAccessGroup {
   switch (group.type) {
+    case ObjectAccessGroupType.SESSION_MEMBER:
+      return new SessionMemberAccessGroup(group.id);
     default:
       throw new Error(`Unknown access group type: ${group.type}`);
   }
@@ -81,20 +99,12 @@ export async function getObjectAclPolicy(
   return JSON.parse(aclPolicy as string);
 }
 
-export async function canAccessObject({
-  userId,
-  objectFile,
-  requestedPermission,
-}: {
-  userId?: string;
-  objectFile: File;
-  requestedPermission: ObjectPermission;
-}): Promise<boolean> {
-  const aclPolicy = await getObjectAclPolicy(objectFile);
-  if (!aclPolicy) {
-    return false;
-  }
-
+// Whether a policy grants a user (or an anonymous caller) the requested permission
+export async function isAllowedByAclPolicy(
+  aclPolicy: ObjectAclPolicy,
+  userId: string | undefined,
+  requestedPermission: ObjectPermission,
+): Promise<boolean> {
   if (
     aclPolicy.visibility === "public" &&
     requestedPermission === ObjectPermission.READ
@@ -122,3 +132,20 @@ export async function canAccessObject({
 
   return false;
 }
+
+export async function canAccessObject({
+  userId,
+  objectFile,
+  requestedPermission,
+}: {
+  userId?: string;
+  objectFile: File;
+  requestedPermission: ObjectPermission;
+}): Promise<boolean> {
+  const aclPolicy = await getObjectAclPolicy(objectFile);
+  if (!aclPolicy) {
+    return false;
+  }
+
+  return isAllowedByAclPolicy(aclPolicy, userId, requestedPermission);
+}
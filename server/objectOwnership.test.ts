@@ -0,0 +1,161 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { R2StorageService } from "./r2Storage";
+
+vi.mock("./storage", () => ({
+  storage: {
+    getSession: vi.fn(),
+    getSessionMemberByUser: vi.fn(),
+    getObjectSessionsByPath: vi.fn(),
+  },
+}));
+
+import { storage } from "./storage";
+import { ObjectAccessGroupType, ObjectPermission, isAllowedByAclPolicy, type ObjectAclPolicy } from "./objectAcl";
+import { canUserAccessObject, ownerAclPolicy } from "./objectOwnership";
+
+const OWNER = "user-owner";
+const OTHER = "user-other";
+const MEMBER = "user-member";
+const SESSION_ID = "session-1";
+const OBJECT_PATH = "/objects/uploads/photo-1";
+
+const mockedStorage = vi.mocked(storage);
+
+// R2 as canUserAccessObject uses it, with one stored ACL policy (or none)
+function fakeR2(stored: ObjectAclPolicy | null) {
+  return {
+    getObjectKeyFromPath: vi.fn((path: string) => path.replace(/^\/objects\//, "")),
+    getObjectAclPolicy: vi.fn(async () => stored),
+    setObjectAclPolicy: vi.fn(async () => {}),
+  } as unknown as R2StorageService & { setObjectAclPolicy: ReturnType<typeof vi.fn> };
+}
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  mockedStorage.getSession.mockImplementation(async (id: string) =>
+    id === SESSION_ID ? ({ id: SESSION_ID, userId: OWNER } as any) : undefined
+  );
+  mockedStorage.getSessionMemberByUser.mockImplementation(async (sessionId: string, userId: string) =>
+    sessionId === SESSION_ID && userId === MEMBER ? ({ sessionId, userId, role: "viewer" } as any) : undefined
+  );
+  mockedStorage.getObjectSessionsByPath.mockResolvedValue([]);
+});
+
+describe("isAllowedByAclPolicy", () => {
+  it("lets the owner read and write", async () => {
+    const policy = ownerAclPolicy(OWNER);
+    expect(await isAllowedByAclPolicy(policy, OWNER, ObjectPermission.READ)).toBe(true);
+    expect(await isAllowedByAclPolicy(policy, OWNER, ObjectPermission.WRITE)).toBe(true);
+  });
+
+  it("rejects another user on a private object", async () => {
+    const policy = ownerAclPolicy(OWNER);
+    expect(await isAllowedByAclPolicy(policy, OTHER, ObjectPermission.READ)).toBe(false);
+    expect(await isAllowedByAclPolicy(policy, OTHER, ObjectPermission.WRITE)).toBe(false);
+  });
+
+  it("rejects anonymous callers on a private object", async () => {
+    expect(await isAllowedByAclPolicy(ownerAclPolicy(OWNER), undefined, ObjectPermission.READ)).toBe(false);
+  });
+
+  it("lets anyone read a public object but only the owner write it", async () => {
+    const policy: ObjectAclPolicy = { owner: OWNER, visibility: "public" };
+    expect(await isAllowedByAclPolicy(policy, undefined, ObjectPermission.READ)).toBe(true);
+    expect(await isAllowedByAclPolicy(policy, OTHER, ObjectPermission.READ)).toBe(true);
+    expect(await isAllowedByAclPolicy(policy, OTHER, ObjectPermission.WRITE)).toBe(false);
+    expect(await isAllowedByAclPolicy(policy, OWNER, ObjectPermission.WRITE)).toBe(true);
+  });
+
+  it("grants session members what their aclRule allows and no more", async () => {
+    const policy: ObjectAclPolicy = {
+      ...ownerAclPolicy(OWNER),
+      aclRules: [{ group: { type: ObjectAccessGroupType.SESSION_MEMBER, id: SESSION_ID }, permission: ObjectPermission.READ }],
+    };
+    expect(await isAllowedByAclPolicy(policy, MEMBER, ObjectPermission.READ)).toBe(true);
+    expect(await isAllowedByAclPolicy(policy, MEMBER, ObjectPermission.WRITE)).toBe(false);
+    expect(await isAllowedByAclPolicy(policy, OTHER, ObjectPermission.READ)).toBe(false);
+  });
+
+  it("lets a WRITE rule cover reads too", async () => {
+    const policy: ObjectAclPolicy = {
+      ...ownerAclPolicy(OWNER),
+      aclRules: [{ group: { type: ObjectAccessGroupType.SESSION_MEMBER, id: SESSION_ID }, permission: ObjectPermission.WRITE }],
+    };
+    expect(await isAllowedByAclPolicy(policy, MEMBER, ObjectPermission.READ)).toBe(true);
+    expect(await isAllowedByAclPolicy(policy, MEMBER, ObjectPermission.WRITE)).toBe(true);
+  });
+
+  it("ignores rules for a session that doesn't exist", async () => {
+    const policy: ObjectAclPolicy = {
+      ...ownerAclPolicy(OWNER),
+      aclRules: [{ group: { type: ObjectAccessGroupType.SESSION_MEMBER, id: "missing-session" }, permission: ObjectPermission.READ }],
+    };
+    expect(await isAllowedByAclPolicy(policy, MEMBER, ObjectPermission.READ)).toBe(false);
+  });
+});
+
+describe("canUserAccessObject", () => {
+  it("allows the owner named in the stored policy", async () => {
+    const r2 = fakeR2(ownerAclPolicy(OWNER));
+    expect(await canUserAccessObject(OWNER, OBJECT_PATH, ObjectPermission.READ, r2)).toBe(true);
+  });
+
+  it("rejects another user's object", async () => {
+    const r2 = fakeR2(ownerAclPolicy(OWNER));
+    expect(await canUserAccessObject(OTHER, OBJECT_PATH, ObjectPermission.READ, r2)).toBe(false);
+    expect(await canUserAccessObject(OTHER, OBJECT_PATH, ObjectPermission.WRITE, r2)).toBe(false);
+  });
+
+  it("rejects another user even when the object belongs to a session", async () => {
+    mockedStorage.getObjectSessionsByPath.mockResolvedValue([{ sessionId: SESSION_ID, userId: OWNER }]);
+    const r2 = fakeR2(ownerAclPolicy(OWNER));
+    expect(await canUserAccessObject(OTHER, OBJECT_PATH, ObjectPermission.READ, r2)).toBe(false);
+  });
+
+  it("lets members of the object's session read it but not write it", async () => {
+    mockedStorage.getObjectSessionsByPath.mockResolvedValue([{ sessionId: SESSION_ID, userId: OWNER }]);
+    const r2 = fakeR2(ownerAclPolicy(OWNER));
+    expect(await canUserAccessObject(MEMBER, OBJECT_PATH, ObjectPermission.READ, r2)).toBe(true);
+    expect(await canUserAccessObject(MEMBER, OBJECT_PATH, ObjectPermission.WRITE, r2)).toBe(false);
+  });
+
+  it("lets members of any session with a photo of the object read it", async () => {
+    mockedStorage.getObjectSessionsByPath.mockResolvedValue([
+      { sessionId: "session-2", userId: OTHER },
+      { sessionId: SESSION_ID, userId: OWNER },
+    ]);
+    const r2 = fakeR2(ownerAclPolicy(OTHER));
+    expect(await canUserAccessObject(MEMBER, OBJECT_PATH, ObjectPermission.READ, r2)).toBe(true);
+    expect(await canUserAccessObject(MEMBER, OBJECT_PATH, ObjectPermission.WRITE, r2)).toBe(false);
+  });
+
+  it("rejects anonymous callers", async () => {
+    mockedStorage.getObjectSessionsByPath.mockResolvedValue([{ sessionId: SESSION_ID, userId: OWNER }]);
+    const r2 = fakeR2(ownerAclPolicy(OWNER));
+    expect(await canUserAccessObject(undefined, OBJECT_PATH, ObjectPermission.READ, r2)).toBe(false);
+  });
+
+  it("derives the owner from the referencing photo's session and records it", async () => {
+    mockedStorage.getObjectSessionsByPath.mockResolvedValue([{ sessionId: SESSION_ID, userId: OWNER }]);
+    const r2 = fakeR2(null);
+    expect(await canUserAccessObject(OWNER, OBJECT_PATH, ObjectPermission.READ, r2)).toBe(true);
+    expect(await canUserAccessObject(OTHER, OBJECT_PATH, ObjectPermission.READ, r2)).toBe(false);
+    expect(r2.setObjectAclPolicy).toHaveBeenCalledWith("uploads/photo-1", ownerAclPolicy(OWNER));
+  });
+
+  it("records the owner of the oldest referencing photo's session when several reference it", async () => {
+    mockedStorage.getObjectSessionsByPath.mockResolvedValue([
+      { sessionId: "session-2", userId: OTHER },
+      { sessionId: SESSION_ID, userId: OWNER },
+    ]);
+    const r2 = fakeR2(null);
+    expect(await canUserAccessObject(OTHER, OBJECT_PATH, ObjectPermission.WRITE, r2)).toBe(true);
+    expect(r2.setObjectAclPolicy).toHaveBeenCalledWith("uploads/photo-1", ownerAclPolicy(OTHER));
+  });
+
+  it("denies everyone an object with no policy and no referencing photo", async () => {
+    const r2 = fakeR2(null);
+    expect(await canUserAccessObject(OWNER, OBJECT_PATH, ObjectPermission.READ, r2)).toBe(false);
+    expect(r2.setObjectAclPolicy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,76 @@
+// Object ownership - who may read or write a stored object
+// Uploads store an ACL policy naming the uploader as owner. Objects stored before that have
+// none; their owner is derived from the session of the oldest photo that references them (as
+// an original or a rendition) and written back, so the lookup only happens once per object.
+// People in any session with a photo of the object can read it too, whoever uploaded it.
+import { ObjectAccessGroupType, ObjectPermission, isAllowedByAclPolicy, type ObjectAclPolicy } from './objectAcl';
+import { R2StorageService } from './r2Storage';
+import { storage } from './storage';
+import { logger } from './middleware/logger';
+
+/**
+ * Policy for an object only its owner can read or write
+ */
+export function ownerAclPolicy(userId: string): ObjectAclPolicy {
+  return { owner: userId, visibility: 'private' };
+}
+
+/**
+ * An object's ACL policy: the stored one, or one derived from the photo that references it.
+ * Null when neither exists. Throws ObjectNotFoundError for missing objects.
+ */
+export async function resolveObjectAclPolicy(
+  objectPath: string,
+  r2Storage: R2StorageService = new R2StorageService()
+): Promise<ObjectAclPolicy | null> {
+  const objectKey = r2Storage.getObjectKeyFromPath(objectPath);
+  const stored = await r2Storage.getObjectAclPolicy(objectKey);
+  if (stored) return stored;
+
+  const [oldest] = await storage.getObjectSessionsByPath(objectPath);
+  if (!oldest) return null;
+
+  const owner = oldest.userId;
+
+  const aclPolicy = ownerAclPolicy(owner);
+  try {
+    await r2Storage.setObjectAclPolicy(objectKey, aclPolicy);
+    logger.info('Recorded derived owner on stored object', { objectKey, owner });
+  } catch (error) {
+    // The derived policy still applies; it's just looked up again next time
+    logger.warn('Failed to record owner on stored object', {
+      objectKey,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+  return aclPolicy;
+}
+
+/**
+ * Whether a user may access an object. Objects with no owner are denied to everyone.
+ */
+export async function canUserAccessObject(
+  userId: string | undefined,
+  objectPath: string,
+  requestedPermission: ObjectPermission = ObjectPermission.READ,
+  r2Storage: R2StorageService = new R2StorageService()
+): Promise<boolean> {
+  const aclPolicy = await resolveObjectAclPolicy(objectPath, r2Storage);
+  if (!aclPolicy) return false;
+  if (await isAllowedByAclPolicy(aclPolicy, userId, requestedPermission)) return true;
+  if (!userId) return false;
+
+  // Session membership changes, so it's checked when the object is read rather than stored
+  const photoSessions = await storage.getObjectSessionsByPath(objectPath);
+  if (photoSessions.length === 0) return false;
+  return isAllowedByAclPolicy({
+    ...aclPolicy,
+    aclRules: [
+      ...(aclPolicy.aclRules ?? []),
+      ...photoSessions.map(({ sessionId }) => ({
+        group: { type: ObjectAccessGroupType.SESSION_MEMBER, id: sessionId },
+        permission: ObjectPermission.READ,
+      })),
+    ],
+  }, userId, requestedPermission);
+}
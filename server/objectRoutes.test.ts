@@ -0,0 +1,129 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+
+const OWNER = "user-owner";
+const OTHER = "user-other";
+
+const r2 = vi.hoisted(() => ({
+  getObjectAclPolicy: vi.fn(),
+  setObjectAclPolicy: vi.fn(),
+  downloadObject: vi.fn(),
+  getDownloadURL: vi.fn(),
+}));
+
+// Native image and ML modules aren't needed by the object routes
+vi.mock("canvas", () => ({ createCanvas: vi.fn(), loadImage: vi.fn(), Canvas: class {}, Image: class {} }));
+vi.mock("./photoAnalysis", () => ({ photoAnalysisService: {} }));
+vi.mock("./photoGroupingService", () => ({ photoGroupingService: {} }));
+vi.mock("./db", () => ({ db: {}, pool: {} }));
+vi.mock("./storage", () => ({
+  storage: {
+    getSession: vi.fn(async () => undefined),
+    getSessionMemberByUser: vi.fn(async () => undefined),
+    getObjectSessionsByPath: vi.fn(async () => []),
+  },
+}));
+
+// Signed in as whoever the x-test-user header names
+vi.mock("./kindeAuth", () => ({
+  setupAuth: vi.fn(),
+  syncUserToDatabase: vi.fn(),
+  isAuthenticated: (req: any, res: any, next: any) => {
+    const userId = req.headers["x-test-user"];
+    if (!userId) return res.status(401).json({ message: "No authorization token provided" });
+    req.userId = userId;
+    next();
+  },
+}));
+
+vi.mock("./r2Storage", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./r2Storage")>();
+  return {
+    ...actual,
+    R2StorageService: class {
+      normalizeObjectPath(path: string) {
+        return path;
+      }
+      getObjectKeyFromPath(path: string) {
+        return path.replace(/^\/objects\//, "");
+      }
+      getObjectAclPolicy = r2.getObjectAclPolicy;
+      setObjectAclPolicy = r2.setObjectAclPolicy;
+      downloadObject = r2.downloadObject;
+      getDownloadURL = r2.getDownloadURL;
+    },
+  };
+});
+
+import { registerRoutes } from "./routes";
+import { errorHandler } from "./middleware/errorHandler";
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  app.use(errorHandler);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  r2.getObjectAclPolicy.mockResolvedValue({ owner: OWNER, visibility: "private" });
+  r2.downloadObject.mockImplementation(async (_key: string, res: any) => res.status(200).send("image-bytes"));
+  r2.getDownloadURL.mockResolvedValue("https://r2.example/signed");
+});
+
+function get(path: string, userId?: string) {
+  return fetch(`${baseUrl}${path}`, { headers: userId ? { "x-test-user": userId } : {} });
+}
+
+describe("GET /objects/:objectPath", () => {
+  it("serves the owner's object", async () => {
+    const res = await get("/objects/uploads/photo-1", OWNER);
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe("image-bytes");
+    expect(r2.downloadObject).toHaveBeenCalledWith("uploads/photo-1", expect.anything());
+  });
+
+  it("rejects another user's object", async () => {
+    const res = await get("/objects/uploads/photo-1", OTHER);
+    expect(res.status).toBe(403);
+    expect(r2.downloadObject).not.toHaveBeenCalled();
+  });
+
+  it("rejects an object with no owner", async () => {
+    r2.getObjectAclPolicy.mockResolvedValue(null);
+    const res = await get("/objects/uploads/photo-1", OWNER);
+    expect(res.status).toBe(403);
+    expect(r2.downloadObject).not.toHaveBeenCalled();
+  });
+
+  it("requires a signed-in user", async () => {
+    const res = await get("/objects/uploads/photo-1");
+    expect(res.status).toBe(401);
+  });
+});
+
+describe("GET /api/objects/presigned-url", () => {
+  it("signs a URL for the owner's object", async () => {
+    const res = await get(`/api/objects/presigned-url?path=${encodeURIComponent("/objects/uploads/photo-1")}`, OWNER);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ presignedUrl: "https://r2.example/signed" });
+  });
+
+  it("refuses to sign a URL for another user's object", async () => {
+    const res = await get(`/api/objects/presigned-url?path=${encodeURIComponent("/objects/uploads/photo-1")}`, OTHER);
+    expect(res.status).toBe(403);
+    expect(r2.getDownloadURL).not.toHaveBeenCalled();
+  });
+});
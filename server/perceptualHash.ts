@@ -0,0 +1,72 @@
+// Perceptual hashing - dHash of the downscaled grayscale image
+// Each of the 64 bits says whether a pixel is brighter than its right-hand neighbour on a 9x8
+// thumbnail, so re-encoding, resizing and small exposure changes flip few bits while a
+// different picture flips about half of them. Hashes are compared by Hamming distance.
+import { createCanvas, loadImage } from 'canvas';
+
+// Object metadata key an upload's perceptual hash is stored under, for the photo record to pick up
+export const PERCEPTUAL_HASH_OBJECT_METADATA_KEY = 'photo-perceptual-hash';
+
+export const PERCEPTUAL_HASH_BITS = 64;
+
+// Photos whose hashes differ in at most this many bits are treated as near-duplicates
+export const NEAR_DUPLICATE_MAX_DISTANCE = 6;
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/**
+ * dHash of an encoded image as 16 hex characters
+ */
+export async function computePerceptualHash(buffer: Buffer): Promise<string> {
+  const image = await loadImage(buffer);
+  const canvas = createCanvas(HASH_WIDTH, HASH_HEIGHT);
+  const ctx = canvas.getContext('2d');
+  // Average over the whole source area rather than sampling a few pixels
+  ctx.quality = 'best';
+  ctx.drawImage(image, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+
+  const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const gray = (x: number, y: number) => {
+    const i = (y * HASH_WIDTH + x) * 4;
+    return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  };
+
+  // Pack the bits into hex digits, four at a time
+  let hash = '';
+  let nibble = 0;
+  let bits = 0;
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      nibble = (nibble << 1) | (gray(x, y) > gray(x + 1, y) ? 1 : 0);
+      if (++bits % 4 === 0) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * Number of differing bits between two perceptual hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < PERCEPTUAL_HASH_BITS / 4; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff > 0) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * 0-1 similarity of two perceptual hashes (1 = identical)
+ */
+export function perceptualSimilarity(a: string, b: string): number {
+  return 1 - hammingDistance(a, b) / PERCEPTUAL_HASH_BITS;
+}
@@ -1,28 +1,67 @@
 // Real photo analysis service using TensorFlow.js and face-api
 import * as tf from '@tensorflow/tfjs-node';
 import * as faceapi from '@vladmandic/face-api';
-import type { FaceAnalysis, PhotoAnalysisResult } from "@shared/schema";
-import { loadImageFromUrl } from './imageLoader.js';
+import type { AnalysisStamp, AppliedScoringProfile, BestPhotoSelection, FaceAnalysis, FaceScoreBreakdown, PhotoAnalysisResult, PhotoScoreBreakdown } from "@shared/schema";
+import { loadImageFromUrl, loadImageWithHash } from './imageLoader.js';
 import { createCanvas } from 'canvas';
+import { measureFrameSharpness, measureFaceSharpness, BLUR_SCORE_THRESHOLD } from './sharpness';
+import { estimateHeadPose, headPoseDeviation, isLookingAway, type HeadPose } from './headPose';
+import { recordDetectedFaces, excludedFaceIds, analysisFaceId } from './faceRecords';
+import { DEFAULT_SCORING_PROFILE } from './scoringProfiles';
+import { RunStoppedError } from './runControl';
 import path from 'path';
+import { promises as fs } from 'fs';
+import * as crypto from 'node:crypto';
 import { EventEmitter } from 'events';
 import { storage } from './storage';
+import { progressStore, publishProgress, FINISHED_PROGRESS_TTL_MS } from './progressStore';
 
 export interface AnalysisProgress {
   sessionId: string;
   currentPhoto: number;
   totalPhotos: number;
   percentage: number;
-  status: 'loading_models' | 'analyzing' | 'selecting_best' | 'complete' | 'error';
+  status: 'loading_models' | 'analyzing' | 'selecting_best' | 'complete' | 'error' | 'paused' | 'cancelled';
   message: string;
   currentPhotoId?: string;
 }
 
+// Bump when detection or scoring changes in a way that makes stored analyses stale
+export const ANALYSIS_VERSION = 1;
+
+// Manifests of the nets loadModels uses; their contents identify the models an analysis ran on
+const MODEL_MANIFESTS = [
+  'ssd_mobilenetv1_model-weights_manifest.json',
+  'face_landmark_68_model-weights_manifest.json',
+  'face_expression_model-weights_manifest.json',
+  'face_recognition_model-weights_manifest.json',
+];
+
+// A photo as analysis needs it; the stored analysis and content hash let unchanged photos skip re-analysis
+export interface AnalyzablePhoto {
+  id: string;
+  fileUrl: string;
+  contentHash?: string | null;
+  analysisData?: unknown;
+}
+
+/**
+ * Short stable hash of a JSON value (object keys sorted)
+ */
+function fingerprint(value: unknown): string {
+  const canonical = JSON.stringify(value, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v
+  );
+  return crypto.createHash('sha256').update(canonical).digest('hex').slice(0, 16);
+}
+
 export class PhotoAnalysisService {
   private modelsLoaded = false;
+  private modelsFingerprint: string | null = null;
+  // Local events for in-process listeners; pollers read the shared progress store
   private progressEmitter = new EventEmitter();
-  // In-memory progress store for polling
-  private progressStore = new Map<string, AnalysisProgress>();
 
   /**
    * Subscribe to analysis progress updates (for SSE)
@@ -40,15 +79,15 @@ export class PhotoAnalysisService {
   /**
    * Get current progress for a session (for polling)
    */
-  getProgress(sessionId: string): AnalysisProgress | null {
-    return this.progressStore.get(sessionId) || null;
+  async getProgress(sessionId: string): Promise<AnalysisProgress | null> {
+    return progressStore.get<AnalysisProgress>(`analysis:${sessionId}`);
   }
 
   /**
    * Clear progress for a session
    */
-  clearProgress(sessionId: string): void {
-    this.progressStore.delete(sessionId);
+  async clearProgress(sessionId: string): Promise<void> {
+    await progressStore.delete(`analysis:${sessionId}`);
   }
 
   /**
@@ -56,17 +95,11 @@ export class PhotoAnalysisService {
    */
   private emitProgress(progress: AnalysisProgress): void {
     const eventName = `progress:${progress.sessionId}`;
-    // Store in memory for polling
-    this.progressStore.set(progress.sessionId, progress);
-    // Also emit for SSE (if anyone is listening)
+    // Persist for polling from any instance; completed/error progress expires sooner
+    const finished = progress.status === 'complete' || progress.status === 'error';
+    publishProgress(`analysis:${progress.sessionId}`, progress, finished ? FINISHED_PROGRESS_TTL_MS : undefined);
+    // Also emit for in-process listeners
     this.progressEmitter.emit(eventName, progress);
-
-    // Auto-cleanup completed/error progress after 30 seconds
-    if (progress.status === 'complete' || progress.status === 'error') {
-      setTimeout(() => {
-        this.progressStore.delete(progress.sessionId);
-      }, 30000);
-    }
   }
   
   /**
@@ -84,6 +117,7 @@ export class PhotoAnalysisService {
       await faceapi.nets.ssdMobilenetv1.loadFromDisk(modelPath);
       await faceapi.nets.faceLandmark68Net.loadFromDisk(modelPath);
       await faceapi.nets.faceExpressionNet.loadFromDisk(modelPath);
+      await faceapi.nets.faceRecognitionNet.loadFromDisk(modelPath);
       
       this.modelsLoaded = true;
       console.log('✅ Face-API models loaded successfully (SSD MobileNet)');
@@ -96,6 +130,64 @@ export class PhotoAnalysisService {
     }
   }
 
+  /**
+   * Fingerprint of the face-api models on disk, read once
+   */
+  private async getModelsFingerprint(): Promise<string> {
+    if (!this.modelsFingerprint) {
+      const modelPath = path.join(process.cwd(), 'models');
+      const manifests = await Promise.all(MODEL_MANIFESTS.map(file => fs.readFile(path.join(modelPath, file), 'utf8')));
+      this.modelsFingerprint = crypto.createHash('sha256').update(manifests.join('\n')).digest('hex').slice(0, 16);
+    }
+    return this.modelsFingerprint;
+  }
+
+  /**
+   * What an analysis of the given file, profile and face selections is computed from
+   */
+  private async buildAnalysisStamp(
+    contentHash: string,
+    profile: AppliedScoringProfile,
+    selections?: Record<number, boolean>
+  ): Promise<AnalysisStamp> {
+    return {
+      version: ANALYSIS_VERSION,
+      models: await this.getModelsFingerprint(),
+      contentHash,
+      scoringProfile: fingerprint(profile.settings),
+      faceSelections: selections ? fingerprint(selections) : null,
+    };
+  }
+
+  /**
+   * A photo's stored analysis, if it can be reused instead of running detection again: made by
+   * this analysis version and models, from the same file, with the same scoring profile settings.
+   * Face selections only invalidate it when new ones are given; without them the stored
+   * exclusions carry over anyway.
+   */
+  async getReusableAnalysis(
+    photo: AnalyzablePhoto,
+    selections: Record<number, boolean> | undefined,
+    profile: AppliedScoringProfile
+  ): Promise<PhotoAnalysisResult | null> {
+    if (!photo.contentHash || !photo.analysisData) return null;
+
+    const cached = (typeof photo.analysisData === 'string'
+      ? JSON.parse(photo.analysisData)
+      : photo.analysisData) as PhotoAnalysisResult;
+    const stamp = cached.analysisStamp;
+    if (!stamp) return null;
+
+    const current = await this.buildAnalysisStamp(photo.contentHash, profile, selections);
+    const unchanged = stamp.version === current.version &&
+      stamp.models === current.models &&
+      stamp.contentHash === current.contentHash &&
+      stamp.scoringProfile === current.scoringProfile &&
+      (!selections || stamp.faceSelections === current.faceSelections);
+
+    return unchanged ? cached : null;
+  }
+
   /**
    * Calculate Intersection over Union (IoU) between two bounding boxes
    */
@@ -174,7 +266,8 @@ export class PhotoAnalysisService {
               minConfidence: 0.5
             }))
             .withFaceLandmarks()
-            .withFaceExpressions();
+            .withFaceExpressions()
+            .withFaceDescriptors();
         } else {
           detections = await faceapi.detectAllFaces(
             tensor as any,
@@ -246,6 +339,8 @@ export class PhotoAnalysisService {
     faces: Array<{
       boundingBox: { x: number; y: number; width: number; height: number };
       confidence: number;
+      headPose: HeadPose;
+      lookingAway: boolean;
     }>;
   }> {
     await this.loadModels();
@@ -256,18 +351,23 @@ export class PhotoAnalysisService {
       const ctx = canvas.getContext('2d');
       ctx.drawImage(image, 0, 0);
       
-      // Use multi-scale detection for comprehensive face coverage
-      const detections = await this.multiScaleDetection(canvas, false);
+      // Use multi-scale detection for comprehensive face coverage; landmarks give the head pose
+      const detections = await this.multiScaleDetection(canvas, true);
       
-      const faces = detections.map((detection) => ({
-        boundingBox: {
-          x: detection.detection.box.x / canvas.width,
-          y: detection.detection.box.y / canvas.height,
-          width: detection.detection.box.width / canvas.width,
-          height: detection.detection.box.height / canvas.height,
-        },
-        confidence: detection.detection.score,
-      }));
+      const faces = detections.map((detection) => {
+        const headPose = estimateHeadPose(detection.landmarks.positions);
+        return {
+          boundingBox: {
+            x: detection.detection.box.x / canvas.width,
+            y: detection.detection.box.y / canvas.height,
+            width: detection.detection.box.width / canvas.width,
+            height: detection.detection.box.height / canvas.height,
+          },
+          confidence: detection.detection.score,
+          headPose,
+          lookingAway: isLookingAway(headPose),
+        };
+      });
       
       return { photoId, faces };
     } catch (error) {
@@ -279,12 +379,19 @@ export class PhotoAnalysisService {
   /**
    * Analyze a single photo using real computer vision
    */
-  async analyzePhoto(photoUrl: string, photoId: string): Promise<PhotoAnalysisResult> {
+  async analyzePhoto(
+    photoUrl: string,
+    photoId: string,
+    profile: AppliedScoringProfile = DEFAULT_SCORING_PROFILE
+  ): Promise<PhotoAnalysisResult> {
+    const { faceWeights, thresholds } = profile.settings;
+
     await this.loadModels();
     
     try {
       // Load image from object storage
-      const image = await loadImageFromUrl(photoUrl);
+      const { image, contentHash } = await loadImageWithHash(photoUrl);
+      const analysisStamp = await this.buildAnalysisStamp(contentHash, profile);
       
       // Convert Image to Canvas for face-api compatibility
       const canvas = createCanvas(image.width, image.height);
@@ -294,20 +401,11 @@ export class PhotoAnalysisService {
       // Use multi-scale detection with landmarks and expressions for comprehensive analysis
       // Detects faces at 100%, 75%, and 50% scales to catch faces of all sizes
       const detections = await this.multiScaleDetection(canvas, true);
+      const frameSharpness = measureFrameSharpness(canvas);
 
       if (detections.length === 0) {
         // No faces detected - return low quality
-        return {
-          photoId,
-          faces: [],
-          overallQualityScore: 0,
-          issues: {
-            closedEyes: 0,
-            poorExpressions: 0,
-            blurryFaces: 0,
-          },
-          recommendation: 'poor',
-        };
+        return { ...this.scorePhoto(photoId, [], frameSharpness.score, profile), analysisStamp };
       }
 
       // Process each detected face
@@ -322,8 +420,8 @@ export class PhotoAnalysisService {
         const mouth = landmarks.getMouth();
         
         // Calculate if eyes are open based on eye aspect ratio (EAR)
-        const leftEyeOpen = this.calculateEyeOpenness(leftEye, `Face ${index} Left Eye`);
-        const rightEyeOpen = this.calculateEyeOpenness(rightEye, `Face ${index} Right Eye`);
+        const leftEyeOpen = this.calculateEyeOpenness(leftEye, thresholds.eyeAspectRatio, `Face ${index} Left Eye`);
+        const rightEyeOpen = this.calculateEyeOpenness(rightEye, thresholds.eyeAspectRatio, `Face ${index} Right Eye`);
         const eyesOpen = leftEyeOpen && rightEyeOpen;
         
         // Debug check if expressions exists
@@ -336,7 +434,7 @@ export class PhotoAnalysisService {
         }
         
         // Detect smile from expressions (happy emotion)
-        const smileDetected = expressions ? expressions.happy > 0.5 : false;
+        const smileDetected = expressions ? expressions.happy > thresholds.smile : false;
         const smileIntensity = expressions ? expressions.happy : 0;
         
         // Determine dominant expression
@@ -345,18 +443,34 @@ export class PhotoAnalysisService {
           ? expressionEntries.reduce((a, b) => a[1] > b[1] ? a : b)[0]
           : 'neutral';
         
-        // Calculate face quality score
-        const eyeScore = eyesOpen ? 40 : 0;
-        const smileScore = smileDetected ? 30 : 0;
-        const expressionScore = expressions ? (expressions.happy + expressions.neutral) * 15 : 0;
-        const detectionScore = detection.detection.score * 15;
-        const qualityScore = Math.min(100, eyeScore + smileScore + expressionScore + detectionScore);
+        // Calculate face quality score with the profile's weights
+        const eyeScore = eyesOpen ? faceWeights.eyesOpen : 0;
+        const smileScore = smileDetected ? faceWeights.smile : 0;
+        const expressionScore = expressions ? (expressions.happy + expressions.neutral) * faceWeights.expression : 0;
+        const detectionScore = detection.detection.score * faceWeights.detection;
+
+        // Motion blur and missed focus scale the score down; faces too small to measure aren't penalized
+        const faceSharpness = measureFaceSharpness(canvas, box);
+        const headPose = estimateHeadPose(landmarks.positions);
+        const scoreBreakdown: FaceScoreBreakdown = {
+          eyesOpen: eyeScore,
+          smile: smileScore,
+          expression: expressionScore,
+          detection: detectionScore,
+          sharpnessFactor: this.sharpnessFactor(faceSharpness?.score),
+          headPoseFactor: this.headPoseFactor(headPose),
+        };
+        const qualityScore = Math.min(100, eyeScore + smileScore + expressionScore + detectionScore) *
+          scoreBreakdown.sharpnessFactor *
+          scoreBreakdown.headPoseFactor;
         
         console.log(`Face ${index} quality calc:`, {
           eyeScore,
           smileScore,
           expressionScore,
           detectionScore,
+          sharpness: faceSharpness?.score,
+          headPose,
           finalScore: qualityScore,
           hasExpressions: !!expressions,
         });
@@ -366,8 +480,11 @@ export class PhotoAnalysisService {
         const imgHeight = canvas.height;
         
         return {
-          faceId: `face-${photoId}-${index}`,
-          personIndex: index,
+          faceId: analysisFaceId(photoId, index),
+          personIndex: index, // Per-photo until identifySessionFaces matches people across the session
+          descriptor: detection.descriptor
+            ? Array.from(detection.descriptor as Float32Array).map(v => Math.round(v * 10000) / 10000)
+            : undefined,
           boundingBox: {
             x: box.x / imgWidth,
             y: box.y / imgHeight,
@@ -392,49 +509,16 @@ export class PhotoAnalysisService {
               intensity: smileIntensity,
             },
             expression: this.mapExpression(dominantExpression),
-            headPose: {
-              pitch: 0, // Not supported by face-api, would need separate model
-              yaw: 0,
-              roll: 0,
-            },
+            headPose,
+            lookingAway: isLookingAway(headPose),
           },
+          sharpness: faceSharpness?.score,
           qualityScore,
+          scoreBreakdown,
         };
       });
 
-      // Calculate overall photo quality
-      const eyesOpenCount = faces.filter(f => f.attributes.eyesOpen.detected).length;
-      const smilingCount = faces.filter(f => f.attributes.smile.detected).length;
-      const avgFaceQuality = faces.reduce((sum, f) => sum + f.qualityScore, 0) / faces.length;
-      
-      const eyesOpenScore = (eyesOpenCount / faces.length) * 40;
-      const smilingScore = (smilingCount / faces.length) * 40;
-      const faceQualityScore = (avgFaceQuality / 100) * 20;
-      
-      const overallQualityScore = eyesOpenScore + smilingScore + faceQualityScore;
-
-      const closedEyes = faces.length - eyesOpenCount;
-      const poorExpressions = faces.filter(f => 
-        f.attributes.expression === 'sad' || f.attributes.expression === 'angry'
-      ).length;
-
-      let recommendation: 'best' | 'good' | 'acceptable' | 'poor';
-      if (overallQualityScore >= 85) recommendation = 'best';
-      else if (overallQualityScore >= 70) recommendation = 'good';
-      else if (overallQualityScore >= 50) recommendation = 'acceptable';
-      else recommendation = 'poor';
-
-      return {
-        photoId,
-        faces,
-        overallQualityScore,
-        issues: {
-          closedEyes,
-          poorExpressions,
-          blurryFaces: 0,
-        },
-        recommendation,
-      };
+      return { ...this.scorePhoto(photoId, faces, frameSharpness.score, profile), analysisStamp };
     } catch (error) {
       console.error('❌ Error analyzing photo:', photoId);
       console.error('❌ Error details:', {
@@ -447,10 +531,145 @@ export class PhotoAnalysisService {
     }
   }
 
+  /**
+   * Analyze a photo, record its faces and score it without the faces the user excluded.
+   * Selections (by detection index) replace the stored exclusions; without them, exclusions
+   * carry over from the photo's previous analysis. Records the file's content hash on the photo.
+   */
+  async analyzeAndRecordPhoto(
+    photo: AnalyzablePhoto,
+    selections?: Record<number, boolean>,
+    profile: AppliedScoringProfile = DEFAULT_SCORING_PROFILE
+  ): Promise<PhotoAnalysisResult> {
+    const analysis = await this.analyzePhoto(photo.fileUrl, photo.id, profile);
+    const stamp = analysis.analysisStamp!;
+    if (selections) {
+      stamp.faceSelections = fingerprint(selections);
+    }
+    if (photo.contentHash !== stamp.contentHash) {
+      await storage.updatePhoto(photo.id, { contentHash: stamp.contentHash });
+    }
+
+    const rows = await recordDetectedFaces(photo.id, analysis.faces, selections);
+    return this.applyFaceExclusions(analysis, excludedFaceIds(rows));
+  }
+
+  /**
+   * Re-score an analysis with the given faces excluded. Excluded faces move to excludedFaces
+   * so a later call can bring them back without re-analyzing. Scores with the profile the
+   * analysis was made with.
+   */
+  applyFaceExclusions(analysis: PhotoAnalysisResult, excludedIds: Set<string>): PhotoAnalysisResult {
+    const allFaces = [...analysis.faces, ...(analysis.excludedFaces ?? [])];
+    const included = allFaces.filter(f => !excludedIds.has(f.faceId));
+    const excluded = allFaces.filter(f => excludedIds.has(f.faceId));
+
+    const profile = analysis.scoringProfile ?? DEFAULT_SCORING_PROFILE;
+    const scored = { ...this.scorePhoto(analysis.photoId, included, analysis.sharpness, profile), analysisStamp: analysis.analysisStamp };
+    return excluded.length > 0 ? { ...scored, excludedFaces: excluded } : scored;
+  }
+
+  /**
+   * Overall quality, issue counts and recommendation for a photo's faces
+   */
+  private scorePhoto(
+    photoId: string,
+    faces: FaceAnalysis[],
+    frameSharpness: number | undefined,
+    profile: AppliedScoringProfile
+  ): PhotoAnalysisResult {
+    if (faces.length === 0) {
+      return {
+        photoId,
+        faces: [],
+        overallQualityScore: 0,
+        sharpness: frameSharpness,
+        issues: {
+          closedEyes: 0,
+          poorExpressions: 0,
+          blurryFaces: 0,
+          lookingAway: 0,
+        },
+        recommendation: 'poor',
+        scoringProfile: profile,
+      };
+    }
+
+    const { photoWeights } = profile.settings;
+
+    const eyesOpenCount = faces.filter(f => f.attributes.eyesOpen.detected).length;
+    const smilingCount = faces.filter(f => f.attributes.smile.detected).length;
+    const avgFaceQuality = faces.reduce((sum, f) => sum + f.qualityScore, 0) / faces.length;
+
+    const eyesOpenScore = (eyesOpenCount / faces.length) * photoWeights.eyesOpen;
+    const smilingScore = (smilingCount / faces.length) * photoWeights.smile;
+    const faceQualityScore = (avgFaceQuality / 100) * photoWeights.faceQuality;
+
+    // Judge sharpness by the faces when they could be measured, since a shallow depth of
+    // field blurs the background on purpose; otherwise fall back to the whole frame
+    const measuredFaces = faces.filter(f => f.sharpness !== undefined);
+    const photoSharpness = measuredFaces.length > 0
+      ? measuredFaces.reduce((sum, f) => sum + f.sharpness!, 0) / measuredFaces.length
+      : frameSharpness;
+
+    const scoreBreakdown: PhotoScoreBreakdown = {
+      eyesOpen: eyesOpenScore,
+      smile: smilingScore,
+      faceQuality: faceQualityScore,
+      sharpnessFactor: this.sharpnessFactor(photoSharpness),
+    };
+    const overallQualityScore = (eyesOpenScore + smilingScore + faceQualityScore) * scoreBreakdown.sharpnessFactor;
+
+    const closedEyes = faces.length - eyesOpenCount;
+    const poorExpressions = faces.filter(f =>
+      f.attributes.expression === 'sad' || f.attributes.expression === 'angry'
+    ).length;
+    const blurryFaces = measuredFaces.filter(f => f.sharpness! < BLUR_SCORE_THRESHOLD).length;
+    const lookingAway = faces.filter(f => f.attributes.lookingAway).length;
+
+    let recommendation: 'best' | 'good' | 'acceptable' | 'poor';
+    if (overallQualityScore >= 85) recommendation = 'best';
+    else if (overallQualityScore >= 70) recommendation = 'good';
+    else if (overallQualityScore >= 50) recommendation = 'acceptable';
+    else recommendation = 'poor';
+
+    return {
+      photoId,
+      faces,
+      overallQualityScore,
+      sharpness: frameSharpness,
+      issues: {
+        closedEyes,
+        poorExpressions,
+        blurryFaces,
+        lookingAway,
+      },
+      recommendation,
+      scoringProfile: profile,
+      scoreBreakdown,
+    };
+  }
+
+  /**
+   * Score multiplier for a 0-1 sharpness score: a fully blurred frame keeps 60% of its score.
+   * Unknown sharpness (tiny faces, older analyses) isn't penalized.
+   */
+  private sharpnessFactor(sharpness?: number): number {
+    return sharpness === undefined ? 1 : 0.6 + 0.4 * sharpness;
+  }
+
+  /**
+   * Score multiplier for head pose: facing the camera keeps the full score, a head turned to the
+   * looking-away limit or beyond keeps 70%
+   */
+  private headPoseFactor(pose: HeadPose): number {
+    return 1 - 0.3 * Math.min(1, headPoseDeviation(pose));
+  }
+
   /**
    * Calculate eye openness using Eye Aspect Ratio (EAR)
    */
-  private calculateEyeOpenness(eyePoints: faceapi.Point[], eyeLabel: string = ''): boolean {
+  private calculateEyeOpenness(eyePoints: faceapi.Point[], threshold: number, eyeLabel: string = ''): boolean {
     if (eyePoints.length < 6) return true; // Default to open if not enough points
     
     // Calculate vertical distances
@@ -464,10 +683,10 @@ export class PhotoAnalysisService {
     const ear = (vertical1 + vertical2) / (2.0 * horizontal);
     
     // Debug logging to see actual EAR values
-    const isOpen = ear > 0.15;
+    const isOpen = ear > threshold;
     console.log(`👁️  ${eyeLabel} EAR: ${ear.toFixed(3)} -> ${isOpen ? 'OPEN' : 'CLOSED'}`);
     
-    // Threshold: eyes are open if EAR > 0.15 (very lenient to minimize false negatives)
+    // Threshold comes from the scoring profile; the balanced 0.15 is very lenient to minimize false negatives
     return isOpen;
   }
 
@@ -495,15 +714,23 @@ export class PhotoAnalysisService {
   }
 
   /**
-   * Analyze all photos in a session
+   * Analyze all photos in a session. Photos whose stored analysis is still valid (see
+   * getReusableAnalysis) keep it; best-photo selection always runs over every photo.
    * @param sessionId - Session ID for progress tracking
-   * @param photos - Photos to analyze
-   * @param faceSelections - Optional face selections per photo: { photoId: { faceIdx: true/false } }
+   * @param photos - Photos to analyze, with their stored analysis and content hash when reuse is wanted
+   * @param faceSelections - Optional face selections per photo: { photoId: { faceIdx: true/false } }; saved as face exclusions
+   * @param onPhotoAnalyzed - Optional callback awaited after each photo (error is set if the photo failed)
+   * @param profile - Scoring profile for face scores, photo scores and best-photo selection
+   * @param beforeBatch - Optional check awaited before each batch; throw to stop the run (finished photos have already been reported)
    */
   async analyzeSession(
     sessionId: string,
-    photos: { id: string; fileUrl: string }[],
-    faceSelections?: Record<string, Record<number, boolean>>
+    photos: AnalyzablePhoto[],
+    faceSelections?: Record<string, Record<number, boolean>>,
+    onPhotoAnalyzed?: (analysis: PhotoAnalysisResult, error?: string) => Promise<void>,
+    profile: AppliedScoringProfile = DEFAULT_SCORING_PROFILE,
+    beforeBatch?: () => Promise<void>,
+    voteScores?: Map<string, number>
   ): Promise<{
     analyses: PhotoAnalysisResult[];
     bestPhotoId: string | null;
@@ -528,76 +755,20 @@ export class PhotoAnalysisService {
       const analyses: PhotoAnalysisResult[] = [];
       const CONCURRENT_ANALYSES = 3; // Analyze 3 photos at a time (lower than uploads due to CPU/GPU intensity)
       let completedCount = 0;
-
-      // Helper function to apply face exclusions and recalculate quality
-      const applyFaceSelections = (analysis: PhotoAnalysisResult, photoId: string): PhotoAnalysisResult => {
-        if (!faceSelections || !faceSelections[photoId]) {
-          return analysis;
-        }
-
-        const photoSelections = faceSelections[photoId];
-        const includedFaces = analysis.faces.filter((_, idx) => photoSelections[idx] !== false);
-        
-        if (includedFaces.length > 0) {
-          // Recalculate overall quality based on included faces only
-          const eyesOpenCount = includedFaces.filter(f => f.attributes.eyesOpen.detected).length;
-          const smilingCount = includedFaces.filter(f => f.attributes.smile.detected).length;
-          const avgFaceQuality = includedFaces.reduce((sum, f) => sum + f.qualityScore, 0) / includedFaces.length;
-          
-          const eyesOpenScore = (eyesOpenCount / includedFaces.length) * 40;
-          const smilingScore = (smilingCount / includedFaces.length) * 40;
-          const faceQualityScore = (avgFaceQuality / 100) * 20;
-          
-          const overallQualityScore = eyesOpenScore + smilingScore + faceQualityScore;
-          
-          const closedEyes = includedFaces.length - eyesOpenCount;
-          const poorExpressions = includedFaces.filter(f => 
-            f.attributes.expression === 'sad' || f.attributes.expression === 'angry'
-          ).length;
-
-          let recommendation: 'best' | 'good' | 'acceptable' | 'poor';
-          if (overallQualityScore >= 85) recommendation = 'best';
-          else if (overallQualityScore >= 70) recommendation = 'good';
-          else if (overallQualityScore >= 50) recommendation = 'acceptable';
-          else recommendation = 'poor';
-
-          // Update analysis with filtered results
-          return {
-            ...analysis,
-            faces: includedFaces,
-            overallQualityScore,
-            issues: {
-              closedEyes,
-              poorExpressions,
-              blurryFaces: 0,
-            },
-            recommendation,
-          };
-        } else {
-          // All faces excluded - mark as poor quality
-          return {
-            ...analysis,
-            faces: [],
-            overallQualityScore: 0,
-            issues: {
-              closedEyes: 0,
-              poorExpressions: 0,
-              blurryFaces: 0,
-            },
-            recommendation: 'poor',
-          };
-        }
-      };
+      let reusedCount = 0;
 
       // Process photos in parallel batches
       for (let i = 0; i < photos.length; i += CONCURRENT_ANALYSES) {
+        await beforeBatch?.();
+
         const batch = photos.slice(i, i + CONCURRENT_ANALYSES);
         
         // Analyze batch in parallel
         const batchPromises = batch.map(async (photo, batchIndex) => {
           try {
-            const analysis = await this.analyzePhoto(photo.fileUrl, photo.id);
-            const finalAnalysis = applyFaceSelections(analysis, photo.id);
+            const reused = await this.getReusableAnalysis(photo, faceSelections?.[photo.id], profile);
+            if (reused) reusedCount++;
+            const finalAnalysis = reused ?? await this.analyzeAndRecordPhoto(photo, faceSelections?.[photo.id], profile);
             
             // Update progress as each photo completes (not sequentially)
             completedCount++;
@@ -641,6 +812,7 @@ export class PhotoAnalysisService {
                 recommendation: 'poor' as const,
               },
               success: false,
+              error: error instanceof Error ? error.message : 'Unknown error',
             };
           }
         });
@@ -652,6 +824,12 @@ export class PhotoAnalysisService {
         for (const settledResult of batchResults) {
           if (settledResult.status === 'fulfilled') {
             analyses.push(settledResult.value.analysis);
+            if (onPhotoAnalyzed) {
+              await onPhotoAnalyzed(
+                settledResult.value.analysis,
+                settledResult.value.success ? undefined : settledResult.value.error
+              );
+            }
           } else {
             // If the promise itself failed (shouldn't happen with allSettled, but handle it)
             const photo = batch[batchResults.indexOf(settledResult)];
@@ -670,6 +848,10 @@ export class PhotoAnalysisService {
         }
       }
 
+      if (reusedCount > 0) {
+        console.log(`♻️ Reused ${reusedCount} of ${totalPhotos} unchanged analyses for session ${sessionId}`);
+      }
+
       // Emit progress - selecting best photo
       this.emitProgress({
         sessionId,
@@ -680,55 +862,7 @@ export class PhotoAnalysisService {
         message: 'Selecting best photo...',
       });
 
-      // Three-tier priority system for selecting best photo:
-      // Priority 0: Face count consensus (only consider photos within 1 face of max detected)
-      // Priority 1: Maximum eyes open count
-      // Priority 2: Quality score tiebreaker (smiles + face quality)
-
-      // First, find the maximum number of faces detected across all photos
-      const maxFaceCount = Math.max(...analyses.map(a => a.faces.length), 0);
-      
-      // Filter to only photos within 1 face of the maximum (consensus group)
-      // This ensures we're selecting from photos that captured most/all people
-      const consensusPhotos = analyses.filter(a => a.faces.length >= maxFaceCount - 1);
-      
-      console.log(`📊 Face count consensus: max=${maxFaceCount}, considering ${consensusPhotos.length}/${analyses.length} photos`);
-      consensusPhotos.forEach(p => {
-        console.log(`  - Photo ${p.photoId}: ${p.faces.length} faces detected`);
-      });
-      
-      let bestPhotoId: string | null = null;
-      let bestEyesOpenCount = -1;
-      let bestTiebreakerScore = 0;
-
-      // Now apply eyes open and quality score priorities within consensus group
-      for (const analysis of consensusPhotos) {
-        const eyesOpenCount = analysis.faces.filter(f => f.attributes.eyesOpen.detected).length;
-        
-        // Calculate tiebreaker score (smiles + face quality only, excludes eyes open)
-        const smilingCount = analysis.faces.filter(f => f.attributes.smile.detected).length;
-        const avgFaceQuality = analysis.faces.length > 0
-          ? analysis.faces.reduce((sum, f) => sum + f.qualityScore, 0) / analysis.faces.length
-          : 0;
-        
-        const smilingScore = analysis.faces.length > 0 
-          ? (smilingCount / analysis.faces.length) * 40 
-          : 0;
-        const faceQualityScore = (avgFaceQuality / 100) * 20;
-        const tiebreakerScore = smilingScore + faceQualityScore;
-        
-        // Priority 1: Maximum eyes open count (within consensus group)
-        if (eyesOpenCount > bestEyesOpenCount) {
-          bestEyesOpenCount = eyesOpenCount;
-          bestTiebreakerScore = tiebreakerScore;
-          bestPhotoId = analysis.photoId;
-        } 
-        // Priority 2: If same eyes open count, use smiles + face quality as tiebreaker
-        else if (eyesOpenCount === bestEyesOpenCount && tiebreakerScore > bestTiebreakerScore) {
-          bestTiebreakerScore = tiebreakerScore;
-          bestPhotoId = analysis.photoId;
-        }
-      }
+      const { bestPhotoId, selections } = this.explainBestPhoto(analyses, profile, voteScores);
 
       // Emit completion
       this.emitProgress({
@@ -741,10 +875,13 @@ export class PhotoAnalysisService {
       });
 
       return {
-        analyses,
+        analyses: analyses.map(a => ({ ...a, selection: selections.get(a.photoId) })),
         bestPhotoId,
       };
     } catch (error) {
+      // A requested pause or cancel isn't a failure; the caller reports it
+      if (error instanceof RunStoppedError) throw error;
+
       // Ensure error progress is always emitted if analysis fails
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred during analysis';
       console.error(`❌ Analysis failed for session ${sessionId}:`, error);
@@ -763,6 +900,140 @@ export class PhotoAnalysisService {
     }
   }
 
+  /**
+   * Select the best photo from a set of analyses
+   */
+  selectBestPhoto(
+    analyses: PhotoAnalysisResult[],
+    profile: AppliedScoringProfile = DEFAULT_SCORING_PROFILE,
+    voteScores?: Map<string, number>
+  ): string | null {
+    return this.explainBestPhoto(analyses, profile, voteScores).bestPhotoId;
+  }
+
+  /**
+   * Select the best photo and record, for every photo, the step of selection that decided it
+   */
+  explainBestPhoto(
+    analyses: PhotoAnalysisResult[],
+    profile: AppliedScoringProfile = DEFAULT_SCORING_PROFILE,
+    voteScores?: Map<string, number>
+  ): { bestPhotoId: string | null; selections: Map<string, BestPhotoSelection> } {
+    // Tiered priority system for selecting best photo:
+    // Priority 0: People count consensus (only consider photos within the profile's tolerance of max detected)
+    // Priority 1: Maximum number of people with eyes open
+    // Priority 2: Quality score tiebreaker (smiles + face quality, weighted by the profile)
+    // Priority 3: Reviewers' votes, between photos whose tiebreakers round to the same whole point
+    // People are counted by personIndex, so once faces are identified across the session a
+    // duplicate detection of one person counts once
+
+    const peopleIn = (analysis: PhotoAnalysisResult, predicate: (face: FaceAnalysis) => boolean = () => true) =>
+      new Set(analysis.faces.filter(predicate).map(f => f.personIndex)).size;
+
+    const { peopleTolerance, tieBreakerWeights } = profile.settings.selection;
+
+    const candidates = analyses.map(analysis => {
+      // Calculate tiebreaker score (smiles + face quality only, excludes eyes open)
+      const smilingCount = analysis.faces.filter(f => f.attributes.smile.detected).length;
+      const avgFaceQuality = analysis.faces.length > 0
+        ? analysis.faces.reduce((sum, f) => sum + f.qualityScore, 0) / analysis.faces.length
+        : 0;
+
+      const smilingScore = analysis.faces.length > 0
+        ? (smilingCount / analysis.faces.length) * tieBreakerWeights.smile
+        : 0;
+      const faceQualityScore = (avgFaceQuality / 100) * tieBreakerWeights.faceQuality;
+
+      return {
+        analysis,
+        peopleCount: peopleIn(analysis),
+        eyesOpenCount: peopleIn(analysis, f => f.attributes.eyesOpen.detected),
+        tieBreaker: {
+          smile: smilingScore,
+          faceQuality: faceQualityScore,
+          total: smilingScore + faceQualityScore,
+        },
+        voteScore: voteScores?.get(analysis.photoId) ?? 0,
+      };
+    });
+
+    type Candidate = typeof candidates[number];
+    const tiedOnTieBreaker = (a: Candidate, b: Candidate) =>
+      Math.round(a.tieBreaker.total) === Math.round(b.tieBreaker.total);
+    const decidedByVotes = (a: Candidate, b: Candidate) =>
+      a.eyesOpenCount === b.eyesOpenCount && tiedOnTieBreaker(a, b) && a.voteScore !== b.voteScore;
+
+    // First, find the maximum number of people detected across all photos
+    const maxPeopleCount = Math.max(...candidates.map(c => c.peopleCount), 0);
+    
+    // Filter to only photos within the tolerance of the maximum (consensus group)
+    // This ensures we're selecting from photos that captured most/all people
+    const minPeopleCount = maxPeopleCount - peopleTolerance;
+    const consensus = candidates.filter(c => c.peopleCount >= minPeopleCount);
+    
+    console.log(`📊 People count consensus: max=${maxPeopleCount}, considering ${consensus.length}/${analyses.length} photos`);
+    consensus.forEach(c => {
+      console.log(`  - Photo ${c.analysis.photoId}: ${c.peopleCount} people detected`);
+    });
+    
+    let best: typeof candidates[number] | null = null;
+
+    // Now apply eyes open and quality score priorities within consensus group
+    for (const candidate of consensus) {
+      // Priority 1: Maximum eyes open count (within consensus group)
+      // Priority 2: If same eyes open count, use smiles + face quality as tiebreaker
+      // Priority 3: If that's level to the point, the photo reviewers voted higher
+      if (
+        !best ||
+        candidate.eyesOpenCount > best.eyesOpenCount ||
+        (decidedByVotes(candidate, best) && candidate.voteScore > best.voteScore) ||
+        (candidate.eyesOpenCount === best.eyesOpenCount && !decidedByVotes(candidate, best) &&
+          candidate.tieBreaker.total > best.tieBreaker.total)
+      ) {
+        best = candidate;
+      }
+    }
+
+    const bestPhotoId = best ? best.analysis.photoId : null;
+    const selections = new Map<string, BestPhotoSelection>();
+
+    for (const candidate of candidates) {
+      let tier: BestPhotoSelection['tier'];
+
+      if (candidate === best) {
+        // The winner is explained by the step that set it apart from its closest rival
+        const rivals = consensus.filter(c => c !== best);
+        if (candidates.length === 1) tier = 'only-candidate';
+        else if (rivals.length === 0) tier = 'people-count';
+        else if (rivals.some(c => decidedByVotes(c, best!))) tier = 'votes';
+        else if (rivals.some(c => c.eyesOpenCount === best!.eyesOpenCount)) tier = 'tie-breaker';
+        else tier = 'eyes-open';
+      } else if (candidate.peopleCount < minPeopleCount) {
+        tier = 'people-count';
+      } else if (candidate.eyesOpenCount < best!.eyesOpenCount) {
+        tier = 'eyes-open';
+      } else if (decidedByVotes(candidate, best!)) {
+        tier = 'votes';
+      } else {
+        tier = 'tie-breaker';
+      }
+
+      selections.set(candidate.analysis.photoId, {
+        isBest: candidate === best,
+        tier,
+        peopleCount: candidate.peopleCount,
+        maxPeopleCount,
+        minPeopleCount: Math.max(0, minPeopleCount),
+        eyesOpenCount: candidate.eyesOpenCount,
+        tieBreaker: candidate.tieBreaker,
+        ...(voteScores?.has(candidate.analysis.photoId) ? { voteScore: candidate.voteScore } : {}),
+        bestPhotoId,
+      });
+    }
+
+    return { bestPhotoId, selections };
+  }
+
   /**
    * Get cached analysis for a photo if available
    */
@@ -812,7 +1083,7 @@ export class PhotoAnalysisService {
         
         try {
           // For grouping, we can use a faster analysis mode
-          const analysis = await this.analyzePhoto(photo.fileUrl, photo.id);
+          const analysis = await this.analyzeAndRecordPhoto(photo);
           
           // Cache the analysis (non-blocking)
           storage.updatePhoto(photo.id, {
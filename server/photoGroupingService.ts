@@ -1,7 +1,11 @@
 // Photo Grouping Service - AI-powered photo grouping algorithm
-import type { Photo, PhotoAnalysisResult, FaceAnalysis } from "@shared/schema";
+import type { Photo, PhotoAnalysisResult, FaceAnalysis, GroupingAlgorithm } from "@shared/schema";
 import { logger } from './middleware/logger';
 import { EventEmitter } from 'events';
+import { progressStore, publishProgress, FINISHED_PROGRESS_TTL_MS } from './progressStore';
+import { RunStoppedError, throwIfStopRequested } from './runControl';
+import { perceptualSimilarity } from './perceptualHash';
+import { agglomerativeStrategy, getClusteringStrategy, runClusteringStrategy } from './clusteringStrategies';
 
 // Import dependencies using ES6 imports (matching photoAnalysis.ts pattern)
 // Use createRequire to bridge CommonJS require() in ES modules for graceful error handling
@@ -70,6 +74,7 @@ export interface GroupingFeatures {
   photoId: string;
   // Temporal features
   timestamp: Date;
+  timestampSource: 'capture' | 'upload'; // EXIF capture time, or upload time when the file had none
   timeDelta?: number; // Time difference from previous photo
   
   // Visual features
@@ -78,12 +83,14 @@ export interface GroupingFeatures {
   faceCount: number;
   facePositions: Array<{ x: number; y: number; size: number }>;
   sceneComplexity: number; // Edge density, texture complexity
+  perceptualHash?: string; // dHash from upload; absent for photos uploaded before hashing
   
   // Metadata features
   width: number;
   height: number;
   aspectRatio: number;
   fileSize: number;
+  cameraModel?: string;
   
   // Existing analysis data
   qualityScore: number;
@@ -106,6 +113,8 @@ export interface PhotoCluster {
     commonAspectRatios: number[];
     avgFaceCount: number;
   };
+  algorithm: GroupingAlgorithm; // clustering strategy that produced the cluster
+  algorithmParams: Record<string, number>; // options that strategy ran with
 }
 
 export interface GroupingProgress {
@@ -126,6 +135,10 @@ export interface GroupingOptions {
   temporalWeight?: number; // Default: 0.4
   visualWeight?: number; // Default: 0.4
   metadataWeight?: number; // Default: 0.2
+  perceptualHashWeight?: number; // Share of visual similarity taken from perceptual hashes when both photos have one. Default: 0.3
+  timeGapSeconds?: number; // time_gap: a longer pause between shots starts a new group. Default: 120
+  dbscanMinSimilarity?: number; // dbscan: similarity at which two photos are neighbours. Default: 0.6
+  dbscanMinPoints?: number; // dbscan: photos (itself included) a photo's neighbourhood needs to seed a group. Default: 2
   batchSize?: number; // Default: 10
 }
 
@@ -138,6 +151,10 @@ export class PhotoGroupingService {
     temporalWeight: 0.9,        // ALMOST ENTIRELY temporal (90% weight!)
     visualWeight: 0.08,         // Tiny visual weight
     metadataWeight: 0.02,       // Tiny metadata weight
+    perceptualHashWeight: 0.3,
+    timeGapSeconds: 120,
+    dbscanMinSimilarity: 0.6,
+    dbscanMinPoints: 2,
     batchSize: 10,
   };
 
@@ -171,11 +188,20 @@ export class PhotoGroupingService {
     };
   }
 
+  /**
+   * Get current grouping progress for a session (for polling)
+   */
+  async getProgress(sessionId: string): Promise<GroupingProgress | null> {
+    return progressStore.get<GroupingProgress>(`grouping:${sessionId}`);
+  }
+
   /**
    * Emit progress update for a session
    */
   private emitProgress(progress: GroupingProgress): void {
     const eventName = `grouping_progress:${progress.sessionId}`;
+    const finished = progress.status === 'complete' || progress.status === 'error';
+    publishProgress(`grouping:${progress.sessionId}`, progress, finished ? FINISHED_PROGRESS_TTL_MS : undefined);
     this.progressEmitter.emit(eventName, progress);
   }
 
@@ -216,7 +242,7 @@ export class PhotoGroupingService {
       
       const features: GroupingFeatures = {
         photoId: photo.id,
-        timestamp: photo.createdAt || new Date(),
+        ...this.getPhotoTimestamp(photo),
         
         // Visual features
         colorHistogram,
@@ -224,12 +250,14 @@ export class PhotoGroupingService {
         faceCount: facePositions.length,
         facePositions,
         sceneComplexity,
+        perceptualHash: photo.perceptualHash ?? undefined,
         
         // Metadata features
         width: photo.width || image.width,
         height: photo.height || image.height,
         aspectRatio: (photo.width || image.width) / (photo.height || image.height),
         fileSize: photo.fileSize || 0,
+        cameraModel: this.getCameraKey(photo),
         
         // Existing analysis data
         qualityScore: parseFloat(photo.qualityScore || '0'),
@@ -250,6 +278,24 @@ export class PhotoGroupingService {
     }
   }
 
+  /**
+   * When the photo was taken: EXIF capture time if known, otherwise upload time
+   */
+  private getPhotoTimestamp(photo: Photo): Pick<GroupingFeatures, 'timestamp' | 'timestampSource'> {
+    if (photo.capturedAt) {
+      return { timestamp: photo.capturedAt, timestampSource: 'capture' };
+    }
+    return { timestamp: photo.createdAt || new Date(), timestampSource: 'upload' };
+  }
+
+  /**
+   * Camera identity from EXIF make and model, used to keep different shooters apart
+   */
+  private getCameraKey(photo: Photo): string | undefined {
+    if (!photo.cameraMake && !photo.cameraModel) return undefined;
+    return `${photo.cameraMake || ''} ${photo.cameraModel || ''}`.trim().toLowerCase();
+  }
+
   /**
    * Extract basic features when advanced dependencies are not available
    */
@@ -265,7 +311,7 @@ export class PhotoGroupingService {
     
     return {
       photoId: photo.id,
-      timestamp: photo.createdAt || new Date(),
+      ...this.getPhotoTimestamp(photo),
       
       // Visual features (fallback values)
       colorHistogram: new Array(64).fill(0),
@@ -273,12 +319,14 @@ export class PhotoGroupingService {
       faceCount: facePositions.length,
       facePositions,
       sceneComplexity: 0.5,
+      perceptualHash: photo.perceptualHash ?? undefined,
       
       // Metadata features
       width: photo.width || 1920,
       height: photo.height || 1080,
       aspectRatio: photo.width && photo.height ? photo.width / photo.height : 16/9,
       fileSize: photo.fileSize || 0,
+      cameraModel: this.getCameraKey(photo),
       
       // Existing analysis data
       qualityScore: parseFloat(photo.qualityScore || '0'),
@@ -450,12 +498,17 @@ export class PhotoGroupingService {
     // Temporal similarity (photos taken close together are more similar)
     const timeDiff = Math.abs(features1.timestamp.getTime() - features2.timestamp.getTime());
     const timeDiffSeconds = timeDiff / 1000;
+
+    // A capture time and an upload time can't be compared, so that pair gets a neutral score and no burst boost
+    const timesComparable = features1.timestampSource === features2.timestampSource;
     
     // EXTREMELY LENIENT: photos within 10 minutes get high temporal similarity
-    const temporalSimilarity = Math.exp(-timeDiff / (600 * 1000)); // 600 second decay (10 minutes!)
+    const temporalSimilarity = timesComparable
+      ? Math.exp(-timeDiff / (600 * 1000)) // 600 second decay (10 minutes!)
+      : 0.5;
     
     // Burst photo boost: if photos taken within 5 minutes, boost similarity MASSIVELY
-    const isBurst = timeDiff < 300000; // 5 minutes (was 2 minutes)
+    const isBurst = timesComparable && timeDiff < 300000; // 5 minutes (was 2 minutes)
     const burstBoost = isBurst ? 0.50 : 0; // Add 50% similarity boost! (was 40%)
     
     // Log similarity calculation for first few pairs
@@ -464,6 +517,7 @@ export class PhotoGroupingService {
         timeDiffSeconds: timeDiffSeconds.toFixed(1),
         temporalSimilarity: temporalSimilarity.toFixed(3),
         isBurst,
+        timestampSources: `${features1.timestampSource}/${features2.timestampSource}`,
         burstBoost: burstBoost.toFixed(2),
         temporalWeight: options.temporalWeight
       });
@@ -478,13 +532,20 @@ export class PhotoGroupingService {
     const faceCountSimilarity = 1 - Math.abs(features1.faceCount - features2.faceCount) / Math.max(features1.faceCount, features2.faceCount, 1);
     const facePositionSimilarity = this.calculateFacePositionSimilarity(features1.facePositions, features2.facePositions);
     
-    const visualSimilarity = (
+    const featureSimilarity = (
       colorSimilarity * 0.4 +
       compositionSimilarity * 0.2 +
       sceneSimilarity * 0.2 +
       faceCountSimilarity * 0.1 +
       facePositionSimilarity * 0.1
     );
+
+    // Perceptual hashes survive resizing and re-encoding, and work even when the basic fallback
+    // features are all placeholders
+    const visualSimilarity = features1.perceptualHash && features2.perceptualHash
+      ? featureSimilarity * (1 - options.perceptualHashWeight) +
+        perceptualSimilarity(features1.perceptualHash, features2.perceptualHash) * options.perceptualHashWeight
+      : featureSimilarity;
     
     // Metadata similarity
     const aspectRatioSimilarity = 1 - Math.abs(features1.aspectRatio - features2.aspectRatio);
@@ -493,7 +554,10 @@ export class PhotoGroupingService {
       features2.width, features2.height
     );
     
-    const metadataSimilarity = (aspectRatioSimilarity + dimensionSimilarity) / 2;
+    // Same camera only counts when both photos carry EXIF make/model
+    const metadataSimilarity = features1.cameraModel && features2.cameraModel
+      ? (aspectRatioSimilarity + dimensionSimilarity + (features1.cameraModel === features2.cameraModel ? 1 : 0)) / 3
+      : (aspectRatioSimilarity + dimensionSimilarity) / 2;
     
     // Weighted combination with burst boost
     const overallSimilarity = (
@@ -644,138 +708,11 @@ export class PhotoGroupingService {
    * Perform hierarchical agglomerative clustering
    */
   hierarchicalClustering(similarityMatrix: SimilarityMatrix, options: Required<GroupingOptions>): PhotoCluster[] {
-    const n = similarityMatrix.photoIds.length;
-    const matrix = similarityMatrix.matrix.map(row => [...row]); // Deep copy
-    
-    // Initialize each photo as its own cluster
-    let clusters: number[][] = Array(n).fill(null).map((_, i) => [i]);
-    
-    logger.info(`Starting hierarchical clustering`, {
-      totalPhotos: n,
-      initialClusters: clusters.length,
-      threshold: options.similarityThreshold
-    });
-    
-    let iterationCount = 0;
-    while (clusters.length > 1) {
-      // Find most similar cluster pair
-      let maxSimilarity = -1;
-      let bestPair: [number, number] = [0, 0];
-      
-      for (let i = 0; i < clusters.length; i++) {
-        for (let j = i + 1; j < clusters.length; j++) {
-          // Calculate average linkage between clusters
-          let totalSimilarity = 0;
-          let comparisons = 0;
-          
-          for (const idx1 of clusters[i]) {
-            for (const idx2 of clusters[j]) {
-              totalSimilarity += matrix[idx1][idx2];
-              comparisons++;
-            }
-          }
-          
-          const avgSimilarity = comparisons > 0 ? totalSimilarity / comparisons : 0;
-          
-          if (avgSimilarity > maxSimilarity) {
-            maxSimilarity = avgSimilarity;
-            bestPair = [i, j];
-          }
-        }
-      }
-      
-      // Log ALL iterations for debugging (not just first 10)
-      logger.info(`Clustering iteration ${iterationCount}`, {
-        clustersRemaining: clusters.length,
-        maxSimilarity: maxSimilarity.toFixed(3),
-        threshold: options.similarityThreshold,
-        willMerge: maxSimilarity >= options.similarityThreshold,
-        clusterSizes: clusters.map(c => c.length),
-        bestPairIndices: bestPair,
-        bestPairSizes: [clusters[bestPair[0]].length, clusters[bestPair[1]].length]
-      });
-      iterationCount++;
-      
-      // Stop if similarity below threshold
-      if (maxSimilarity < options.similarityThreshold) {
-        logger.warn(`⚠️ Clustering stopped: max similarity ${maxSimilarity.toFixed(3)} below threshold ${options.similarityThreshold}`, {
-          finalClusterCount: clusters.length,
-          iterations: iterationCount,
-          finalClusterSizes: clusters.map(c => c.length),
-          suggestion: 'Consider lowering similarityThreshold or increasing temporal weight'
-        });
-        break;
-      }
-      
-      // Merge the two most similar clusters
-      const [i, j] = bestPair;
-      const mergedCluster = [...clusters[i], ...clusters[j]];
-      
-      // Remove old clusters and add merged one
-      clusters = clusters.filter((_, idx) => idx !== i && idx !== j);
-      clusters.push(mergedCluster);
-      
-      // Stop if cluster would be too large
-      if (mergedCluster.length > options.maxGroupSize) break;
-    }
-    
-    // Convert to PhotoCluster objects
-    const photoClusters: PhotoCluster[] = [];
-    
-    logger.info(`Converting ${clusters.length} clusters to PhotoCluster objects`, {
-      clusterSizes: clusters.map(c => c.length),
-      minGroupSize: options.minGroupSize,
-      willKeepAllClusters: options.minGroupSize <= 1
-    });
-    
-    for (let i = 0; i < clusters.length; i++) {
-      const cluster = clusters[i];
-      
-      // Skip clusters that are too small (but if minGroupSize is 1, keep everything including singletons)
-      if (cluster.length < options.minGroupSize) {
-        logger.info(`Skipping cluster ${i} (size ${cluster.length} < minGroupSize ${options.minGroupSize})`);
-        continue;
-      }
-      
-      logger.info(`Processing cluster ${i}`, {
-        size: cluster.length,
-        photoIndices: cluster
-      });
-      
-      const photoIds = cluster.map(idx => similarityMatrix.photoIds[idx]);
-      
-      // Calculate cluster statistics
-      let totalSimilarity = 0;
-      let comparisons = 0;
-      
-      for (let j = 0; j < cluster.length; j++) {
-        for (let k = j + 1; k < cluster.length; k++) {
-          totalSimilarity += matrix[cluster[j]][cluster[k]];
-          comparisons++;
-        }
-      }
-      
-      const avgSimilarity = comparisons > 0 ? totalSimilarity / comparisons : 0;
-      
-      photoClusters.push({
-        id: `cluster-${i}`,
-        photoIds,
-        confidence: avgSimilarity,
-        avgSimilarity,
-        timeWindow: { start: new Date(), end: new Date() }, // Will be filled later
-        dominantFeatures: {
-          avgColorHistogram: [],
-          commonAspectRatios: [],
-          avgFaceCount: 0,
-        },
-      });
-    }
-    
-    return photoClusters;
+    return runClusteringStrategy(agglomerativeStrategy, similarityMatrix, [], options);
   }
 
   /**
-   * Group photos in a session using AI clustering
+   * Group photos in a session using AI clustering, with the strategy the session's groupingAlgorithm names
    */
   async groupSessionPhotos(
     sessionId: string,
@@ -812,6 +749,8 @@ export class PhotoGroupingService {
       }
       
       const photos = await storage.getPhotosBySession(sessionId);
+      const session = await storage.getSession(sessionId);
+      const strategy = getClusteringStrategy(session?.groupingAlgorithm);
       
       // Validate parameters
       this.validateGroupingParams(sessionId, photos, opts);
@@ -836,6 +775,9 @@ export class PhotoGroupingService {
       const features: GroupingFeatures[] = [];
       
       for (let i = 0; i < photos.length; i += opts.batchSize) {
+        // Stop between batches if the session's run was paused or cancelled
+        await throwIfStopRequested(sessionId);
+
         const batch = photos.slice(i, i + opts.batchSize);
         
         // Update progress
@@ -851,20 +793,7 @@ export class PhotoGroupingService {
         
         // Process batch
         const batchPromises = batch.map(async (photo) => {
-          let analysisData: PhotoAnalysisResult | undefined;
-          
-          try {
-            // Try to parse existing analysis data
-            if (photo.analysisData) {
-              analysisData = typeof photo.analysisData === 'string' 
-                ? JSON.parse(photo.analysisData) 
-                : photo.analysisData as PhotoAnalysisResult;
-            }
-          } catch (error) {
-            logger.warn(`Failed to parse analysis data for photo ${photo.id}`, error as Error);
-          }
-          
-          return this.extractFeatures(photo, analysisData);
+          return this.extractFeatures(photo, this.parseAnalysisData(photo));
         });
         
         const batchFeatures = await Promise.all(batchPromises);
@@ -910,8 +839,7 @@ export class PhotoGroupingService {
         message: 'Clustering similar photos...',
       });
       
-      // Perform hierarchical clustering
-      const clusters = this.hierarchicalClustering(similarityMatrix, opts);
+      const clusters = runClusteringStrategy(strategy, similarityMatrix, features, opts);
       
       // Emit creating groups progress
       this.emitProgress({
@@ -939,6 +867,7 @@ export class PhotoGroupingService {
       });
       
       logger.info(`Photo grouping completed for session ${sessionId}`, {
+        algorithm: strategy.algorithm,
         totalPhotos: photos.length,
         groupsFound: enhancedClusters.length,
         avgGroupSize: enhancedClusters.length > 0 
@@ -949,6 +878,9 @@ export class PhotoGroupingService {
       return enhancedClusters;
       
     } catch (error) {
+      // A requested pause or cancel isn't a failure and mustn't be retried
+      if (error instanceof RunStoppedError) throw error;
+
       logger.error(`Photo grouping failed for session ${sessionId}`, {
         error: error instanceof Error ? error.message : 'Unknown error',
         stack: error instanceof Error ? error.stack : undefined,
@@ -989,6 +921,50 @@ export class PhotoGroupingService {
     }
   }
 
+  /**
+   * Features and similarity matrix for a small set of photos, e.g. the members of a group being edited
+   */
+  async buildPhotoSetMatrix(photos: Photo[], options: GroupingOptions = {}): Promise<{
+    features: GroupingFeatures[];
+    similarityMatrix: SimilarityMatrix;
+    options: Required<GroupingOptions>;
+  }> {
+    const opts = { ...this.DEFAULT_OPTIONS, ...options };
+    const features: GroupingFeatures[] = [];
+
+    for (let i = 0; i < photos.length; i += opts.batchSize) {
+      const batch = photos.slice(i, i + opts.batchSize);
+      features.push(...await Promise.all(
+        batch.map(photo => this.extractFeatures(photo, this.parseAnalysisData(photo)))
+      ));
+      await this.monitorMemoryUsage();
+    }
+
+    features.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    for (let i = 1; i < features.length; i++) {
+      features[i].timeDelta = features[i].timestamp.getTime() - features[i - 1].timestamp.getTime();
+    }
+
+    const similarityMatrix = await this.buildSimilarityMatrix(features, opts);
+    return { features, similarityMatrix, options: opts };
+  }
+
+  /**
+   * Parse stored analysis data, which older rows kept as a JSON string
+   */
+  private parseAnalysisData(photo: Photo): PhotoAnalysisResult | undefined {
+    try {
+      if (photo.analysisData) {
+        return typeof photo.analysisData === 'string'
+          ? JSON.parse(photo.analysisData)
+          : photo.analysisData as PhotoAnalysisResult;
+      }
+    } catch (error) {
+      logger.warn(`Failed to parse analysis data for photo ${photo.id}`, error as Error);
+    }
+    return undefined;
+  }
+
   /**
    * Enhance clusters with additional information like time windows and dominant features
    */
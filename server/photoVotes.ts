@@ -0,0 +1,157 @@
+// Photo votes - likes, rejects and star ratings from the people reviewing a session
+// Collaborators vote as themselves. Share-link viewers vote anonymously under an id their
+// browser keeps, scoped to the link. Votes are totalled per photo and per group, and break ties
+// in best-photo selection that smiles and face quality leave open.
+import type { Photo, PhotoVote, PhotoVoteReaction, ShareLink } from "@shared/schema";
+import { storage } from './storage';
+import { logger } from './middleware/logger';
+
+// Stars at or above this count in a photo's favour, below it against
+const NEUTRAL_RATING = 3;
+
+export interface PhotoVoter {
+  key: string;
+  userId: string | null;
+  shareLinkId: string | null;
+}
+
+export interface PhotoVoteInput {
+  reaction?: PhotoVoteReaction | null; // null clears it, undefined leaves it as it was
+  rating?: number | null;
+}
+
+export interface PhotoVoteSummary {
+  likes: number;
+  rejects: number;
+  ratingCount: number;
+  averageRating: number | null;
+  score: number; // net votes: see voteScore
+}
+
+export interface GroupVoteSummary extends PhotoVoteSummary {
+  topPhotoId: string | null; // member with the highest positive score
+}
+
+export type OwnPhotoVote = Pick<PhotoVote, 'reaction' | 'rating'>;
+
+export function userVoter(userId: string): PhotoVoter {
+  return { key: `user:${userId}`, userId, shareLinkId: null };
+}
+
+export function shareLinkVoter(link: ShareLink, viewerId: string): PhotoVoter {
+  return { key: `share:${link.id}:${viewerId}`, userId: null, shareLinkId: link.id };
+}
+
+/**
+ * Net votes: +1 per like, -1 per reject, and each rating moves it by up to one either way
+ * (5 stars +1, 3 stars 0, 1 star -1)
+ */
+export function voteScore(likes: number, rejects: number, ratings: number[]): number {
+  const ratingScore = ratings.reduce((sum, rating) => sum + (rating - NEUTRAL_RATING) / (NEUTRAL_RATING - 1), 0);
+  return likes - rejects + ratingScore;
+}
+
+function summarize(votes: PhotoVote[]): PhotoVoteSummary {
+  const likes = votes.filter(v => v.reaction === 'like').length;
+  const rejects = votes.filter(v => v.reaction === 'reject').length;
+  const ratings = votes.map(v => v.rating).filter((r): r is number => r !== null);
+
+  return {
+    likes,
+    rejects,
+    ratingCount: ratings.length,
+    averageRating: ratings.length > 0 ? ratings.reduce((sum, r) => sum + r, 0) / ratings.length : null,
+    score: voteScore(likes, rejects, ratings),
+  };
+}
+
+/**
+ * Vote summaries keyed by photo id; photos nobody voted on are left out
+ */
+export function summarizePhotoVotes(votes: PhotoVote[]): Map<string, PhotoVoteSummary> {
+  const byPhoto = new Map<string, PhotoVote[]>();
+  for (const vote of votes) {
+    byPhoto.set(vote.photoId, [...(byPhoto.get(vote.photoId) ?? []), vote]);
+  }
+  return new Map(Array.from(byPhoto, ([photoId, photoVotes]) => [photoId, summarize(photoVotes)]));
+}
+
+/**
+ * Net vote score of each photo that has votes, for best-photo selection
+ */
+export async function getVoteScores(photoIds: string[]): Promise<Map<string, number>> {
+  const summaries = summarizePhotoVotes(await storage.getVotesByPhotos(photoIds));
+  return new Map(Array.from(summaries, ([photoId, summary]) => [photoId, summary.score]));
+}
+
+/**
+ * Record a voter's reaction and/or rating on a photo. Returns null once both are cleared.
+ */
+export async function castPhotoVote(photo: Photo, voter: PhotoVoter, input: PhotoVoteInput): Promise<OwnPhotoVote | null> {
+  const existing = await storage.getPhotoVote(photo.id, voter.key);
+  const reaction = input.reaction !== undefined ? input.reaction : (existing?.reaction as PhotoVoteReaction | null) ?? null;
+  const rating = input.rating !== undefined ? input.rating : existing?.rating ?? null;
+
+  if (reaction === null && rating === null) {
+    if (existing) await storage.deletePhotoVote(photo.id, voter.key);
+    return null;
+  }
+
+  const vote = await storage.upsertPhotoVote({
+    photoId: photo.id,
+    sessionId: photo.sessionId,
+    voterKey: voter.key,
+    userId: voter.userId,
+    shareLinkId: voter.shareLinkId,
+    reaction,
+    rating,
+  });
+
+  logger.info('Photo vote recorded', { photoId: photo.id, sessionId: photo.sessionId, reaction, rating, anonymous: !voter.userId });
+  return { reaction: vote.reaction, rating: vote.rating };
+}
+
+/**
+ * A voter's own votes on the given photos, keyed by photo id
+ */
+export async function getOwnVotes(photoIds: string[], voter: PhotoVoter): Promise<Record<string, OwnPhotoVote>> {
+  const votes = await storage.getVotesByPhotos(photoIds);
+  return Object.fromEntries(
+    votes
+      .filter(v => v.voterKey === voter.key)
+      .map(v => [v.photoId, { reaction: v.reaction, rating: v.rating }])
+  );
+}
+
+/**
+ * Votes across a session: per photo, per group (excluded members don't count) and the voter's own
+ */
+export async function getSessionVotes(sessionId: string, voter: PhotoVoter) {
+  const votes = await storage.getVotesBySession(sessionId);
+  const photoSummaries = summarizePhotoVotes(votes);
+
+  const groups: Record<string, GroupVoteSummary> = {};
+  for (const group of await storage.getGroupsBySession(sessionId)) {
+    const memberIds = new Set(
+      (await storage.getMembershipsByGroup(group.id)).filter(m => !m.isExcluded).map(m => m.photoId)
+    );
+    const top = Array.from(photoSummaries)
+      .filter(([photoId, summary]) => memberIds.has(photoId) && summary.score > 0)
+      .sort(([, a], [, b]) => b.score - a.score)[0];
+
+    groups[group.id] = {
+      ...summarize(votes.filter(v => memberIds.has(v.photoId))),
+      topPhotoId: top ? top[0] : null,
+    };
+  }
+
+  return {
+    photos: Object.fromEntries(photoSummaries),
+    groups,
+    myVotes: Object.fromEntries(
+      votes
+        .filter(v => v.voterKey === voter.key)
+        .map(v => [v.photoId, { reaction: v.reaction, rating: v.rating }])
+    ) as Record<string, OwnPhotoVote>,
+  };
+}
@@ -0,0 +1,171 @@
+// Shared progress store - progress snapshots readable from any process or replica
+import { progressEntries } from "@shared/schema";
+import { db } from "./db";
+import { eq, and, gt, lte } from "drizzle-orm";
+import { logger } from "./middleware/logger";
+
+// Entries for work that is still running expire if nothing refreshes them (e.g. the worker died)
+export const ACTIVE_PROGRESS_TTL_MS = 60 * 60 * 1000;
+// Finished entries only need to outlive the client's last few polls
+export const FINISHED_PROGRESS_TTL_MS = 10 * 60 * 1000;
+
+const PURGE_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface ProgressStore {
+  /** Store a snapshot under key, replacing any previous one, expiring after ttlMs */
+  set(key: string, value: unknown, ttlMs?: number): Promise<void>;
+  /** Latest unexpired snapshot, or null */
+  get<T>(key: string): Promise<T | null>;
+  /** Reset the expiry of an existing snapshot */
+  expire(key: string, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * In-memory backend for tests and single-process development
+ */
+export class MemoryProgressStore implements ProgressStore {
+  private entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  async set(key: string, value: unknown, ttlMs = ACTIVE_PROGRESS_TTL_MS): Promise<void> {
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value as T;
+  }
+
+  async expire(key: string, ttlMs: number): Promise<void> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      entry.expiresAt = Date.now() + ttlMs;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Postgres backend (default) - shared by every instance, survives restarts
+ */
+export class PostgresProgressStore implements ProgressStore {
+  // Writes to the same key are chained so a slow upsert can't overwrite a newer snapshot
+  private pendingWrites = new Map<string, Promise<void>>();
+  private purgeTimer: NodeJS.Timeout;
+
+  constructor() {
+    this.purgeTimer = setInterval(() => {
+      this.purgeExpired().catch((error) => {
+        logger.warn('Failed to purge expired progress entries', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      });
+    }, PURGE_INTERVAL_MS);
+    this.purgeTimer.unref();
+  }
+
+  set(key: string, value: unknown, ttlMs = ACTIVE_PROGRESS_TTL_MS): Promise<void> {
+    return this.enqueueWrite(key, async () => {
+      const now = new Date();
+      const expiresAt = new Date(now.getTime() + ttlMs);
+
+      await db
+        .insert(progressEntries)
+        .values({ key, data: value, expiresAt, updatedAt: now })
+        .onConflictDoUpdate({
+          target: progressEntries.key,
+          set: { data: value, expiresAt, updatedAt: now },
+        });
+    });
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    await this.pendingWrites.get(key);
+
+    const [entry] = await db
+      .select()
+      .from(progressEntries)
+      .where(and(eq(progressEntries.key, key), gt(progressEntries.expiresAt, new Date())));
+
+    return entry ? entry.data as T : null;
+  }
+
+  expire(key: string, ttlMs: number): Promise<void> {
+    return this.enqueueWrite(key, async () => {
+      await db
+        .update(progressEntries)
+        .set({ expiresAt: new Date(Date.now() + ttlMs) })
+        .where(eq(progressEntries.key, key));
+    });
+  }
+
+  delete(key: string): Promise<void> {
+    return this.enqueueWrite(key, async () => {
+      await db.delete(progressEntries).where(eq(progressEntries.key, key));
+    });
+  }
+
+  /**
+   * Remove expired rows. Reads already ignore them; this just keeps the table small.
+   */
+  async purgeExpired(): Promise<number> {
+    const purged = await db
+      .delete(progressEntries)
+      .where(lte(progressEntries.expiresAt, new Date()))
+      .returning({ key: progressEntries.key });
+    return purged.length;
+  }
+
+  private enqueueWrite(key: string, write: () => Promise<void>): Promise<void> {
+    const previous = this.pendingWrites.get(key) || Promise.resolve();
+    const next = previous.catch(() => {}).then(write);
+    this.pendingWrites.set(key, next);
+
+    next.catch(() => {}).finally(() => {
+      if (this.pendingWrites.get(key) === next) {
+        this.pendingWrites.delete(key);
+      }
+    });
+    return next;
+  }
+}
+
+/**
+ * Pick the backend from PROGRESS_STORE ("postgres" or "memory").
+ * Defaults to Postgres, or memory under NODE_ENV=test.
+ */
+export function createProgressStore(): ProgressStore {
+  const backend = process.env.PROGRESS_STORE || (process.env.NODE_ENV === 'test' ? 'memory' : 'postgres');
+
+  if (backend === 'memory') {
+    return new MemoryProgressStore();
+  }
+  if (backend !== 'postgres') {
+    logger.warn(`Unknown PROGRESS_STORE "${backend}", using postgres`);
+  }
+  return new PostgresProgressStore();
+}
+
+export const progressStore = createProgressStore();
+
+/**
+ * Write a snapshot without making the caller wait; failures are logged, not thrown.
+ * Progress is advisory, so a failed write must never fail the work it describes.
+ */
+export function publishProgress(key: string, value: unknown, ttlMs?: number): void {
+  progressStore.set(key, value, ttlMs).catch((error) => {
+    logger.warn('Failed to persist progress', {
+      key,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  });
+}
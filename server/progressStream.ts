@@ -0,0 +1,112 @@
+// Progress streams - Server-Sent Events over progress snapshots
+// Work may run in another process, so streams poll the shared store rather than listen to an
+// in-memory emitter. Each event's id is derived from its snapshot: a client reconnecting with
+// Last-Event-ID isn't sent the snapshot it already has, and a client that already received
+// the final snapshot gets 204, which tells EventSource to stop reconnecting.
+import type { Request, Response } from "express";
+import * as crypto from 'node:crypto';
+import { logger } from './middleware/logger';
+
+const POLL_INTERVAL_MS = 1000;
+// Comfortably inside common proxy idle timeouts
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+const RECONNECT_DELAY_MS = 3000;
+
+export interface ProgressStreamOptions<T> {
+  /** Latest snapshot, or null while there's nothing to report yet */
+  read: () => Promise<T | null>;
+  /** Whether a snapshot is final; the stream ends after sending it */
+  isFinished: (snapshot: T) => boolean;
+  /** Logged with failed reads */
+  logContext: Record<string, unknown>;
+}
+
+function eventId(payload: string): string {
+  return crypto.createHash('sha1').update(payload).digest('hex').slice(0, 16);
+}
+
+/**
+ * The id of the last event the client saw: the Last-Event-ID header EventSource sends when it
+ * reconnects by itself, or ?lastEventId= when the client reconnects with a new ticket
+ */
+function lastEventIdOf(req: Request): string | undefined {
+  const header = req.headers['last-event-id'];
+  if (typeof header === 'string' && header) return header;
+  return typeof req.query.lastEventId === 'string' ? req.query.lastEventId : undefined;
+}
+
+/**
+ * Stream progress snapshots as they change, with heartbeat events while nothing does
+ */
+export async function streamProgress<T>(req: Request, res: Response, options: ProgressStreamOptions<T>): Promise<void> {
+  const { read, isFinished, logContext } = options;
+  let lastSentId = lastEventIdOf(req);
+
+  const initial = await read();
+  if (initial && isFinished(initial) && eventId(JSON.stringify(initial)) === lastSentId) {
+    res.status(204).end();
+    return;
+  }
+
+  // Set up SSE headers
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
+  res.flushHeaders();
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+  let closed = false;
+  let reading = false;
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(pollTimer);
+    clearInterval(heartbeatTimer);
+    res.end();
+  };
+
+  const send = (snapshot: T | null) => {
+    if (!snapshot || closed) return;
+
+    const payload = JSON.stringify(snapshot);
+    const id = eventId(payload);
+    if (id === lastSentId) return;
+    lastSentId = id;
+
+    res.write(`id: ${id}\ndata: ${payload}\n\n`);
+
+    if (isFinished(snapshot)) {
+      close();
+    }
+  };
+
+  const poll = async () => {
+    // Skip a tick rather than pile up reads when the store is slow
+    if (reading || closed) return;
+    reading = true;
+    try {
+      send(await read());
+    } catch (error) {
+      logger.warn('Progress stream update failed', {
+        ...logContext,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      reading = false;
+    }
+  };
+
+  const pollTimer = setInterval(poll, POLL_INTERVAL_MS);
+  const heartbeatTimer = setInterval(() => {
+    if (!closed) {
+      res.write(`event: heartbeat\ndata: ${Date.now()}\n\n`);
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  // Clean up on client disconnect
+  req.on('close', close);
+
+  send(initial);
+}
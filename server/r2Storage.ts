@@ -1,13 +1,17 @@
 // Cloudflare R2 / S3-compatible object storage service
-import { S3Client, PutObjectCommand, GetObjectCommand, HeadObjectCommand, DeleteObjectCommand } from "@aws-sdk/client-s3";
+import { S3Client, PutObjectCommand, GetObjectCommand, HeadObjectCommand, DeleteObjectCommand, CopyObjectCommand } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import { Response } from "express";
 import { randomUUID } from "crypto";
 import {
   ObjectAclPolicy,
   ObjectPermission,
+  isAllowedByAclPolicy,
 } from "./objectAcl";
 
+// Object metadata key an object's ACL policy is stored under, as JSON
+export const ACL_POLICY_OBJECT_METADATA_KEY = "acl-policy";
+
 export class ObjectNotFoundError extends Error {
   constructor() {
     super("Object not found");
@@ -16,6 +20,14 @@ export class ObjectNotFoundError extends Error {
   }
 }
 
+export class ObjectAccessDeniedError extends Error {
+  constructor() {
+    super("Access to object denied");
+    this.name = "ObjectAccessDeniedError";
+    Object.setPrototypeOf(this, ObjectAccessDeniedError.prototype);
+  }
+}
+
 // Initialize S3 client for R2
 function getS3Client(): S3Client {
   const endpoint = process.env.R2_ENDPOINT;
@@ -56,20 +68,67 @@ export class R2StorageService {
 
   /**
    * Upload a file directly to R2 (bypasses CORS issues)
+   * Metadata values must be ASCII; they come back from getObjectMetadata.
+   * The ACL policy, when given, is stored with the object for canAccessObject.
    */
-  async uploadFile(fileBuffer: Buffer, contentType: string): Promise<{ objectKey: string }> {
+  async uploadFile(
+    fileBuffer: Buffer,
+    contentType: string,
+    metadata?: Record<string, string>,
+    aclPolicy?: ObjectAclPolicy
+  ): Promise<{ objectKey: string }> {
     const objectKey = `uploads/${randomUUID()}`;
+    await this.putObject(objectKey, fileBuffer, contentType, metadata, aclPolicy);
+    return { objectKey };
+  }
 
+  /**
+   * Write an object at a known key (e.g. a rendition next to its original)
+   */
+  async putObject(
+    objectKey: string,
+    body: Buffer,
+    contentType: string,
+    metadata?: Record<string, string>,
+    aclPolicy?: ObjectAclPolicy
+  ): Promise<void> {
     const command = new PutObjectCommand({
       Bucket: this.bucketName,
       Key: objectKey,
-      Body: fileBuffer,
+      Body: body,
       ContentType: contentType,
+      Metadata: aclPolicy
+        ? { ...metadata, [ACL_POLICY_OBJECT_METADATA_KEY]: JSON.stringify(aclPolicy) }
+        : metadata,
     });
 
     await this.s3Client.send(command);
+  }
 
-    return { objectKey };
+  /**
+   * Download an object into memory
+   */
+  async getObject(objectKey: string): Promise<{ buffer: Buffer; contentType?: string }> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucketName,
+      Key: objectKey,
+    });
+
+    try {
+      const response = await this.s3Client.send(command);
+
+      const chunks: Uint8Array[] = [];
+      for await (const chunk of response.Body as AsyncIterable<Uint8Array>) {
+        chunks.push(chunk);
+      }
+
+      return { buffer: Buffer.concat(chunks), contentType: response.ContentType };
+    } catch (error: any) {
+      if (error.name === "NoSuchKey" || error.$metadata?.httpStatusCode === 404) {
+        throw new ObjectNotFoundError();
+      }
+      throw error;
+    }
   }
 
   /**
@@ -94,11 +153,15 @@ export class R2StorageService {
 
   /**
    * Generate a presigned URL for downloading a file
+   * With a filename, browsers save the file under that name instead of displaying it.
    */
-  async getDownloadURL(objectKey: string, expiresIn: number = 3600): Promise<string> {
+  async getDownloadURL(objectKey: string, expiresIn: number = 3600, downloadFilename?: string): Promise<string> {
     const command = new GetObjectCommand({
       Bucket: this.bucketName,
       Key: objectKey,
+      ResponseContentDisposition: downloadFilename
+        ? `attachment; filename="${downloadFilename.replace(/[^\x20-\x7e]|["\\]/g, "_")}"; filename*=UTF-8''${encodeURIComponent(downloadFilename).replace(/'/g, "%27")}`
+        : undefined,
     });
 
     return await getSignedUrl(this.s3Client, command, { expiresIn });
@@ -123,6 +186,25 @@ export class R2StorageService {
     }
   }
 
+  /**
+   * Get the custom metadata stored with an object
+   */
+  async getObjectMetadata(objectKey: string): Promise<Record<string, string>> {
+    try {
+      const command = new HeadObjectCommand({
+        Bucket: this.bucketName,
+        Key: objectKey,
+      });
+      const response = await this.s3Client.send(command);
+      return response.Metadata || {};
+    } catch (error: any) {
+      if (error.name === "NotFound" || error.$metadata?.httpStatusCode === 404) {
+        throw new ObjectNotFoundError();
+      }
+      throw error;
+    }
+  }
+
   /**
    * Delete an object
    */
@@ -200,34 +282,80 @@ export class R2StorageService {
   }
 
   /**
-   * Check if user can access an object
-   * Currently a simple implementation - you can enhance with ACL logic
+   * Get the ACL policy stored with an object, or null if it has none
+   */
+  async getObjectAclPolicy(objectKey: string): Promise<ObjectAclPolicy | null> {
+    const metadata = await this.getObjectMetadata(objectKey);
+    const aclPolicy = metadata[ACL_POLICY_OBJECT_METADATA_KEY];
+    if (!aclPolicy) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(aclPolicy) as ObjectAclPolicy;
+    } catch {
+      console.error(`Ignoring malformed ACL policy on object ${objectKey}`);
+      return null;
+    }
+  }
+
+  /**
+   * Check if user can access an object under its stored ACL policy.
+   * Objects without a policy are denied; see objectOwnership for deriving one.
    */
   async canAccessObject({
     userId,
     objectKey,
-    requestedPermission,
+    requestedPermission = ObjectPermission.READ,
   }: {
     userId?: string;
     objectKey: string;
     requestedPermission?: ObjectPermission;
   }): Promise<boolean> {
-    // For now, allow access if user is authenticated
-    // You can enhance this with proper ACL checks
-    if (!userId) {
-      return false;
+    try {
+      const aclPolicy = await this.getObjectAclPolicy(objectKey);
+      if (!aclPolicy) {
+        return false;
+      }
+      return await isAllowedByAclPolicy(aclPolicy, userId, requestedPermission);
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        return false;
+      }
+      throw error;
     }
-
-    // Check if object exists
-    return await this.objectExists(objectKey);
   }
 
   /**
-   * Set object ACL policy (placeholder for future implementation)
+   * Set object ACL policy
+   * S3 metadata can't be edited in place, so the object is copied onto itself with the
+   * policy added to its existing metadata.
    */
   async setObjectAclPolicy(objectKey: string, aclPolicy: ObjectAclPolicy): Promise<void> {
-    // R2 doesn't support custom metadata for ACL in the same way as Google Cloud
-    // You would need to implement this using object tags or a separate database
-    console.log(`ACL policy setting not yet implemented for R2. Object: ${objectKey}, Policy:`, aclPolicy);
+    let head;
+    try {
+      head = await this.s3Client.send(new HeadObjectCommand({
+        Bucket: this.bucketName,
+        Key: objectKey,
+      }));
+    } catch (error: any) {
+      if (error.name === "NotFound" || error.$metadata?.httpStatusCode === 404) {
+        throw new ObjectNotFoundError();
+      }
+      throw error;
+    }
+
+    const command = new CopyObjectCommand({
+      Bucket: this.bucketName,
+      Key: objectKey,
+      CopySource: encodeURI(`${this.bucketName}/${objectKey}`),
+      ContentType: head.ContentType,
+      Metadata: {
+        ...head.Metadata,
+        [ACL_POLICY_OBJECT_METADATA_KEY]: JSON.stringify(aclPolicy),
+      },
+      MetadataDirective: "REPLACE",
+    });
+    await this.s3Client.send(command);
   }
 }
@@ -0,0 +1,168 @@
+// Photo renditions - downsized thumbnail and preview images stored next to each original
+// Grids load the thumbnail and viewers the preview, so full-size originals are only
+// downloaded for analysis and export.
+import { createCanvas, loadImage, type Image } from 'canvas';
+import type { AnalysisJob, Photo } from "@shared/schema";
+import { R2StorageService } from './r2Storage';
+import type { ObjectAclPolicy } from './objectAcl';
+import { loadImageFromUrl } from './imageLoader';
+import { resolveObjectAclPolicy } from './objectOwnership';
+import { storage } from './storage';
+import type { JobContext } from './jobQueue';
+import { logger } from './middleware/logger';
+
+export type RenditionKind = 'thumbnail' | 'preview';
+
+// Longest edge in pixels; smaller originals are never upscaled
+const RENDITION_SIZES: Record<RenditionKind, number> = {
+  thumbnail: 480,
+  preview: 1600,
+};
+
+// node-canvas can't encode WebP, so renditions are JPEG
+const RENDITION_QUALITY = 0.82;
+const RENDITION_CONTENT_TYPE = 'image/jpeg';
+
+// Object-storage metadata key the upload endpoint sets once renditions are stored
+export const RENDITIONS_OBJECT_METADATA_KEY = 'photo-renditions';
+
+export interface PhotoRenditionUrls {
+  thumbnailUrl: string;
+  previewUrl: string;
+}
+
+export type RenderedRenditions = Record<RenditionKind, Buffer>;
+
+export interface RenditionsJobProgress {
+  processed: number;
+  total: number;
+  failed: number;
+}
+
+/**
+ * Object key of a rendition, derived from the original's key
+ */
+export function renditionObjectKey(objectKey: string, kind: RenditionKind): string {
+  return `${objectKey}-${kind}.jpg`;
+}
+
+/**
+ * /objects/ paths of an original's renditions, in the same form as photos.fileUrl
+ */
+export function renditionUrls(objectKey: string): PhotoRenditionUrls {
+  return {
+    thumbnailUrl: `/objects/${renditionObjectKey(objectKey, 'thumbnail')}`,
+    previewUrl: `/objects/${renditionObjectKey(objectKey, 'preview')}`,
+  };
+}
+
+export function hasRenditions(photo: Photo): boolean {
+  return !!photo.thumbnailUrl && !!photo.previewUrl;
+}
+
+/**
+ * Scale an image so its longest edge fits the rendition size and encode it as JPEG
+ */
+function renderRendition(image: Image, kind: RenditionKind): Buffer {
+  const scale = Math.min(1, RENDITION_SIZES[kind] / Math.max(image.width, image.height));
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  ctx.quality = 'best'; // node-canvas downscaling filter
+  ctx.drawImage(image, 0, 0, width, height);
+
+  return canvas.toBuffer(RENDITION_CONTENT_TYPE, { quality: RENDITION_QUALITY });
+}
+
+/**
+ * Render every rendition of an image already decoded and upright
+ */
+function renderAll(image: Image): RenderedRenditions {
+  return {
+    thumbnail: renderRendition(image, 'thumbnail'),
+    preview: renderRendition(image, 'preview'),
+  };
+}
+
+/**
+ * Render renditions of a freshly uploaded file. The buffer must already be browser-readable
+ * and orientation-normalized, as the upload endpoints store it. Returns null when the image
+ * can't be decoded; never throws, since renditions can be backfilled later.
+ */
+export async function renderRenditions(buffer: Buffer): Promise<RenderedRenditions | null> {
+  try {
+    return renderAll(await loadImage(buffer));
+  } catch (error) {
+    logger.warn('Failed to render photo renditions', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+}
+
+/**
+ * Store rendered renditions next to the original object, under the original's ACL policy
+ */
+export async function uploadRenditions(
+  r2Storage: R2StorageService,
+  objectKey: string,
+  rendered: RenderedRenditions,
+  aclPolicy?: ObjectAclPolicy
+): Promise<PhotoRenditionUrls> {
+  for (const kind of Object.keys(rendered) as RenditionKind[]) {
+    await r2Storage.putObject(renditionObjectKey(objectKey, kind), rendered[kind], RENDITION_CONTENT_TYPE, undefined, aclPolicy);
+  }
+  return renditionUrls(objectKey);
+}
+
+/**
+ * Create renditions for an existing photo from its stored original and record them on the photo
+ */
+export async function generatePhotoRenditions(photo: Photo): Promise<Photo> {
+  const r2Storage = new R2StorageService();
+  const objectKey = r2Storage.getObjectKeyFromPath(photo.fileUrl);
+
+  // The loader converts HEIC and applies EXIF orientation for files stored before uploads did
+  const image = await loadImageFromUrl(photo.fileUrl);
+  const aclPolicy = await resolveObjectAclPolicy(photo.fileUrl, r2Storage);
+  const urls = await uploadRenditions(r2Storage, objectKey, renderAll(image), aclPolicy ?? undefined);
+
+  const updated = await storage.updatePhoto(photo.id, urls);
+  return updated ?? { ...photo, ...urls };
+}
+
+/**
+ * Backfill renditions for every photo in the session that is missing them.
+ * A photo that fails is logged and skipped so one bad file doesn't block the rest.
+ */
+export async function runRenditionsJob(job: AnalysisJob, ctx: JobContext) {
+  const photos = (await storage.getPhotosBySession(job.sessionId)).filter(p => !hasRenditions(p));
+  const progress: RenditionsJobProgress = { processed: 0, total: photos.length, failed: 0 };
+  ctx.updateProgress(progress);
+
+  for (const photo of photos) {
+    try {
+      await generatePhotoRenditions(photo);
+    } catch (error) {
+      progress.failed++;
+      logger.warn('Failed to generate photo renditions', {
+        jobId: job.id,
+        photoId: photo.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    progress.processed++;
+    ctx.updateProgress({ ...progress });
+  }
+
+  logger.info('Photo renditions backfilled', {
+    sessionId: job.sessionId,
+    generated: progress.processed - progress.failed,
+    failed: progress.failed,
+  });
+
+  return { generated: progress.processed - progress.failed, failed: progress.failed };
+}
@@ -1,5 +1,5 @@
 // Reference: blueprint:javascript_log_in_with_replit, blueprint:javascript_object_storage
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
 import heicConvert from 'heic-convert';
@@ -10,13 +10,34 @@ import { setupAuth, isAuthenticated, syncUserToDatabase } from "./kindeAuth";
 import {
   R2StorageService,
   ObjectNotFoundError,
+  ObjectAccessDeniedError,
 } from "./r2Storage";
 import { ObjectPermission } from "./objectAcl";
+import { canUserAccessObject, ownerAclPolicy } from "./objectOwnership";
 import { photoAnalysisService } from "./photoAnalysis";
 import { convertKitService } from "./convertKitService";
 import { convertKitWebhookHandler, parseWebhookBody, isValidWebhookEvent } from "./convertKitWebhooks";
 import { photoGroupingService } from "./photoGroupingService";
-import { insertPhotoSessionSchema, insertPhotoSchema, insertConvertKitSettingsSchema, insertPhotoGroupSchema, insertPhotoGroupMembershipSchema } from "@shared/schema";
+import { bulkSessionService } from "./bulkSessionService";
+import { groupEditService } from "./groupEditService";
+import { compositeService } from "./compositeService";
+import { findScoringProfile, isBuiltInScoringProfile, listScoringProfiles, resolveScoringProfileForSession, DEFAULT_SCORING_PROFILE } from "./scoringProfiles";
+import { normalizeOrientation, fetchImageBuffer, CONTENT_HASH_OBJECT_METADATA_KEY } from "./imageLoader";
+import { PERCEPTUAL_HASH_OBJECT_METADATA_KEY } from "./perceptualHash";
+import { hashPhotoFile, flagIfDuplicate, listDuplicates } from "./duplicateDetection";
+import { extractExifMetadata, encodeExifMetadata, decodeExifMetadata, EXIF_OBJECT_METADATA_KEY, type PhotoExifMetadata } from "./exifMetadata";
+import { renderRenditions, uploadRenditions, renditionUrls, generatePhotoRenditions, hasRenditions, RENDITIONS_OBJECT_METADATA_KEY, type PhotoRenditionUrls } from "./renditions";
+import { identifySessionFaces } from "./faceIdentity";
+import { findMatchingFace, excludedFaceIds } from "./faceRecords";
+import { jobQueue, ANALYSIS_JOB_TYPES, type JobType } from "./jobQueue";
+import { getJobProgress, type AnalyzeJobPayload, type GroupAnalyzeJobPayload } from "./analysisJobs";
+import { issueStreamTicket, isStreamAuthenticated } from "./streamTickets";
+import { streamProgress } from "./progressStream";
+import { createShareLink, getOwnedShareLink, revokeShareLink, openShareLink, openSharedPhoto, toShareLinkSummary, SHARE_PASSWORD_MIN_LENGTH } from "./shareLinks";
+import { castPhotoVote, getSessionVotes, getVoteScores, shareLinkVoter, userVoter } from "./photoVotes";
+import { streamSessionExport, EXPORT_SCOPES, EXPORT_LAYOUTS, EXPORT_MANIFESTS } from "./sessionExport";
+import { authorizeSession, authorizePhoto, authorizeGroup, inviteSessionMember, acceptSessionInvitation, getSessionMemberOf, toSessionMemberSummary } from "./sessionAccess";
+import { insertPhotoSessionSchema, insertPhotoSchema, insertConvertKitSettingsSchema, insertPhotoGroupSchema, insertPhotoGroupMembershipSchema, type BulkSessionSettings, type Photo, type PhotoAnalysisResult, type PhotoSession, insertScoringProfileSchema, scoringProfileSettingsSchema, GROUPING_ALGORITHMS, SHARE_TARGET_TYPES, SESSION_MEMBER_ROLES, insertSessionMemberSchema, insertPhotoVoteSchema } from "@shared/schema";
 import { z } from "zod";
 import { asyncHandler, AppError } from "./middleware/errorHandler";
 import { logger } from "./middleware/logger";
@@ -313,10 +334,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     // Get session and user info
-    const session = await storage.getSession(sessionId);
-    if (!session || session.userId !== userId) {
-      throw new AppError(404, "Session not found");
-    }
+    await authorizeSession(sessionId, userId, 'viewer');
 
     const user = await storage.getUser(userId);
     const settings = await storage.getConvertKitSettings(userId);
@@ -368,11 +386,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const objectKey = r2Storage.getObjectKeyFromPath(normalizedPath);
       console.log(`🔑 Object key: ${objectKey}`);
 
-      const canAccess = await r2Storage.canAccessObject({
-        userId: userId,
-        objectKey: objectKey,
-        requestedPermission: ObjectPermission.READ,
-      });
+      const canAccess = await canUserAccessObject(userId, normalizedPath, ObjectPermission.READ, r2Storage);
 
       if (!canAccess) {
         console.error(`❌ Access denied for user ${userId} to object ${objectKey}`);
@@ -404,42 +418,110 @@ export async function registerRoutes(app: Express): Promise<Server> {
     return false;
   }
 
+  // Queue a background analysis job, refusing to start a second one for the same session
+  async function enqueueSessionJob(type: JobType, sessionId: string, userId: string, payload: unknown) {
+    const activeJob = await storage.getActiveAnalysisJobBySession(sessionId, ANALYSIS_JOB_TYPES);
+    if (activeJob?.status === 'paused') {
+      throw new AppError(409, "Analysis is paused for this session; resume or cancel it first");
+    }
+    if (activeJob) {
+      throw new AppError(409, "Analysis is already in progress for this session");
+    }
+
+    // Fails while a bulk run holds the session; the job's heartbeat keeps the claim from then on
+    await bulkSessionService.claimForJob(sessionId);
+
+    const job = await jobQueue.enqueue(type, sessionId, userId, payload);
+    if (!job) {
+      throw new AppError(409, "Analysis is already in progress for this session");
+    }
+    return job;
+  }
+
+  // Convert HEIC/HEIF to JPEG for browser compatibility
+  async function convertHeicIfNeeded(buffer: Buffer, mimetype: string): Promise<{ buffer: Buffer; mimetype: string }> {
+    const isHeic = mimetype.includes('heic') || mimetype.includes('heif') || isHEICFormat(buffer);
+    if (!isHeic) {
+      return { buffer, mimetype };
+    }
+
+    console.log(`🔄 Converting HEIC/HEIF image to JPEG for browser compatibility`);
+    try {
+      const outputBuffer = await heicConvert({
+        buffer,
+        format: 'JPEG',
+        quality: 0.92
+      }) as unknown as Buffer;
+      console.log(`✅ HEIC conversion successful, new size: ${outputBuffer.length} bytes`);
+      return { buffer: outputBuffer, mimetype: 'image/jpeg' };
+    } catch (conversionError) {
+      console.error(`❌ HEIC conversion failed:`, conversionError);
+      throw new AppError(500, `Failed to convert HEIC image: ${conversionError instanceof Error ? conversionError.message : 'Unknown error'}`);
+    }
+  }
+
+  // EXIF, renditions and file hashes recorded with an uploaded object by /api/objects/upload; empty if missing or unreadable
+  async function readUploadedObject(
+    r2Storage: R2StorageService,
+    objectPath: string
+  ): Promise<{ exif: PhotoExifMetadata; renditions?: PhotoRenditionUrls; contentHash?: string; perceptualHash?: string }> {
+    try {
+      const objectKey = r2Storage.getObjectKeyFromPath(objectPath);
+      const metadata = await r2Storage.getObjectMetadata(objectKey);
+      return {
+        exif: decodeExifMetadata(metadata[EXIF_OBJECT_METADATA_KEY]),
+        renditions: metadata[RENDITIONS_OBJECT_METADATA_KEY] ? renditionUrls(objectKey) : undefined,
+        contentHash: metadata[CONTENT_HASH_OBJECT_METADATA_KEY],
+        perceptualHash: metadata[PERCEPTUAL_HASH_OBJECT_METADATA_KEY],
+      };
+    } catch (error) {
+      logger.warn('Failed to read metadata for uploaded object', {
+        objectPath,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return { exif: {} };
+    }
+  }
+
   // Direct file upload to R2 (no CORS issues)
   app.post("/api/objects/upload", uploadLimiter, isAuthenticated, upload.single('file'), asyncHandler(async (req: any, res) => {
     if (!req.file) {
       throw new AppError(400, "No file uploaded");
     }
 
-    let fileBuffer = req.file.buffer;
-    let fileMimetype = req.file.mimetype;
-
-    // Convert HEIC/HEIF to JPEG for browser compatibility
-    const isHeic = fileMimetype.includes('heic') || fileMimetype.includes('heif') || isHEICFormat(fileBuffer);
+    // Read EXIF from the original file; HEIC conversion doesn't carry it over
+    const exif = await extractExifMetadata(req.file.buffer);
+    const converted = await convertHeicIfNeeded(req.file.buffer, req.file.mimetype);
+    const { buffer: fileBuffer, mimetype: fileMimetype } = await normalizeOrientation(converted.buffer, converted.mimetype);
+    const rendered = await renderRenditions(fileBuffer);
+    const { contentHash, perceptualHash } = await hashPhotoFile(fileBuffer);
 
-    if (isHeic) {
-      console.log(`🔄 Converting HEIC/HEIF image to JPEG for browser compatibility`);
-      try {
-        const outputBuffer = await heicConvert({
-          buffer: fileBuffer,
-          format: 'JPEG',
-          quality: 0.92
-        }) as unknown as Buffer;
-        fileBuffer = outputBuffer;
-        fileMimetype = 'image/jpeg';
-        console.log(`✅ HEIC conversion successful, new size: ${fileBuffer.length} bytes`);
-      } catch (conversionError) {
-        console.error(`❌ HEIC conversion failed:`, conversionError);
-        throw new AppError(500, `Failed to convert HEIC image: ${conversionError instanceof Error ? conversionError.message : 'Unknown error'}`);
-      }
+    // Stored with the object so the photo record can pick it up when it is created
+    const objectMetadata: Record<string, string> = {
+      [CONTENT_HASH_OBJECT_METADATA_KEY]: contentHash,
+    };
+    if (perceptualHash) {
+      objectMetadata[PERCEPTUAL_HASH_OBJECT_METADATA_KEY] = perceptualHash;
+    }
+    if (Object.keys(exif).length > 0) {
+      objectMetadata[EXIF_OBJECT_METADATA_KEY] = encodeExifMetadata(exif);
+    }
+    if (rendered) {
+      objectMetadata[RENDITIONS_OBJECT_METADATA_KEY] = Object.keys(rendered).join(',');
     }
 
     const r2Storage = new R2StorageService();
-    const { objectKey } = await r2Storage.uploadFile(fileBuffer, fileMimetype);
+    const aclPolicy = ownerAclPolicy(req.userId);
+    const { objectKey } = await r2Storage.uploadFile(fileBuffer, fileMimetype, objectMetadata, aclPolicy);
+    const renditions = rendered ? await uploadRenditions(r2Storage, objectKey, rendered, aclPolicy) : null;
 
     // Return the object path that can be used to access the file
     res.json({
       objectKey,
-      fileUrl: `/objects/${objectKey}`
+      fileUrl: `/objects/${objectKey}`,
+      thumbnailUrl: renditions?.thumbnailUrl ?? null,
+      previewUrl: renditions?.previewUrl ?? null,
+      metadata: exif,
     });
   }));
 
@@ -457,10 +539,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     const r2Storage = new R2StorageService();
     const objectKey = r2Storage.getObjectKeyFromPath(path);
+
+    let canAccess: boolean;
+    try {
+      canAccess = await canUserAccessObject(req.userId, path, ObjectPermission.READ, r2Storage);
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        throw new AppError(404, "Object not found");
+      }
+      throw error;
+    }
+    if (!canAccess) {
+      throw new AppError(403, "Forbidden");
+    }
     
     // Generate presigned URL (valid for 1 hour)
-    // Note: In production, you might want to verify user has access to this object
-    // For now, we trust the authenticated user
     const presignedUrl = await r2Storage.getDownloadURL(objectKey, 3600);
     
     res.json({ presignedUrl });
@@ -553,34 +646,115 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }));
 
+  // Sessions other people have shared with the user, with the role they hold in each
+  app.get("/api/sessions/shared", apiLimiter, isAuthenticated, asyncHandler(async (req: any, res) => {
+    const shared = await storage.getSessionsSharedWithUser(req.userId);
+    res.json({ data: shared.map(({ session, role }) => ({ ...session, role })) });
+  }));
+
   app.get("/api/sessions/:sessionId", apiLimiter, isAuthenticated, validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
     const userId = req.userId;
-    const session = await storage.getSession(req.params.sessionId);
+    const { session, role } = await authorizeSession(req.params.sessionId, userId, 'viewer');
     
-    if (!session) {
-      throw new AppError(404, "Session not found");
+    res.json({ ...session, role });
+  }));
+
+  // Session members: the owner invites people by email as editors or viewers
+  const inviteSessionMemberSchema = insertSessionMemberSchema.pick({ email: true, role: true });
+
+  const updateSessionMemberSchema = z.object({
+    role: z.enum(SESSION_MEMBER_ROLES),
+  });
+
+  app.get("/api/sessions/:sessionId/members", apiLimiter, isAuthenticated, validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
+    const { session, role } = await authorizeSession(req.params.sessionId, req.userId, 'viewer');
+    const [owner, members] = await Promise.all([
+      storage.getUser(session.userId),
+      storage.getSessionMembers(session.id),
+    ]);
+
+    res.json({
+      role,
+      owner: owner
+        ? { id: owner.id, email: owner.email, firstName: owner.firstName, lastName: owner.lastName }
+        : { id: session.userId, email: null, firstName: null, lastName: null },
+      members: members.map(member => toSessionMemberSummary(member, role)),
+    });
+  }));
+
+  // Invite someone by email. No mail is sent: the owner passes on the returned invite link.
+  app.post("/api/sessions/:sessionId/members", apiLimiter, isAuthenticated, validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
+    const { session, role } = await authorizeSession(req.params.sessionId, req.userId, 'owner');
+
+    const parsed = inviteSessionMemberSchema.safeParse(req.body || {});
+    if (!parsed.success) {
+      throw new AppError(400, `Invalid invitation: ${parsed.error.errors.map(e => e.message).join(', ')}`);
     }
-    
-    if (session.userId !== userId) {
-      throw new AppError(403, "Forbidden");
+
+    const member = await inviteSessionMember(session, req.userId, parsed.data.email, parsed.data.role);
+    res.status(201).json(toSessionMemberSummary(member, role));
+  }));
+
+  app.patch("/api/sessions/:sessionId/members/:memberId", apiLimiter, isAuthenticated, validateUUID("sessionId"), validateUUID("memberId"), asyncHandler(async (req: any, res) => {
+    const { session, role } = await authorizeSession(req.params.sessionId, req.userId, 'owner');
+    const member = await getSessionMemberOf(session.id, req.params.memberId);
+
+    const parsed = updateSessionMemberSchema.safeParse(req.body || {});
+    if (!parsed.success) {
+      throw new AppError(400, `Invalid member update: ${parsed.error.errors.map(e => e.message).join(', ')}`);
     }
-    
-    res.json(session);
+
+    const updated = await storage.updateSessionMember(member.id, { role: parsed.data.role });
+    logger.info('Session member role changed', { sessionId: session.id, memberId: member.id, role: parsed.data.role });
+    res.json(toSessionMemberSummary(updated ?? member, role));
   }));
 
-  // Photo routes
-  app.get("/api/sessions/:sessionId/photos", apiLimiter, isAuthenticated, validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
-    const userId = req.userId;
-    const session = await storage.getSession(req.params.sessionId);
+  // The owner removes a member or withdraws an invitation; members may also leave on their own
+  app.delete("/api/sessions/:sessionId/members/:memberId", apiLimiter, isAuthenticated, validateUUID("sessionId"), validateUUID("memberId"), asyncHandler(async (req: any, res) => {
+    const { session, role } = await authorizeSession(req.params.sessionId, req.userId, 'viewer');
+    const member = await getSessionMemberOf(session.id, req.params.memberId);
 
-    if (!session) {
-      throw new AppError(404, "Session not found");
+    if (role !== 'owner' && member.userId !== req.userId) {
+      throw new AppError(403, "Only the session owner can remove other members");
     }
 
-    if (session.userId !== userId) {
-      throw new AppError(403, "Forbidden");
+    await storage.deleteSessionMember(member.id);
+    logger.info('Session member removed', { sessionId: session.id, memberId: member.id, removedBy: req.userId });
+    res.json({ success: true });
+  }));
+
+  // Invitations waiting for the signed-in user's email address
+  app.get("/api/invitations", apiLimiter, isAuthenticated, asyncHandler(async (req: any, res) => {
+    const user = await storage.getUser(req.userId);
+    if (!user?.email) {
+      return res.json({ invitations: [] });
     }
 
+    const pending = await storage.getPendingInvitationsByEmail(user.email.toLowerCase());
+    const invitations = await Promise.all(pending.map(async invitation => {
+      const session = await storage.getSession(invitation.sessionId);
+      return session ? {
+        sessionId: session.id,
+        sessionName: session.name,
+        role: invitation.role,
+        invitedAt: invitation.createdAt,
+        inviteUrl: `/invite/${invitation.inviteToken}`,
+      } : null;
+    }));
+
+    res.json({ invitations: invitations.filter(Boolean) });
+  }));
+
+  app.post("/api/invitations/:token/accept", apiLimiter, isAuthenticated, asyncHandler(async (req: any, res) => {
+    const member = await acceptSessionInvitation(req.params.token, req.userId);
+    res.json({ sessionId: member.sessionId, role: member.role });
+  }));
+
+  // Photo routes
+  app.get("/api/sessions/:sessionId/photos", apiLimiter, isAuthenticated, validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
+    const userId = req.userId;
+    await authorizeSession(req.params.sessionId, userId, 'viewer');
+
     // Parse pagination parameters
     const page = Math.max(1, parseInt(req.query.page as string) || 1);
     const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20));
@@ -611,10 +785,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.log(`🔍 Presigned URL request for session: ${sessionId} by user: ${userId}`);
 
     // Verify user owns this session
-    const session = await storage.getSession(sessionId);
-    if (!session || session.userId !== userId) {
-      throw new AppError(403, "Forbidden");
-    }
+    const { session } = await authorizeSession(sessionId, userId, 'viewer');
 
     // Get photos
     const photos = await storage.getPhotosBySession(sessionId);
@@ -630,13 +801,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const objectKey = r2Storage.getObjectKeyFromPath(photo.fileUrl);
           console.log(`📦 Object key: ${objectKey}`);
 
+          // Renditions belong to the same photo, so the original's ACL covers them
+          if (!(await canUserAccessObject(userId, photo.fileUrl, ObjectPermission.READ, r2Storage))) {
+            throw new ObjectAccessDeniedError();
+          }
+
           // Generate presigned URL (valid for 1 hour)
           const presignedUrl = await r2Storage.getDownloadURL(objectKey, 3600);
           console.log(`✅ Generated presigned URL for ${photo.id}: ${presignedUrl.substring(0, 100)}...`);
 
+          // Renditions are null until generated; clients fall back to the original
+          const thumbnailUrl = photo.thumbnailUrl
+            ? await r2Storage.getDownloadURL(r2Storage.getObjectKeyFromPath(photo.thumbnailUrl), 3600)
+            : null;
+          const previewUrl = photo.previewUrl
+            ? await r2Storage.getDownloadURL(r2Storage.getObjectKeyFromPath(photo.previewUrl), 3600)
+            : null;
+
           return {
             photoId: photo.id,
             presignedUrl,
+            thumbnailUrl,
+            previewUrl,
           };
         } catch (error) {
           console.error(`❌ Error generating presigned URL for photo ${photo.id}:`, error);
@@ -648,6 +834,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return {
             photoId: photo.id,
             presignedUrl: null,
+            thumbnailUrl: null,
+            previewUrl: null,
             error: error instanceof Error ? error.message : 'Failed to generate URL',
           };
         }
@@ -661,17 +849,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ photos: photosWithPresignedUrls });
   }));
 
-  app.post("/api/sessions/:sessionId/photos", apiLimiter, isAuthenticated, validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
+  // Generate missing thumbnail and preview renditions for a session's photos in the background
+  app.post("/api/sessions/:sessionId/renditions", apiLimiter, isAuthenticated, validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
     const userId = req.userId;
-    const session = await storage.getSession(req.params.sessionId);
-    
-    if (!session) {
-      throw new AppError(404, "Session not found");
+    const sessionId = req.params.sessionId;
+
+    const { session } = await authorizeSession(sessionId, userId, 'editor');
+
+    const photos = await storage.getPhotosBySession(sessionId);
+    const missing = photos.filter(p => !hasRenditions(p)).length;
+    if (missing === 0) {
+      return res.json({ jobId: null, missing });
     }
-    
-    if (session.userId !== userId) {
-      throw new AppError(403, "Forbidden");
+
+    // The unique index on unfinished renditions jobs turns a concurrent request into a 409
+    const job = await jobQueue.enqueue('renditions', sessionId, userId);
+    if (!job) {
+      throw new AppError(409, "Renditions are already being generated for this session");
     }
+    res.status(202).json({ jobId: job.id, missing });
+  }));
+
+  app.post("/api/sessions/:sessionId/photos", apiLimiter, isAuthenticated, validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
+    const userId = req.userId;
+    const { session } = await authorizeSession(req.params.sessionId, userId, 'editor');
 
     // Normalize the object path and set ACL policy
     const r2Storage = new R2StorageService();
@@ -683,16 +884,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
       ? normalizedPath
       : `/objects/${req.body.fileUrl}`;
 
+    // Only the uploader's own objects can be attached to a photo
+    let canAttach: boolean;
+    try {
+      canAttach = await canUserAccessObject(userId, permanentPath, ObjectPermission.WRITE, r2Storage);
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        throw new AppError(404, "Uploaded file not found");
+      }
+      throw error;
+    }
+    if (!canAttach) {
+      throw new AppError(403, "Forbidden");
+    }
+
     const photos = await storage.getPhotosBySession(req.params.sessionId);
+    const { exif, renditions, ...uploadedHashes } = await readUploadedObject(r2Storage, permanentPath);
+    let hashes: { contentHash?: string; perceptualHash?: string | null } = uploadedHashes;
+
+    // Objects not stored through /api/objects/upload aren't hashed yet; without hashes the
+    // photo just isn't checked for duplicates
+    if (!hashes.contentHash) {
+      try {
+        hashes = await hashPhotoFile((await fetchImageBuffer(permanentPath, { userId })).buffer);
+      } catch (error) {
+        logger.warn('Failed to hash uploaded object', {
+          objectPath: permanentPath,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
     
     const validatedData = insertPhotoSchema.parse({
       sessionId: req.params.sessionId,
       fileUrl: permanentPath, // Store permanent /objects/... path, not temporary signed URL
       originalFilename: req.body.originalFilename,
       uploadOrder: photos.length,
+      ...hashes,
+      ...exif,
+      ...renditions,
     });
     
-    const photo = await storage.createPhoto(validatedData);
+    let photo = await storage.createPhoto(validatedData);
+
+    // Objects not stored through /api/objects/upload have no renditions yet
+    if (!renditions) {
+      try {
+        photo = await generatePhotoRenditions(photo);
+      } catch (error) {
+        logger.warn('Failed to generate renditions for new photo', {
+          photoId: photo.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    photo = await flagIfDuplicate(photo, session.userId);
     
     // Update session photo count
     await storage.updateSession(req.params.sessionId, {
@@ -704,99 +951,82 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Photo Analysis routes
 
-  // Polling endpoint for analysis progress (replaces SSE due to auth issues)
-  app.get("/api/sessions/:sessionId/progress", apiLimiter, isAuthenticated, validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
+  // Tickets for progress streams and downloads; EventSource and links can't send the bearer token
+  const streamTicketSchema = z.object({
+    stream: z.enum(['analysis', 'grouping', 'export']),
+  });
+
+  app.post("/api/sessions/:sessionId/stream-ticket", apiLimiter, isAuthenticated, validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
     const userId = req.userId;
     const sessionId = req.params.sessionId;
 
-    try {
-      // Verify user owns this session
-      const session = await storage.getSession(sessionId);
-      if (!session || session.userId !== userId) {
-        throw new AppError(403, "Forbidden");
-      }
+    const parsed = streamTicketSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(400, `Invalid stream ticket request: ${parsed.error.errors.map(e => e.message).join(', ')}`);
+    }
 
-      // Get current progress from in-memory store
-      let progress = photoAnalysisService.getProgress(sessionId);
+    await authorizeSession(sessionId, userId, 'viewer');
 
-      // Get photos once for all checks
-      const photos = await storage.getPhotosBySession(sessionId);
+    res.json(issueStreamTicket(userId, sessionId, parsed.data.stream));
+  }));
 
-      if (!progress) {
-        // No progress yet - check session status as fallback
-        // If session is analyzing but no progress, analysis might have failed or completed
-        if (session.status === "analyzing") {
-          // Check if photos have analysis data - if so, analysis completed, now grouping
-          const analyzedCount = photos.filter(p => p.qualityScore && p.analysisData).length;
-          
-          if (analyzedCount > 0 && analyzedCount === photos.length) {
-            // Analysis completed, now grouping - show progress at 90% (grouping is final 10%)
-            res.json({ 
-              progress: {
-                sessionId,
-                currentPhoto: photos.length,
-                totalPhotos: photos.length,
-                percentage: 90, // Analysis done, grouping in progress
-                status: 'selecting_best' as const,
-                message: `Analysis complete (${analyzedCount}/${photos.length} photos). Grouping photos by scene...`,
-              }
-            });
-            return;
-          } else if (analyzedCount > 0 && analyzedCount < photos.length) {
-            // Partial analysis - show actual progress
-            const analysisProgress = (analyzedCount / photos.length) * 90; // Reserve 10% for grouping
-            res.json({ 
-              progress: {
-                sessionId,
-                currentPhoto: analyzedCount,
-                totalPhotos: photos.length,
-                percentage: Math.round(analysisProgress),
-                status: 'analyzing' as const,
-                message: `Analyzing photos... (${analyzedCount}/${photos.length} complete)`,
-              }
-            });
-            return;
-          }
-          
-          // Return minimal progress indicating analysis is running but no detailed progress yet
-          res.json({ 
-            progress: {
-              sessionId,
-              currentPhoto: 0,
-              totalPhotos: 0,
-              percentage: 0,
-              status: 'analyzing' as const,
-              message: 'Analysis starting...',
-            }
-          });
-          return;
-        }
-        
-        // If session is completed or failed but photos have analysis data, return completed progress
-        if (session.status === "completed" || session.status === "failed") {
-          const analyzedCount = photos.filter(p => p.qualityScore && p.analysisData).length;
-          
-          if (analyzedCount > 0) {
-            res.json({ 
-              progress: {
-                sessionId,
-                currentPhoto: analyzedCount,
-                totalPhotos: photos.length,
-                percentage: 100,
-                status: 'complete' as const,
-                message: 'Analysis complete',
-              }
-            });
-            return;
+  // Analysis progress, read from the session's latest analysis job
+  async function readAnalysisProgress(session: PhotoSession) {
+    const job = await storage.getLatestAnalysisJobBySession(session.id, ANALYSIS_JOB_TYPES);
+
+    if (job) {
+      return {
+        progress: await getJobProgress(job),
+        jobId: job.id,
+        jobStatus: job.status,
+      };
+    }
+
+    // Sessions analyzed before background jobs existed have no job row
+    if (session.status === "completed" || session.status === "failed") {
+      const photos = await storage.getPhotosBySession(session.id);
+      const analyzedCount = photos.filter(p => p.qualityScore && p.analysisData).length;
+
+      if (analyzedCount > 0) {
+        return {
+          progress: {
+            sessionId: session.id,
+            currentPhoto: analyzedCount,
+            totalPhotos: photos.length,
+            percentage: 100,
+            status: 'complete' as const,
+            message: 'Analysis complete',
           }
-        }
-        
-        // No progress and not analyzing - return null
-        res.json({ progress: null });
-        return;
+        };
       }
+    }
+
+    // No job and nothing analyzed
+    return { progress: null };
+  }
+
+  // Analysis progress: JSON for polling, or an SSE stream when the client asks for text/event-stream
+  app.get("/api/sessions/:sessionId/progress", apiLimiter, isStreamAuthenticated('analysis'), validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
+    const userId = req.userId;
+    const sessionId = req.params.sessionId;
+
+    // Verify user owns this session
+    const { session } = await authorizeSession(sessionId, userId, 'viewer');
+
+    if (req.headers.accept?.includes('text/event-stream')) {
+      await streamProgress(req, res, {
+        read: async () => {
+          const current = await storage.getSession(sessionId);
+          return current ? readAnalysisProgress(current) : null;
+        },
+        isFinished: ({ progress }) => progress?.status === 'complete' || progress?.status === 'error' || progress?.status === 'cancelled',
+        logContext: { sessionId, stream: 'analysis' },
+      });
+      return;
+    }
 
-      res.json({ progress });
+    try {
+      res.json(await readAnalysisProgress(session));
     } catch (error) {
       // Don't let progress endpoint errors crash the app or return 502
       logger.error('Progress endpoint error', {
@@ -819,51 +1049,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }));
 
-  // SSE endpoint for grouping progress updates
-  app.get("/api/sessions/:sessionId/group-progress", isAuthenticated, validateUUID("sessionId"), async (req: any, res) => {
+  // SSE endpoint for grouping progress updates, streamed from the group-analyze job row
+  app.get("/api/sessions/:sessionId/group-progress", isStreamAuthenticated('grouping'), validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
     const userId = req.userId;
     const sessionId = req.params.sessionId;
 
     // Verify user owns this session
-    const session = await storage.getSession(sessionId);
-    if (!session || session.userId !== userId) {
-      return res.sendStatus(403);
-    }
-
-    // Set up SSE headers
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-    res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
+    await authorizeSession(sessionId, userId, 'viewer');
 
-    // Subscribe to progress updates
-    const unsubscribe = photoGroupingService.onProgress(sessionId, (progress) => {
-      res.write(`data: ${JSON.stringify(progress)}\n\n`);
+    await streamProgress(req, res, {
+      read: async () => {
+        const job = await storage.getLatestAnalysisJobBySession(sessionId, 'group-analyze');
+        if (!job) return null;
 
-      // Close connection when complete or error
-      if (progress.status === 'complete' || progress.status === 'error') {
-        res.end();
-      }
+        const progress = await getJobProgress(job);
+        return { ...progress, jobId: job.id, jobStatus: job.status };
+      },
+      // Close the connection once the job stops; a resumed job is followed on a new connection
+      isFinished: (update) => ['complete', 'error', 'cancelled', 'paused'].includes(update.status),
+      logContext: { sessionId, stream: 'grouping' },
     });
+  }));
+
+  // Status of a background analysis job
+  app.get("/api/jobs/:jobId", apiLimiter, isAuthenticated, validateUUID("jobId"), asyncHandler(async (req: any, res) => {
+    const job = await storage.getAnalysisJob(req.params.jobId);
+
+    if (!job) {
+      throw new AppError(404, "Job not found");
+    }
 
-    // Clean up on client disconnect
-    req.on('close', () => {
-      unsubscribe();
+    await authorizeSession(job.sessionId, req.userId, 'viewer');
+
+    res.json({
+      id: job.id,
+      type: job.type,
+      sessionId: job.sessionId,
+      status: job.status,
+      progress: await getJobProgress(job),
+      result: job.result,
+      error: job.error,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      completedAt: job.completedAt,
     });
-  });
+  }));
 
   // Preview face detection (quick detection before full analysis)
   app.post("/api/sessions/:sessionId/preview", apiLimiter, isAuthenticated, validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
     const userId = req.userId;
-    const session = await storage.getSession(req.params.sessionId);
-    
-    if (!session) {
-      throw new AppError(404, "Session not found");
-    }
-    
-    if (session.userId !== userId) {
-      throw new AppError(403, "Forbidden");
-    }
+    await authorizeSession(req.params.sessionId, userId, 'editor');
 
     const photos = await storage.getPhotosBySession(req.params.sessionId);
     
@@ -871,9 +1108,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       throw new AppError(400, "No photos to preview");
     }
 
-    // Quick face detection on all photos
+    // Quick face detection on all photos, pre-marking faces the user excluded in an earlier analysis
     const detectionResults = await Promise.all(
-      photos.map(photo => photoAnalysisService.detectFaces(photo.fileUrl, photo.id))
+      photos.map(async (photo) => {
+        const [detection, faceRows] = await Promise.all([
+          photoAnalysisService.detectFaces(photo.fileUrl, photo.id),
+          storage.getFacesByPhoto(photo.id),
+        ]);
+        return {
+          ...detection,
+          faces: detection.faces.map(face => ({
+            ...face,
+            excluded: findMatchingFace(face.boundingBox, faceRows)?.excluded ?? false,
+          })),
+        };
+      })
     );
 
     res.json({
@@ -884,173 +1133,356 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/sessions/:sessionId/analyze", analysisLimiter, isAuthenticated, validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
     const userId = req.userId;
-    const session = await storage.getSession(req.params.sessionId);
-    
-    if (!session) {
-      throw new AppError(404, "Session not found");
-    }
-    
-    if (session.userId !== userId) {
-      throw new AppError(403, "Forbidden");
-    }
+    const sessionId = req.params.sessionId;
+    const { session } = await authorizeSession(sessionId, userId, 'editor');
 
-    const photos = await storage.getPhotosBySession(req.params.sessionId);
+    const photoCount = await storage.countPhotosBySession(sessionId);
     
-    if (photos.length < 2) {
+    if (photoCount < 2) {
       throw new AppError(400, "Need at least 2 photos to analyze");
     }
 
     // Get face selections from request body (optional)
     const faceSelections = req.body.faceSelections as Record<string, Record<number, boolean>> | undefined;
 
-    try {
-      // Update session status to analyzing
-      await storage.updateSession(req.params.sessionId, {
-        status: "analyzing",
-      });
-
-      // Analyze all photos with face selections (pass sessionId for progress tracking)
-      // Wrap in try-catch to ensure progress is updated on error
-      let analyses: any[] = [];
-      let bestPhotoId: string | null = null;
-      
-      try {
-        const result = await photoAnalysisService.analyzeSession(
-          req.params.sessionId,
-          photos.map(p => ({ id: p.id, fileUrl: p.fileUrl })),
-          faceSelections
-        );
-        analyses = result.analyses;
-        bestPhotoId = result.bestPhotoId;
-      } catch (analysisError) {
-        // Analysis failed - progress should already be updated by analyzeSession
-        logger.error('Analysis failed', {
-          sessionId: req.params.sessionId,
-          userId,
-          error: analysisError instanceof Error ? analysisError.message : 'Unknown error',
-          stack: analysisError instanceof Error ? analysisError.stack : undefined,
-        });
-        
-        // Update session status to failed
-        await storage.updateSession(req.params.sessionId, {
-          status: "failed",
-        }).catch(() => {
-          // Ignore errors updating status
-        });
-        
-        // Re-throw to be handled by outer catch
-        throw analysisError;
+    // A profile chosen at analysis time becomes the session's profile
+    const scoringProfileId = req.body.scoringProfileId as string | undefined;
+    if (scoringProfileId !== undefined) {
+      if (typeof scoringProfileId !== 'string' || !(await findScoringProfile(userId, scoringProfileId))) {
+        throw new AppError(400, "Scoring profile not found");
       }
+      await storage.updateSession(sessionId, { scoringProfileId });
+    }
 
-      // Update photos with analysis results
-      for (const analysis of analyses) {
-        await storage.updatePhoto(analysis.photoId, {
-          qualityScore: analysis.overallQualityScore.toString(),
-          isSelectedBest: analysis.photoId === bestPhotoId,
-          analysisData: analysis,
-        });
-      }
+    // Analysis runs in the background job worker; follow /progress for updates
+    const job = await enqueueSessionJob('analyze', sessionId, userId, { faceSelections } satisfies AnalyzeJobPayload);
 
-      // Update session with best photo and status
-      await storage.updateSession(req.params.sessionId, {
-        status: "completed",
-        bestPhotoId,
-      });
+    res.status(202).json({
+      sessionId,
+      jobId: job.id,
+      status: job.status,
+    });
+  }));
 
-      // Send analysis completion email if user has consented
-      try {
-        const settings = await storage.getConvertKitSettings(userId);
-        if (settings?.emailConsent) {
-          const user = await storage.getUser(userId);
-          const bestPhoto = photos.find(p => p.id === bestPhotoId);
+  // Pause, resume and cancel a session's analysis job. Runs stop between batches and keep
+  // every photo they finished; a paused job resumes from its checkpoint.
+  async function getActiveSessionJob(sessionId: string, userId: string) {
+    const { session } = await authorizeSession(sessionId, userId, 'editor');
 
-          await convertKitService.sendPhotoAnalysisEmail({
-            sessionId: req.params.sessionId,
-            campaignType: 'analysis_complete',
-            userEmail: user?.email || '',
-            userName: user?.firstName || '',
-            analysisResults: {
-              photoCount: photos.length,
-              bestPhotoUrl: bestPhoto?.fileUrl,
-              qualityScore: bestPhoto?.qualityScore ? parseFloat(bestPhoto.qualityScore) : undefined,
-              facesDetected: analyses.reduce((total, analysis) => total + analysis.faces.length, 0),
-            },
-          });
-        }
-      } catch (emailError) {
-        logger.error('Failed to send analysis completion email', {
-          sessionId: req.params.sessionId,
-          userId,
-          error: emailError instanceof Error ? emailError.message : 'Unknown error',
-        });
-        // Don't fail the request if email fails
-      }
+    const job = await storage.getActiveAnalysisJobBySession(sessionId, ANALYSIS_JOB_TYPES);
+    if (!job) {
+      throw new AppError(409, "No analysis is running for this session");
+    }
 
-      res.json({
-        sessionId: req.params.sessionId,
-        bestPhotoId,
-        analyses,
-      });
-    } catch (error) {
-      logger.error('Analysis endpoint error', {
-        sessionId: req.params.sessionId,
-        userId,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        stack: error instanceof Error ? error.stack : undefined,
-      });
-      
-      // Ensure progress is updated to error state if not already done
-      try {
-        const progress = photoAnalysisService.getProgress(req.params.sessionId);
-        if (!progress || progress.status !== 'error') {
-          // Set error progress if not already set
-          photoAnalysisService.clearProgress(req.params.sessionId);
-          // Also try to emit error progress directly
-          try {
-            photoAnalysisService.onProgress(req.params.sessionId, () => {})(); // Subscribe and immediately unsubscribe to trigger error state
-          } catch {
-            // Ignore
-          }
-        }
-      } catch (progressError) {
-        // Ignore errors checking/clearing progress
-        logger.warn('Failed to update progress on error', { progressError });
-      }
-      
-      // Update session status to failed on error
-      await storage.updateSession(req.params.sessionId, {
-        status: "failed",
-      }).catch(() => {
-        // Ignore errors updating status
-      });
-      
-      // Re-throw to be handled by asyncHandler
-      throw error;
+    return { session, job };
+  }
+
+  app.post("/api/sessions/:sessionId/pause", apiLimiter, isAuthenticated, validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
+    const { session, job } = await getActiveSessionJob(req.params.sessionId, req.userId);
+
+    if (session.status === 'paused' || job.status === 'paused') {
+      throw new AppError(409, "Analysis is already paused");
     }
+    if (session.status === 'cancelled') {
+      throw new AppError(409, "Analysis is being cancelled");
+    }
+
+    await storage.updateSession(session.id, { status: 'paused' });
+
+    logger.info('Session analysis paused by user', { sessionId: session.id, jobId: job.id, userId: req.userId });
+
+    res.json({ sessionId: session.id, jobId: job.id, status: 'paused' });
   }));
 
-  // Album routes
-  app.get("/api/album", apiLimiter, isAuthenticated, asyncHandler(async (req: any, res) => {
-    const userId = req.userId;
-    
-    // Single query with JOIN - eliminates N+1 query problem
-    // Gets all sessions with their best photos in one query instead of 1 + N queries
-    const albumData = await db
-      .select({
-        session: photoSessions,
-        photo: photos,
-      })
-      .from(photoSessions)
-      .leftJoin(photos, and(
-        eq(photos.sessionId, photoSessions.id),
-        eq(photos.isSelectedBest, true)
-      ))
-      .where(eq(photoSessions.userId, userId))
-      .orderBy(desc(photoSessions.createdAt));
-    
-    // Group results by session (JOIN returns multiple rows per session if multiple best photos exist)
-    const grouped = albumData.reduce((acc, row) => {
-      if (!acc[row.session.id]) {
+  app.post("/api/sessions/:sessionId/resume", analysisLimiter, isAuthenticated, validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
+    const { session, job } = await getActiveSessionJob(req.params.sessionId, req.userId);
+
+    if (session.status !== 'paused') {
+      throw new AppError(409, "Analysis is not paused");
+    }
+
+    await storage.updateSession(session.id, { status: 'analyzing' });
+
+    // A job that hadn't reached a batch boundary yet simply carries on
+    if (job.status === 'paused') {
+      await jobQueue.resume(job);
+    }
+
+    logger.info('Session analysis resumed by user', { sessionId: session.id, jobId: job.id, userId: req.userId });
+
+    res.json({ sessionId: session.id, jobId: job.id, status: 'analyzing' });
+  }));
+
+  app.post("/api/sessions/:sessionId/cancel", apiLimiter, isAuthenticated, validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
+    const { session, job } = await getActiveSessionJob(req.params.sessionId, req.userId);
+
+    await storage.updateSession(session.id, { status: 'cancelled' });
+
+    // A running job stops at its next batch; a paused one won't run again
+    if (job.status === 'paused') {
+      await jobQueue.cancel(job);
+    }
+
+    logger.info('Session analysis cancelled by user', { sessionId: session.id, jobId: job.id, userId: req.userId });
+
+    res.json({ sessionId: session.id, jobId: job.id, status: 'cancelled' });
+  }));
+
+  // Session-wide analysis summary: best photo and whether a composite could fix closed eyes
+  app.get("/api/sessions/:sessionId/analysis", apiLimiter, isAuthenticated, validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
+    const { session } = await authorizeSession(req.params.sessionId, req.userId, 'viewer');
+
+    res.json(await compositeService.getSessionAnalysis(session.id));
+  }));
+
+  const createCompositeSchema = z.object({
+    groupId: z.string().uuid().optional(),
+    basePhotoId: z.string().uuid().optional(),
+  });
+
+  // Build a "best faces" composite from the session's (or a group's) frames
+  app.post("/api/sessions/:sessionId/composite", analysisLimiter, isAuthenticated, validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
+    const { session } = await authorizeSession(req.params.sessionId, req.userId, 'editor');
+
+    const validation = createCompositeSchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+      throw new AppError(400, `Invalid composite request: ${validation.error.errors.map(e => e.message).join(', ')}`);
+    }
+
+    // Analysis rewrites the frames' faces, so wait for it to finish
+    const activeJob = await storage.getActiveAnalysisJobBySession(session.id, ANALYSIS_JOB_TYPES);
+    if (activeJob) {
+      throw new AppError(409, "Analysis is already in progress for this session");
+    }
+
+    const photo = await compositeService.createComposite(session.id, validation.data);
+    res.status(201).json(photo);
+  }));
+
+  // Scoring profile routes
+  const updateScoringProfileSchema = z.object({
+    name: z.string().trim().min(1, "name is required").max(100).optional(),
+    settings: scoringProfileSettingsSchema.optional(),
+  });
+
+  const scoringProfileChoiceSchema = z.object({
+    profileId: z.string().min(1).nullable(),
+  });
+
+  // Load a saved profile and verify the requesting user owns it; built-ins can't be edited
+  async function getOwnedScoringProfile(profileId: string, userId: string) {
+    const profile = await storage.getScoringProfile(profileId);
+
+    if (!profile) {
+      throw new AppError(404, "Scoring profile not found");
+    }
+
+    if (profile.userId !== userId) {
+      throw new AppError(403, "Forbidden");
+    }
+
+    return profile;
+  }
+
+  // Built-in and saved profiles, plus the user's default
+  app.get("/api/scoring-profiles", apiLimiter, isAuthenticated, asyncHandler(async (req: any, res) => {
+    const [profiles, user] = await Promise.all([
+      listScoringProfiles(req.userId),
+      storage.getUser(req.userId),
+    ]);
+
+    const defaultProfileId = user?.scoringProfileId && profiles.some(p => p.id === user.scoringProfileId)
+      ? user.scoringProfileId
+      : DEFAULT_SCORING_PROFILE.id;
+
+    res.json({ profiles, defaultProfileId });
+  }));
+
+  app.post("/api/scoring-profiles", apiLimiter, isAuthenticated, asyncHandler(async (req: any, res) => {
+    const validation = insertScoringProfileSchema.safeParse({ ...req.body, userId: req.userId });
+    if (!validation.success) {
+      throw new AppError(400, `Invalid scoring profile: ${validation.error.errors.map(e => e.message).join(', ')}`);
+    }
+
+    const profile = await storage.createScoringProfile(validation.data);
+    res.status(201).json(profile);
+  }));
+
+  // Choose the profile new analyses use by default (null resets to balanced)
+  app.put("/api/scoring-profiles/default", apiLimiter, isAuthenticated, asyncHandler(async (req: any, res) => {
+    const validation = scoringProfileChoiceSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new AppError(400, `Invalid scoring profile choice: ${validation.error.errors.map(e => e.message).join(', ')}`);
+    }
+
+    const { profileId } = validation.data;
+    if (profileId && !(await findScoringProfile(req.userId, profileId))) {
+      throw new AppError(404, "Scoring profile not found");
+    }
+
+    await storage.updateUser(req.userId, { scoringProfileId: profileId });
+    res.json({ defaultProfileId: profileId ?? DEFAULT_SCORING_PROFILE.id });
+  }));
+
+  app.patch("/api/scoring-profiles/:profileId", apiLimiter, isAuthenticated, asyncHandler(async (req: any, res) => {
+    if (isBuiltInScoringProfile(req.params.profileId)) {
+      throw new AppError(400, "Built-in scoring profiles can't be changed");
+    }
+
+    const profile = await getOwnedScoringProfile(req.params.profileId, req.userId);
+
+    const validation = updateScoringProfileSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new AppError(400, `Invalid scoring profile: ${validation.error.errors.map(e => e.message).join(', ')}`);
+    }
+
+    const updated = await storage.updateScoringProfile(profile.id, validation.data);
+    res.json(updated);
+  }));
+
+  app.delete("/api/scoring-profiles/:profileId", apiLimiter, isAuthenticated, asyncHandler(async (req: any, res) => {
+    if (isBuiltInScoringProfile(req.params.profileId)) {
+      throw new AppError(400, "Built-in scoring profiles can't be deleted");
+    }
+
+    const profile = await getOwnedScoringProfile(req.params.profileId, req.userId);
+    await storage.deleteScoringProfile(profile.id);
+
+    // Sessions still pointing at the profile fall back to the default when analyzed
+    const user = await storage.getUser(req.userId);
+    if (user?.scoringProfileId === profile.id) {
+      await storage.updateUser(req.userId, { scoringProfileId: null });
+    }
+
+    res.json({ success: true });
+  }));
+
+  // Choose the profile a session is analyzed with (null follows the user's default)
+  app.put("/api/sessions/:sessionId/scoring-profile", apiLimiter, isAuthenticated, validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
+    const { session } = await authorizeSession(req.params.sessionId, req.userId, 'editor');
+
+    const validation = scoringProfileChoiceSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new AppError(400, `Invalid scoring profile choice: ${validation.error.errors.map(e => e.message).join(', ')}`);
+    }
+
+    const { profileId } = validation.data;
+    if (profileId && !(await findScoringProfile(req.userId, profileId))) {
+      throw new AppError(404, "Scoring profile not found");
+    }
+
+    const updated = await storage.updateSession(session.id, { scoringProfileId: profileId });
+    res.json({
+      ...updated,
+      scoringProfile: await resolveScoringProfileForSession(session.id),
+    });
+  }));
+
+  // Share link routes
+  const createShareLinkSchema = z.object({
+    targetType: z.enum(SHARE_TARGET_TYPES),
+    groupId: z.string().uuid().optional(),
+    photoId: z.string().uuid().optional(),
+    password: z.string().min(SHARE_PASSWORD_MIN_LENGTH, `Password must be at least ${SHARE_PASSWORD_MIN_LENGTH} characters`).max(128).optional(),
+    allowDownload: z.boolean().optional(),
+    expiresInHours: z.number().positive().max(24 * 365).optional(),
+  });
+
+  app.post("/api/sessions/:sessionId/share-links", apiLimiter, isAuthenticated, validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
+    const { session } = await authorizeSession(req.params.sessionId, req.userId, 'owner');
+
+    const validation = createShareLinkSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new AppError(400, `Invalid share link: ${validation.error.errors.map(e => e.message).join(', ')}`);
+    }
+
+    const { expiresInHours, ...input } = validation.data;
+    const link = await createShareLink(req.userId, session, {
+      ...input,
+      expiresAt: expiresInHours ? new Date(Date.now() + expiresInHours * 3600 * 1000) : undefined,
+    });
+    res.status(201).json(toShareLinkSummary(link));
+  }));
+
+  app.get("/api/sessions/:sessionId/share-links", apiLimiter, isAuthenticated, validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
+    const { session } = await authorizeSession(req.params.sessionId, req.userId, 'owner');
+
+    const links = await storage.getShareLinksBySession(session.id);
+    res.json({ links: links.map(toShareLinkSummary) });
+  }));
+
+  // Revoke a link; it stays listed so its view count remains visible
+  app.delete("/api/share-links/:linkId", apiLimiter, isAuthenticated, validateUUID("linkId"), asyncHandler(async (req: any, res) => {
+    const link = await getOwnedShareLink(req.params.linkId, req.userId);
+    const revoked = await revokeShareLink(link);
+    res.json(toShareLinkSummary(revoked));
+  }));
+
+  // A vote from a session member or share-link viewer. A null clears that part of the vote;
+  // leaving a field out keeps it.
+  const photoVoteSchema = insertPhotoVoteSchema.pick({ reaction: true, rating: true }).refine(
+    data => data.reaction !== undefined || data.rating !== undefined,
+    { message: "reaction or rating is required" }
+  );
+
+  // Share link password failures are counted per client address, which a viewer can't choose
+  // the way they choose their viewer id
+  function shareClientKey(req: Request): string {
+    return `ip:${req.ip ?? 'unknown'}`;
+  }
+
+  // Anonymous viewers identify themselves for voting with an id their browser generates
+  const shareViewerIdSchema = z.string().uuid("A viewer id is required to vote");
+
+  // Public view of a shared link; the password, if any, comes in a header
+  app.get("/api/share/:token", apiLimiter, asyncHandler(async (req: any, res) => {
+    const password = req.get('x-share-password');
+    const viewerId = shareViewerIdSchema.safeParse(req.get('x-share-viewer'));
+    const content = await openShareLink(req.params.token, password || undefined, viewerId.success ? viewerId.data : undefined, shareClientKey(req));
+    res.set('Cache-Control', 'no-store');
+    res.json(content);
+  }));
+
+  // A share-link viewer likes, rejects or rates a photo the link covers
+  app.put("/api/share/:token/photos/:photoId/vote", apiLimiter, validateUUID("photoId"), asyncHandler(async (req: any, res) => {
+    const viewerId = shareViewerIdSchema.safeParse(req.get('x-share-viewer'));
+    if (!viewerId.success) {
+      throw new AppError(400, viewerId.error.errors.map(e => e.message).join(', '));
+    }
+
+    const parsed = photoVoteSchema.safeParse(req.body || {});
+    if (!parsed.success) {
+      throw new AppError(400, `Invalid vote: ${parsed.error.errors.map(e => e.message).join(', ')}`);
+    }
+
+    const { link, photo } = await openSharedPhoto(req.params.token, req.get('x-share-password') || undefined, req.params.photoId, shareClientKey(req));
+    const vote = await castPhotoVote(photo, shareLinkVoter(link, viewerId.data), parsed.data);
+    res.set('Cache-Control', 'no-store');
+    res.json({ photoId: photo.id, vote });
+  }));
+
+  // Album routes
+  app.get("/api/album", apiLimiter, isAuthenticated, asyncHandler(async (req: any, res) => {
+    const userId = req.userId;
+    
+    // Single query with JOIN - eliminates N+1 query problem
+    // Gets all sessions with their best photos in one query instead of 1 + N queries
+    const albumData = await db
+      .select({
+        session: photoSessions,
+        photo: photos,
+      })
+      .from(photoSessions)
+      .leftJoin(photos, and(
+        eq(photos.sessionId, photoSessions.id),
+        eq(photos.isSelectedBest, true)
+      ))
+      .where(eq(photoSessions.userId, userId))
+      .orderBy(desc(photoSessions.createdAt));
+    
+    // Group results by session (JOIN returns multiple rows per session if multiple best photos exist)
+    const grouped = albumData.reduce((acc, row) => {
+      if (!acc[row.session.id]) {
         acc[row.session.id] = {
           session: row.session,
           bestPhoto: null,
@@ -1071,17 +1503,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   }));
 
   app.patch("/api/photos/:photoId/mark-best", apiLimiter, isAuthenticated, validateUUID("photoId"), asyncHandler(async (req: any, res) => {
-    const userId = req.userId;
-    const photo = await storage.getPhoto(req.params.photoId);
-    
-    if (!photo) {
-      throw new AppError(404, "Photo not found");
-    }
-    
-    const session = await storage.getSession(photo.sessionId);
-    if (!session || session.userId !== userId) {
-      throw new AppError(403, "Forbidden");
-    }
+    const { photo } = await authorizePhoto(req.params.photoId, req.userId, 'editor');
     
     // Unmark all other photos in the session
     const sessionPhotos = await storage.getPhotosBySession(photo.sessionId);
@@ -1102,23 +1524,102 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ success: true });
   }));
 
-  app.delete("/api/photos/:photoId", apiLimiter, isAuthenticated, validateUUID("photoId"), asyncHandler(async (req: any, res) => {
-    const userId = req.userId;
-    const photo = await storage.getPhoto(req.params.photoId);
-    
-    if (!photo) {
-      throw new AppError(404, "Photo not found");
+  // Votes: anyone in the session, viewers included, can like, reject or rate a photo
+  app.put("/api/photos/:photoId/vote", apiLimiter, isAuthenticated, validateUUID("photoId"), asyncHandler(async (req: any, res) => {
+    const { photo } = await authorizePhoto(req.params.photoId, req.userId, 'viewer');
+
+    const parsed = photoVoteSchema.safeParse(req.body || {});
+    if (!parsed.success) {
+      throw new AppError(400, `Invalid vote: ${parsed.error.errors.map(e => e.message).join(', ')}`);
     }
-    
-    const session = await storage.getSession(photo.sessionId);
-    if (!session || session.userId !== userId) {
-      throw new AppError(403, "Forbidden");
+
+    const vote = await castPhotoVote(photo, userVoter(req.userId), parsed.data);
+    res.json({ photoId: photo.id, vote });
+  }));
+
+  // Vote totals per photo and per group, and the caller's own votes
+  app.get("/api/sessions/:sessionId/votes", apiLimiter, isAuthenticated, validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
+    const { session } = await authorizeSession(req.params.sessionId, req.userId, 'viewer');
+    res.json(await getSessionVotes(session.id, userVoter(req.userId)));
+  }));
+
+  const sessionExportSchema = z.object({
+    scope: z.enum(EXPORT_SCOPES).default('best'),
+    layout: z.enum(EXPORT_LAYOUTS).default('groups'),
+    manifest: z.enum(EXPORT_MANIFESTS).default('none'),
+  });
+
+  // Download a session's photos as a ZIP; browsers pass an export ticket since links can't send the bearer token
+  app.get("/api/sessions/:sessionId/export", apiLimiter, isStreamAuthenticated('export'), validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
+    const parsed = sessionExportSchema.safeParse(req.query);
+    if (!parsed.success) {
+      throw new AppError(400, `Invalid export options: ${parsed.error.errors.map(e => e.message).join(', ')}`);
+    }
+
+    const { session } = await authorizeSession(req.params.sessionId, req.userId, 'viewer');
+    await streamSessionExport(session, req.userId, parsed.data, res);
+  }));
+
+  // Detected faces of a photo, in detection order
+  app.get("/api/photos/:photoId/faces", apiLimiter, isAuthenticated, validateUUID("photoId"), asyncHandler(async (req: any, res) => {
+    const { photo } = await authorizePhoto(req.params.photoId, req.userId, 'viewer');
+    const faces = await storage.getFacesByPhoto(photo.id);
+
+    res.json({ photoId: photo.id, faces });
+  }));
+
+  const updateFacesSchema = z.object({
+    faces: z.array(z.object({
+      id: z.string(),
+      excluded: z.boolean(),
+    })).min(1, "faces must list at least one face"),
+  });
+
+  // Include or exclude faces from scoring. Exclusions are kept across re-analysis.
+  app.patch("/api/photos/:photoId/faces", apiLimiter, isAuthenticated, validateUUID("photoId"), asyncHandler(async (req: any, res) => {
+    const { photo } = await authorizePhoto(req.params.photoId, req.userId, 'editor');
+
+    const validation = updateFacesSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new AppError(400, `Invalid face update: ${validation.error.errors.map(e => e.message).join(', ')}`);
+    }
+
+    const faceRows = await storage.getFacesByPhoto(photo.id);
+    for (const update of validation.data.faces) {
+      if (!faceRows.some(row => row.id === update.id)) {
+        throw new AppError(404, `Face ${update.id} not found on this photo`);
+      }
+    }
+
+    for (const update of validation.data.faces) {
+      await storage.updateFace(update.id, { excluded: update.excluded });
+    }
+    const faces = await storage.getFacesByPhoto(photo.id);
+
+    // Re-score the stored analysis without re-running detection
+    let analysis: PhotoAnalysisResult | null = null;
+    if (photo.analysisData && typeof photo.analysisData === 'object') {
+      analysis = photoAnalysisService.applyFaceExclusions(photo.analysisData as PhotoAnalysisResult, excludedFaceIds(faces));
+      await storage.updatePhoto(photo.id, {
+        analysisData: analysis,
+        qualityScore: analysis.overallQualityScore.toString(),
+      });
     }
+
+    res.json({ photoId: photo.id, faces, analysis });
+  }));
+
+  app.delete("/api/photos/:photoId", apiLimiter, isAuthenticated, validateUUID("photoId"), asyncHandler(async (req: any, res) => {
+    const { photo } = await authorizePhoto(req.params.photoId, req.userId, 'editor');
     
-    const wasBest = photo.isSelectedBest;
+    await deletePhotoFromSession(photo);
     
-    // Delete the photo
-    await storage.deletePhoto(req.params.photoId);
+    res.json({ success: true });
+  }));
+
+  // Delete a photo and keep its session's photo count and best photo in step
+  async function deletePhotoFromSession(photo: Photo): Promise<void> {
+    await storage.deletePhoto(photo.id);
     
     // Update session photo count
     const remainingPhotos = await storage.getPhotosBySession(photo.sessionId);
@@ -1127,13 +1628,74 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
     
     // If this was the best photo, clear the best photo ID
-    if (wasBest) {
+    if (photo.isSelectedBest) {
       await storage.updateSession(photo.sessionId, {
         bestPhotoId: null,
       });
     }
-    
-    res.json({ success: true });
+  }
+
+  // Duplicate routes
+
+  // Duplicates flagged across the user's whole library
+  app.get("/api/duplicates", apiLimiter, isAuthenticated, asyncHandler(async (req: any, res) => {
+    res.json(await listDuplicates(req.userId));
+  }));
+
+  // Duplicates flagged among one session's photos (the photo they duplicate may be in another session)
+  app.get("/api/sessions/:sessionId/duplicates", apiLimiter, isAuthenticated, validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
+    const { session } = await authorizeSession(req.params.sessionId, req.userId, 'viewer');
+
+    // Uploads flag duplicates within the owner's library, whoever is looking
+    res.json(await listDuplicates(session.userId, session.id));
+  }));
+
+  // Keep (unflag) or delete flagged duplicates in bulk; every photo is checked before any change
+  const resolveDuplicatesSchema = z.object({
+    resolutions: z.array(z.object({
+      photoId: z.string().uuid(),
+      action: z.enum(['keep', 'delete']),
+    })).min(1).max(500),
+  });
+
+  app.post("/api/duplicates/resolve", apiLimiter, isAuthenticated, asyncHandler(async (req: any, res) => {
+    const userId = req.userId;
+
+    const parsed = resolveDuplicatesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(400, `Invalid duplicate resolution: ${parsed.error.errors.map(e => e.message).join(', ')}`);
+    }
+
+    const resolutions: Array<{ photo: Photo; action: 'keep' | 'delete' }> = [];
+    for (const { photoId, action } of parsed.data.resolutions) {
+      const photo = await storage.getPhoto(photoId);
+      if (!photo) {
+        throw new AppError(404, `Photo ${photoId} not found`);
+      }
+      await authorizeSession(photo.sessionId, userId, 'editor');
+
+      if (!photo.duplicateOfPhotoId) {
+        throw new AppError(409, `Photo ${photoId} is not flagged as a duplicate`);
+      }
+
+      resolutions.push({ photo, action });
+    }
+
+    let kept = 0;
+    let deleted = 0;
+    for (const { photo, action } of resolutions) {
+      if (action === 'delete') {
+        await deletePhotoFromSession(photo);
+        deleted++;
+      } else {
+        await storage.updatePhoto(photo.id, { duplicateOfPhotoId: null, duplicateKind: null });
+        kept++;
+      }
+    }
+
+    logger.info('Resolved duplicate photos', { userId, kept, deleted });
+
+    res.json({ kept, deleted });
   }));
 
   // Photo Grouping API Routes
@@ -1143,490 +1705,72 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const userId = req.userId;
     const sessionId = req.params.sessionId;
     
-    try {
-      logger.info(`Starting grouping analysis for session ${sessionId}`, { userId });
-      
-      // Verify user owns this session
-      const session = await storage.getSession(sessionId);
-      if (!session) {
-        logger.error(`Session not found: ${sessionId}`, { userId });
-        throw new AppError(404, "Session not found");
-      }
-      
-      if (session.userId !== userId) {
-        logger.error(`Access denied for session ${sessionId}`, { userId, sessionUserId: session.userId });
-        throw new AppError(403, "Forbidden");
-      }
-      
-      // Check if session supports bulk mode
-      if (!session.bulkMode) {
-        logger.warn(`Session ${sessionId} not in bulk mode`, { userId });
-        await storage.updateSession(sessionId, { bulkMode: true });
-      }
-      
-      // Get photos in the session
-      const photos = await storage.getPhotosBySession(sessionId);
-      logger.info(`Photo count check for grouping`, {
-        sessionId,
-        userId,
-        photoCount: photos.length,
-        photoIds: photos.map(p => p.id).slice(0, 5) // Log first 5 photo IDs for debugging
-      });
+    logger.info(`Starting grouping analysis for session ${sessionId}`, { userId });
+    
+    const { session } = await authorizeSession(sessionId, userId, 'editor');
+    
+    // Check if session supports bulk mode
+    if (!session.bulkMode) {
+      logger.warn(`Session ${sessionId} not in bulk mode`, { userId });
+      await storage.updateSession(sessionId, { bulkMode: true });
+    }
+    
+    const photoCount = await storage.countPhotosBySession(sessionId);
 
-      if (photos.length < 2) {
-        logger.warn(`Insufficient photos for grouping: ${photos.length} < 2`, { sessionId, userId });
-        throw new AppError(400, `Need at least 2 photos to perform grouping. Currently found ${photos.length} photo(s). Please ensure uploads have completed before starting grouping.`);
-      }
-      
-      // Get grouping options from request body
-      const { similarityThreshold, targetGroupSize, minGroupSize, maxGroupSize } = req.body;
-      
-      // Validate grouping parameters
-      const groupingOptions = {
-        similarityThreshold: similarityThreshold ? parseFloat(similarityThreshold) : undefined,
-        maxGroupSize: maxGroupSize ? parseInt(maxGroupSize) : undefined,
-        minGroupSize: minGroupSize ? parseInt(minGroupSize) : undefined,
-      };
-      
-      logger.info(`Grouping options configured`, {
-        sessionId,
-        userId,
-        photoCount: photos.length,
-        options: groupingOptions
-      });
-      
-      // Validate photoGroupingService is available
-      if (!photoGroupingService) {
-        logger.error(`photoGroupingService not available`, { sessionId, userId });
-        throw new AppError(500, "Grouping service not initialized");
-      }
-      
-      // Check dependencies before starting grouping
-      const dependencyCheck = photoGroupingService.checkDependencies();
-      if (!dependencyCheck.available) {
-        logger.error(`Grouping dependencies missing`, {
-          sessionId,
-          userId,
-          missingDependencies: dependencyCheck.missingDependencies
-        });
-        throw new AppError(500, `AI grouping service unavailable. Missing dependencies: ${dependencyCheck.missingDependencies.join(', ')}. Please ensure all required packages are installed.`);
-      }
+    if (photoCount < 2) {
+      logger.warn(`Insufficient photos for grouping: ${photoCount} < 2`, { sessionId, userId });
+      throw new AppError(400, `Need at least 2 photos to perform grouping. Currently found ${photoCount} photo(s). Please ensure uploads have completed before starting grouping.`);
+    }
     
-      // CRITICAL: Check if photos have been analyzed (have quality scores)
-      // For bulk uploads, photos need to be analyzed BEFORE grouping to select best photo from each scene
-      // Check for both qualityScore and analysisData to ensure complete analysis
-      const photosNeedingAnalysis = photos.filter(p => {
-        const hasQualityScore = p.qualityScore && parseFloat(p.qualityScore) > 0;
-        const hasAnalysisData = p.analysisData && (
-          typeof p.analysisData === 'object' || 
-          (typeof p.analysisData === 'string' && p.analysisData.length > 0)
-        );
-        return !hasQualityScore || !hasAnalysisData;
-      });
-      let needsAnalysis = photosNeedingAnalysis.length > 0; // Use let so it's accessible after the if block
-      
-      if (needsAnalysis) {
-        logger.info(`Photos need analysis before grouping`, {
-          sessionId,
-          userId,
-          totalPhotos: photos.length,
-          needsAnalysis: photosNeedingAnalysis.length,
-          alreadyAnalyzed: photos.length - photosNeedingAnalysis.length,
-          photosNeedingAnalysis: photosNeedingAnalysis.map(p => ({ id: p.id, hasQualityScore: !!p.qualityScore, hasAnalysisData: !!p.analysisData }))
-        });
-        
-        // Update session status to analyzing
-        await storage.updateSession(sessionId, {
-          status: "analyzing",
-        });
-        
-        try {
-          // Analyze all photos first (not just the ones needing analysis, to ensure consistency)
-          logger.info(`Starting photo analysis before grouping`, {
-            sessionId,
-            userId,
-            photoCount: photos.length,
-            analyzingAll: true // Analyze all to ensure consistency
-          });
-          
-          const analysisResult = await photoAnalysisService.analyzeSession(
-            sessionId,
-            photos.map(p => ({ id: p.id, fileUrl: p.fileUrl }))
-          );
-          
-          logger.info(`Photo analysis completed`, {
-            sessionId,
-            userId,
-            analyzedCount: analysisResult.analyses.length,
-            bestPhotoId: analysisResult.bestPhotoId,
-            expectedCount: photos.length
-          });
-          
-          // Verify all photos were analyzed
-          if (analysisResult.analyses.length !== photos.length) {
-            logger.warn(`Analysis count mismatch`, {
-              sessionId,
-              userId,
-              analyzedCount: analysisResult.analyses.length,
-              expectedCount: photos.length,
-              missingPhotos: photos.length - analysisResult.analyses.length
-            });
-          }
-          
-          // Update photos with analysis results
-          let updateCount = 0;
-          for (const analysis of analysisResult.analyses) {
-            try {
-              await storage.updatePhoto(analysis.photoId, {
-                qualityScore: analysis.overallQualityScore.toString(),
-                analysisData: analysis,
-              });
-              updateCount++;
-            } catch (updateError) {
-              logger.error(`Failed to update photo ${analysis.photoId} with analysis data`, {
-                sessionId,
-                userId,
-                photoId: analysis.photoId,
-                error: updateError instanceof Error ? updateError.message : 'Unknown error'
-              });
-              // Continue with other photos even if one fails
-            }
-          }
-          
-          logger.info(`Photos updated with analysis data`, {
-            sessionId,
-            userId,
-            updateCount,
-            expectedCount: analysisResult.analyses.length
-          });
-          
-          // Reload photos to get updated quality scores and verify analysis succeeded
-          const updatedPhotos = await storage.getPhotosBySession(sessionId);
-          photos.length = 0; // Clear array
-          photos.push(...updatedPhotos); // Replace with updated photos
-          
-          // Verify all photos now have analysis data
-          const stillMissingAnalysis = photos.filter(p => {
-            const hasQualityScore = p.qualityScore && parseFloat(p.qualityScore) > 0;
-            const hasAnalysisData = p.analysisData && (
-              typeof p.analysisData === 'object' || 
-              (typeof p.analysisData === 'string' && p.analysisData.length > 0)
-            );
-            return !hasQualityScore || !hasAnalysisData;
-          });
-          
-          if (stillMissingAnalysis.length > 0) {
-            logger.error(`Some photos still missing analysis after update`, {
-              sessionId,
-              userId,
-              missingCount: stillMissingAnalysis.length,
-              photoIds: stillMissingAnalysis.map(p => p.id)
-            });
-            throw new AppError(500, `Failed to analyze ${stillMissingAnalysis.length} photo(s). Analysis may have partially failed.`);
-          }
-          
-          logger.info(`All photos successfully analyzed and verified`, {
-            sessionId,
-            userId,
-            totalPhotos: photos.length,
-            allHaveQualityScores: photos.every(p => p.qualityScore && parseFloat(p.qualityScore) > 0),
-            allHaveAnalysisData: photos.every(p => p.analysisData)
-          });
-          
-        } catch (analysisError) {
-          logger.error(`Photo analysis failed before grouping`, {
-            sessionId,
-            userId,
-            error: analysisError instanceof Error ? analysisError.message : 'Unknown error',
-            stack: analysisError instanceof Error ? analysisError.stack : undefined,
-          });
-          
-          // Update session status to failed
-          await storage.updateSession(sessionId, {
-            status: "failed",
-          }).catch(() => {
-            // Ignore errors updating status
-          });
-          
-          // Re-throw AppError instances as-is, wrap others
-          if (analysisError instanceof AppError) {
-            throw analysisError;
-          }
-          throw new AppError(500, `Photo analysis failed before grouping: ${analysisError instanceof Error ? analysisError.message : 'Unknown error'}`);
-        }
-      } else {
-        logger.info(`All photos already analyzed, proceeding directly to grouping`, {
-          sessionId,
-          userId,
-          photoCount: photos.length,
-          allHaveQualityScores: photos.every(p => p.qualityScore && parseFloat(p.qualityScore) > 0),
-          allHaveAnalysisData: photos.every(p => p.analysisData)
-        });
+    // Get grouping options from request body
+    const { similarityThreshold, targetGroupSize, minGroupSize, maxGroupSize, groupingAlgorithm } = req.body;
+
+    // The session remembers the clustering strategy for later regrouping
+    if (groupingAlgorithm !== undefined) {
+      if (!GROUPING_ALGORITHMS.includes(groupingAlgorithm)) {
+        throw new AppError(400, `Invalid grouping algorithm: expected one of ${GROUPING_ALGORITHMS.join(', ')}`);
       }
+      await storage.updateSession(sessionId, { groupingAlgorithm });
+    }
     
-      // Perform grouping analysis with error handling
-      logger.info(`Starting photo grouping service`, { sessionId, userId, photoCount: photos.length });
-      
-      try {
-        const clusters = await photoGroupingService.groupSessionPhotos(sessionId, groupingOptions);
-        
-        logger.info(`Grouping analysis completed successfully`, {
-          sessionId,
-          userId,
-          clustersFound: clusters.length,
-          photosProcessed: photos.length,
-          // Add detailed cluster info
-          clusterSizes: clusters.map(c => c.photoIds.length),
-          clusterConfidences: clusters.map(c => c.confidence.toFixed(3)),
-          options: groupingOptions
-        });
-        
-        // Update session with grouping metadata
-        await storage.updateSession(sessionId, {
-          bulkMode: true,
-          targetGroupSize: targetGroupSize ? parseInt(targetGroupSize) : 5,
-        });
-        
-        // Delete existing groups for this session
-        const existingGroups = await storage.getGroupsBySession(sessionId);
-        await Promise.all(existingGroups.map(group => storage.deleteGroup(group.id)));
-        
-        logger.info(`Cleared existing groups`, { sessionId, deletedGroups: existingGroups.length });
-        
-        // Create new groups from clusters
-        const createdGroups = [];
-        
-        for (const cluster of clusters) {
-          // Get photo details for quality scoring
-          const clusterPhotos = photos.filter(p => cluster.photoIds.includes(p.id));
-          
-          // Find the best photo in this cluster (highest quality score)
-          // This is the key step: select the best photo from each scene/group
-          let bestPhotoId: string | null = null;
-          let bestQualityScore = -1;
-          
-          for (const photo of clusterPhotos) {
-            // Parse quality score - if analysis was done, this should be populated
-            const qualityScore = photo.qualityScore ? parseFloat(photo.qualityScore) : 0;
-            
-            // Also check analysisData for quality score if qualityScore field is missing
-            let effectiveQualityScore = qualityScore;
-            if (effectiveQualityScore === 0 && photo.analysisData) {
-              try {
-                const analysisData = typeof photo.analysisData === 'string' 
-                  ? JSON.parse(photo.analysisData) 
-                  : photo.analysisData;
-                if (analysisData?.overallQualityScore) {
-                  effectiveQualityScore = typeof analysisData.overallQualityScore === 'number' 
-                    ? analysisData.overallQualityScore 
-                    : parseFloat(analysisData.overallQualityScore);
-                }
-              } catch (e) {
-                logger.warn(`Failed to parse analysisData for photo ${photo.id}`, { error: e });
-              }
-            }
-            
-            if (effectiveQualityScore > bestQualityScore) {
-              bestQualityScore = effectiveQualityScore;
-              bestPhotoId = photo.id;
-            }
-          }
-          
-          // If no quality scores available (shouldn't happen if analysis ran), use first photo as fallback
-          if (!bestPhotoId && clusterPhotos.length > 0) {
-            bestPhotoId = clusterPhotos[0].id;
-            logger.warn(`No quality scores found for cluster, using first photo as best (analysis may have failed)`, {
-              sessionId,
-              clusterId: cluster.id,
-              photoId: bestPhotoId,
-              photoCount: clusterPhotos.length
-            });
-          }
-          
-          if (bestPhotoId) {
-            logger.info(`Selected best photo for scene/group`, {
-              sessionId,
-              clusterId: cluster.id,
-              bestPhotoId,
-              qualityScore: bestQualityScore,
-              totalPhotosInScene: clusterPhotos.length
-            });
-          }
-          
-          // Create the group with best photo ID
-          const group = await storage.createGroup({
-            sessionId,
-            name: `Group ${createdGroups.length + 1}`,
-            groupType: 'auto',
-            confidenceScore: cluster.confidence.toString(),
-            similarityScore: cluster.avgSimilarity.toString(),
-            timeWindowStart: cluster.timeWindow.start,
-            timeWindowEnd: cluster.timeWindow.end,
-            bestPhotoId: bestPhotoId || undefined,
-          });
-          
-          // Add photos to the group
-          for (const photoId of cluster.photoIds) {
-            await storage.addPhotoToGroup(group.id, photoId, {
-              confidenceScore: cluster.confidence.toString(),
-            });
-          }
-          
-          // Mark the best photo in the group (ONLY if group has 2+ photos)
-          // Don't mark singletons as "best" - that's meaningless
-          if (bestPhotoId && cluster.photoIds.length >= 2) {
-            await storage.updatePhoto(bestPhotoId, { isSelectedBest: true });
-            logger.info(`Set best photo for group`, {
-              sessionId,
-              groupId: group.id,
-              bestPhotoId,
-              qualityScore: bestQualityScore,
-              totalPhotosInGroup: cluster.photoIds.length
-            });
-          } else if (cluster.photoIds.length === 1) {
-            logger.info(`Skipping best photo mark for singleton group`, {
-              sessionId,
-              groupId: group.id,
-              photoId: cluster.photoIds[0]
-            });
-          }
-          
-          createdGroups.push({
-            ...group,
-            photoCount: cluster.photoIds.length,
-            photoIds: cluster.photoIds,
-            bestPhotoId,
-          });
-        }
-        
-        // Verify all groups have best photos selected
-        const groupsWithoutBestPhoto = createdGroups.filter(g => !g.bestPhotoId);
-        if (groupsWithoutBestPhoto.length > 0) {
-          logger.warn(`Some groups missing best photo selection`, {
-            sessionId,
-            userId,
-            groupsWithoutBestPhoto: groupsWithoutBestPhoto.length,
-            totalGroups: createdGroups.length
-          });
-        }
-        
-        // Verify all best photos have quality scores (they should, since we analyzed before grouping)
-        const bestPhotoIds = createdGroups.filter(g => g.bestPhotoId).map(g => g.bestPhotoId!);
-        const bestPhotos = photos.filter(p => bestPhotoIds.includes(p.id));
-        const bestPhotosWithoutQuality = bestPhotos.filter(p => !p.qualityScore || parseFloat(p.qualityScore) === 0);
-        if (bestPhotosWithoutQuality.length > 0) {
-          logger.error(`Best photos selected but missing quality scores - this should not happen`, {
-            sessionId,
-            userId,
-            missingQualityCount: bestPhotosWithoutQuality.length,
-            photoIds: bestPhotosWithoutQuality.map(p => p.id)
-          });
-        }
-        
-        logger.info(`Successfully created groups`, {
-          sessionId,
-          userId,
-          groupsCreated: createdGroups.length,
-          totalPhotos: createdGroups.reduce((sum, g) => sum + g.photoCount, 0),
-          groupsWithBestPhoto: createdGroups.filter(g => g.bestPhotoId).length,
-          groupsWithoutBestPhoto: groupsWithoutBestPhoto.length,
-          allBestPhotosHaveQualityScores: bestPhotosWithoutQuality.length === 0,
-          groupDetails: createdGroups.map(g => ({
-            id: g.id,
-            photoCount: g.photoCount,
-            bestPhotoId: g.bestPhotoId,
-            confidenceScore: g.confidenceScore
-          }))
-        });
-        
-        // Update session status to completed after successful grouping
-        await storage.updateSession(sessionId, {
-          status: "completed",
-        });
-        
-        res.json({
-          sessionId,
-          groups: createdGroups,
-          totalGroups: createdGroups.length,
-          options: groupingOptions,
-          analysisCompleted: needsAnalysis, // Indicate if analysis was run as part of this request
-        });
-        
-      } catch (groupingError) {
-        logger.error(`Grouping service failed`, {
-          sessionId,
-          userId,
-          error: groupingError instanceof Error ? groupingError.message : 'Unknown error',
-          stack: groupingError instanceof Error ? groupingError.stack : undefined,
-          isDependencyError: (groupingError as any).isDependencyError,
-          missingDependencies: (groupingError as any).missingDependencies
-        });
-        
-        // IMPORTANT: If analysis succeeded but grouping failed, still mark as completed
-        // Analysis is what enables comparison view, so users should still be able to compare photos
-        const allPhotosAnalyzed = photos.every(p => 
-          p.qualityScore && parseFloat(p.qualityScore) > 0 && p.analysisData
-        );
-        
-        if (allPhotosAnalyzed) {
-          logger.warn(`Grouping failed but analysis succeeded - marking session as completed anyway`, {
-            sessionId,
-            userId,
-            photoCount: photos.length,
-            groupingError: groupingError instanceof Error ? groupingError.message : 'Unknown error'
-          });
-          
-          // Mark session as completed even though grouping failed
-          await storage.updateSession(sessionId, {
-            status: "completed",
-          });
-          
-          // Return partial success - analysis worked, grouping didn't
-          res.json({
-            sessionId,
-            groups: [],
-            totalGroups: 0,
-            options: groupingOptions,
-            analysisCompleted: true,
-            groupingFailed: true,
-            message: `Photos analyzed successfully, but grouping failed: ${groupingError instanceof Error ? groupingError.message : 'Unknown error'}. You can still view and compare your photos.`,
-          });
-          return;
-        }
-        
-        // If analysis also failed, throw error as before
-        // Check if it's a dependency error (either from string match or explicit flag)
-        const errorMessage = groupingError instanceof Error ? groupingError.message.toLowerCase() : '';
-        const isDependencyError = (groupingError as any).isDependencyError || 
-                                errorMessage.includes('tensorflow') || 
-                                errorMessage.includes('canvas') || 
-                                errorMessage.includes('module') ||
-                                errorMessage.includes('import') ||
-                                errorMessage.includes('missing dependencies');
-        
-        if (isDependencyError) {
-          const missingDeps = (groupingError as any).missingDependencies || ['Unknown'];
-          throw new AppError(500, `AI grouping service unavailable. Missing dependencies: ${Array.isArray(missingDeps) ? missingDeps.join(', ') : missingDeps}. Please ensure all required packages are installed: @tensorflow/tfjs-node, @vladmandic/face-api, canvas`);
-        } else {
-          throw new AppError(500, `Grouping analysis failed: ${groupingError instanceof Error ? groupingError.message : 'Unknown error'}`);
-        }
-      }
-      
-    } catch (error) {
-      logger.error('Grouping analysis failed', {
+    // Validate grouping parameters
+    const groupingOptions = {
+      similarityThreshold: similarityThreshold ? parseFloat(similarityThreshold) : undefined,
+      maxGroupSize: maxGroupSize ? parseInt(maxGroupSize) : undefined,
+      minGroupSize: minGroupSize ? parseInt(minGroupSize) : undefined,
+    };
+    
+    // Check dependencies before queueing so the client gets an immediate, specific error
+    const dependencyCheck = photoGroupingService.checkDependencies();
+    if (!dependencyCheck.available) {
+      logger.error(`Grouping dependencies missing`, {
         sessionId,
         userId,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        stack: error instanceof Error ? error.stack : undefined
+        missingDependencies: dependencyCheck.missingDependencies
       });
-      
-      // Don't re-throw AppError instances
-      if (error instanceof AppError) {
-        throw error;
-      }
-      
-      throw new AppError(500, `Grouping analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new AppError(500, `AI grouping service unavailable. Missing dependencies: ${dependencyCheck.missingDependencies.join(', ')}. Please ensure all required packages are installed.`);
     }
+
+    // Analysis + grouping runs in the background job worker; follow /progress for updates
+    const job = await enqueueSessionJob('group-analyze', sessionId, userId, {
+      groupingOptions,
+      targetGroupSize: targetGroupSize ? parseInt(targetGroupSize) : undefined,
+    } satisfies GroupAnalyzeJobPayload);
+
+    logger.info(`Grouping analysis queued`, {
+      sessionId,
+      userId,
+      jobId: job.id,
+      photoCount,
+      options: groupingOptions
+    });
+
+    res.status(202).json({
+      sessionId,
+      jobId: job.id,
+      status: job.status,
+      options: groupingOptions,
+    });
   }));
 
   // Get all groups with their photos and analysis data
@@ -1635,49 +1779,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const sessionId = req.params.sessionId;
     
     // Verify user owns this session
-    const session = await storage.getSession(sessionId);
-    if (!session || session.userId !== userId) {
-      throw new AppError(403, "Forbidden");
-    }
-    
-    // Get groups for this session
-    const groups = await storage.getGroupsBySession(sessionId);
+    const { session } = await authorizeSession(sessionId, userId, 'viewer');
     
-    // Enrich groups with photo data
-    const enrichedGroups = await Promise.all(
-      groups.map(async (group) => {
-        // Get memberships for this group
-        const memberships = await storage.getMembershipsByGroup(group.id);
-        
-        // Get photos for this group
-        const photos = await Promise.all(
-          memberships.map(async (membership) => {
-            const photo = await storage.getPhoto(membership.photoId);
-            return photo ? {
-              ...photo,
-              confidenceScore: membership.confidenceScore ? parseFloat(membership.confidenceScore) : undefined,
-              isExcluded: membership.isExcluded,
-              userNotes: membership.userNotes,
-            } : null;
-          })
-        );
-        
-        // Filter out null photos and sort by upload order
-        const validPhotos = photos.filter(Boolean).sort((a, b) => (a?.uploadOrder || 0) - (b?.uploadOrder || 0));
-        
-        // Get best photo if set
-        const bestPhoto = validPhotos.find(p => p?.id === group.bestPhotoId);
-        
-        return {
-          ...group,
-          photoCount: validPhotos.length,
-          photos: validPhotos,
-          bestPhoto,
-          confidenceScore: group.confidenceScore ? parseFloat(group.confidenceScore) : undefined,
-          similarityScore: group.similarityScore ? parseFloat(group.similarityScore) : undefined,
-        };
-      })
-    );
+    // Get groups for this session, enriched with photo data
+    const enrichedGroups = await bulkSessionService.getGroupsWithPhotos(sessionId);
     
     res.json({
       sessionId,
@@ -1697,11 +1802,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       throw new AppError(400, "sessionId, name, and photoIds are required");
     }
     
-    // Verify user owns the session
-    const session = await storage.getSession(sessionId);
-    if (!session || session.userId !== userId) {
-      throw new AppError(403, "Forbidden");
-    }
+    await authorizeSession(sessionId, userId, 'editor');
     
     // Verify all photos belong to the session
     const photos = await Promise.all(
@@ -1767,31 +1868,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }));
 
+  const mergeGroupsSchema = z.object({
+    action: z.literal('merge'),
+    groupIds: z.array(z.string().uuid()).min(1),
+  });
+
+  const splitGroupSchema = z.object({
+    action: z.literal('split'),
+    partitions: z.array(z.array(z.string().uuid()).min(1)).min(2).optional(),
+    similarityThreshold: z.number().min(0).max(1).optional(),
+  });
+
   // Update group settings or merge/split groups
   app.patch("/api/groups/:groupId", isAuthenticated, validateUUID("groupId"), asyncHandler(async (req: any, res) => {
     const userId = req.userId;
     const groupId = req.params.groupId;
     const { name, bestPhotoId, action } = req.body;
     
-    // Get the group
-    const group = await storage.getGroup(groupId);
-    if (!group) {
-      throw new AppError(404, "Group not found");
-    }
-    
-    // Verify user owns the session
-    const session = await storage.getSession(group.sessionId);
-    if (!session || session.userId !== userId) {
-      throw new AppError(403, "Forbidden");
-    }
+    const { group } = await authorizeGroup(groupId, userId, 'editor');
     
     try {
       if (action === 'merge') {
-        // Merge functionality would require additional group IDs to merge with
-        throw new AppError(501, "Merge functionality not yet implemented");
+        const parsed = mergeGroupsSchema.safeParse(req.body);
+        if (!parsed.success) {
+          throw new AppError(400, `Invalid merge request: ${parsed.error.errors.map(e => e.message).join(', ')}`);
+        }
+
+        const merged = await groupEditService.merge(group, parsed.data.groupIds);
+        res.json({ group: merged, mergedGroupIds: parsed.data.groupIds });
       } else if (action === 'split') {
-        // Split functionality would create multiple groups from current group
-        throw new AppError(501, "Split functionality not yet implemented");
+        const parsed = splitGroupSchema.safeParse(req.body);
+        if (!parsed.success) {
+          throw new AppError(400, `Invalid split request: ${parsed.error.errors.map(e => e.message).join(', ')}`);
+        }
+
+        const groups = await groupEditService.split(group, parsed.data);
+        res.json({ groups });
       } else {
         // Update group properties
         const updateData: any = {};
@@ -1806,6 +1918,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         res.json(updatedGroup);
       }
     } catch (error) {
+      if (error instanceof AppError) throw error;
+
       logger.error('Failed to update group', {
         groupId,
         userId,
@@ -1816,25 +1930,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }));
 
+  const updateMembershipSchema = z.object({
+    isExcluded: z.boolean().optional(),
+    userNotes: z.string().max(2000).nullable().optional(),
+  }).refine(data => data.isExcluded !== undefined || data.userNotes !== undefined, {
+    message: "isExcluded or userNotes is required",
+  });
+
+  const movePhotoSchema = z.object({
+    toGroupId: z.string().uuid(),
+  });
+
+  // Exclude a photo from best-photo selection and/or annotate it within a group
+  app.patch("/api/groups/:groupId/photos/:photoId", apiLimiter, isAuthenticated, validateUUID("groupId"), validateUUID("photoId"), asyncHandler(async (req: any, res) => {
+    const { group } = await authorizeGroup(req.params.groupId, req.userId, 'editor');
+
+    const parsed = updateMembershipSchema.safeParse(req.body || {});
+    if (!parsed.success) {
+      throw new AppError(400, `Invalid membership update: ${parsed.error.errors.map(e => e.message).join(', ')}`);
+    }
+
+    const membership = await groupEditService.updateMember(group, req.params.photoId, parsed.data);
+    const updatedGroup = await storage.getGroup(group.id);
+
+    res.json({ membership, group: updatedGroup });
+  }));
+
+  // Move a photo from this group to another group in the same session
+  app.post("/api/groups/:groupId/photos/:photoId/move", apiLimiter, isAuthenticated, validateUUID("groupId"), validateUUID("photoId"), asyncHandler(async (req: any, res) => {
+    const { group } = await authorizeGroup(req.params.groupId, req.userId, 'editor');
+
+    const parsed = movePhotoSchema.safeParse(req.body || {});
+    if (!parsed.success) {
+      throw new AppError(400, `Invalid move request: ${parsed.error.errors.map(e => e.message).join(', ')}`);
+    }
+
+    const groups = await groupEditService.movePhoto(group, req.params.photoId, parsed.data.toGroupId);
+    res.json({ groups, deletedGroupId: groups.some(g => g.id === group.id) ? undefined : group.id });
+  }));
+
   // Run best photo analysis on a specific group
   app.post("/api/groups/:groupId/analyze", isAuthenticated, validateUUID("groupId"), asyncHandler(async (req: any, res) => {
     const userId = req.userId;
     const groupId = req.params.groupId;
     
-    // Get the group
-    const group = await storage.getGroup(groupId);
-    if (!group) {
-      throw new AppError(404, "Group not found");
-    }
-    
-    // Verify user owns the session
-    const session = await storage.getSession(group.sessionId);
-    if (!session || session.userId !== userId) {
-      throw new AppError(403, "Forbidden");
-    }
+    const { group } = await authorizeGroup(groupId, userId, 'editor');
     
-    // Get photos in the group
-    const memberships = await storage.getMembershipsByGroup(groupId);
+    // Get photos in the group; excluded members are never candidates for best photo
+    const memberships = (await storage.getMembershipsByGroup(groupId)).filter(m => !m.isExcluded);
     if (memberships.length === 0) {
       throw new AppError(400, "No photos found in group");
     }
@@ -1855,7 +1998,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Use the existing photo analysis service to find the best photo in this group
       const { analyses, bestPhotoId } = await photoAnalysisService.analyzeSession(
         `${group.sessionId}-${groupId}`, // Unique session ID for group analysis
-        validPhotos.map(p => ({ id: p!.id, fileUrl: p!.fileUrl }))
+        validPhotos.map(p => p!),
+        undefined,
+        undefined,
+        await resolveScoringProfileForSession(group.sessionId),
+        undefined,
+        await getVoteScores(validPhotos.map(p => p!.id))
       );
       
       // Update the group with the best photo
@@ -1868,13 +2016,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         await storage.updatePhoto(analysis.photoId, {
           qualityScore: analysis.overallQualityScore.toString(),
           analysisData: analysis,
+          analysisStatus: 'analyzed',
+          analysisError: null,
         });
       }
+
+      // Keep person indices consistent with the rest of the session
+      const identified = await identifySessionFaces(group.sessionId);
       
       res.json({
         groupId,
         bestPhotoId,
-        analyses,
+        analyses: analyses.map(a => identified.get(a.photoId) ?? a),
         photoCount: validPhotos.length,
       });
       
@@ -1888,6 +2041,208 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }));
 
+  // Bulk session routes (upload many photos, auto-group, analyze each group)
+  const bulkSessionSettingsSchema = z.object({
+    similarityThreshold: z.number().min(0).max(1).optional(),
+    enableFaceDetection: z.boolean().optional(),
+    enableQualityAnalysis: z.boolean().optional(),
+  });
+
+  const createBulkSessionSchema = z.object({
+    name: z.string().min(1).max(255),
+    description: z.string().max(2000).optional(),
+    groupingAlgorithm: z.enum(GROUPING_ALGORITHMS).optional(),
+    settings: bulkSessionSettingsSchema.optional(),
+  });
+
+  // Fails fast before any changes; start and retry claim the session atomically themselves
+  function assertBulkSessionIdle(session: PhotoSession) {
+    if (bulkSessionService.isBusy(session)) {
+      throw new AppError(409, "Session is already being processed");
+    }
+  }
+
+  app.post("/api/bulk-sessions", apiLimiter, isAuthenticated, asyncHandler(async (req: any, res) => {
+    const userId = req.userId;
+
+    const parsed = createBulkSessionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new AppError(400, `Invalid bulk session data: ${parsed.error.errors.map(e => e.message).join(', ')}`);
+    }
+
+    const { name, description, groupingAlgorithm, settings } = parsed.data;
+    const session = await storage.createSession({
+      userId,
+      name,
+      description,
+      groupingAlgorithm,
+      bulkMode: true,
+      bulkSettings: settings || {},
+    });
+
+    logger.info('Bulk session created', { sessionId: session.id, userId });
+
+    res.status(201).json({
+      sessionId: session.id,
+      session: bulkSessionService.toSummary(session, []),
+    });
+  }));
+
+  app.get("/api/bulk-sessions/:sessionId", apiLimiter, isAuthenticated, validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
+    const { session } = await authorizeSession(req.params.sessionId, req.userId, 'viewer');
+
+    const photos = await storage.getPhotosBySession(session.id);
+    const groups = await bulkSessionService.getGroupsWithPhotos(session.id);
+
+    res.json({
+      ...bulkSessionService.toSummary(session, photos),
+      groups,
+      progress: await bulkSessionService.getProgress(session, photos),
+    });
+  }));
+
+  // Upload one photo into a bulk session (R2 upload and photo record in one request)
+  app.post("/api/bulk-sessions/:sessionId/photos", uploadLimiter, isAuthenticated, validateUUID("sessionId"), upload.single('file'), asyncHandler(async (req: any, res) => {
+    const { session } = await authorizeSession(req.params.sessionId, req.userId, 'editor');
+
+    if (!req.file) {
+      throw new AppError(400, "No file uploaded");
+    }
+
+    if (bulkSessionService.isActiveStatus(session.status)) {
+      throw new AppError(409, "Cannot add photos while the session is being processed");
+    }
+
+    // Read EXIF from the original file; HEIC conversion doesn't carry it over
+    const exif = await extractExifMetadata(req.file.buffer);
+    const converted = await convertHeicIfNeeded(req.file.buffer, req.file.mimetype);
+    const { buffer, mimetype } = await normalizeOrientation(converted.buffer, converted.mimetype);
+    const rendered = await renderRenditions(buffer);
+    const hashes = await hashPhotoFile(buffer);
+
+    const r2Storage = new R2StorageService();
+    const aclPolicy = ownerAclPolicy(req.userId);
+    const { objectKey } = await r2Storage.uploadFile(buffer, mimetype, undefined, aclPolicy);
+    const renditions = rendered ? await uploadRenditions(r2Storage, objectKey, rendered, aclPolicy) : undefined;
+
+    const photoCount = await storage.countPhotosBySession(session.id);
+    const created = await storage.createPhoto(insertPhotoSchema.parse({
+      sessionId: session.id,
+      fileUrl: `/objects/${objectKey}`,
+      originalFilename: req.file.originalname,
+      uploadOrder: photoCount,
+      ...hashes,
+      ...exif,
+      ...renditions,
+    }));
+    const photo = await flagIfDuplicate(created, session.userId);
+
+    await storage.updateSession(session.id, {
+      photoCount: photoCount + 1,
+      status: 'uploading',
+    });
+
+    res.status(201).json(photo);
+  }));
+
+  // Bulk progress: JSON for polling, or an SSE stream when the client asks for text/event-stream
+  app.get("/api/bulk-sessions/:sessionId/progress", isStreamAuthenticated('grouping'), validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
+    const { session } = await authorizeSession(req.params.sessionId, req.userId, 'viewer');
+
+    if (!req.headers.accept?.includes('text/event-stream')) {
+      const photos = await storage.getPhotosBySession(session.id);
+      return res.json({
+        progress: await bulkSessionService.getProgress(session, photos),
+        session: bulkSessionService.toSummary(session, photos),
+      });
+    }
+
+    // A finished stage only ends the stream once the session has stopped processing, so a
+    // stream opened as a new run starts doesn't end on the previous run's result
+    let processing = ['grouping', 'analyzing'].includes(session.status);
+    await streamProgress(req, res, {
+      read: async () => {
+        const current = await storage.getSession(session.id);
+        if (!current) return null;
+
+        processing = ['grouping', 'analyzing'].includes(current.status);
+        return { progress: await bulkSessionService.getProgress(current) };
+      },
+      isFinished: ({ progress }) => bulkSessionService.isFinishedStage(progress.stage) && !processing,
+      logContext: { sessionId: session.id, stream: 'bulk' },
+    });
+  }));
+
+  // Start grouping + per-group analysis in the background
+  app.post("/api/bulk-sessions/:sessionId/group", analysisLimiter, isAuthenticated, validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
+    const { session } = await authorizeSession(req.params.sessionId, req.userId, 'editor');
+    assertBulkSessionIdle(session);
+
+    const parsed = bulkSessionSettingsSchema.safeParse(req.body || {});
+    if (!parsed.success) {
+      throw new AppError(400, `Invalid grouping options: ${parsed.error.errors.map(e => e.message).join(', ')}`);
+    }
+
+    const photoCount = await storage.countPhotosBySession(session.id);
+    if (photoCount < 2) {
+      throw new AppError(400, "Need at least 2 photos to group");
+    }
+
+    // Options sent with the request override the settings the session was created with
+    // and are saved with the claim, so a request that loses it changes nothing
+    const settings: BulkSessionSettings = {
+      ...((session.bulkSettings as BulkSessionSettings | null) || {}),
+      ...Object.fromEntries(Object.entries(parsed.data).filter(([, value]) => value !== undefined)),
+    };
+
+    await bulkSessionService.start(session.id, settings);
+
+    logger.info('Bulk processing started', { sessionId: session.id, userId: req.userId, photoCount });
+
+    res.status(202).json({ sessionId: session.id, status: 'grouping' });
+  }));
+
+  // Retry a single failed photo
+  app.post("/api/bulk-sessions/:sessionId/retry/:photoId", analysisLimiter, isAuthenticated, validateUUID("sessionId"), validateUUID("photoId"), asyncHandler(async (req: any, res) => {
+    const { session } = await authorizeSession(req.params.sessionId, req.userId, 'editor');
+    assertBulkSessionIdle(session);
+
+    const photo = await storage.getPhoto(req.params.photoId);
+    if (!photo || photo.sessionId !== session.id) {
+      throw new AppError(404, "Photo not found");
+    }
+
+    const result = await bulkSessionService.retry(session.id, photo.id);
+    res.status(202).json({ sessionId: session.id, ...result });
+  }));
+
+  // Retry all failed photos and resume an interrupted or cancelled run
+  app.post("/api/bulk-sessions/:sessionId/retry", analysisLimiter, isAuthenticated, validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
+    const { session } = await authorizeSession(req.params.sessionId, req.userId, 'editor');
+    assertBulkSessionIdle(session);
+
+    if (session.status === 'uploading') {
+      throw new AppError(400, "Processing has not been started for this session");
+    }
+
+    const result = await bulkSessionService.retry(session.id);
+    res.status(202).json({ sessionId: session.id, ...result });
+  }));
+
+  app.post("/api/bulk-sessions/:sessionId/cancel", apiLimiter, isAuthenticated, validateUUID("sessionId"), asyncHandler(async (req: any, res) => {
+    const { session } = await authorizeSession(req.params.sessionId, req.userId, 'editor');
+
+    if (session.status === 'completed' || session.status === 'cancelled') {
+      throw new AppError(409, `Session is already ${session.status}`);
+    }
+
+    await bulkSessionService.cancel(session.id);
+
+    logger.info('Bulk session cancelled by user', { sessionId: session.id, userId: req.userId });
+
+    res.json({ sessionId: session.id, status: 'cancelled' });
+  }));
+
   const httpServer = createServer(app);
 
   return httpServer;
@@ -0,0 +1,33 @@
+// Run control - pause and cancel requests for a session's analysis and grouping runs
+// A request is recorded as the session's status, so it reaches a run in any process. Runs
+// check between batches and stop by throwing RunStoppedError; whatever they finished before
+// stopping is already persisted and kept.
+import { storage } from './storage';
+
+export type StopReason = 'paused' | 'cancelled';
+
+export class RunStoppedError extends Error {
+  constructor(public reason: StopReason) {
+    super(`Run ${reason}`);
+    this.name = 'RunStoppedError';
+  }
+}
+
+/**
+ * Whether the session's owner asked for its run to pause or cancel
+ */
+export async function getStopRequest(sessionId: string): Promise<StopReason | null> {
+  const session = await storage.getSession(sessionId);
+  if (!session || session.status === 'cancelled') return 'cancelled';
+  return session.status === 'paused' ? 'paused' : null;
+}
+
+/**
+ * Stop the run if a pause or cancel was requested; call between batches
+ */
+export async function throwIfStopRequested(sessionId: string): Promise<void> {
+  const reason = await getStopRequest(sessionId);
+  if (reason) {
+    throw new RunStoppedError(reason);
+  }
+}
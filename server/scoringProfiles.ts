@@ -0,0 +1,109 @@
+// Scoring profiles - named weights, thresholds and tie-breakers for best-photo selection
+// Built-in profiles live here and are referenced by key; users can save their own in the
+// scoring_profiles table. A session's profile overrides the user's default, which falls back
+// to the balanced profile the app has always scored with.
+import type { AppliedScoringProfile, PhotoSession, ScoringProfile, ScoringProfileSettings } from "@shared/schema";
+import { storage } from './storage';
+import { logger } from './middleware/logger';
+
+export type BuiltInScoringProfileKey = 'balanced' | 'headshot' | 'candid';
+
+export const BUILT_IN_SCORING_PROFILES: Record<BuiltInScoringProfileKey, AppliedScoringProfile> = {
+  // Scoring as it was before profiles existed
+  balanced: {
+    id: 'balanced',
+    name: 'Balanced',
+    settings: {
+      faceWeights: { eyesOpen: 40, smile: 30, expression: 15, detection: 15 },
+      photoWeights: { eyesOpen: 40, smile: 40, faceQuality: 20 },
+      thresholds: { eyeAspectRatio: 0.15, smile: 0.5 },
+      selection: { peopleTolerance: 1, tieBreakerWeights: { smile: 40, faceQuality: 20 } },
+    },
+  },
+  // Posed portraits: open eyes and a clean detection matter, a smile much less
+  headshot: {
+    id: 'headshot',
+    name: 'Corporate headshot',
+    settings: {
+      faceWeights: { eyesOpen: 50, smile: 10, expression: 20, detection: 20 },
+      photoWeights: { eyesOpen: 60, smile: 10, faceQuality: 30 },
+      thresholds: { eyeAspectRatio: 0.18, smile: 0.6 },
+      selection: { peopleTolerance: 0, tieBreakerWeights: { smile: 10, faceQuality: 50 } },
+    },
+  },
+  // Events and candids: expressions carry the shot and a missing face is more forgivable
+  candid: {
+    id: 'candid',
+    name: 'Candid event',
+    settings: {
+      faceWeights: { eyesOpen: 35, smile: 35, expression: 20, detection: 10 },
+      photoWeights: { eyesOpen: 35, smile: 45, faceQuality: 20 },
+      thresholds: { eyeAspectRatio: 0.15, smile: 0.4 },
+      selection: { peopleTolerance: 2, tieBreakerWeights: { smile: 45, faceQuality: 15 } },
+    },
+  },
+};
+
+export const DEFAULT_SCORING_PROFILE = BUILT_IN_SCORING_PROFILES.balanced;
+
+export function isBuiltInScoringProfile(id: string): id is BuiltInScoringProfileKey {
+  return Object.prototype.hasOwnProperty.call(BUILT_IN_SCORING_PROFILES, id);
+}
+
+function toAppliedProfile(profile: ScoringProfile): AppliedScoringProfile {
+  return {
+    id: profile.id,
+    name: profile.name,
+    settings: profile.settings as ScoringProfileSettings,
+  };
+}
+
+/**
+ * Look up a profile a user may use: a built-in key or one of their own saved profiles
+ */
+export async function findScoringProfile(userId: string, profileId: string): Promise<AppliedScoringProfile | undefined> {
+  if (isBuiltInScoringProfile(profileId)) {
+    return BUILT_IN_SCORING_PROFILES[profileId];
+  }
+
+  const profile = await storage.getScoringProfile(profileId);
+  return profile && profile.userId === userId ? toAppliedProfile(profile) : undefined;
+}
+
+/**
+ * Built-in profiles followed by the user's saved ones
+ */
+export async function listScoringProfiles(userId: string): Promise<Array<AppliedScoringProfile & { builtIn: boolean }>> {
+  const saved = await storage.getScoringProfilesByUser(userId);
+  return [
+    ...Object.values(BUILT_IN_SCORING_PROFILES).map(p => ({ ...p, builtIn: true })),
+    ...saved.map(p => ({ ...toAppliedProfile(p), builtIn: false })),
+  ];
+}
+
+/**
+ * The profile a session is analyzed with: the session's own, else the owner's default, else
+ * balanced. A profile that was deleted after being chosen falls through to the next one.
+ */
+export async function resolveSessionScoringProfile(session: PhotoSession): Promise<AppliedScoringProfile> {
+  const user = await storage.getUser(session.userId);
+
+  for (const profileId of [session.scoringProfileId, user?.scoringProfileId]) {
+    if (!profileId) continue;
+
+    const profile = await findScoringProfile(session.userId, profileId);
+    if (profile) return profile;
+
+    logger.warn('Scoring profile not found, falling back', { sessionId: session.id, profileId });
+  }
+
+  return DEFAULT_SCORING_PROFILE;
+}
+
+/**
+ * Resolve the scoring profile for a session by id
+ */
+export async function resolveScoringProfileForSession(sessionId: string): Promise<AppliedScoringProfile> {
+  const session = await storage.getSession(sessionId);
+  return session ? resolveSessionScoringProfile(session) : DEFAULT_SCORING_PROFILE;
+}
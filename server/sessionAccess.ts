@@ -0,0 +1,158 @@
+// Session access - who may do what in a photo session
+// A session's userId is its owner. Other people join through an invitation addressed to their
+// email, as an editor (upload, analyze, regroup, mark best) or a viewer (browse and vote).
+// Routes ask authorizeSession for the least role they need rather than comparing user ids.
+import { randomBytes } from "node:crypto";
+import type { Photo, PhotoGroup, PhotoSession, SessionMember, SessionMemberRole, SessionRole } from "@shared/schema";
+import { storage } from './storage';
+import { AppError } from './middleware/errorHandler';
+import { logger } from './middleware/logger';
+
+const ROLE_RANK: Record<SessionRole, number> = {
+  viewer: 0,
+  editor: 1,
+  owner: 2,
+};
+
+const INVITE_TOKEN_BYTES = 24;
+
+export interface SessionAccess {
+  session: PhotoSession;
+  role: SessionRole;
+}
+
+export function hasSessionRole(role: SessionRole, minimumRole: SessionRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[minimumRole];
+}
+
+/**
+ * A user's role in a session, or null if they aren't in it. Pending invitations don't count.
+ */
+export async function getSessionRole(session: PhotoSession, userId: string | undefined): Promise<SessionRole | null> {
+  if (!userId) return null;
+  if (session.userId === userId) return 'owner';
+
+  const member = await storage.getSessionMemberByUser(session.id, userId);
+  return member ? member.role as SessionMemberRole : null;
+}
+
+/**
+ * Load a session the user holds at least minimumRole in.
+ * 404 if it doesn't exist, 403 if they aren't in it or their role is too low.
+ */
+export async function authorizeSession(sessionId: string, userId: string, minimumRole: SessionRole = 'viewer'): Promise<SessionAccess> {
+  const session = await storage.getSession(sessionId);
+  if (!session) {
+    throw new AppError(404, "Session not found");
+  }
+
+  const role = await getSessionRole(session, userId);
+  if (!role) {
+    throw new AppError(403, "Forbidden");
+  }
+  if (!hasSessionRole(role, minimumRole)) {
+    throw new AppError(403, `This needs the ${minimumRole} role in the session`);
+  }
+
+  return { session, role };
+}
+
+/**
+ * Load a photo in a session the user holds at least minimumRole in
+ */
+export async function authorizePhoto(photoId: string, userId: string, minimumRole: SessionRole = 'viewer'): Promise<SessionAccess & { photo: Photo }> {
+  const photo = await storage.getPhoto(photoId);
+  if (!photo) {
+    throw new AppError(404, "Photo not found");
+  }
+  return { photo, ...(await authorizeSession(photo.sessionId, userId, minimumRole)) };
+}
+
+/**
+ * Load a group in a session the user holds at least minimumRole in
+ */
+export async function authorizeGroup(groupId: string, userId: string, minimumRole: SessionRole = 'viewer'): Promise<SessionAccess & { group: PhotoGroup }> {
+  const group = await storage.getGroup(groupId);
+  if (!group) {
+    throw new AppError(404, "Group not found");
+  }
+  return { group, ...(await authorizeSession(group.sessionId, userId, minimumRole)) };
+}
+
+/**
+ * Invite an email address to a session. The invitation is accepted through its token by a
+ * signed-in user with that address.
+ */
+export async function inviteSessionMember(session: PhotoSession, invitedBy: string, email: string, role: SessionMemberRole): Promise<SessionMember> {
+  const owner = await storage.getUser(session.userId);
+  if (owner?.email?.toLowerCase() === email) {
+    throw new AppError(400, "The session owner can't be invited");
+  }
+
+  if (await storage.getSessionMemberByEmail(session.id, email)) {
+    throw new AppError(409, "That address has already been invited");
+  }
+
+  const member = await storage.createSessionMember({
+    sessionId: session.id,
+    email,
+    role,
+    inviteToken: randomBytes(INVITE_TOKEN_BYTES).toString('base64url'),
+    invitedBy,
+  });
+
+  logger.info('Session invitation created', { sessionId: session.id, memberId: member.id, role });
+  return member;
+}
+
+/**
+ * Accept an invitation as the signed-in user; their account email must match the invited address
+ */
+export async function acceptSessionInvitation(token: string, userId: string): Promise<SessionMember> {
+  const invitation = await storage.getSessionMemberByInviteToken(token);
+  if (!invitation || invitation.userId) {
+    throw new AppError(404, "Invitation not found");
+  }
+
+  const user = await storage.getUser(userId);
+  if (!user?.email || user.email.toLowerCase() !== invitation.email) {
+    throw new AppError(403, "This invitation was sent to a different email address");
+  }
+
+  const session = await storage.getSession(invitation.sessionId);
+  if (session?.userId === userId) {
+    throw new AppError(400, "You already own this session");
+  }
+
+  const accepted = await storage.updateSessionMember(invitation.id, {
+    userId,
+    inviteToken: null,
+    acceptedAt: new Date(),
+  });
+
+  logger.info('Session invitation accepted', { sessionId: invitation.sessionId, memberId: invitation.id, userId });
+  return accepted ?? invitation;
+}
+
+/**
+ * A member of the session, or 404
+ */
+export async function getSessionMemberOf(sessionId: string, memberId: string): Promise<SessionMember> {
+  const member = await storage.getSessionMember(memberId);
+  if (!member || member.sessionId !== sessionId) {
+    throw new AppError(404, "Member not found");
+  }
+  return member;
+}
+
+/**
+ * A member as the session's people see them; invitation tokens are only shown to the owner
+ */
+export function toSessionMemberSummary(member: SessionMember, viewerRole: SessionRole) {
+  const { inviteToken, ...rest } = member;
+  return {
+    ...rest,
+    status: member.userId ? 'active' as const : 'invited' as const,
+    ...(viewerRole === 'owner' && inviteToken ? { inviteUrl: `/invite/${inviteToken}` } : {}),
+  };
+}
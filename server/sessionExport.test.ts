@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Photo, PhotoGroup, PhotoGroupMembership, PhotoSession } from "@shared/schema";
+
+vi.mock("./storage", () => ({
+  storage: {
+    getPhotosBySession: vi.fn(),
+    getGroupsBySession: vi.fn(),
+    getMembershipsByGroup: vi.fn(),
+  },
+}));
+
+import { storage } from "./storage";
+import { planSessionExport, type SessionExportOptions } from "./sessionExport";
+
+const mockedStorage = vi.mocked(storage);
+const SESSION = { id: "session-1", bestPhotoId: null } as PhotoSession;
+
+function photo(id: string, originalFilename: string | null, uploadOrder: number, qualityScore = 0): Photo {
+  return { id, originalFilename, uploadOrder, qualityScore: String(qualityScore), isSelectedBest: false } as Photo;
+}
+
+function group(id: string, name: string | null, createdAt: number, bestPhotoId: string | null = null): PhotoGroup {
+  return { id, name, bestPhotoId, createdAt: new Date(createdAt) } as PhotoGroup;
+}
+
+// Photos, groups and which photos each group holds (a leading "!" marks an excluded member)
+function givenSession(photos: Photo[], groups: Array<[PhotoGroup, string[]]>) {
+  mockedStorage.getPhotosBySession.mockResolvedValue(photos);
+  mockedStorage.getGroupsBySession.mockResolvedValue(groups.map(([g]) => g));
+  mockedStorage.getMembershipsByGroup.mockImplementation(async (groupId: string) => {
+    const [, members] = groups.find(([g]) => g.id === groupId)!;
+    return members.map(m => ({
+      groupId,
+      photoId: m.replace(/^!/, ""),
+      isExcluded: m.startsWith("!"),
+    }) as PhotoGroupMembership);
+  });
+}
+
+function plan(scope: SessionExportOptions["scope"], layout: SessionExportOptions["layout"] = "groups") {
+  return planSessionExport(SESSION, { scope, layout, manifest: "none" });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("planSessionExport", () => {
+  it("numbers repeated filenames within a folder and keeps folder names unique", async () => {
+    givenSession(
+      [photo("p1", "IMG_0001.jpg", 1), photo("p2", "img_0001.JPG", 2), photo("p3", "IMG_0001.jpg", 3), photo("p4", "IMG_0001.jpg", 4)],
+      [[group("g1", "Beach", 1), ["p1", "p2", "p3"]], [group("g2", "Beach", 2), ["p4"]]]
+    );
+
+    const entries = await plan("all");
+    expect(entries.map(e => e.path)).toEqual([
+      "Beach/IMG_0001.jpg",
+      "Beach/img_0001 (2).JPG",
+      "Beach/IMG_0001 (3).jpg",
+      "Beach (2)/IMG_0001.jpg",
+    ]);
+  });
+
+  it("names the flat layout's files uniquely across groups", async () => {
+    givenSession(
+      [photo("p1", "IMG_0001.jpg", 1), photo("p2", "IMG_0001.jpg", 2), photo("p3", null, 3)],
+      [[group("g1", "One", 1), ["p1"]], [group("g2", "Two", 2), ["p2"]]]
+    );
+
+    const entries = await plan("all", "flat");
+    expect(entries.map(e => e.path)).toEqual(["IMG_0001.jpg", "IMG_0001 (2).jpg", "photo-p3.jpg"]);
+  });
+
+  it("exports one best photo per group and leaves ungrouped photos out", async () => {
+    givenSession(
+      [photo("p1", "a.jpg", 1, 50), photo("p2", "b.jpg", 2, 90), photo("p3", "c.jpg", 3, 70), photo("p4", "d.jpg", 4, 99)],
+      [[group("g1", "One", 1, "p1"), ["p1", "p2"]], [group("g2", "Two", 2), ["p3", "!p4"]]]
+    );
+
+    const entries = await plan("best");
+    // g1 keeps its chosen best; g2 has none, so its top included member stands in
+    expect(entries.map(e => [e.photo.id, e.path, e.isBest])).toEqual([
+      ["p1", "One/a.jpg", true],
+      ["p3", "Two/c.jpg", true],
+    ]);
+  });
+
+  it("exports the session's best photo when nothing is grouped", async () => {
+    givenSession([photo("p1", "a.jpg", 1), { ...photo("p2", "b.jpg", 2), isSelectedBest: true }], []);
+
+    const entries = await plan("best");
+    expect(entries.map(e => [e.photo.id, e.path])).toEqual([["p2", "b.jpg"]]);
+  });
+
+  it("puts ungrouped photos in their own folder and drops excluded ones from the included scope", async () => {
+    givenSession(
+      [photo("p1", "a.jpg", 1), photo("p2", "b.jpg", 2), photo("p3", "c.jpg", 3)],
+      [[group("g1", "Ungrouped", 1), ["p1", "!p2"]]]
+    );
+
+    const entries = await plan("included");
+    expect(entries.map(e => e.path)).toEqual(["Ungrouped (2)/a.jpg", "Ungrouped/c.jpg"]);
+  });
+});
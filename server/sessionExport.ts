@@ -0,0 +1,283 @@
+// Session export - a session's photos as one ZIP, streamed to the client as it's built
+// Originals are read from R2 one at a time and written straight into the archive, so memory
+// holds a single photo however large the session. Photos go in a folder per group under their
+// original filenames; an optional manifest lists every file with its scores, including the
+// ones that couldn't be exported.
+import type { Response } from "express";
+import type { Photo, PhotoGroup, PhotoAnalysisResult, PhotoSession } from "@shared/schema";
+import { storage } from './storage';
+import { R2StorageService, ObjectNotFoundError } from './r2Storage';
+import { ObjectPermission } from './objectAcl';
+import { canUserAccessObject } from './objectOwnership';
+import { getVoteScores } from './photoVotes';
+import { ZipStreamWriter } from './zipStream';
+import { logger } from './middleware/logger';
+
+// best: one photo per group; included: everything not excluded from its group; all: every photo
+export const EXPORT_SCOPES = ['best', 'included', 'all'] as const;
+export type ExportScope = typeof EXPORT_SCOPES[number];
+
+// groups: a folder per group, with ungrouped photos in their own folder; flat: one folder
+export const EXPORT_LAYOUTS = ['groups', 'flat'] as const;
+export type ExportLayout = typeof EXPORT_LAYOUTS[number];
+
+export const EXPORT_MANIFESTS = ['none', 'csv', 'json'] as const;
+export type ExportManifest = typeof EXPORT_MANIFESTS[number];
+
+export interface SessionExportOptions {
+  scope: ExportScope;
+  layout: ExportLayout;
+  manifest: ExportManifest;
+}
+
+type ExportStatus = 'exported' | 'missing' | 'denied' | 'failed';
+
+export interface ExportEntry {
+  photo: Photo;
+  group: PhotoGroup | null;
+  isBest: boolean;
+  isExcluded: boolean;
+  path: string;
+  status?: ExportStatus;
+}
+
+const UNGROUPED_FOLDER = 'Ungrouped';
+const MAX_NAME_LENGTH = 150;
+
+// Characters Windows, macOS or zip tools reject or treat as path separators
+function sanitizeName(name: string): string {
+  return name
+    .replace(/[\u0000-\u001f<>:"/\\|?*]/g, '_')
+    .replace(/^[\s.]+|[\s.]+$/g, '')
+    .slice(0, MAX_NAME_LENGTH);
+}
+
+/**
+ * Unique names within one folder: a repeated "IMG_0001.jpg" becomes "IMG_0001 (2).jpg"
+ */
+function uniqueNamer() {
+  const used = new Set<string>();
+  return (name: string): string => {
+    const dot = name.lastIndexOf('.');
+    const [stem, ext] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+
+    let candidate = name;
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+      candidate = `${stem} (${n})${ext}`;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  };
+}
+
+function photoFilename(photo: Photo): string {
+  return sanitizeName(photo.originalFilename || '') || `photo-${photo.id}.jpg`;
+}
+
+/**
+ * The group's chosen best photo, or its highest-scoring member while it has none
+ */
+function groupBestPhotoId(group: PhotoGroup, members: Photo[]): string | null {
+  if (group.bestPhotoId && members.some(p => p.id === group.bestPhotoId)) {
+    return group.bestPhotoId;
+  }
+  const [top] = [...members].sort((a, b) => Number(b.qualityScore ?? 0) - Number(a.qualityScore ?? 0));
+  return top?.id ?? null;
+}
+
+/**
+ * Which photos go in the export and where
+ */
+export async function planSessionExport(session: PhotoSession, options: SessionExportOptions): Promise<ExportEntry[]> {
+  const photos = (await storage.getPhotosBySession(session.id))
+    .sort((a, b) => (a.uploadOrder ?? 0) - (b.uploadOrder ?? 0));
+  const photosById = new Map(photos.map(p => [p.id, p]));
+  const groups = (await storage.getGroupsBySession(session.id))
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  const selected: Array<Omit<ExportEntry, 'path'>> = [];
+  const grouped = new Set<string>();
+
+  for (const group of groups) {
+    const memberships = await storage.getMembershipsByGroup(group.id);
+    const excludedIds = new Set(memberships.filter(m => m.isExcluded).map(m => m.photoId));
+    const members = memberships
+      .map(m => photosById.get(m.photoId))
+      .filter((p): p is Photo => !!p)
+      .sort((a, b) => (a.uploadOrder ?? 0) - (b.uploadOrder ?? 0));
+    members.forEach(p => grouped.add(p.id));
+
+    const bestId = groupBestPhotoId(group, members.filter(p => !excludedIds.has(p.id)));
+    for (const photo of members) {
+      const isBest = photo.id === bestId;
+      const isExcluded = excludedIds.has(photo.id);
+      if (options.scope === 'best' && !isBest) continue;
+      if (options.scope === 'included' && isExcluded) continue;
+      selected.push({ photo, group, isBest, isExcluded });
+    }
+  }
+
+  // Photos outside any group: all of them for a session that was never grouped
+  const ungrouped = photos.filter(p => !grouped.has(p.id));
+  const sessionBestId = session.bestPhotoId ?? ungrouped.find(p => p.isSelectedBest)?.id ?? null;
+  for (const photo of ungrouped) {
+    const isBest = photo.id === sessionBestId;
+    if (options.scope === 'best' && (groups.length > 0 || !isBest)) continue;
+    selected.push({ photo, group: null, isBest, isExcluded: false });
+  }
+
+  // Folder names, then file names unique within each folder
+  const folders = new Map<string | null, string>();
+  if (options.layout === 'groups' && groups.length > 0) {
+    const nameFolder = uniqueNamer();
+    nameFolder(UNGROUPED_FOLDER);
+    groups.forEach((group, index) => {
+      folders.set(group.id, nameFolder(sanitizeName(group.name || '') || `Group ${index + 1}`));
+    });
+    folders.set(null, UNGROUPED_FOLDER);
+  }
+
+  const namers = new Map<string, (name: string) => string>();
+  return selected.map(entry => {
+    const folder = folders.get(entry.group?.id ?? null) ?? '';
+    if (!namers.has(folder)) namers.set(folder, uniqueNamer());
+    const filename = namers.get(folder)!(photoFilename(entry.photo));
+    return { ...entry, path: folder ? `${folder}/${filename}` : filename };
+  });
+}
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const MANIFEST_COLUMNS = [
+  'path', 'status', 'photoId', 'originalFilename', 'group', 'groupId', 'isBest', 'isExcluded',
+  'qualityScore', 'peopleCount', 'eyesOpenCount', 'voteScore', 'width', 'height',
+] as const;
+
+function manifestRows(entries: ExportEntry[], voteScores: Map<string, number>): Array<Record<typeof MANIFEST_COLUMNS[number], unknown>> {
+  return entries.map(({ photo, group, isBest, isExcluded, path, status }) => {
+    const analysis = photo.analysisData as PhotoAnalysisResult | null;
+    return {
+      path,
+      status: status ?? 'exported',
+      photoId: photo.id,
+      originalFilename: photo.originalFilename,
+      group: group ? group.name : null,
+      groupId: group?.id ?? null,
+      isBest,
+      isExcluded,
+      qualityScore: photo.qualityScore !== null ? Number(photo.qualityScore) : null,
+      peopleCount: analysis?.selection?.peopleCount ?? null,
+      eyesOpenCount: analysis?.selection?.eyesOpenCount ?? null,
+      voteScore: voteScores.get(photo.id) ?? null,
+      width: photo.width,
+      height: photo.height,
+    };
+  });
+}
+
+async function buildManifest(session: PhotoSession, options: SessionExportOptions, entries: ExportEntry[]): Promise<{ name: string; data: Buffer }> {
+  const rows = manifestRows(entries, await getVoteScores(entries.map(e => e.photo.id)));
+
+  if (options.manifest === 'json') {
+    const manifest = {
+      sessionId: session.id,
+      sessionName: session.name,
+      exportedAt: new Date().toISOString(),
+      scope: options.scope,
+      photos: rows,
+    };
+    return { name: 'manifest.json', data: Buffer.from(JSON.stringify(manifest, null, 2)) };
+  }
+
+  const lines = [
+    MANIFEST_COLUMNS.join(','),
+    ...rows.map(row => MANIFEST_COLUMNS.map(column => csvField(row[column])).join(',')),
+  ];
+  return { name: 'manifest.csv', data: Buffer.from(lines.join('\r\n') + '\r\n') };
+}
+
+export function exportFilename(session: PhotoSession, scope: ExportScope): string {
+  const base = sanitizeName(session.name || '') || `session-${session.id}`;
+  return `${base}${scope === 'best' ? ' - best' : ''}.zip`;
+}
+
+/**
+ * Stream a session's photos to the response as a ZIP. Photos the user can't read or that are
+ * missing from storage are left out and marked in the manifest. Once streaming starts, errors
+ * can only end the download early.
+ */
+export async function streamSessionExport(
+  session: PhotoSession,
+  userId: string,
+  options: SessionExportOptions,
+  res: Response
+): Promise<void> {
+  const r2Storage = new R2StorageService();
+  const entries = await planSessionExport(session, options);
+  const filename = exportFilename(session, options.scope);
+
+  res.setHeader('Content-Type', 'application/zip');
+  res.setHeader(
+    'Content-Disposition',
+    `attachment; filename="${filename.replace(/[^\x20-\x7e]/g, '_').replace(/"/g, "'")}"; filename*=UTF-8''${encodeURIComponent(filename)}`
+  );
+  res.setHeader('Cache-Control', 'no-store');
+
+  const zip = new ZipStreamWriter(res);
+  const startedAt = Date.now();
+
+  try {
+    for (const entry of entries) {
+      if (res.destroyed) break;
+
+      try {
+        if (!(await canUserAccessObject(userId, entry.photo.fileUrl, ObjectPermission.READ, r2Storage))) {
+          entry.status = 'denied';
+          continue;
+        }
+        const { buffer } = await r2Storage.getObject(r2Storage.getObjectKeyFromPath(entry.photo.fileUrl));
+        await zip.addFile(entry.path, buffer, entry.photo.createdAt);
+        entry.status = 'exported';
+      } catch (error) {
+        if (res.destroyed) throw error;
+        entry.status = error instanceof ObjectNotFoundError ? 'missing' : 'failed';
+        logger.warn('Skipping photo in session export', {
+          sessionId: session.id,
+          photoId: entry.photo.id,
+          status: entry.status,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    if (res.destroyed) {
+      logger.info('Session export cancelled by the client', { sessionId: session.id, exported: zip.entryCount });
+      return;
+    }
+
+    if (options.manifest !== 'none') {
+      const manifest = await buildManifest(session, options, entries);
+      await zip.addFile(manifest.name, manifest.data);
+    }
+    await zip.finish();
+
+    logger.info('Session export finished', {
+      sessionId: session.id,
+      scope: options.scope,
+      photos: entries.length,
+      skipped: entries.filter(e => e.status !== 'exported').length,
+      durationMs: Date.now() - startedAt,
+    });
+  } catch (error) {
+    // Headers and part of the archive are already out; all that's left is to cut it off
+    logger.error('Session export failed', {
+      sessionId: session.id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    res.destroy(error instanceof Error ? error : undefined);
+  }
+}
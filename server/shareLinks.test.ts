@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ShareLink, SharePasswordFailure } from "@shared/schema";
+
+// Password failures kept in a map the way the table keeps them, one row per link and client
+const failures = vi.hoisted(() => new Map<string, SharePasswordFailure>());
+
+vi.mock("./storage", () => ({
+  storage: {
+    createShareLink: vi.fn(async (link: any) => ({ id: `link-${link.token}`, revokedAt: null, ...link })),
+    getShareLinkByToken: vi.fn(),
+    getSession: vi.fn(async (id: string) => ({ id, userId: "user-owner", name: "Trip" })),
+    getPhoto: vi.fn(async (id: string) => ({ id, sessionId: "session-1" })),
+    getSharePasswordFailure: vi.fn(async (shareLinkId: string, clientKey: string) =>
+      failures.get(`${shareLinkId}|${clientKey}`)
+    ),
+    recordSharePasswordFailure: vi.fn(async (shareLinkId: string, clientKey: string, windowStartedAfter: Date) => {
+      const key = `${shareLinkId}|${clientKey}`;
+      const existing = failures.get(key);
+      const failure = existing && existing.windowStartedAt >= windowStartedAfter
+        ? { ...existing, failures: existing.failures + 1 }
+        : { id: key, shareLinkId, clientKey, failures: 1, windowStartedAt: new Date() };
+      failures.set(key, failure);
+      return failure;
+    }),
+  },
+}));
+
+import { storage } from "./storage";
+import { createShareLink, openSharedPhoto } from "./shareLinks";
+
+const PASSWORD = "correct horse";
+const GUESSER = "ip:203.0.113.7";
+const RECIPIENT = "ip:198.51.100.20";
+const mockedStorage = vi.mocked(storage);
+
+async function createPhotoLink(): Promise<ShareLink> {
+  const link = await createShareLink("user-owner", { id: "session-1" } as any, {
+    targetType: "photo",
+    photoId: "photo-1",
+    password: PASSWORD,
+  });
+  mockedStorage.getShareLinkByToken.mockResolvedValue(link as ShareLink);
+  return link as ShareLink;
+}
+
+async function guessWrong(link: ShareLink, clientKey: string, times: number) {
+  for (let attempt = 0; attempt < times; attempt++) {
+    await expect(openSharedPhoto(link.token, `guess-${attempt}`, "photo-1", clientKey)).rejects.toMatchObject({ statusCode: 401 });
+  }
+}
+
+beforeEach(() => {
+  mockedStorage.getShareLinkByToken.mockReset();
+  failures.clear();
+});
+
+describe("share link passwords", () => {
+  it("opens with the right password and refuses a wrong one", async () => {
+    const link = await createPhotoLink();
+    await expect(openSharedPhoto(link.token, PASSWORD, "photo-1", RECIPIENT)).resolves.toMatchObject({ photo: { id: "photo-1" } });
+    await expect(openSharedPhoto(link.token, "wrong password", "photo-1", RECIPIENT)).rejects.toMatchObject({ statusCode: 401 });
+    await expect(openSharedPhoto(link.token, undefined, "photo-1", RECIPIENT)).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it("stops checking a client's passwords after repeated failures, even the right one", async () => {
+    const link = await createPhotoLink();
+    await guessWrong(link, GUESSER, 10);
+    await expect(openSharedPhoto(link.token, PASSWORD, "photo-1", GUESSER)).rejects.toMatchObject({ statusCode: 429 });
+  });
+
+  it("doesn't lock out other clients of the same link", async () => {
+    const link = await createPhotoLink();
+    await guessWrong(link, GUESSER, 10);
+    await expect(openSharedPhoto(link.token, PASSWORD, "photo-1", RECIPIENT)).resolves.toMatchObject({ link: { id: link.id } });
+  });
+
+  it("locks each link separately", async () => {
+    const locked = await createPhotoLink();
+    await guessWrong(locked, GUESSER, 10);
+
+    const other = await createPhotoLink();
+    await expect(openSharedPhoto(other.token, PASSWORD, "photo-1", GUESSER)).resolves.toMatchObject({ link: { id: other.id } });
+  });
+
+  it("lets a client try again once the lockout window has passed", async () => {
+    const link = await createPhotoLink();
+    await guessWrong(link, GUESSER, 10);
+
+    const failure = failures.get(`${link.id}|${GUESSER}`)!;
+    failure.windowStartedAt = new Date(Date.now() - 16 * 60 * 1000);
+    await expect(openSharedPhoto(link.token, PASSWORD, "photo-1", GUESSER)).resolves.toMatchObject({ link: { id: link.id } });
+  });
+});
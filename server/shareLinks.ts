@@ -0,0 +1,338 @@
+// Share links - revocable public links to a session album, one group or one photo
+// A link is an unguessable token; anyone holding a live one can view what it covers without
+// signing in, optionally after entering a password. The objects themselves stay private: a
+// viewer gets short-lived presigned URLs for the ones in scope that the link owner can read.
+// Viewers may like, reject and rate the photos a live link covers.
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+import type { Photo, PhotoSession, ShareLink, ShareTargetType } from "@shared/schema";
+import { storage } from './storage';
+import { R2StorageService } from './r2Storage';
+import { ObjectPermission } from './objectAcl';
+import { canUserAccessObject } from './objectOwnership';
+import { getOwnVotes, shareLinkVoter, type OwnPhotoVote } from './photoVotes';
+import { AppError } from './middleware/errorHandler';
+import { logger } from './middleware/logger';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const TOKEN_BYTES = 24;
+const PASSWORD_KEY_LENGTH = 32;
+
+// Presigned URLs handed to viewers, cut short when the link expires sooner
+const SHARED_URL_TTL_SECONDS = 3600;
+
+export const SHARE_PASSWORD_MIN_LENGTH = 8;
+
+// Wrong passwords one client may try on a link per window before the link stops checking its
+// guesses. Counted per client so a guesser locks out only themselves, and stored in the
+// database so every process shares the count and a restart doesn't reset it.
+const SHARE_PASSWORD_MAX_FAILURES = 10;
+const SHARE_PASSWORD_LOCKOUT_MS = 15 * 60 * 1000;
+
+export interface CreateShareLinkInput {
+  targetType: ShareTargetType;
+  groupId?: string;
+  photoId?: string;
+  password?: string;
+  allowDownload?: boolean;
+  expiresAt?: Date;
+}
+
+// A link as its owner sees it; the password hash never leaves the server
+export type ShareLinkSummary = Omit<ShareLink, 'passwordHash'> & {
+  hasPassword: boolean;
+  status: 'active' | 'expired' | 'revoked';
+  url: string;
+};
+
+export interface SharedPhoto {
+  id: string;
+  originalFilename: string | null;
+  width: number | null;
+  height: number | null;
+  isBest: boolean;
+  thumbnailUrl: string | null;
+  previewUrl: string;
+  downloadUrl: string | null; // only when the link allows downloads
+}
+
+export interface SharedContent {
+  targetType: ShareTargetType;
+  title: string;
+  allowDownload: boolean;
+  expiresAt: Date | null;
+  photos: SharedPhoto[];
+  myVotes: Record<string, OwnPhotoVote>; // the viewer's own votes, when they sent their viewer id
+}
+
+async function hashSharePassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+  return `scrypt:${salt.toString('hex')}:${key.toString('hex')}`;
+}
+
+async function verifySharePassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, salt, expected] = passwordHash.split(':');
+  if (scheme !== 'scrypt' || !salt || !expected) return false;
+
+  const key = await scryptAsync(password, Buffer.from(salt, 'hex'), PASSWORD_KEY_LENGTH);
+  const expectedKey = Buffer.from(expected, 'hex');
+  return key.length === expectedKey.length && timingSafeEqual(key, expectedKey);
+}
+
+async function isPasswordLocked(linkId: string, clientKey: string, now = Date.now()): Promise<boolean> {
+  const failures = await storage.getSharePasswordFailure(linkId, clientKey);
+  return !!failures &&
+    failures.windowStartedAt.getTime() > now - SHARE_PASSWORD_LOCKOUT_MS &&
+    failures.failures >= SHARE_PASSWORD_MAX_FAILURES;
+}
+
+async function recordPasswordFailure(linkId: string, clientKey: string, now = Date.now()): Promise<void> {
+  const failures = await storage.recordSharePasswordFailure(linkId, clientKey, new Date(now - SHARE_PASSWORD_LOCKOUT_MS));
+  if (failures.failures === SHARE_PASSWORD_MAX_FAILURES) {
+    logger.warn('Share link password locked for a client after repeated failures', { linkId, clientKey });
+  }
+}
+
+function linkStatus(link: ShareLink, now = new Date()): ShareLinkSummary['status'] {
+  if (link.revokedAt) return 'revoked';
+  if (link.expiresAt && link.expiresAt <= now) return 'expired';
+  return 'active';
+}
+
+export function toShareLinkSummary(link: ShareLink): ShareLinkSummary {
+  const { passwordHash, ...rest } = link;
+  return {
+    ...rest,
+    hasPassword: !!passwordHash,
+    status: linkStatus(link),
+    url: `/share/${link.token}`,
+  };
+}
+
+/**
+ * Create a link to a session, or to a group or photo in it. The target must belong to the session.
+ */
+export async function createShareLink(userId: string, session: PhotoSession, input: CreateShareLinkInput): Promise<ShareLink> {
+  if (input.targetType === 'group') {
+    const group = input.groupId ? await storage.getGroup(input.groupId) : undefined;
+    if (!group || group.sessionId !== session.id) {
+      throw new AppError(400, "Group not found in this session");
+    }
+  }
+
+  if (input.targetType === 'photo') {
+    const photo = input.photoId ? await storage.getPhoto(input.photoId) : undefined;
+    if (!photo || photo.sessionId !== session.id) {
+      throw new AppError(400, "Photo not found in this session");
+    }
+  }
+
+  if (input.expiresAt && input.expiresAt <= new Date()) {
+    throw new AppError(400, "Expiry must be in the future");
+  }
+
+  const link = await storage.createShareLink({
+    userId,
+    sessionId: session.id,
+    targetType: input.targetType,
+    groupId: input.targetType === 'group' ? input.groupId : null,
+    photoId: input.targetType === 'photo' ? input.photoId : null,
+    token: randomBytes(TOKEN_BYTES).toString('base64url'),
+    passwordHash: input.password ? await hashSharePassword(input.password) : null,
+    allowDownload: input.allowDownload ?? false,
+    expiresAt: input.expiresAt ?? null,
+  });
+
+  logger.info('Share link created', {
+    linkId: link.id,
+    sessionId: session.id,
+    targetType: link.targetType,
+    hasPassword: !!link.passwordHash,
+    expiresAt: link.expiresAt,
+  });
+  return link;
+}
+
+/**
+ * The owner's link, or 404 for links that don't exist or belong to someone else
+ */
+export async function getOwnedShareLink(linkId: string, userId: string): Promise<ShareLink> {
+  const link = await storage.getShareLink(linkId);
+  if (!link || link.userId !== userId) {
+    throw new AppError(404, "Share link not found");
+  }
+  return link;
+}
+
+export async function revokeShareLink(link: ShareLink): Promise<ShareLink> {
+  if (link.revokedAt) return link;
+
+  const revoked = await storage.updateShareLink(link.id, { revokedAt: new Date() });
+  logger.info('Share link revoked', { linkId: link.id, sessionId: link.sessionId });
+  return revoked ?? link;
+}
+
+/**
+ * Photos a link covers, with the id of the one shown as best
+ */
+async function getSharedPhotos(link: ShareLink, session: PhotoSession): Promise<{ title: string; photos: Photo[]; bestPhotoId: string | null }> {
+  switch (link.targetType as ShareTargetType) {
+    case 'group': {
+      const group = link.groupId ? await storage.getGroup(link.groupId) : undefined;
+      if (!group) throw new AppError(404, "Share link not found");
+
+      const memberships = (await storage.getMembershipsByGroup(group.id)).filter(m => !m.isExcluded);
+      const photos = (await Promise.all(memberships.map(m => storage.getPhoto(m.photoId))))
+        .filter((p): p is Photo => !!p)
+        .sort((a, b) => (a.uploadOrder ?? 0) - (b.uploadOrder ?? 0));
+      return { title: group.name || session.name || 'Shared photos', photos, bestPhotoId: group.bestPhotoId };
+    }
+    case 'photo': {
+      const photo = link.photoId ? await storage.getPhoto(link.photoId) : undefined;
+      if (!photo) throw new AppError(404, "Share link not found");
+      return { title: session.name || photo.originalFilename || 'Shared photo', photos: [photo], bestPhotoId: photo.id };
+    }
+    default: {
+      const photos = await storage.getPhotosBySession(session.id);
+      return { title: session.name || 'Shared photos', photos, bestPhotoId: photos.find(p => p.isSelectedBest)?.id ?? null };
+    }
+  }
+}
+
+/**
+ * Presigned URLs for one shared photo, or null if its objects aren't the link owner's to share
+ */
+async function presignSharedPhoto(
+  r2Storage: R2StorageService,
+  link: ShareLink,
+  photo: Photo,
+  ttlSeconds: number
+): Promise<Omit<SharedPhoto, 'id' | 'originalFilename' | 'width' | 'height' | 'isBest'> | null> {
+  // Photos in the session may have been uploaded by collaborators; the link owner can read them all
+  if (!(await canUserAccessObject(link.userId, photo.fileUrl, ObjectPermission.READ, r2Storage))) {
+    logger.warn('Skipping shared photo the link owner cannot read', { linkId: link.id, photoId: photo.id });
+    return null;
+  }
+
+  const presign = (path: string, filename?: string) =>
+    r2Storage.getDownloadURL(r2Storage.getObjectKeyFromPath(path), ttlSeconds, filename);
+
+  const original = await presign(photo.fileUrl);
+  return {
+    thumbnailUrl: photo.thumbnailUrl ? await presign(photo.thumbnailUrl) : null,
+    previewUrl: photo.previewUrl ? await presign(photo.previewUrl) : original,
+    downloadUrl: link.allowDownload
+      ? await presign(photo.fileUrl, photo.originalFilename || `photo-${photo.id}.jpg`)
+      : null,
+  };
+}
+
+/**
+ * A live link and its session, once the password matches. 404, 410 or 401 otherwise, and 429
+ * for a client that has guessed wrong too often.
+ */
+async function unlockShareLink(token: string, password: string | undefined, clientKey: string): Promise<{ link: ShareLink; session: PhotoSession }> {
+  const link = await storage.getShareLinkByToken(token);
+  if (!link) {
+    throw new AppError(404, "Share link not found");
+  }
+
+  const status = linkStatus(link);
+  if (status !== 'active') {
+    throw new AppError(410, status === 'revoked' ? "This share link has been revoked" : "This share link has expired");
+  }
+
+  if (link.passwordHash) {
+    if (!password) {
+      throw new AppError(401, "Password required");
+    }
+    if (await isPasswordLocked(link.id, clientKey)) {
+      throw new AppError(429, "Too many incorrect passwords for this link, please try again later");
+    }
+    if (!(await verifySharePassword(password, link.passwordHash))) {
+      await recordPasswordFailure(link.id, clientKey);
+      throw new AppError(401, "Incorrect password");
+    }
+  }
+
+  const session = await storage.getSession(link.sessionId);
+  if (!session) {
+    throw new AppError(404, "Share link not found");
+  }
+
+  return { link, session };
+}
+
+/**
+ * A photo the link covers, for a viewer acting on it (voting). 404 if it's outside the link.
+ */
+export async function openSharedPhoto(
+  token: string,
+  password: string | undefined,
+  photoId: string,
+  clientKey: string
+): Promise<{ link: ShareLink; photo: Photo }> {
+  const { link, session } = await unlockShareLink(token, password, clientKey);
+  const { photos } = await getSharedPhotos(link, session);
+
+  const photo = photos.find(p => p.id === photoId);
+  if (!photo) {
+    throw new AppError(404, "Photo not found");
+  }
+  return { link, photo };
+}
+
+/**
+ * Open a link for an anonymous viewer: check it's live and the password matches, count the
+ * view, and return what it covers with presigned URLs
+ */
+export async function openShareLink(
+  token: string,
+  password: string | undefined,
+  viewerId: string | undefined,
+  clientKey: string
+): Promise<SharedContent> {
+  const { link, session } = await unlockShareLink(token, password, clientKey);
+
+  const { title, photos, bestPhotoId } = await getSharedPhotos(link, session);
+  await storage.recordShareLinkView(link.id);
+
+  const secondsLeft = link.expiresAt
+    ? Math.floor((link.expiresAt.getTime() - Date.now()) / 1000)
+    : SHARED_URL_TTL_SECONDS;
+  const ttlSeconds = Math.max(1, Math.min(SHARED_URL_TTL_SECONDS, secondsLeft));
+
+  const r2Storage = new R2StorageService();
+  const shared = await Promise.all(photos.map(async (photo): Promise<SharedPhoto | null> => {
+    try {
+      const urls = await presignSharedPhoto(r2Storage, link, photo, ttlSeconds);
+      if (!urls) return null;
+      return {
+        id: photo.id,
+        originalFilename: photo.originalFilename,
+        width: photo.width,
+        height: photo.height,
+        isBest: photo.id === bestPhotoId,
+        ...urls,
+      };
+    } catch (error) {
+      logger.warn('Failed to presign shared photo', {
+        linkId: link.id,
+        photoId: photo.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  }));
+
+  return {
+    targetType: link.targetType as ShareTargetType,
+    title,
+    allowDownload: link.allowDownload,
+    expiresAt: link.expiresAt,
+    photos: shared.filter((p): p is SharedPhoto => !!p),
+    myVotes: viewerId ? await getOwnVotes(photos.map(p => p.id), shareLinkVoter(link, viewerId)) : {},
+  };
+}
@@ -0,0 +1,102 @@
+// Sharpness measurement - Laplacian variance on grayscale pixels
+// A sharp edge gives a strong second derivative; motion blur and missed focus flatten it,
+// so the variance of the Laplacian drops. Scores are most meaningful between frames of the
+// same scene, which is exactly what burst picking compares.
+import { createCanvas, type Canvas } from 'canvas';
+
+export interface PixelRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SharpnessMeasurement {
+  variance: number; // raw Laplacian variance
+  score: number; // 0-1, 0.5 at SHARPNESS_REFERENCE_VARIANCE
+  isBlurry: boolean;
+}
+
+// Regions are downscaled to at most this many pixels on the longest edge before measuring,
+// so the frame and face crops of different sizes land on comparable scales
+const FRAME_MAX_EDGE = 1024;
+const FACE_MAX_EDGE = 256;
+
+// Faces smaller than this are too few pixels to tell blur from lack of detail
+const MIN_FACE_EDGE = 24;
+
+// Variance that maps to a score of 0.5
+const SHARPNESS_REFERENCE_VARIANCE = 100;
+
+// Below this score a frame or face is reported as blurry (variance of roughly 50)
+export const BLUR_SCORE_THRESHOLD = 0.33;
+
+/**
+ * Laplacian variance of a region of the canvas, downscaled to maxEdge (never upscaled)
+ */
+function laplacianVariance(source: Canvas, region: PixelRegion, maxEdge: number): number {
+  const scale = Math.min(1, maxEdge / Math.max(region.width, region.height));
+  const width = Math.max(3, Math.round(region.width * scale));
+  const height = Math.max(3, Math.round(region.height * scale));
+
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(source, region.x, region.y, region.width, region.height, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  // Rec. 601 luma
+  const gray = new Float32Array(width * height);
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    gray[i] = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+  }
+
+  // 4-neighbour Laplacian over interior pixels
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
+
+function toMeasurement(variance: number): SharpnessMeasurement {
+  const score = variance / (variance + SHARPNESS_REFERENCE_VARIANCE);
+  return {
+    variance,
+    score,
+    isBlurry: score < BLUR_SCORE_THRESHOLD,
+  };
+}
+
+/**
+ * Sharpness of the whole frame
+ */
+export function measureFrameSharpness(canvas: Canvas): SharpnessMeasurement {
+  return toMeasurement(
+    laplacianVariance(canvas, { x: 0, y: 0, width: canvas.width, height: canvas.height }, FRAME_MAX_EDGE)
+  );
+}
+
+/**
+ * Sharpness of a face crop given in pixel coordinates. Returns null for faces too small to judge.
+ */
+export function measureFaceSharpness(canvas: Canvas, box: PixelRegion): SharpnessMeasurement | null {
+  const x = Math.max(0, Math.floor(box.x));
+  const y = Math.max(0, Math.floor(box.y));
+  const width = Math.min(canvas.width - x, Math.ceil(box.width));
+  const height = Math.min(canvas.height - y, Math.ceil(box.height));
+
+  if (width < MIN_FACE_EDGE || height < MIN_FACE_EDGE) return null;
+
+  return toMeasurement(laplacianVariance(canvas, { x, y, width, height }, FACE_MAX_EDGE));
+}
@@ -8,6 +8,12 @@ import {
   emailCampaigns,
   photoGroups,
   photoGroupMemberships,
+  analysisJobs,
+  scoringProfiles,
+  shareLinks,
+  sharePasswordFailures,
+  sessionMembers,
+  photoVotes,
   type User,
   type UpsertUser,
   type PhotoSession,
@@ -25,14 +31,40 @@ import {
   type PhotoGroupMembership,
   type InsertPhotoGroupMembership,
   type BulkSessionOptions,
+  type AnalysisJob,
+  type InsertAnalysisJob,
+  type ScoringProfile,
+  type InsertScoringProfile,
+  type ShareLink,
+  type InsertShareLink,
+  type SharePasswordFailure,
+  type SessionMember,
+  type InsertSessionMember,
+  type SessionMemberRole,
+  type PhotoVote,
+  type InsertPhotoVote,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, isNull, count } from "drizzle-orm";
+import { eq, asc, desc, and, or, isNull, isNotNull, count, inArray, notInArray, notExists, lt, gte, sql, getTableColumns } from "drizzle-orm";
+
+// Job statuses that still hold their session
+const ACTIVE_JOB_STATUSES = ['queued', 'running', 'paused'];
+
+// A regrouping of photos that must be applied all-or-nothing (merge/split)
+export interface GroupEdit {
+  // Existing groups to keep, with the photos they should contain afterwards
+  update: Array<{ groupId: string; data: Partial<PhotoGroup>; photoIds: string[] }>;
+  // New groups and their photos
+  create: Array<{ data: InsertPhotoGroup; photoIds: string[] }>;
+  // Groups to remove once their photos have moved
+  delete: string[];
+}
 
 export interface IStorage {
   // User operations (Required for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  updateUser(id: string, data: Partial<User>): Promise<User | undefined>;
   
   // Photo Session operations
   getSessionsByUser(userId: string): Promise<PhotoSession[]>;
@@ -41,6 +73,7 @@ export interface IStorage {
   getSession(id: string): Promise<PhotoSession | undefined>;
   createSession(session: InsertPhotoSession): Promise<PhotoSession>;
   updateSession(id: string, data: Partial<PhotoSession>): Promise<PhotoSession | undefined>;
+  claimSession(id: string, data: Partial<PhotoSession>, activeStatuses: string[], jobTypes: string[], staleBefore: Date): Promise<PhotoSession | undefined>;
   updateSessionBulkMode(sessionId: string, bulkMode: boolean, options?: BulkSessionOptions): Promise<PhotoSession | undefined>;
   
   // Photo operations
@@ -51,10 +84,16 @@ export interface IStorage {
   createPhoto(photo: InsertPhoto): Promise<Photo>;
   updatePhoto(id: string, data: Partial<Photo>): Promise<Photo | undefined>;
   deletePhoto(id: string): Promise<void>;
+  getPhotosByContentHash(userId: string, contentHash: string): Promise<Photo[]>;
+  getPerceptualHashesByUser(userId: string): Promise<Array<{ id: string; sessionId: string; perceptualHash: string }>>;
+  getDuplicatePhotosByUser(userId: string, sessionId?: string): Promise<Photo[]>;
+  getObjectSessionsByPath(objectPath: string): Promise<Array<{ sessionId: string; userId: string }>>;
   
   // Face operations
   createFace(face: InsertFace): Promise<Face>;
   getFacesByPhoto(photoId: string): Promise<Face[]>;
+  replaceFacesByPhoto(photoId: string, faces: InsertFace[]): Promise<Face[]>;
+  updateFace(id: string, data: Partial<Face>): Promise<Face | undefined>;
   
   // Photo Group operations
   getGroupsBySession(sessionId: string): Promise<PhotoGroup[]>;
@@ -66,9 +105,11 @@ export interface IStorage {
   // Photo Group Membership operations
   getMembershipsByGroup(groupId: string): Promise<PhotoGroupMembership[]>;
   getMembershipsByPhoto(photoId: string): Promise<PhotoGroupMembership[]>;
+  getMembership(groupId: string, photoId: string): Promise<PhotoGroupMembership | undefined>;
   addPhotoToGroup(groupId: string, photoId: string, data?: Partial<InsertPhotoGroupMembership>): Promise<PhotoGroupMembership>;
   removePhotoFromGroup(groupId: string, photoId: string): Promise<void>;
   updateMembership(membershipId: string, data: Partial<PhotoGroupMembership>): Promise<PhotoGroupMembership | undefined>;
+  applyGroupEdit(edit: GroupEdit): Promise<PhotoGroup[]>;
   
   // ConvertKit operations
   getConvertKitSettings(userId: string): Promise<ConvertKitSettings | undefined>;
@@ -79,6 +120,51 @@ export interface IStorage {
   getEmailCampaignsBySession(sessionId: string): Promise<EmailCampaign[]>;
   createEmailCampaign(campaign: InsertEmailCampaign): Promise<EmailCampaign>;
   updateEmailCampaign(id: string, data: Partial<EmailCampaign>): Promise<EmailCampaign | undefined>;
+
+  // Scoring Profile operations
+  getScoringProfilesByUser(userId: string): Promise<ScoringProfile[]>;
+  getScoringProfile(id: string): Promise<ScoringProfile | undefined>;
+  createScoringProfile(profile: InsertScoringProfile): Promise<ScoringProfile>;
+  updateScoringProfile(id: string, data: Partial<ScoringProfile>): Promise<ScoringProfile | undefined>;
+  deleteScoringProfile(id: string): Promise<void>;
+
+  // Session Member operations
+  getSessionMembers(sessionId: string): Promise<SessionMember[]>;
+  getSessionMember(id: string): Promise<SessionMember | undefined>;
+  getSessionMemberByUser(sessionId: string, userId: string): Promise<SessionMember | undefined>;
+  getSessionMemberByEmail(sessionId: string, email: string): Promise<SessionMember | undefined>;
+  getSessionMemberByInviteToken(token: string): Promise<SessionMember | undefined>;
+  getPendingInvitationsByEmail(email: string): Promise<SessionMember[]>;
+  getSessionsSharedWithUser(userId: string): Promise<Array<{ session: PhotoSession; role: SessionMemberRole }>>;
+  createSessionMember(member: InsertSessionMember): Promise<SessionMember>;
+  updateSessionMember(id: string, data: Partial<SessionMember>): Promise<SessionMember | undefined>;
+  deleteSessionMember(id: string): Promise<void>;
+
+  // Share Link operations
+  createShareLink(link: InsertShareLink): Promise<ShareLink>;
+  getShareLink(id: string): Promise<ShareLink | undefined>;
+  getShareLinkByToken(token: string): Promise<ShareLink | undefined>;
+  getShareLinksBySession(sessionId: string): Promise<ShareLink[]>;
+  updateShareLink(id: string, data: Partial<ShareLink>): Promise<ShareLink | undefined>;
+  recordShareLinkView(id: string): Promise<void>;
+  getSharePasswordFailure(shareLinkId: string, clientKey: string): Promise<SharePasswordFailure | undefined>;
+  recordSharePasswordFailure(shareLinkId: string, clientKey: string, windowStartedAfter: Date): Promise<SharePasswordFailure>;
+
+  // Photo Vote operations
+  getPhotoVote(photoId: string, voterKey: string): Promise<PhotoVote | undefined>;
+  getVotesBySession(sessionId: string): Promise<PhotoVote[]>;
+  getVotesByPhotos(photoIds: string[]): Promise<PhotoVote[]>;
+  upsertPhotoVote(vote: InsertPhotoVote): Promise<PhotoVote>;
+  deletePhotoVote(photoId: string, voterKey: string): Promise<void>;
+
+  // Analysis Job operations
+  createAnalysisJob(job: InsertAnalysisJob): Promise<AnalysisJob | undefined>;
+  getAnalysisJob(id: string): Promise<AnalysisJob | undefined>;
+  getLatestAnalysisJobBySession(sessionId: string, type?: string | string[]): Promise<AnalysisJob | undefined>;
+  getActiveAnalysisJobBySession(sessionId: string, type?: string | string[]): Promise<AnalysisJob | undefined>;
+  updateAnalysisJob(id: string, data: Partial<AnalysisJob>): Promise<AnalysisJob | undefined>;
+  claimNextAnalysisJob(workerId: string): Promise<AnalysisJob | undefined>;
+  requeueStaleAnalysisJobs(staleBefore: Date): Promise<{ requeued: AnalysisJob[]; failed: AnalysisJob[] }>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -103,6 +189,15 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUser(id: string, data: Partial<User>): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
   // Photo Session operations
   async getSessionsByUser(userId: string): Promise<PhotoSession[]> {
     return await db
@@ -159,6 +254,30 @@ export class DatabaseStorage implements IStorage {
     return session;
   }
 
+  async claimSession(id: string, data: Partial<PhotoSession>, activeStatuses: string[], jobTypes: string[], staleBefore: Date): Promise<PhotoSession | undefined> {
+    // One conditional UPDATE, so concurrent requests and other processes can't both claim it.
+    // A session left in an active status by a run that stopped updating it can be taken over;
+    // one with an unfinished job of the given types can't.
+    const [session] = await db
+      .update(photoSessions)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(
+        eq(photoSessions.id, id),
+        or(notInArray(photoSessions.status, activeStatuses), lt(photoSessions.updatedAt, staleBefore)),
+        notExists(
+          db.select({ id: analysisJobs.id })
+            .from(analysisJobs)
+            .where(and(
+              eq(analysisJobs.sessionId, photoSessions.id),
+              inArray(analysisJobs.status, ACTIVE_JOB_STATUSES),
+              inArray(analysisJobs.type, jobTypes)
+            ))
+        )
+      ))
+      .returning();
+    return session;
+  }
+
   // Photo operations
   async getPhotosBySession(sessionId: string): Promise<Photo[]> {
     return await db
@@ -221,6 +340,63 @@ export class DatabaseStorage implements IStorage {
       .where(eq(photos.id, id));
   }
 
+  // Photos across all of a user's sessions with the same file, oldest first
+  async getPhotosByContentHash(userId: string, contentHash: string): Promise<Photo[]> {
+    return await db
+      .select(getTableColumns(photos))
+      .from(photos)
+      .innerJoin(photoSessions, eq(photos.sessionId, photoSessions.id))
+      .where(and(eq(photoSessions.userId, userId), eq(photos.contentHash, contentHash)))
+      .orderBy(asc(photos.createdAt));
+  }
+
+  // Every perceptual hash in a user's library, oldest photo first
+  async getPerceptualHashesByUser(userId: string): Promise<Array<{ id: string; sessionId: string; perceptualHash: string }>> {
+    const rows = await db
+      .select({ id: photos.id, sessionId: photos.sessionId, perceptualHash: photos.perceptualHash })
+      .from(photos)
+      .innerJoin(photoSessions, eq(photos.sessionId, photoSessions.id))
+      .where(and(eq(photoSessions.userId, userId), isNotNull(photos.perceptualHash)))
+      .orderBy(asc(photos.createdAt));
+    return rows.map(row => ({ ...row, perceptualHash: row.perceptualHash! }));
+  }
+
+  // Photos flagged as duplicates in a user's library, or in one of their sessions
+  async getDuplicatePhotosByUser(userId: string, sessionId?: string): Promise<Photo[]> {
+    return await db
+      .select(getTableColumns(photos))
+      .from(photos)
+      .innerJoin(photoSessions, eq(photos.sessionId, photoSessions.id))
+      .where(and(
+        eq(photoSessions.userId, userId),
+        isNotNull(photos.duplicateOfPhotoId),
+        sessionId ? eq(photos.sessionId, sessionId) : undefined
+      ))
+      .orderBy(asc(photos.createdAt));
+  }
+
+  // Sessions (and their owners) whose photos store an object, as an original or a rendition,
+  // oldest photo first. Photos take a client-supplied fileUrl, so one object can be in several.
+  async getObjectSessionsByPath(objectPath: string): Promise<Array<{ sessionId: string; userId: string }>> {
+    const rows = await db
+      .select({ sessionId: photoSessions.id, userId: photoSessions.userId })
+      .from(photos)
+      .innerJoin(photoSessions, eq(photos.sessionId, photoSessions.id))
+      .where(or(
+        eq(photos.fileUrl, objectPath),
+        eq(photos.thumbnailUrl, objectPath),
+        eq(photos.previewUrl, objectPath)
+      ))
+      .orderBy(asc(photos.createdAt), asc(photos.id));
+
+    const seen = new Set<string>();
+    return rows.filter(row => {
+      if (seen.has(row.sessionId)) return false;
+      seen.add(row.sessionId);
+      return true;
+    });
+  }
+
   // Face operations
   async createFace(faceData: InsertFace): Promise<Face> {
     const [face] = await db
@@ -234,7 +410,28 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(faces)
-      .where(eq(faces.photoId, photoId));
+      .where(eq(faces.photoId, photoId))
+      .orderBy(asc(faces.faceIndex));
+  }
+
+  async replaceFacesByPhoto(photoId: string, faceData: InsertFace[]): Promise<Face[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(faces).where(eq(faces.photoId, photoId));
+      if (faceData.length === 0) return [];
+      return await tx
+        .insert(faces)
+        .values(faceData)
+        .returning();
+    });
+  }
+
+  async updateFace(id: string, data: Partial<Face>): Promise<Face | undefined> {
+    const [face] = await db
+      .update(faces)
+      .set(data)
+      .where(eq(faces.id, id))
+      .returning();
+    return face;
   }
 
   // ConvertKit operations
@@ -289,6 +486,248 @@ export class DatabaseStorage implements IStorage {
     return campaign;
   }
 
+  // Scoring Profile operations
+  async getScoringProfilesByUser(userId: string): Promise<ScoringProfile[]> {
+    return await db
+      .select()
+      .from(scoringProfiles)
+      .where(eq(scoringProfiles.userId, userId))
+      .orderBy(asc(scoringProfiles.name));
+  }
+
+  async getScoringProfile(id: string): Promise<ScoringProfile | undefined> {
+    const [profile] = await db
+      .select()
+      .from(scoringProfiles)
+      .where(eq(scoringProfiles.id, id));
+    return profile;
+  }
+
+  async createScoringProfile(profileData: InsertScoringProfile): Promise<ScoringProfile> {
+    const [profile] = await db
+      .insert(scoringProfiles)
+      .values(profileData)
+      .returning();
+    return profile;
+  }
+
+  async updateScoringProfile(id: string, data: Partial<ScoringProfile>): Promise<ScoringProfile | undefined> {
+    const [profile] = await db
+      .update(scoringProfiles)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(scoringProfiles.id, id))
+      .returning();
+    return profile;
+  }
+
+  async deleteScoringProfile(id: string): Promise<void> {
+    await db.delete(scoringProfiles).where(eq(scoringProfiles.id, id));
+  }
+
+  // Session Member operations
+  async getSessionMembers(sessionId: string): Promise<SessionMember[]> {
+    return await db
+      .select()
+      .from(sessionMembers)
+      .where(eq(sessionMembers.sessionId, sessionId))
+      .orderBy(asc(sessionMembers.createdAt));
+  }
+
+  async getSessionMember(id: string): Promise<SessionMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(sessionMembers)
+      .where(eq(sessionMembers.id, id));
+    return member;
+  }
+
+  async getSessionMemberByUser(sessionId: string, userId: string): Promise<SessionMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(sessionMembers)
+      .where(and(eq(sessionMembers.sessionId, sessionId), eq(sessionMembers.userId, userId)));
+    return member;
+  }
+
+  async getSessionMemberByEmail(sessionId: string, email: string): Promise<SessionMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(sessionMembers)
+      .where(and(eq(sessionMembers.sessionId, sessionId), eq(sessionMembers.email, email)));
+    return member;
+  }
+
+  async getSessionMemberByInviteToken(token: string): Promise<SessionMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(sessionMembers)
+      .where(eq(sessionMembers.inviteToken, token));
+    return member;
+  }
+
+  // Invitations to an address that haven't been accepted yet, newest first
+  async getPendingInvitationsByEmail(email: string): Promise<SessionMember[]> {
+    return await db
+      .select()
+      .from(sessionMembers)
+      .where(and(eq(sessionMembers.email, email), isNull(sessionMembers.userId)))
+      .orderBy(desc(sessionMembers.createdAt));
+  }
+
+  async getSessionsSharedWithUser(userId: string): Promise<Array<{ session: PhotoSession; role: SessionMemberRole }>> {
+    const rows = await db
+      .select({ session: photoSessions, role: sessionMembers.role })
+      .from(sessionMembers)
+      .innerJoin(photoSessions, eq(sessionMembers.sessionId, photoSessions.id))
+      .where(eq(sessionMembers.userId, userId))
+      .orderBy(desc(photoSessions.createdAt));
+    return rows.map(row => ({ session: row.session, role: row.role as SessionMemberRole }));
+  }
+
+  async createSessionMember(memberData: InsertSessionMember): Promise<SessionMember> {
+    const [member] = await db
+      .insert(sessionMembers)
+      .values(memberData)
+      .returning();
+    return member;
+  }
+
+  async updateSessionMember(id: string, data: Partial<SessionMember>): Promise<SessionMember | undefined> {
+    const [member] = await db
+      .update(sessionMembers)
+      .set(data)
+      .where(eq(sessionMembers.id, id))
+      .returning();
+    return member;
+  }
+
+  async deleteSessionMember(id: string): Promise<void> {
+    await db.delete(sessionMembers).where(eq(sessionMembers.id, id));
+  }
+
+  // Share Link operations
+  async createShareLink(linkData: InsertShareLink): Promise<ShareLink> {
+    const [link] = await db
+      .insert(shareLinks)
+      .values(linkData)
+      .returning();
+    return link;
+  }
+
+  async getShareLink(id: string): Promise<ShareLink | undefined> {
+    const [link] = await db
+      .select()
+      .from(shareLinks)
+      .where(eq(shareLinks.id, id));
+    return link;
+  }
+
+  async getShareLinkByToken(token: string): Promise<ShareLink | undefined> {
+    const [link] = await db
+      .select()
+      .from(shareLinks)
+      .where(eq(shareLinks.token, token));
+    return link;
+  }
+
+  async getShareLinksBySession(sessionId: string): Promise<ShareLink[]> {
+    return await db
+      .select()
+      .from(shareLinks)
+      .where(eq(shareLinks.sessionId, sessionId))
+      .orderBy(desc(shareLinks.createdAt));
+  }
+
+  async updateShareLink(id: string, data: Partial<ShareLink>): Promise<ShareLink | undefined> {
+    const [link] = await db
+      .update(shareLinks)
+      .set(data)
+      .where(eq(shareLinks.id, id))
+      .returning();
+    return link;
+  }
+
+  // Incremented in SQL so concurrent views aren't lost
+  async recordShareLinkView(id: string): Promise<void> {
+    await db
+      .update(shareLinks)
+      .set({ viewCount: sql`${shareLinks.viewCount} + 1`, lastViewedAt: new Date() })
+      .where(eq(shareLinks.id, id));
+  }
+
+  async getSharePasswordFailure(shareLinkId: string, clientKey: string): Promise<SharePasswordFailure | undefined> {
+    const [failure] = await db
+      .select()
+      .from(sharePasswordFailures)
+      .where(and(eq(sharePasswordFailures.shareLinkId, shareLinkId), eq(sharePasswordFailures.clientKey, clientKey)));
+    return failure;
+  }
+
+  async recordSharePasswordFailure(shareLinkId: string, clientKey: string, windowStartedAfter: Date): Promise<SharePasswordFailure> {
+    // Counted in one statement so concurrent guesses can't slip past the limit; a window that
+    // started before windowStartedAfter is over and the count starts again
+    const windowOver = sql`${sharePasswordFailures.windowStartedAt} < ${windowStartedAfter}`;
+    const [failure] = await db
+      .insert(sharePasswordFailures)
+      .values({ shareLinkId, clientKey, failures: 1 })
+      .onConflictDoUpdate({
+        target: [sharePasswordFailures.shareLinkId, sharePasswordFailures.clientKey],
+        set: {
+          failures: sql`CASE WHEN ${windowOver} THEN 1 ELSE ${sharePasswordFailures.failures} + 1 END`,
+          windowStartedAt: sql`CASE WHEN ${windowOver} THEN now() ELSE ${sharePasswordFailures.windowStartedAt} END`,
+        },
+      })
+      .returning();
+    return failure;
+  }
+
+  // Photo Vote operations
+  async getPhotoVote(photoId: string, voterKey: string): Promise<PhotoVote | undefined> {
+    const [vote] = await db
+      .select()
+      .from(photoVotes)
+      .where(and(eq(photoVotes.photoId, photoId), eq(photoVotes.voterKey, voterKey)));
+    return vote;
+  }
+
+  async getVotesBySession(sessionId: string): Promise<PhotoVote[]> {
+    return await db
+      .select()
+      .from(photoVotes)
+      .where(eq(photoVotes.sessionId, sessionId));
+  }
+
+  async getVotesByPhotos(photoIds: string[]): Promise<PhotoVote[]> {
+    if (photoIds.length === 0) return [];
+    return await db
+      .select()
+      .from(photoVotes)
+      .where(inArray(photoVotes.photoId, photoIds));
+  }
+
+  // One vote per voter and photo; voting again replaces it
+  async upsertPhotoVote(voteData: InsertPhotoVote): Promise<PhotoVote> {
+    const [vote] = await db
+      .insert(photoVotes)
+      .values(voteData)
+      .onConflictDoUpdate({
+        target: [photoVotes.photoId, photoVotes.voterKey],
+        set: {
+          reaction: voteData.reaction ?? null,
+          rating: voteData.rating ?? null,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return vote;
+  }
+
+  async deletePhotoVote(photoId: string, voterKey: string): Promise<void> {
+    await db
+      .delete(photoVotes)
+      .where(and(eq(photoVotes.photoId, photoId), eq(photoVotes.voterKey, voterKey)));
+  }
+
   // Photo Group operations
   async getGroupsBySession(sessionId: string): Promise<PhotoGroup[]> {
     return await db
@@ -344,6 +783,17 @@ export class DatabaseStorage implements IStorage {
       .where(eq(photoGroupMemberships.photoId, photoId));
   }
 
+  async getMembership(groupId: string, photoId: string): Promise<PhotoGroupMembership | undefined> {
+    const [membership] = await db
+      .select()
+      .from(photoGroupMemberships)
+      .where(and(
+        eq(photoGroupMemberships.groupId, groupId),
+        eq(photoGroupMemberships.photoId, photoId)
+      ));
+    return membership;
+  }
+
   async addPhotoToGroup(groupId: string, photoId: string, data?: Partial<InsertPhotoGroupMembership>): Promise<PhotoGroupMembership> {
     const [membership] = await db
       .insert(photoGroupMemberships)
@@ -374,6 +824,86 @@ export class DatabaseStorage implements IStorage {
     return membership;
   }
 
+  async applyGroupEdit(edit: GroupEdit): Promise<PhotoGroup[]> {
+    return await db.transaction(async (tx) => {
+      const involvedGroupIds = [...edit.update.map(u => u.groupId), ...edit.delete];
+      const existing = involvedGroupIds.length > 0
+        ? await tx
+            .select()
+            .from(photoGroupMemberships)
+            .where(inArray(photoGroupMemberships.groupId, involvedGroupIds))
+        : [];
+
+      // Moved photos keep their exclusion flag and notes from the group they came from
+      const membershipByPhoto = new Map(existing.map(m => [m.photoId, m]));
+      const addMemberships = async (groupId: string, photoIds: string[], current: Set<string>) => {
+        const values = photoIds
+          .filter(photoId => !current.has(photoId))
+          .map(photoId => {
+            const previous = membershipByPhoto.get(photoId);
+            return {
+              groupId,
+              photoId,
+              confidenceScore: previous?.confidenceScore ?? null,
+              isExcluded: previous?.isExcluded ?? false,
+              userNotes: previous?.userNotes ?? null,
+            };
+          });
+        if (values.length > 0) {
+          await tx.insert(photoGroupMemberships).values(values);
+        }
+      };
+
+      if (edit.delete.length > 0) {
+        await tx.delete(photoGroups).where(inArray(photoGroups.id, edit.delete));
+      }
+
+      const results: Array<{ group: PhotoGroup; photoIds: string[] }> = [];
+
+      for (const { groupId, data, photoIds } of edit.update) {
+        const current = existing.filter(m => m.groupId === groupId);
+        const removed = current.filter(m => !photoIds.includes(m.photoId)).map(m => m.id);
+        if (removed.length > 0) {
+          await tx.delete(photoGroupMemberships).where(inArray(photoGroupMemberships.id, removed));
+        }
+        await addMemberships(groupId, photoIds, new Set(current.map(m => m.photoId)));
+
+        const [group] = await tx
+          .update(photoGroups)
+          .set(data)
+          .where(eq(photoGroups.id, groupId))
+          .returning();
+        if (group) results.push({ group, photoIds });
+      }
+
+      for (const { data, photoIds } of edit.create) {
+        const [group] = await tx.insert(photoGroups).values(data).returning();
+        await addMemberships(group.id, photoIds, new Set());
+        results.push({ group, photoIds });
+      }
+
+      // Only groups with 2+ photos mark their best photo as selected
+      const involvedPhotoIds = Array.from(new Set(results.flatMap(r => r.photoIds)));
+      if (involvedPhotoIds.length > 0) {
+        await tx
+          .update(photos)
+          .set({ isSelectedBest: false })
+          .where(inArray(photos.id, involvedPhotoIds));
+      }
+      const selectedIds = results
+        .filter(r => r.photoIds.length >= 2 && r.group.bestPhotoId)
+        .map(r => r.group.bestPhotoId as string);
+      if (selectedIds.length > 0) {
+        await tx
+          .update(photos)
+          .set({ isSelectedBest: true })
+          .where(inArray(photos.id, selectedIds));
+      }
+
+      return results.map(r => r.group);
+    });
+  }
+
   // Bulk Session Operations
   async updateSessionBulkMode(sessionId: string, bulkMode: boolean, options?: BulkSessionOptions): Promise<PhotoSession | undefined> {
     const updateData: Partial<PhotoSession> = {
@@ -397,6 +927,118 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return session;
   }
+
+  // Analysis Job operations
+  async createAnalysisJob(job: InsertAnalysisJob): Promise<AnalysisJob | undefined> {
+    // Undefined when the session already has an unfinished job its unique index allows only one of
+    const [newJob] = await db.insert(analysisJobs).values(job).onConflictDoNothing().returning();
+    return newJob;
+  }
+
+  async getAnalysisJob(id: string): Promise<AnalysisJob | undefined> {
+    const [job] = await db
+      .select()
+      .from(analysisJobs)
+      .where(eq(analysisJobs.id, id));
+    return job;
+  }
+
+  async getLatestAnalysisJobBySession(sessionId: string, type?: string | string[]): Promise<AnalysisJob | undefined> {
+    const [job] = await db
+      .select()
+      .from(analysisJobs)
+      .where(and(
+        eq(analysisJobs.sessionId, sessionId),
+        this.analysisJobTypeFilter(type)
+      ))
+      .orderBy(desc(analysisJobs.createdAt))
+      .limit(1);
+    return job;
+  }
+
+  async getActiveAnalysisJobBySession(sessionId: string, type?: string | string[]): Promise<AnalysisJob | undefined> {
+    const [job] = await db
+      .select()
+      .from(analysisJobs)
+      .where(and(
+        eq(analysisJobs.sessionId, sessionId),
+        inArray(analysisJobs.status, ACTIVE_JOB_STATUSES),
+        this.analysisJobTypeFilter(type)
+      ))
+      .orderBy(desc(analysisJobs.createdAt))
+      .limit(1);
+    return job;
+  }
+
+  // Match one job type or any of several; undefined matches every type
+  private analysisJobTypeFilter(type?: string | string[]) {
+    if (type === undefined) return undefined;
+    return Array.isArray(type) ? inArray(analysisJobs.type, type) : eq(analysisJobs.type, type);
+  }
+
+  async updateAnalysisJob(id: string, data: Partial<AnalysisJob>): Promise<AnalysisJob | undefined> {
+    const [job] = await db
+      .update(analysisJobs)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(analysisJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async claimNextAnalysisJob(workerId: string): Promise<AnalysisJob | undefined> {
+    // SKIP LOCKED lets several workers poll the same table without claiming the same job
+    const [job] = await db
+      .update(analysisJobs)
+      .set({
+        status: 'running',
+        lockedBy: workerId,
+        lockedAt: new Date(),
+        startedAt: sql`coalesce(${analysisJobs.startedAt}, now())`,
+        attempts: sql`${analysisJobs.attempts} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(eq(analysisJobs.id, sql`(
+        select id from analysis_jobs
+        where status = 'queued' and run_after <= now()
+        order by created_at
+        limit 1
+        for update skip locked
+      )`))
+      .returning();
+    return job;
+  }
+
+  async requeueStaleAnalysisJobs(staleBefore: Date): Promise<{ requeued: AnalysisJob[]; failed: AnalysisJob[] }> {
+    const isStale = and(eq(analysisJobs.status, 'running'), lt(analysisJobs.lockedAt, staleBefore));
+
+    // Jobs that keep killing their worker must not be retried forever
+    const failed = await db
+      .update(analysisJobs)
+      .set({
+        status: 'failed',
+        error: 'Worker stopped responding too many times',
+        lockedBy: null,
+        lockedAt: null,
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(isStale, gte(analysisJobs.attempts, analysisJobs.maxAttempts)))
+      .returning();
+
+    const requeued = await db
+      .update(analysisJobs)
+      .set({
+        status: 'queued',
+        lockedBy: null,
+        lockedAt: null,
+        runAfter: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(isStale)
+      .returning();
+
+    return { requeued, failed };
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,31 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./kindeAuth", () => ({ isAuthenticated: vi.fn() }));
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.resetModules();
+});
+
+describe("stream ticket secret", () => {
+  it("refuses to start in production without a shared secret", async () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("STREAM_TICKET_SECRET", "");
+    vi.stubEnv("SESSION_SECRET", "");
+    await expect(import("./streamTickets")).rejects.toThrow(/STREAM_TICKET_SECRET/);
+  });
+
+  it("issues tickets with the configured secret in production", async () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("STREAM_TICKET_SECRET", "shared-secret");
+    const { issueStreamTicket } = await import("./streamTickets");
+    expect(issueStreamTicket("user-1", "session-1", "analysis").ticket).toMatch(/^[\w-]+\.[\w-]+$/);
+  });
+
+  it("falls back to a per-process secret outside production", async () => {
+    vi.stubEnv("NODE_ENV", "development");
+    vi.stubEnv("STREAM_TICKET_SECRET", "");
+    vi.stubEnv("SESSION_SECRET", "");
+    await expect(import("./streamTickets")).resolves.toHaveProperty("issueStreamTicket");
+  });
+});
@@ -0,0 +1,106 @@
+// Stream tickets - short-lived signed tokens that let EventSource connect to progress streams
+// and start browser downloads. Neither can send the bearer token isAuthenticated requires, so
+// the client asks for a ticket with an authenticated call and passes it in the URL instead.
+// A ticket names the user, the session and the kind of stream it opens, and only authorizes
+// connecting; an open stream or download outlives its ticket.
+import type { Request, Response, NextFunction } from "express";
+import * as crypto from 'node:crypto';
+import { isAuthenticated } from './kindeAuth';
+import { AppError } from './middleware/errorHandler';
+import { logger } from './middleware/logger';
+
+export type StreamKind = 'analysis' | 'grouping' | 'export';
+
+export const STREAM_TICKET_TTL_MS = 60 * 1000;
+
+interface StreamTicketClaims {
+  userId: string;
+  sessionId: string;
+  stream: StreamKind;
+  expiresAt: number;
+}
+
+function resolveSecret(): string {
+  const secret = process.env.STREAM_TICKET_SECRET || process.env.SESSION_SECRET;
+  if (secret) return secret;
+
+  // Without a shared secret, tickets only verify in the process that issued them, so behind a
+  // load balancer or across a restart progress streams and downloads would fail at random
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error("STREAM_TICKET_SECRET or SESSION_SECRET environment variable is required in production");
+  }
+
+  logger.error('STREAM_TICKET_SECRET not set, using a per-process secret for stream tickets. Tickets will not verify in other processes or after a restart.');
+  return crypto.randomBytes(32).toString('hex');
+}
+
+const secret = resolveSecret();
+
+function sign(encodedClaims: string): string {
+  return crypto.createHmac('sha256', secret).update(encodedClaims).digest('base64url');
+}
+
+/**
+ * Issue a ticket for one user to open one kind of progress stream on one session
+ */
+export function issueStreamTicket(
+  userId: string,
+  sessionId: string,
+  stream: StreamKind
+): { ticket: string; expiresAt: string } {
+  const claims: StreamTicketClaims = {
+    userId,
+    sessionId,
+    stream,
+    expiresAt: Date.now() + STREAM_TICKET_TTL_MS,
+  };
+  const encodedClaims = Buffer.from(JSON.stringify(claims)).toString('base64url');
+
+  return {
+    ticket: `${encodedClaims}.${sign(encodedClaims)}`,
+    expiresAt: new Date(claims.expiresAt).toISOString(),
+  };
+}
+
+/**
+ * Claims of a ticket with a valid signature that hasn't expired, or null
+ */
+export function verifyStreamTicket(ticket: string): StreamTicketClaims | null {
+  const [encodedClaims, signature] = ticket.split('.');
+  if (!encodedClaims || !signature) return null;
+
+  const expected = Buffer.from(sign(encodedClaims));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(encodedClaims, 'base64url').toString()) as StreamTicketClaims;
+    return claims.expiresAt > Date.now() ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Authenticate a stream request by its ?ticket= for the route's :sessionId, falling back to
+ * the bearer token so non-browser clients and JSON polling keep working
+ */
+export function isStreamAuthenticated(stream: StreamKind) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const ticket = typeof req.query.ticket === 'string' ? req.query.ticket : undefined;
+    if (!ticket) {
+      return isAuthenticated(req, res, next);
+    }
+
+    const claims = verifyStreamTicket(ticket);
+    if (!claims || claims.stream !== stream || claims.sessionId !== req.params.sessionId) {
+      logger.warn('Stream ticket rejected', { path: req.path, stream, sessionId: req.params.sessionId });
+      return next(new AppError(401, "Invalid or expired stream ticket"));
+    }
+
+    req.userId = claims.userId;
+    next();
+  };
+}
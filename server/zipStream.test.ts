@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import { PassThrough } from "node:stream";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ZipStreamError, ZipStreamWriter } from "./zipStream";
+
+const MODIFIED_AT = new Date(2024, 5, 15, 13, 45, 30);
+
+interface ParsedEntry {
+  name: string;
+  crc: number;
+  size: number;
+  offset: number;
+  data: Buffer;
+}
+
+interface ParsedArchive {
+  entries: ParsedEntry[];
+  centralDirectoryOffset: number;
+  centralDirectorySize: number;
+  zip64: boolean;
+}
+
+async function writeArchive(files: Array<[string, Buffer]>): Promise<Buffer> {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on("data", chunk => chunks.push(chunk));
+
+  const zip = new ZipStreamWriter(output);
+  for (const [name, data] of files) {
+    await zip.addFile(name, data, MODIFIED_AT);
+  }
+  await zip.finish();
+  return Buffer.concat(chunks);
+}
+
+// Just enough of the format to check what the writer produced: the end records, then each
+// central directory header and the local header it points at
+function parseArchive(archive: Buffer): ParsedArchive {
+  const endOffset = archive.length - 22;
+  expect(archive.readUInt32LE(endOffset)).toBe(0x06054b50);
+  let entryCount = archive.readUInt16LE(endOffset + 10);
+  let centralDirectorySize = archive.readUInt32LE(endOffset + 12);
+  let centralDirectoryOffset = archive.readUInt32LE(endOffset + 16);
+
+  const locatorOffset = endOffset - 20;
+  const zip64 = locatorOffset >= 0 && archive.readUInt32LE(locatorOffset) === 0x07064b50;
+  if (zip64) {
+    const zip64EndOffset = Number(archive.readBigUInt64LE(locatorOffset + 8));
+    expect(zip64EndOffset).toBe(locatorOffset - 56);
+    expect(archive.readUInt32LE(zip64EndOffset)).toBe(0x06064b50);
+    entryCount = Number(archive.readBigUInt64LE(zip64EndOffset + 32));
+    centralDirectorySize = Number(archive.readBigUInt64LE(zip64EndOffset + 40));
+    centralDirectoryOffset = Number(archive.readBigUInt64LE(zip64EndOffset + 48));
+  }
+
+  const entries: ParsedEntry[] = [];
+  let cursor = centralDirectoryOffset;
+  for (let i = 0; i < entryCount; i++) {
+    expect(archive.readUInt32LE(cursor)).toBe(0x02014b50);
+    const crc = archive.readUInt32LE(cursor + 16);
+    const size = archive.readUInt32LE(cursor + 24);
+    const nameLength = archive.readUInt16LE(cursor + 28);
+    const extraLength = archive.readUInt16LE(cursor + 30);
+    const offset = archive.readUInt32LE(cursor + 42);
+    const name = archive.toString("utf8", cursor + 46, cursor + 46 + nameLength);
+
+    // The local header repeats what the central directory says
+    expect(archive.readUInt32LE(offset)).toBe(0x04034b50);
+    expect(archive.readUInt16LE(offset + 8)).toBe(0); // stored
+    expect(archive.readUInt32LE(offset + 14)).toBe(crc);
+    expect(archive.readUInt32LE(offset + 18)).toBe(size);
+    expect(archive.readUInt32LE(offset + 22)).toBe(size);
+    const localNameLength = archive.readUInt16LE(offset + 26);
+    expect(archive.toString("utf8", offset + 30, offset + 30 + localNameLength)).toBe(name);
+    const dataStart = offset + 30 + localNameLength + archive.readUInt16LE(offset + 28);
+
+    entries.push({ name, crc, size, offset, data: archive.subarray(dataStart, dataStart + size) });
+    cursor += 46 + nameLength + extraLength + archive.readUInt16LE(cursor + 32);
+  }
+  expect(cursor - centralDirectoryOffset).toBe(centralDirectorySize);
+
+  return { entries, centralDirectoryOffset, centralDirectorySize, zip64 };
+}
+
+function hasUnzip(): boolean {
+  try {
+    execFileSync("unzip", ["-v"], { stdio: "ignore" });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe("ZipStreamWriter", () => {
+  const files: Array<[string, Buffer]> = [
+    ["hello.txt", Buffer.from("hello")],
+    ["Group 1/IMG_0001.jpg", Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10])],
+    ["Ungrouped/café.txt", Buffer.alloc(0)],
+  ];
+
+  it("writes local headers, central directory and end record that agree", async () => {
+    const archive = await writeArchive(files);
+    const parsed = parseArchive(archive);
+
+    expect(parsed.zip64).toBe(false);
+    expect(parsed.entries.map(e => e.name)).toEqual(files.map(([name]) => name));
+    parsed.entries.forEach((entry, i) => {
+      expect(entry.size).toBe(files[i][1].length);
+      expect(entry.data.equals(files[i][1])).toBe(true);
+    });
+
+    // Entries are back to back from the start, and the central directory follows the last one
+    expect(parsed.entries[0].offset).toBe(0);
+    const last = parsed.entries[parsed.entries.length - 1];
+    expect(parsed.centralDirectoryOffset).toBe(last.offset + 30 + Buffer.byteLength(last.name) + last.size);
+    expect(parsed.centralDirectoryOffset + parsed.centralDirectorySize + 22).toBe(archive.length);
+  });
+
+  it("records the standard CRC-32 of each file", async () => {
+    const parsed = parseArchive(await writeArchive(files));
+    expect(parsed.entries[0].crc).toBe(0x3610a686); // "hello"
+    expect(parsed.entries[2].crc).toBe(0); // empty
+  });
+
+  it("marks names as UTF-8 and stores the modification time in DOS format", async () => {
+    const archive = await writeArchive(files);
+    expect(archive.readUInt16LE(6) & 0x0800).toBe(0x0800);
+    expect(archive.readUInt16LE(10)).toBe((13 << 11) | (45 << 5) | 15);
+    expect(archive.readUInt16LE(12)).toBe(((2024 - 1980) << 9) | (6 << 5) | 15);
+  });
+
+  it("switches to ZIP64 end records past 65535 entries", async () => {
+    const many: Array<[string, Buffer]> = Array.from({ length: 0xffff }, (_, i) => [`${i}`, Buffer.alloc(0)]);
+    const archive = await writeArchive(many);
+
+    const endOffset = archive.length - 22;
+    expect(archive.readUInt16LE(endOffset + 10)).toBe(0xffff);
+
+    const parsed = parseArchive(archive);
+    expect(parsed.zip64).toBe(true);
+    expect(parsed.entries).toHaveLength(0xffff);
+    expect(parsed.entries[0xfffe].name).toBe("65534");
+  }, 30000);
+
+  it("refuses files once the archive is finished", async () => {
+    const zip = new ZipStreamWriter(new PassThrough());
+    await zip.finish();
+    await expect(zip.addFile("late.txt", Buffer.from("late"))).rejects.toBeInstanceOf(ZipStreamError);
+  });
+
+  it.skipIf(!hasUnzip())("produces an archive unzip accepts", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "zip-stream-"));
+    try {
+      const path = join(dir, "export.zip");
+      writeFileSync(path, await writeArchive(files));
+      const output = execFileSync("unzip", ["-t", path], { encoding: "utf8" });
+      expect(output).toContain("No errors detected");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
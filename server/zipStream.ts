@@ -0,0 +1,235 @@
+// Zip stream - writes a ZIP archive to a stream one file at a time
+// Entries are stored uncompressed: photos are already compressed, and storing keeps the CPU free.
+// Each file is handed over whole, so its size and CRC go in the local header and no data
+// descriptors are needed. Past 4 GB or 65535 entries the archive switches to ZIP64 records.
+import type { Writable } from "node:stream";
+import { once } from "node:events";
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06064b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EXTRA_FIELD_ID = 0x0001;
+
+const VERSION_DEFAULT = 20; // 2.0: stored entries and folders
+const VERSION_ZIP64 = 45;
+const MADE_BY_UNIX = 3 << 8;
+const FLAG_UTF8_NAMES = 0x0800;
+const METHOD_STORED = 0;
+const UNIX_FILE_MODE = 0o100644;
+
+const MAX_UINT16 = 0xffff;
+const MAX_UINT32 = 0xffffffff;
+
+interface CentralDirectoryEntry {
+  name: Buffer;
+  crc: number;
+  size: number;
+  offset: number;
+  dosTime: number;
+  dosDate: number;
+}
+
+export class ZipStreamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ZipStreamError";
+    Object.setPrototypeOf(this, ZipStreamError.prototype);
+  }
+}
+
+// CRC-32 as zip uses it (IEEE polynomial, reflected). zlib.crc32 would do, but only from
+// Node 20.15 and the deploy image runs Node 18.
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS timestamps have two-second resolution and start in 1980
+function toDosDateTime(date: Date): { dosTime: number; dosDate: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    dosTime: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    dosDate: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+export class ZipStreamWriter {
+  private entries: CentralDirectoryEntry[] = [];
+  private offset = 0;
+  private finished = false;
+
+  constructor(private output: Writable) {}
+
+  /**
+   * Number of files added so far
+   */
+  get entryCount(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Add a file. Names use forward slashes for folders, e.g. "Group 1/IMG_0001.jpg".
+   */
+  async addFile(name: string, data: Buffer, modifiedAt: Date = new Date()): Promise<void> {
+    if (this.finished) {
+      throw new ZipStreamError("Cannot add files to a finished archive");
+    }
+    if (data.length >= MAX_UINT32) {
+      throw new ZipStreamError(`${name} is too large to add to the archive`);
+    }
+
+    const nameBytes = Buffer.from(name, "utf8");
+    const crc = crc32(data);
+    const { dosTime, dosDate } = toDosDateTime(modifiedAt);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0);
+    header.writeUInt16LE(VERSION_DEFAULT, 4);
+    header.writeUInt16LE(FLAG_UTF8_NAMES, 6);
+    header.writeUInt16LE(METHOD_STORED, 8);
+    header.writeUInt16LE(dosTime, 10);
+    header.writeUInt16LE(dosDate, 12);
+    header.writeUInt32LE(crc, 14);
+    header.writeUInt32LE(data.length, 18); // compressed size
+    header.writeUInt32LE(data.length, 22); // uncompressed size
+    header.writeUInt16LE(nameBytes.length, 26);
+    header.writeUInt16LE(0, 28); // extra field length
+
+    this.entries.push({ name: nameBytes, crc, size: data.length, offset: this.offset, dosTime, dosDate });
+
+    await this.write(header);
+    await this.write(nameBytes);
+    await this.write(data);
+  }
+
+  /**
+   * Write the central directory and end the output stream
+   */
+  async finish(): Promise<void> {
+    if (this.finished) return;
+    this.finished = true;
+
+    const centralDirectoryOffset = this.offset;
+    for (const entry of this.entries) {
+      await this.write(this.centralDirectoryHeader(entry));
+    }
+    const centralDirectorySize = this.offset - centralDirectoryOffset;
+
+    const needsZip64 =
+      this.entries.length >= MAX_UINT16 ||
+      centralDirectoryOffset >= MAX_UINT32 ||
+      centralDirectorySize >= MAX_UINT32;
+
+    if (needsZip64) {
+      const zip64EndOffset = this.offset;
+      await this.write(this.zip64EndOfCentralDirectory(centralDirectoryOffset, centralDirectorySize));
+      await this.write(this.zip64EndOfCentralDirectoryLocator(zip64EndOffset));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+    end.writeUInt16LE(0, 4); // this disk
+    end.writeUInt16LE(0, 6); // disk with the central directory
+    end.writeUInt16LE(Math.min(this.entries.length, MAX_UINT16), 8);
+    end.writeUInt16LE(Math.min(this.entries.length, MAX_UINT16), 10);
+    end.writeUInt32LE(Math.min(centralDirectorySize, MAX_UINT32), 12);
+    end.writeUInt32LE(Math.min(centralDirectoryOffset, MAX_UINT32), 16);
+    end.writeUInt16LE(0, 20); // comment length
+    await this.write(end);
+
+    this.output.end();
+  }
+
+  private centralDirectoryHeader(entry: CentralDirectoryEntry): Buffer {
+    // Only the offset can outgrow 32 bits; single entries are capped below 4 GB
+    const zip64Offset = entry.offset >= MAX_UINT32;
+    const extra = Buffer.alloc(zip64Offset ? 12 : 0);
+    if (zip64Offset) {
+      extra.writeUInt16LE(ZIP64_EXTRA_FIELD_ID, 0);
+      extra.writeUInt16LE(8, 2);
+      extra.writeBigUInt64LE(BigInt(entry.offset), 4);
+    }
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0);
+    header.writeUInt16LE(MADE_BY_UNIX | VERSION_ZIP64, 4);
+    header.writeUInt16LE(zip64Offset ? VERSION_ZIP64 : VERSION_DEFAULT, 6);
+    header.writeUInt16LE(FLAG_UTF8_NAMES, 8);
+    header.writeUInt16LE(METHOD_STORED, 10);
+    header.writeUInt16LE(entry.dosTime, 12);
+    header.writeUInt16LE(entry.dosDate, 14);
+    header.writeUInt32LE(entry.crc, 16);
+    header.writeUInt32LE(entry.size, 20);
+    header.writeUInt32LE(entry.size, 24);
+    header.writeUInt16LE(entry.name.length, 28);
+    header.writeUInt16LE(extra.length, 30);
+    header.writeUInt16LE(0, 32); // comment length
+    header.writeUInt16LE(0, 34); // disk number start
+    header.writeUInt16LE(0, 36); // internal attributes
+    header.writeUInt32LE((UNIX_FILE_MODE << 16) >>> 0, 38);
+    header.writeUInt32LE(zip64Offset ? MAX_UINT32 : entry.offset, 42);
+
+    return Buffer.concat([header, entry.name, extra]);
+  }
+
+  private zip64EndOfCentralDirectory(centralDirectoryOffset: number, centralDirectorySize: number): Buffer {
+    const record = Buffer.alloc(56);
+    record.writeUInt32LE(ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+    record.writeBigUInt64LE(BigInt(56 - 12), 4); // size of the rest of the record
+    record.writeUInt16LE(MADE_BY_UNIX | VERSION_ZIP64, 12);
+    record.writeUInt16LE(VERSION_ZIP64, 14);
+    record.writeUInt32LE(0, 16); // this disk
+    record.writeUInt32LE(0, 20); // disk with the central directory
+    record.writeBigUInt64LE(BigInt(this.entries.length), 24);
+    record.writeBigUInt64LE(BigInt(this.entries.length), 32);
+    record.writeBigUInt64LE(BigInt(centralDirectorySize), 40);
+    record.writeBigUInt64LE(BigInt(centralDirectoryOffset), 48);
+    return record;
+  }
+
+  private zip64EndOfCentralDirectoryLocator(zip64EndOffset: number): Buffer {
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIGNATURE, 0);
+    locator.writeUInt32LE(0, 4); // disk with the ZIP64 end record
+    locator.writeBigUInt64LE(BigInt(zip64EndOffset), 8);
+    locator.writeUInt32LE(1, 16); // total disks
+    return locator;
+  }
+
+  // Respect backpressure so a slow download doesn't buffer the whole archive in memory
+  private async write(chunk: Buffer): Promise<void> {
+    if (this.output.destroyed) {
+      throw new ZipStreamError("The output stream was closed");
+    }
+    this.offset += chunk.length;
+    if (!this.output.write(chunk)) {
+      // Whichever comes first; the other listener is removed so they don't pile up
+      const settled = new AbortController();
+      try {
+        await Promise.race([
+          once(this.output, 'drain', { signal: settled.signal }),
+          once(this.output, 'close', { signal: settled.signal }),
+        ]);
+      } finally {
+        settled.abort();
+      }
+    }
+  }
+}
@@ -2,14 +2,18 @@ import { sql } from 'drizzle-orm';
 import { relations } from 'drizzle-orm';
 import {
   index,
+  uniqueIndex,
   jsonb,
   pgTable,
   timestamp,
   varchar,
   integer,
   decimal,
+  real,
+  doublePrecision,
   boolean,
   text,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -32,6 +36,7 @@ export const users = pgTable("users", {
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
+  scoringProfileId: varchar("scoring_profile_id", { length: 100 }), // default scoring profile: built-in key or scoring_profiles id
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -41,12 +46,15 @@ export const photoSessions = pgTable("photo_sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
   name: varchar("name", { length: 255 }),
-  status: varchar("status", { length: 50 }).default("uploading").notNull(), // uploading, analyzing, completed, failed
+  description: text("description"),
+  status: varchar("status", { length: 50 }).default("uploading").notNull(), // uploading, analyzing, grouping, paused, completed, failed, cancelled
   photoCount: integer("photo_count").default(0).notNull(),
   bestPhotoId: varchar("best_photo_id"),
   bulkMode: boolean("bulk_mode").default(false).notNull(),
   targetGroupSize: integer("target_group_size").default(5).notNull(),
-  groupingAlgorithm: varchar("grouping_algorithm", { length: 50 }).default("temporal_similarity").notNull(),
+  groupingAlgorithm: varchar("grouping_algorithm", { length: 50 }).default("temporal_similarity").notNull(), // one of GROUPING_ALGORITHMS
+  bulkSettings: jsonb("bulk_settings"), // {similarityThreshold, enableFaceDetection, enableQualityAnalysis}
+  scoringProfileId: varchar("scoring_profile_id", { length: 100 }), // overrides the user's default scoring profile
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => [
@@ -61,7 +69,8 @@ export const photos = pgTable("photos", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   sessionId: varchar("session_id").references(() => photoSessions.id, { onDelete: "cascade" }).notNull(),
   fileUrl: varchar("file_url", { length: 500 }).notNull(),
-  thumbnailUrl: varchar("thumbnail_url", { length: 500 }),
+  thumbnailUrl: varchar("thumbnail_url", { length: 500 }), // Small JPEG rendition for grids
+  previewUrl: varchar("preview_url", { length: 500 }), // Medium JPEG rendition for viewers
   originalFilename: varchar("original_filename", { length: 255 }),
   fileSize: integer("file_size"),
   width: integer("width"),
@@ -70,17 +79,41 @@ export const photos = pgTable("photos", {
   isSelectedBest: boolean("is_selected_best").default(false).notNull(),
   qualityScore: decimal("quality_score", { precision: 5, scale: 2 }), // 0-100 score
   analysisData: jsonb("analysis_data"), // Store complete analysis results
+  analysisStatus: varchar("analysis_status", { length: 50 }).default("pending").notNull(), // pending, analyzing, analyzed, failed
+  analysisError: text("analysis_error"), // Last analysis failure message, cleared on retry
+  contentHash: varchar("content_hash", { length: 64 }), // SHA-256 of the stored file, set at upload or first analysis
+  perceptualHash: varchar("perceptual_hash", { length: 16 }), // 64-bit dHash (hex), set at upload
+  duplicateOfPhotoId: varchar("duplicate_of_photo_id").references((): AnyPgColumn => photos.id, { onDelete: "set null" }), // earlier photo this one duplicates, flagged at upload
+  duplicateKind: varchar("duplicate_kind", { length: 20 }), // exact, near; cleared when the user keeps the photo
+  // EXIF metadata, read at upload time
+  capturedAt: timestamp("captured_at"), // DateTimeOriginal in UTC (wall-clock time when the file has no offset)
+  cameraMake: varchar("camera_make", { length: 100 }),
+  cameraModel: varchar("camera_model", { length: 100 }),
+  focalLength: real("focal_length"), // mm
+  exposureTime: real("exposure_time"), // seconds
+  fNumber: real("f_number"),
+  iso: integer("iso"),
+  orientation: integer("orientation"), // EXIF orientation 1-8 of the original file; stored files are already upright
+  gpsLatitude: doublePrecision("gps_latitude"),
+  gpsLongitude: doublePrecision("gps_longitude"),
+  isComposite: boolean("is_composite").default(false).notNull(), // generated from other frames, not uploaded
+  compositeSource: jsonb("composite_source"), // CompositeSource for composites
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => [
   index("idx_photos_session_id").on(table.sessionId),
+  index("idx_photos_captured_at").on(table.capturedAt),
   index("idx_photos_upload_order").on(table.uploadOrder),
   index("idx_photos_is_selected_best").on(table.isSelectedBest),
+  index("idx_photos_analysis_status").on(table.analysisStatus),
+  index("idx_photos_content_hash").on(table.contentHash),
+  index("idx_photos_duplicate_of_photo_id").on(table.duplicateOfPhotoId),
 ]);
 
 // Faces Table (detected faces in each photo)
 export const faces = pgTable("faces", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   photoId: varchar("photo_id").references(() => photos.id, { onDelete: "cascade" }).notNull(),
+  faceIndex: integer("face_index"), // detection order within the photo; matches the analysis faceId
   personIndex: integer("person_index"), // for grouping same person across photos
   boundingBox: jsonb("bounding_box"), // {x, y, width, height}
   landmarks: jsonb("landmarks"), // facial landmarks coordinates
@@ -89,7 +122,7 @@ export const faces = pgTable("faces", {
   smileDetected: boolean("smile_detected"),
   smileConfidence: decimal("smile_confidence", { precision: 5, scale: 2 }),
   expression: varchar("expression", { length: 50 }), // happy, neutral, sad, surprised
-  headAngle: jsonb("head_angle"), // {pitch, yaw, roll}
+  headAngle: jsonb("head_angle"), // {pitch, yaw, roll} in degrees, estimated from landmarks
   qualityScore: decimal("quality_score", { precision: 5, scale: 2 }),
   excluded: boolean("excluded").default(false).notNull(), // user can exclude faces from analysis
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -126,6 +159,8 @@ export const photoGroups = pgTable("photo_groups", {
   timeWindowStart: timestamp("time_window_start"),
   timeWindowEnd: timestamp("time_window_end"),
   bestPhotoId: varchar("best_photo_id").references(() => photos.id, { onDelete: "set null" }),
+  algorithm: varchar("algorithm", { length: 50 }), // clustering strategy behind an auto group; null for manual groups
+  algorithmParams: jsonb("algorithm_params"), // options that strategy ran with
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => [
   index("idx_photo_groups_session_id").on(table.sessionId),
@@ -165,10 +200,132 @@ export const emailCampaigns = pgTable("email_campaigns", {
   index("idx_email_campaigns_type").on(table.campaignType),
 ]);
 
+// Analysis Jobs Table (durable queue for long-running analysis/grouping work)
+export const analysisJobs = pgTable("analysis_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => photoSessions.id, { onDelete: "cascade" }).notNull(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  type: varchar("type", { length: 50 }).notNull(), // analyze, group-analyze
+  status: varchar("status", { length: 50 }).default("queued").notNull(), // queued, running, paused, completed, failed, cancelled
+  payload: jsonb("payload"), // Request options (face selections, grouping options)
+  checkpoint: jsonb("checkpoint"), // Work already done, so a restarted job can resume
+  result: jsonb("result"),
+  error: text("error"),
+  attempts: integer("attempts").default(0).notNull(),
+  maxAttempts: integer("max_attempts").default(3).notNull(),
+  runAfter: timestamp("run_after").defaultNow().notNull(), // Retry backoff
+  lockedBy: varchar("locked_by"), // Worker currently running the job
+  lockedAt: timestamp("locked_at"), // Worker heartbeat; stale locks are requeued
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_analysis_jobs_session_id").on(table.sessionId),
+  index("idx_analysis_jobs_status_run_after").on(table.status, table.runAfter),
+  // At most one unfinished analysis job per session
+  uniqueIndex("idx_analysis_jobs_active_analysis")
+    .on(table.sessionId)
+    .where(sql`${table.status} IN ('queued', 'running', 'paused') AND ${table.type} IN ('analyze', 'group-analyze')`),
+  // ...and at most one unfinished renditions job
+  uniqueIndex("idx_analysis_jobs_active_renditions")
+    .on(table.sessionId)
+    .where(sql`${table.status} IN ('queued', 'running', 'paused') AND ${table.type} = 'renditions'`),
+]);
+
+// Scoring Profiles Table (user-defined weights and thresholds for best-photo selection)
+export const scoringProfiles = pgTable("scoring_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  settings: jsonb("settings").notNull(), // ScoringProfileSettings
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_scoring_profiles_user_id").on(table.userId),
+]);
+
+// Progress Entries Table (shared progress store, see server/progressStore.ts)
+export const progressEntries = pgTable("progress_entries", {
+  key: varchar("key", { length: 255 }).primaryKey(), // e.g. job:<jobId>, bulk:<sessionId>
+  data: jsonb("data").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_progress_entries_expires_at").on(table.expiresAt),
+]);
+
+// Session Members Table (collaborators invited to another user's session; the owner is photoSessions.userId)
+export const sessionMembers = pgTable("session_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => photoSessions.id, { onDelete: "cascade" }).notNull(),
+  email: varchar("email", { length: 255 }).notNull(), // invited address, lowercased
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }), // set when the invitation is accepted
+  role: varchar("role", { length: 20 }).notNull(), // editor, viewer
+  inviteToken: varchar("invite_token", { length: 64 }), // cleared once accepted
+  invitedBy: varchar("invited_by").references(() => users.id, { onDelete: "set null" }),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_session_members_session_email").on(table.sessionId, table.email),
+  uniqueIndex("idx_session_members_invite_token").on(table.inviteToken),
+  index("idx_session_members_user_id").on(table.userId),
+]);
+
+// Share Links Table (revocable public links to a session album, a group or a single photo)
+export const shareLinks = pgTable("share_links", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  sessionId: varchar("session_id").references(() => photoSessions.id, { onDelete: "cascade" }).notNull(),
+  targetType: varchar("target_type", { length: 20 }).notNull(), // session, group, photo
+  groupId: varchar("group_id").references(() => photoGroups.id, { onDelete: "cascade" }), // for group links
+  photoId: varchar("photo_id").references(() => photos.id, { onDelete: "cascade" }), // for photo links
+  token: varchar("token", { length: 64 }).notNull(),
+  passwordHash: varchar("password_hash", { length: 255 }), // scrypt; null for links without a password
+  allowDownload: boolean("allow_download").default(false).notNull(),
+  viewCount: integer("view_count").default(0).notNull(),
+  lastViewedAt: timestamp("last_viewed_at"),
+  expiresAt: timestamp("expires_at"), // null never expires
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_share_links_token").on(table.token),
+  index("idx_share_links_session_id").on(table.sessionId),
+]);
+
+// Share Password Failures Table (wrong share link passwords per link and client, for lockout)
+export const sharePasswordFailures = pgTable("share_password_failures", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shareLinkId: varchar("share_link_id").references(() => shareLinks.id, { onDelete: "cascade" }).notNull(),
+  clientKey: varchar("client_key", { length: 255 }).notNull(), // ip:<address>
+  failures: integer("failures").default(0).notNull(),
+  windowStartedAt: timestamp("window_started_at").defaultNow().notNull(), // first failure counted in the current window
+}, (table) => [
+  uniqueIndex("idx_share_password_failures_link_client").on(table.shareLinkId, table.clientKey),
+]);
+
+// Photo Votes Table (likes, rejects and star ratings from collaborators and share-link viewers)
+export const photoVotes = pgTable("photo_votes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  photoId: varchar("photo_id").references(() => photos.id, { onDelete: "cascade" }).notNull(),
+  sessionId: varchar("session_id").references(() => photoSessions.id, { onDelete: "cascade" }).notNull(),
+  voterKey: varchar("voter_key", { length: 255 }).notNull(), // user:<userId> or share:<linkId>:<viewerId>
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }), // signed-in voters
+  shareLinkId: varchar("share_link_id").references(() => shareLinks.id, { onDelete: "cascade" }), // anonymous voters
+  reaction: varchar("reaction", { length: 20 }), // like, reject; null when only rated
+  rating: integer("rating"), // 1-5 stars; null when only reacted
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_photo_votes_photo_voter").on(table.photoId, table.voterKey),
+  index("idx_photo_votes_session_id").on(table.sessionId),
+]);
+
 // Define relations
 export const usersRelations = relations(users, ({ many }) => ({
   sessions: many(photoSessions),
   convertKitSettings: many(convertKitSettings),
+  scoringProfiles: many(scoringProfiles),
 }));
 
 export const photoSessionsRelations = relations(photoSessions, ({ one, many }) => ({
@@ -179,6 +336,7 @@ export const photoSessionsRelations = relations(photoSessions, ({ one, many }) =
   photos: many(photos),
   emailCampaigns: many(emailCampaigns),
   photoGroups: many(photoGroups),
+  analysisJobs: many(analysisJobs),
 }));
 
 export const photosRelations = relations(photos, ({ one, many }) => ({
@@ -188,6 +346,7 @@ export const photosRelations = relations(photos, ({ one, many }) => ({
   }),
   faces: many(faces),
   groupMemberships: many(photoGroupMemberships),
+  votes: many(photoVotes),
 }));
 
 export const facesRelations = relations(faces, ({ one }) => ({
@@ -234,8 +393,65 @@ export const emailCampaignsRelations = relations(emailCampaigns, ({ one }) => ({
   }),
 }));
 
+export const analysisJobsRelations = relations(analysisJobs, ({ one }) => ({
+  session: one(photoSessions, {
+    fields: [analysisJobs.sessionId],
+    references: [photoSessions.id],
+  }),
+  user: one(users, {
+    fields: [analysisJobs.userId],
+    references: [users.id],
+  }),
+}));
+
+export const sessionMembersRelations = relations(sessionMembers, ({ one }) => ({
+  session: one(photoSessions, {
+    fields: [sessionMembers.sessionId],
+    references: [photoSessions.id],
+  }),
+  user: one(users, {
+    fields: [sessionMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const shareLinksRelations = relations(shareLinks, ({ one }) => ({
+  session: one(photoSessions, {
+    fields: [shareLinks.sessionId],
+    references: [photoSessions.id],
+  }),
+  user: one(users, {
+    fields: [shareLinks.userId],
+    references: [users.id],
+  }),
+}));
+
+export const photoVotesRelations = relations(photoVotes, ({ one }) => ({
+  photo: one(photos, {
+    fields: [photoVotes.photoId],
+    references: [photos.id],
+  }),
+  session: one(photoSessions, {
+    fields: [photoVotes.sessionId],
+    references: [photoSessions.id],
+  }),
+}));
+
+export const scoringProfilesRelations = relations(scoringProfiles, ({ one }) => ({
+  user: one(users, {
+    fields: [scoringProfiles.userId],
+    references: [users.id],
+  }),
+}));
+
+// Clustering strategies a session can group its photos with
+export const GROUPING_ALGORITHMS = ['temporal_similarity', 'time_gap', 'dbscan'] as const;
+export type GroupingAlgorithm = typeof GROUPING_ALGORITHMS[number];
+
 // Zod schemas for validation
-export const insertPhotoSessionSchema = createInsertSchema(photoSessions).omit({
+export const insertPhotoSessionSchema = createInsertSchema(photoSessions, {
+  groupingAlgorithm: z.enum(GROUPING_ALGORITHMS).optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -279,6 +495,90 @@ export const insertPhotoGroupMembershipSchema = createInsertSchema(photoGroupMem
   createdAt: true,
 });
 
+export const insertAnalysisJobSchema = createInsertSchema(analysisJobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const scoringProfileSettingsSchema = z.object({
+  faceWeights: z.object({
+    eyesOpen: z.number().min(0).max(100),
+    smile: z.number().min(0).max(100),
+    expression: z.number().min(0).max(100),
+    detection: z.number().min(0).max(100),
+  }),
+  photoWeights: z.object({
+    eyesOpen: z.number().min(0).max(100),
+    smile: z.number().min(0).max(100),
+    faceQuality: z.number().min(0).max(100),
+  }),
+  thresholds: z.object({
+    eyeAspectRatio: z.number().min(0.05).max(0.5),
+    smile: z.number().min(0).max(1),
+  }),
+  selection: z.object({
+    peopleTolerance: z.number().int().min(0).max(10),
+    tieBreakerWeights: z.object({
+      smile: z.number().min(0).max(100),
+      faceQuality: z.number().min(0).max(100),
+    }),
+  }),
+});
+
+export const insertScoringProfileSchema = createInsertSchema(scoringProfiles, {
+  name: z.string().trim().min(1).max(100),
+  settings: scoringProfileSettingsSchema,
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// What each person in a session may do: owners everything, editors regroup, mark best and
+// analyze, viewers browse and vote. Only editor and viewer are stored; owner is the session's userId.
+export const SESSION_ROLES = ['owner', 'editor', 'viewer'] as const;
+export type SessionRole = typeof SESSION_ROLES[number];
+export const SESSION_MEMBER_ROLES = ['editor', 'viewer'] as const;
+export type SessionMemberRole = typeof SESSION_MEMBER_ROLES[number];
+
+export const insertSessionMemberSchema = createInsertSchema(sessionMembers, {
+  email: z.string().trim().toLowerCase().email(),
+  role: z.enum(SESSION_MEMBER_ROLES),
+}).omit({
+  id: true,
+  acceptedAt: true,
+  createdAt: true,
+});
+
+// What a share link exposes: the whole session album, one group, or one photo
+export const SHARE_TARGET_TYPES = ['session', 'group', 'photo'] as const;
+export type ShareTargetType = typeof SHARE_TARGET_TYPES[number];
+
+export const insertShareLinkSchema = createInsertSchema(shareLinks, {
+  targetType: z.enum(SHARE_TARGET_TYPES),
+}).omit({
+  id: true,
+  viewCount: true,
+  lastViewedAt: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
+// A vote reacts to a photo, rates it, or both
+export const PHOTO_VOTE_REACTIONS = ['like', 'reject'] as const;
+export type PhotoVoteReaction = typeof PHOTO_VOTE_REACTIONS[number];
+export const PHOTO_RATING_MAX = 5;
+
+export const insertPhotoVoteSchema = createInsertSchema(photoVotes, {
+  reaction: z.enum(PHOTO_VOTE_REACTIONS).nullable().optional(),
+  rating: z.number().int().min(1).max(PHOTO_RATING_MAX).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 // TypeScript types
 export type User = typeof users.$inferSelect;
 export type UpsertUser = typeof users.$inferInsert;
@@ -304,6 +604,33 @@ export type InsertPhotoGroup = z.infer<typeof insertPhotoGroupSchema>;
 export type PhotoGroupMembership = typeof photoGroupMemberships.$inferSelect;
 export type InsertPhotoGroupMembership = z.infer<typeof insertPhotoGroupMembershipSchema>;
 
+export type AnalysisJob = typeof analysisJobs.$inferSelect;
+export type InsertAnalysisJob = z.infer<typeof insertAnalysisJobSchema>;
+
+export type SessionMember = typeof sessionMembers.$inferSelect;
+export type InsertSessionMember = z.infer<typeof insertSessionMemberSchema>;
+
+export type ShareLink = typeof shareLinks.$inferSelect;
+export type InsertShareLink = z.infer<typeof insertShareLinkSchema>;
+
+export type SharePasswordFailure = typeof sharePasswordFailures.$inferSelect;
+
+export type PhotoVote = typeof photoVotes.$inferSelect;
+export type InsertPhotoVote = z.infer<typeof insertPhotoVoteSchema>;
+
+export type ScoringProfile = typeof scoringProfiles.$inferSelect;
+export type InsertScoringProfile = z.infer<typeof insertScoringProfileSchema>;
+
+// Points are out of 100 for faceWeights and photoWeights; a profile need not sum to exactly 100
+export type ScoringProfileSettings = z.infer<typeof scoringProfileSettingsSchema>;
+
+// The profile an analysis was scored with, recorded in analysisData
+export interface AppliedScoringProfile {
+  id: string; // built-in key or scoring_profiles id
+  name: string;
+  settings: ScoringProfileSettings;
+}
+
 // Additional types for bulk operations
 export interface BulkSessionOptions {
   targetGroupSize?: number;
@@ -311,10 +638,17 @@ export interface BulkSessionOptions {
   [key: string]: any;
 }
 
+export interface BulkSessionSettings {
+  similarityThreshold?: number;
+  enableFaceDetection?: boolean;
+  enableQualityAnalysis?: boolean;
+}
+
 // Analysis result types (not stored in DB, used for API responses)
 export interface FaceAnalysis {
   faceId: string;
-  personIndex: number;
+  personIndex: number; // same person across a session's photos once faces are identified
+  descriptor?: number[]; // 128-d face recognition descriptor; absent for older analyses
   boundingBox: {
     x: number;
     y: number;
@@ -344,25 +678,91 @@ export interface FaceAnalysis {
       yaw: number; // -90 to 90
       roll: number; // -180 to 180
     };
+    lookingAway?: boolean; // head turned past the pose limits; absent for older analyses
   };
+  sharpness?: number; // 0-1 Laplacian-variance score of the face crop; absent for tiny faces and older analyses
   qualityScore: number; // 0-100
+  scoreBreakdown?: FaceScoreBreakdown; // absent for older analyses
+}
+
+// Components of a face's qualityScore: (eyesOpen + smile + expression + detection, capped at 100)
+// × sharpnessFactor × headPoseFactor
+export interface FaceScoreBreakdown {
+  eyesOpen: number; // points
+  smile: number;
+  expression: number;
+  detection: number;
+  sharpnessFactor: number; // multiplier, 1 when sharpness couldn't be measured
+  headPoseFactor: number;
+}
+
+// Components of a photo's overallQualityScore: (eyesOpen + smile + faceQuality) × sharpnessFactor
+export interface PhotoScoreBreakdown {
+  eyesOpen: number; // points for the share of faces with eyes open
+  smile: number; // points for the share of faces smiling
+  faceQuality: number; // points for the average face score
+  sharpnessFactor: number;
+}
+
+// Where a photo stood in best-photo selection. tier is the step that decided it: for the
+// winner the step that beat the runner-up, for every other photo the step it lost at.
+export interface BestPhotoSelection {
+  isBest: boolean;
+  tier: 'only-candidate' | 'people-count' | 'eyes-open' | 'tie-breaker' | 'votes';
+  peopleCount: number;
+  maxPeopleCount: number; // most people found in any candidate photo
+  minPeopleCount: number; // fewest people a photo may have and stay in the running
+  eyesOpenCount: number; // people with eyes open
+  tieBreaker: {
+    smile: number; // points
+    faceQuality: number;
+    total: number;
+  };
+  voteScore?: number; // net votes, used when smiles and face quality tie; absent when nobody voted
+  bestPhotoId: string | null;
 }
 
 export interface PhotoAnalysisResult {
   photoId: string;
   faces: FaceAnalysis[];
   overallQualityScore: number;
+  sharpness?: number; // 0-1 score of the whole frame; absent for older analyses
+  excludedFaces?: FaceAnalysis[]; // faces the user excluded from scoring, kept so they can be re-included
   issues: {
     closedEyes: number;
     poorExpressions: number;
     blurryFaces: number;
+    lookingAway?: number; // absent for older analyses
   };
   recommendation: 'best' | 'good' | 'acceptable' | 'poor';
+  scoringProfile?: AppliedScoringProfile; // absent for analyses scored before profiles existed
+  scoreBreakdown?: PhotoScoreBreakdown; // absent for older analyses and photos without faces
+  selection?: BestPhotoSelection; // set once best-photo selection has run over the photo's set
+  analysisStamp?: AnalysisStamp; // absent for analyses made before incremental re-analysis
+}
+
+// What an analysis was computed from; a cached analysis is reused only while all of it still matches
+export interface AnalysisStamp {
+  version: number; // ANALYSIS_VERSION of the analysis code
+  models: string; // fingerprint of the face-api model manifests
+  contentHash: string; // SHA-256 of the photo's stored file
+  scoringProfile: string; // fingerprint of the scoring profile settings
+  faceSelections: string | null; // fingerprint of the face selections applied, null when none were given
 }
 
 export interface SessionAnalysisResult {
   sessionId: string;
   photos: PhotoAnalysisResult[];
   bestPhotoId: string | null;
-  requiresComposite: boolean;
+  requiresComposite: boolean; // the best photo has closed eyes another frame can replace
+}
+
+// How a composite photo was built (stored in photos.compositeSource)
+export interface CompositeSource {
+  basePhotoId: string;
+  groupId?: string;
+  replacements: Array<{
+    personIndex: number;
+    sourcePhotoId: string;
+  }>;
 }